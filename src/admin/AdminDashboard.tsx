@@ -6,6 +6,9 @@ import CustomersTab from './tabs/CustomersTab';
 import OrdersTab from './tabs/OrdersTab';
 import StockDesignsTab from './tabs/StockDesignsTab';
 import InvoiceManagementTab from './tabs/InvoiceManagementTab';
+import WebhookEventsTab from './tabs/WebhookEventsTab';
+import DiscountCodesTab from './tabs/DiscountCodesTab';
+import QuotesTab from './tabs/QuotesTab';
 import OrderDetailsModal from '../components/OrderDetailsModal';
 import { AdminOrder } from './types';
 
@@ -33,6 +36,12 @@ const AdminDashboard: React.FC = () => {
         return <StockDesignsTab />;
       case 'invoices':
         return <InvoiceManagementTab />;
+      case 'quotes':
+        return <QuotesTab />;
+      case 'discounts':
+        return <DiscountCodesTab />;
+      case 'webhooks':
+        return <WebhookEventsTab />;
       default:
         return <OverviewTab onOrderClick={handleOrderClick} />;
     }
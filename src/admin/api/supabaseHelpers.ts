@@ -1,15 +1,25 @@
 import { supabase } from '../../lib/supabase';
 import { getCurrentUser as getSupabaseCurrentUser, getUserProfile as getSupabaseUserProfile } from '../../lib/supabase';
-import { AdminUser, AdminCustomer, AdminOrder, AdminStockDesign, Category, AdminStats, PaginatedResponse, PaginationParams, Invoice, OrderComment } from '../types';
+import { AdminUser, AdminCustomer, AdminOrder, AdminStockDesign, Category, AdminStats, PaginatedResponse, PaginationParams, Invoice, OrderComment, PaymentWebhookEvent, DiscountCode, Quote } from '../types';
 import { notifyAdminsAboutNewEmployee, notifyAdminsAboutNewCustomer, notifyAboutOrderStatusChange, notifyDesignerAboutAssignment, notifyAboutInvoiceCreation } from '../../services/notificationService';
+import { validateOrderStatusTransition, OrderStatusActor } from '../../services/orderStatusService';
+import { sumCreditBalance } from '../../services/creditService';
+import { BASE_CURRENCY } from '../../services/currencyService';
+import { getTurnaroundDueDate } from '../../services/turnaroundService';
+import { getSlaStats } from '../../services/dashboardStatsService';
 
 export const getAdminStats = async (): Promise<AdminStats> => {
   try {
-    const { data, error } = await supabase.rpc('calculate_dashboard_stats');
+    const [{ data, error }, slaStats] = await Promise.all([
+      supabase.rpc('calculate_dashboard_stats'),
+      getSlaStats(),
+    ]);
 
     if (error) throw error;
 
-    return data || {
+    if (data) return { ...data, ...slaStats };
+
+    return {
       totalOrdersThisMonth: 0,
       newCustomersThisMonth: 0,
       totalRevenueThisMonth: 0,
@@ -17,6 +27,8 @@ export const getAdminStats = async (): Promise<AdminStats> => {
       activeStockDesigns: 0,
       newOrdersCount: 0,
       underReviewOrdersCount: 0,
+      slaBreachedOrders: 0,
+      lateCompletionsThisMonth: 0,
     };
   } catch (error) {
     console.error('Error fetching admin stats:', error);
@@ -28,6 +40,8 @@ export const getAdminStats = async (): Promise<AdminStats> => {
       activeStockDesigns: 0,
       newOrdersCount: 0,
       underReviewOrdersCount: 0,
+      slaBreachedOrders: 0,
+      lateCompletionsThisMonth: 0,
     };
   }
 };
@@ -140,11 +154,21 @@ export const getRecentOrders = async (limit: number = 10): Promise<AdminOrder[]>
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
+      turnaround_tier: order.turnaround_tier,
+      due_at: order.due_at,
+      completed_at: order.completed_at,
       status: order.status,
       assigned_sales_rep_id: order.assigned_sales_rep_id,
       assigned_sales_rep_name: order.sales_rep?.full_name,
       assigned_designer_id: order.assigned_designer_id,
       assigned_designer_name: order.designer?.full_name,
+      designer_auto_assigned: order.designer_auto_assigned,
       invoice_url: order.invoice_url,
       edits: order.edits,
       created_at: order.created_at,
@@ -396,7 +420,8 @@ export const getCustomers = async (params: PaginationParams): Promise<PaginatedR
       .select(`
         *,
         company_name,
-        sales_rep:employees!customers_assigned_sales_rep_id_fkey(full_name)
+        sales_rep:employees!customers_assigned_sales_rep_id_fkey(full_name),
+        credit_entries:customer_credit_entries(amount, currency)
       `, { count: 'exact' });
 
     // Apply search filter
@@ -440,9 +465,10 @@ export const getCustomers = async (params: PaginationParams): Promise<PaginatedR
 
     if (error) throw error;
 
-    const transformedData = (data || []).map(customer => ({
+    const transformedData = (data || []).map(({ credit_entries, ...customer }) => ({
       ...customer,
       assigned_sales_rep_name: customer.sales_rep?.full_name,
+      credit_balance: sumCreditBalance(credit_entries || [], customer.billing_currency || BASE_CURRENCY),
     }));
 
     return {
@@ -589,6 +615,15 @@ export const getOrders = async (params: PaginationParams): Promise<PaginatedResp
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
+      turnaround_tier: order.turnaround_tier,
+      due_at: order.due_at,
+      completed_at: order.completed_at,
       total_amount: order.total_amount,
       payment_status: order.payment_status,
       status: order.status,
@@ -596,8 +631,11 @@ export const getOrders = async (params: PaginationParams): Promise<PaginatedResp
       assigned_sales_rep_name: order.sales_rep?.full_name,
       assigned_designer_id: order.assigned_designer_id,
       assigned_designer_name: order.designer?.full_name,
+      designer_auto_assigned: order.designer_auto_assigned,
       invoice_url: order.invoice_url,
       edits: order.edits,
+      requires_approval: order.requires_approval,
+      approved_at: order.approved_at,
       created_at: order.created_at,
       updated_at: order.updated_at,
     }));
@@ -640,7 +678,7 @@ export const updateOrder = async (id: string, orderData: Partial<AdminOrder>): P
     // Get current order to check status and track changes
     const { data: currentOrder, error: fetchError } = await supabase
       .from('orders')
-      .select('status, assigned_designer_id, customer_id, category_id')
+      .select('status, assigned_designer_id, assigned_sales_rep_id, customer_id, category_id, requires_approval, turnaround_tier, order_type, created_at')
       .eq('id', id)
       .single();
 
@@ -648,19 +686,37 @@ export const updateOrder = async (id: string, orderData: Partial<AdminOrder>): P
       throw new Error('Failed to fetch current order status');
     }
 
+    if (currentOrder.requires_approval && orderData.requires_approval !== false &&
+        orderData.status && orderData.status !== currentOrder.status &&
+        orderData.status !== 'new' && orderData.status !== 'cancelled') {
+      throw new Error('This order is awaiting admin approval because the customer is on hold');
+    }
+
     // Validate edit permissions for completed/cancelled orders
     if ((currentOrder.status === 'completed' || currentOrder.status === 'cancelled') &&
         userProfile.role !== 'admin' && userProfile.role !== 'sales_rep') {
       throw new Error('Only administrators and sales representatives can edit completed or cancelled orders');
     }
 
+    if (orderData.status && orderData.status !== currentOrder.status) {
+      validateOrderStatusTransition(
+        currentOrder.status,
+        orderData.status,
+        ('role' in userProfile ? userProfile.role : 'customer') as OrderStatusActor
+      );
+    }
+
     // Validate required fields based on status
     if (orderData.status === 'in_progress' && !orderData.assigned_designer_id && !currentOrder.assigned_designer_id) {
       throw new Error('Cannot set order to "In Progress" without assigning a designer');
     }
 
     if (orderData.status === 'completed') {
-      if (!orderData.assigned_sales_rep_id && userProfile.role !== 'admin') {
+      // A status-only update (such as a board move) keeps the rep already on the order
+      const salesRepId = orderData.assigned_sales_rep_id !== undefined
+        ? orderData.assigned_sales_rep_id
+        : currentOrder.assigned_sales_rep_id;
+      if (!salesRepId && userProfile.role !== 'admin') {
         throw new Error('Cannot complete order without assigning a sales representative');
       }
       if (orderData.total_amount !== undefined && orderData.total_amount <= 0) {
@@ -679,12 +735,22 @@ export const updateOrder = async (id: string, orderData: Partial<AdminOrder>): P
       order_name: orderData.order_name,
       custom_width: orderData.custom_width,
       custom_height: orderData.custom_height,
+      quantity: orderData.quantity,
+      color_count: orderData.color_count,
+      stitch_count: orderData.stitch_count,
       total_amount: orderData.total_amount,
       file_urls: orderData.file_urls,
       status: orderData.status,
       invoice_url: orderData.invoice_url,
+      turnaround_tier: orderData.turnaround_tier,
     };
 
+    // A new tier moves the due date, still counted from when the order was placed
+    if (orderData.turnaround_tier && orderData.turnaround_tier !== currentOrder.turnaround_tier &&
+        currentOrder.order_type !== 'stock_design') {
+      updateData.due_at = getTurnaroundDueDate(orderData.turnaround_tier, currentOrder.created_at);
+    }
+
     // Only include UUID fields if they have valid values
     if (orderData.category_id !== undefined) {
       updateData.category_id = orderData.category_id || null;
@@ -694,6 +760,10 @@ export const updateOrder = async (id: string, orderData: Partial<AdminOrder>): P
     }
     if (orderData.assigned_designer_id !== undefined) {
       updateData.assigned_designer_id = orderData.assigned_designer_id || null;
+      // A designer picked by hand overrides the automatic assignment
+      if (updateData.assigned_designer_id !== currentOrder.assigned_designer_id) {
+        updateData.designer_auto_assigned = false;
+      }
     }
 
     const { data, error } = await supabase
@@ -798,6 +868,15 @@ export const getOrderById = async (id: string): Promise<AdminOrder> => {
       category_name: data.category?.category_name,
       custom_width: data.custom_width,
       custom_height: data.custom_height,
+      quantity: data.quantity,
+      color_count: data.color_count,
+      stitch_count: data.stitch_count,
+      estimated_stitch_count: data.estimated_stitch_count,
+      estimated_color_count: data.estimated_color_count,
+      complexity_band: data.complexity_band,
+      turnaround_tier: data.turnaround_tier,
+      due_at: data.due_at,
+      completed_at: data.completed_at,
       total_amount: data.total_amount,
       payment_status: data.payment_status,
       status: data.status,
@@ -805,6 +884,7 @@ export const getOrderById = async (id: string): Promise<AdminOrder> => {
       assigned_sales_rep_name: data.sales_rep?.full_name,
       assigned_designer_id: data.assigned_designer_id,
       assigned_designer_name: data.designer?.full_name,
+      designer_auto_assigned: data.designer_auto_assigned,
       invoice_url: data.invoice_url,
       edits: data.edits,
       created_at: data.created_at,
@@ -969,6 +1049,173 @@ export const createCategory = async (categoryData: Partial<Category>): Promise<C
 };
 
 
+// Discount Codes
+export const getDiscountCodes = async (params: PaginationParams): Promise<PaginatedResponse<DiscountCode>> => {
+  try {
+    let query = supabase
+      .from('discount_codes')
+      .select(`
+        *,
+        category:categories(category_name),
+        stock_design:stock_designs(title),
+        redemptions:discount_redemptions(discount_amount)
+      `, { count: 'exact' });
+
+    if (params.search) {
+      query = query.or(`code.ilike.%${params.search}%,description.ilike.%${params.search}%`);
+    }
+
+    if (params.discountActive) {
+      query = query.eq('is_active', params.discountActive === 'active');
+    }
+
+    const sortBy = params.sortBy || 'created_at';
+    const sortOrder = params.sortOrder || 'desc';
+    query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+
+    const from = (params.page - 1) * params.limit;
+    const to = from + params.limit - 1;
+    query = query.range(from, to);
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const transformedData = (data || []).map(({ redemptions, ...discountCode }) => ({
+      ...discountCode,
+      category_name: discountCode.category?.category_name,
+      stock_design_title: discountCode.stock_design?.title,
+      redemption_count: (redemptions || []).length,
+      total_discounted: (redemptions || []).reduce(
+        (sum: number, redemption: { discount_amount: number }) => sum + Number(redemption.discount_amount),
+        0
+      ),
+    }));
+
+    return {
+      data: transformedData,
+      total: count || 0,
+      page: params.page,
+      limit: params.limit,
+      totalPages: Math.ceil((count || 0) / params.limit),
+    };
+  } catch (error) {
+    console.error('Error fetching discount codes:', error);
+    throw error;
+  }
+};
+
+export const createDiscountCode = async (discountCodeData: Partial<DiscountCode>): Promise<DiscountCode> => {
+  try {
+    const currentUser = await getSupabaseCurrentUser();
+
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .insert([{
+        ...discountCodeData,
+        created_by: currentUser?.id || null,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating discount code:', error);
+    throw error;
+  }
+};
+
+export const updateDiscountCode = async (id: string, discountCodeData: Partial<DiscountCode>): Promise<DiscountCode> => {
+  try {
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .update({
+        ...discountCodeData,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating discount code:', error);
+    throw error;
+  }
+};
+
+export const deleteDiscountCode = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('discount_codes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting discount code:', error);
+    throw error;
+  }
+};
+
+// Quotes
+export const getQuotes = async (params: PaginationParams): Promise<PaginatedResponse<Quote>> => {
+  try {
+    let query = supabase
+      .from('quotes')
+      .select(`
+        *,
+        category:categories(category_name),
+        sales_rep:employees!quotes_assigned_sales_rep_id_fkey(full_name),
+        order:orders(order_number)
+      `, { count: 'exact' });
+
+    if (params.search) {
+      query = query.or(`quote_number.ilike.%${params.search}%,full_name.ilike.%${params.search}%,email.ilike.%${params.search}%`);
+    }
+
+    if (params.quoteStage) {
+      query = query.eq('stage', params.quoteStage);
+    }
+
+    if (params.salesRepId) {
+      query = query.eq('assigned_sales_rep_id', params.salesRepId);
+    }
+
+    const sortBy = params.sortBy || 'created_at';
+    const sortOrder = params.sortOrder || 'desc';
+    query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+
+    const from = (params.page - 1) * params.limit;
+    const to = from + params.limit - 1;
+    query = query.range(from, to);
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const transformedData = (data || []).map(({ category, sales_rep, order, ...quote }) => ({
+      ...quote,
+      category_name: category?.category_name,
+      assigned_sales_rep_name: sales_rep?.full_name,
+      order_number: order?.order_number,
+    }));
+
+    return {
+      data: transformedData,
+      total: count || 0,
+      page: params.page,
+      limit: params.limit,
+      totalPages: Math.ceil((count || 0) / params.limit),
+    };
+  } catch (error) {
+    console.error('Error fetching quotes:', error);
+    throw error;
+  }
+};
+
 // Sales Reps and Designers
 export const getSalesReps = async (): Promise<AdminUser[]> => {
   try {
@@ -1102,6 +1349,64 @@ export const getInvoices = async (params: PaginationParams): Promise<PaginatedRe
   }
 };
 
+export const getPaymentWebhookEvents = async (params: PaginationParams): Promise<PaginatedResponse<PaymentWebhookEvent>> => {
+  try {
+    let query = supabase
+      .from('payment_webhook_events')
+      .select(`
+        *,
+        invoice:invoices(invoice_title)
+      `, { count: 'exact' });
+
+    if (params.search) {
+      query = query.or(`event_key.ilike.%${params.search}%,reference.ilike.%${params.search}%,event_type.ilike.%${params.search}%`);
+    }
+
+    if (params.webhookStatus) {
+      query = query.eq('status', params.webhookStatus);
+    }
+
+    if (params.webhookGateway) {
+      query = query.eq('gateway', params.webhookGateway);
+    }
+
+    if (params.dateFrom) {
+      query = query.gte('received_at', params.dateFrom);
+    }
+    if (params.dateTo) {
+      query = query.lte('received_at', params.dateTo);
+    }
+
+    const sortBy = params.sortBy || 'received_at';
+    const sortOrder = params.sortOrder || 'desc';
+    query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+
+    const from = (params.page - 1) * params.limit;
+    const to = from + params.limit - 1;
+    query = query.range(from, to);
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const transformedData = (data || []).map(event => ({
+      ...event,
+      invoice_title: event.invoice?.invoice_title,
+    }));
+
+    return {
+      data: transformedData,
+      total: count || 0,
+      page: params.page,
+      limit: params.limit,
+      totalPages: Math.ceil((count || 0) / params.limit),
+    };
+  } catch (error) {
+    console.error('Error fetching payment webhook events:', error);
+    throw error;
+  }
+};
+
 export const createInvoice = async (invoiceData: Partial<Invoice>): Promise<Invoice> => {
   try {
     const { data, error } = await supabase
@@ -1149,7 +1454,9 @@ export const updateInvoice = async (id: string, invoiceData: Partial<Invoice>):
 
         // Set payment status of newly included orders based on invoice status
         if (invoiceData.order_ids.length > 0) {
-          const paymentStatus = invoiceData.status === 'paid' ? 'paid' : 'unpaid';
+          const paymentStatus = invoiceData.status === 'paid' || invoiceData.status === 'partially_paid'
+            ? invoiceData.status
+            : 'unpaid';
           await supabase
             .from('orders')
             .update({ payment_status: paymentStatus })
@@ -1249,6 +1556,12 @@ export const getOrdersByIds = async (orderIds: string[]): Promise<AdminOrder[]>
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
       total_amount: order.total_amount,
       status: order.status,
       assigned_sales_rep_id: order.assigned_sales_rep_id,
@@ -1298,6 +1611,12 @@ export const getAllCustomerOrders = async (customerId: string): Promise<AdminOrd
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
       total_amount: order.total_amount,
       status: order.status,
       assigned_sales_rep_id: order.assigned_sales_rep_id,
@@ -1314,11 +1633,11 @@ export const getAllCustomerOrders = async (customerId: string): Promise<AdminOrd
     return [];
   }
 };
-export const getCustomersForInvoice = async (): Promise<{ id: string; full_name: string; email: string }[]> => {
+export const getCustomersForInvoice = async (): Promise<{ id: string; full_name: string; email: string; tax_region: string | null; tax_exempt: boolean; billing_currency: string }[]> => {
   try {
     const { data, error } = await supabase
       .from('customers')
-      .select('id, full_name, email')
+      .select('id, full_name, email, tax_region, tax_exempt, billing_currency')
       .eq('status', 'active')
       .order('full_name');
 
@@ -1379,7 +1698,16 @@ export const getUnpaidOrdersForCustomer = async (
 
     if (error) throw error;
 
-    return (data || []).map(order => ({
+    // Orders already sitting on a monthly draft are billed when that draft is approved
+    const { data: drafts } = await supabase
+      .from('invoices')
+      .select('order_ids')
+      .eq('customer_id', customerId)
+      .eq('status', 'draft');
+
+    const draftedOrderIds = new Set((drafts || []).flatMap(draft => draft.order_ids || []));
+
+    return (data || []).filter(order => !draftedOrderIds.has(order.id)).map(order => ({
       id: order.id,
       order_number: order.order_number,
       order_name: order.order_name,
@@ -1397,6 +1725,12 @@ export const getUnpaidOrdersForCustomer = async (
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
       total_amount: order.total_amount,
       payment_status: order.payment_status,
       status: order.status,
@@ -1692,6 +2026,15 @@ export const getCustomerOrdersPaginated = async (params: PaginationParams & { cu
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
+      turnaround_tier: order.turnaround_tier,
+      due_at: order.due_at,
+      completed_at: order.completed_at,
       total_amount: order.total_amount,
       payment_status: order.payment_status,
       status: order.status,
@@ -1699,6 +2042,7 @@ export const getCustomerOrdersPaginated = async (params: PaginationParams & { cu
       assigned_sales_rep_name: order.sales_rep?.full_name,
       assigned_designer_id: order.assigned_designer_id,
       assigned_designer_name: order.designer?.full_name,
+      designer_auto_assigned: order.designer_auto_assigned,
       invoice_url: order.invoice_url,
       edits: order.edits,
       created_at: order.created_at,
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Users, ShoppingBag, Package, BarChart3, FileText } from 'lucide-react';
+import { Users, ShoppingBag, Package, BarChart3, FileText, Webhook, Tag, FileQuestion } from 'lucide-react';
 import DashboardLayout from '../../shared/components/DashboardLayout';
 import { getCurrentUser, getUserProfile } from '../../lib/supabase';
 
@@ -45,7 +45,10 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab, onTabCha
     { id: 'customers', label: 'Customers', icon: Users },
     { id: 'orders', label: 'Orders', icon: ShoppingBag },
     { id: 'stockdesigns', label: 'Stock Designs', icon: Package },
+    { id: 'quotes', label: 'Quotes', icon: FileQuestion },
     { id: 'invoices', label: 'Invoices', icon: FileText },
+    { id: 'discounts', label: 'Discount Codes', icon: Tag },
+    { id: 'webhooks', label: 'Webhook Events', icon: Webhook },
   ];
 
   if (loading) {
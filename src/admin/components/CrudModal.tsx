@@ -4,7 +4,7 @@ import { X, Save, Loader } from 'lucide-react';
 interface Field {
   key: string;
   label: string;
-  type: 'text' | 'email' | 'number' | 'select' | 'textarea' | 'checkbox' | 'file';
+  type: 'text' | 'email' | 'number' | 'select' | 'textarea' | 'checkbox' | 'file' | 'date';
   required?: boolean;
   options?: { value: string; label: string }[];
   placeholder?: string;
@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Wallet, Plus } from 'lucide-react';
+import { AdminCustomer, CustomerCreditEntry } from '../types';
+import { toast } from '../../utils/toast';
+import { formatPrice } from '../../services/pricingService';
+import { resolveBillingCurrency } from '../../services/currencyService';
+import {
+  addCustomerCredit,
+  AddCreditParams,
+  CREDIT_ENTRY_KIND_LABELS,
+  fetchCustomerCreditEntries,
+  sumCreditBalance,
+} from '../../services/creditService';
+
+interface CustomerCreditModalProps {
+  isOpen: boolean;
+  customer: AdminCustomer | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const CustomerCreditModal: React.FC<CustomerCreditModalProps> = ({
+  isOpen,
+  customer,
+  onClose,
+  onChanged,
+}) => {
+  const [entries, setEntries] = useState<CustomerCreditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [kind, setKind] = useState<AddCreditParams['kind']>('top_up');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Credit is added in the currency the customer is billed in, which is the balance invoices can spend
+  const currency = resolveBillingCurrency(customer?.billing_currency).currency;
+  const balance = sumCreditBalance(entries, currency);
+  const otherBalances = Array.from(new Set(entries.map(entry => entry.currency)))
+    .filter(code => code !== currency)
+    .map(code => ({ currency: code, balance: sumCreditBalance(entries, code) }))
+    .filter(other => other.balance !== 0);
+
+  const customerId = customer?.id;
+
+  const loadEntries = useCallback(async () => {
+    if (!customerId) return;
+
+    try {
+      setLoading(true);
+      setEntries(await fetchCustomerCreditEntries(customerId));
+    } catch (err) {
+      console.error('Error loading account credit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load account credit');
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setShowForm(false);
+      setError('');
+      loadEntries();
+    }
+  }, [isOpen, loadEntries]);
+
+  const resetForm = () => {
+    setKind('top_up');
+    setAmount('');
+    setReference('');
+    setNotes('');
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (!parsedAmount || (kind === 'top_up' && parsedAmount <= 0)) {
+      setError(kind === 'top_up' ? 'Enter an amount greater than 0.' : 'Enter a non-zero amount.');
+      return;
+    }
+
+    if (balance + parsedAmount < -0.005) {
+      setError(`Adjustment cannot take the balance below zero (available: ${formatPrice(balance, currency)}).`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await addCustomerCredit({
+        customer_id: customer.id,
+        kind,
+        amount: parsedAmount,
+        currency,
+        reference,
+        notes,
+      });
+      toast.success(kind === 'top_up'
+        ? `Added ${formatPrice(parsedAmount, currency)} of account credit`
+        : 'Account credit adjusted');
+      resetForm();
+      await loadEntries();
+      onChanged();
+    } catch (err) {
+      console.error('Error adding account credit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add account credit');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !customer) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Account Credit</h2>
+              <p className="text-sm text-gray-500">{customer.full_name} • {customer.email}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              disabled={submitting}
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Balance */}
+            <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-4">
+              <div className="flex items-center space-x-3">
+                <Wallet className="h-6 w-6 text-green-600" />
+                <div>
+                  <p className="text-sm text-gray-600">Available Balance</p>
+                  <p className="text-2xl font-bold text-green-700">{formatPrice(balance, currency)}</p>
+                  {otherBalances.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Also held: {otherBalances.map(other => formatPrice(other.balance, other.currency)).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {!showForm && (
+                <button
+                  type="button"
+                  onClick={() => setShowForm(true)}
+                  className="btn-primary text-sm flex items-center space-x-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Entry</span>
+                </button>
+              )}
+            </div>
+
+            {/* Top-up / Adjustment */}
+            {showForm && (
+              <form onSubmit={handleSubmit} className="space-y-3 border border-gray-200 rounded-lg p-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+                    <select
+                      value={kind}
+                      onChange={(e) => setKind(e.target.value as AddCreditParams['kind'])}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      disabled={submitting}
+                    >
+                      <option value="top_up">{CREDIT_ENTRY_KIND_LABELS.top_up}</option>
+                      <option value="adjustment">{CREDIT_ENTRY_KIND_LABELS.adjustment}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Amount ({currency})</label>
+                    <input
+                      type="number"
+                      min={kind === 'top_up' ? '0.01' : undefined}
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder={kind === 'adjustment' ? 'Negative to deduct' : ''}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      disabled={submitting}
+                      required
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Reference</label>
+                  <input
+                    type="text"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Transfer ID, receipt number..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={submitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                    disabled={submitting}
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="btn-secondary text-sm"
+                    disabled={submitting}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="btn-primary text-sm"
+                    disabled={submitting}
+                  >
+                    {submitting ? 'Saving...' : kind === 'top_up' ? 'Add Credit' : 'Save Adjustment'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Ledger */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">History</h3>
+              {loading ? (
+                <div className="flex items-center justify-center py-6">
+                  <div className="loading-spinner mr-2"></div>
+                  <span className="text-gray-600 text-sm">Loading credit history...</span>
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">No account credit yet</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="flex items-start justify-between p-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {CREDIT_ENTRY_KIND_LABELS[entry.kind]}
+                          {entry.invoice_title && <span className="font-normal text-gray-500"> • {entry.invoice_title}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(entry.created_at).toLocaleString()}
+                          {entry.reference && entry.kind !== 'consumption' && <> • Ref: {entry.reference}</>}
+                        </p>
+                        {entry.notes && entry.kind !== 'consumption' && (
+                          <p className="text-xs text-gray-600 mt-1">{entry.notes}</p>
+                        )}
+                      </div>
+                      <span className={`text-sm font-semibold ${Number(entry.amount) >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {Number(entry.amount) >= 0 ? '+' : '-'}{formatPrice(Math.abs(Number(entry.amount)), entry.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CustomerCreditModal;
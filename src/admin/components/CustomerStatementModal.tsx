@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, FileSpreadsheet, Loader } from 'lucide-react';
+import { formatPrice } from '../../services/pricingService';
+import { toast } from '../../utils/toast';
+import {
+  AGING_BUCKET_LABELS,
+  CustomerStatement,
+  downloadStatementCsv,
+  fetchCustomerStatement,
+  getDefaultStatementPeriod,
+  StatementPeriod,
+  STATEMENT_ENTRY_LABELS,
+} from '../../services/statementService';
+import { downloadStatementPdf } from '../../services/statementPdfService';
+
+interface CustomerStatementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customerId: string | null;
+}
+
+const CustomerStatementModal: React.FC<CustomerStatementModalProps> = ({
+  isOpen,
+  onClose,
+  customerId,
+}) => {
+  const [period, setPeriod] = useState<StatementPeriod>(getDefaultStatementPeriod);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // A different customer starts over on their own billing currency
+  useEffect(() => {
+    setPeriod(prev => (prev.currency ? { from: prev.from, to: prev.to } : prev));
+    setStatement(null);
+  }, [customerId]);
+
+  useEffect(() => {
+    if (!isOpen || !customerId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    fetchCustomerStatement(customerId, period)
+      .then(data => {
+        if (!cancelled) setStatement(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load statement');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, customerId, period]);
+
+  const handleDownloadPdf = () => {
+    if (!statement) return;
+    try {
+      downloadStatementPdf(statement);
+    } catch (err) {
+      console.error('Error generating statement PDF:', err);
+      toast.error('Failed to generate statement PDF');
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    if (!statement) return;
+    downloadStatementCsv(statement);
+    toast.success('Statement exported to CSV');
+  };
+
+  if (!isOpen) return null;
+
+  const currency = statement?.currency;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Statement of Account</h2>
+              {statement && (
+                <p className="text-sm text-gray-500">
+                  {statement.customer.full_name}
+                  {statement.customer.company_name && ` • ${statement.customer.company_name}`}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Period and exports */}
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={period.from}
+                    max={period.to}
+                    onChange={(e) => e.target.value && setPeriod(prev => ({ ...prev, from: e.target.value }))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={period.to}
+                    min={period.from}
+                    onChange={(e) => e.target.value && setPeriod(prev => ({ ...prev, to: e.target.value }))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                {statement && statement.currencies.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                    <select
+                      value={statement.currency}
+                      onChange={(e) => setPeriod(prev => ({ ...prev, currency: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {statement.currencies.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={handleDownloadCsv}
+                  disabled={!statement || loading}
+                  className="btn-secondary text-sm flex items-center space-x-2"
+                >
+                  <FileSpreadsheet className="h-4 w-4" />
+                  <span>Export CSV</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDownloadPdf}
+                  disabled={!statement || loading}
+                  className="btn-primary text-sm flex items-center space-x-2"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Download PDF</span>
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {loading && !statement ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="loading-spinner mr-2"></div>
+                <span className="text-gray-600">Loading statement...</span>
+              </div>
+            ) : statement && (
+              <>
+                {/* Aging */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                    Aging at {new Date(`${statement.to}T00:00:00`).toLocaleDateString()}
+                    {loading && <Loader className="h-4 w-4 ml-2 animate-spin text-gray-400" />}
+                  </h3>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {AGING_BUCKET_LABELS.map(([key, label]) => (
+                      <div key={key} className="bg-gray-50 rounded-lg p-3">
+                        <p className="text-xs text-gray-500">{label}</p>
+                        <p className={`text-lg font-semibold ${
+                          key !== 'current' && statement.aging[key] > 0 ? 'text-orange-600' : 'text-gray-900'
+                        }`}>
+                          {formatPrice(statement.aging[key], currency)}
+                        </p>
+                      </div>
+                    ))}
+                    <div className="bg-blue-50 rounded-lg p-3">
+                      <p className="text-xs text-blue-700">Total Outstanding</p>
+                      <p className="text-lg font-semibold text-blue-900">{formatPrice(statement.aging.total, currency)}</p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Ledger */}
+                <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-4 py-2 font-medium text-gray-700">
+                          Opening balance at {new Date(`${statement.from}T00:00:00`).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">
+                          {formatPrice(statement.openingBalance, currency)}
+                        </td>
+                      </tr>
+                      {statement.entries.map((entry, index) => (
+                        <tr key={`${entry.reference}-${entry.type}-${index}`}>
+                          <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                            {new Date(entry.date).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-2 font-mono text-xs text-gray-600 whitespace-nowrap">{entry.reference}</td>
+                          <td className="px-4 py-2 text-gray-800">
+                            <span className="text-xs font-medium text-gray-500 mr-2">{STATEMENT_ENTRY_LABELS[entry.type]}</span>
+                            {entry.description}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-800 whitespace-nowrap">
+                            {entry.debit ? formatPrice(entry.debit, currency) : ''}
+                          </td>
+                          <td className="px-4 py-2 text-right text-green-700 whitespace-nowrap">
+                            {entry.credit ? formatPrice(entry.credit, currency) : ''}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900 whitespace-nowrap">
+                            {formatPrice(entry.balance, currency)}
+                          </td>
+                        </tr>
+                      ))}
+                      {statement.entries.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                            No activity in this period
+                          </td>
+                        </tr>
+                      )}
+                      <tr className="bg-gray-50">
+                        <td colSpan={3} className="px-4 py-2 font-semibold text-gray-900">
+                          Closing balance at {new Date(`${statement.to}T00:00:00`).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-600">{formatPrice(statement.totalDebits, currency)}</td>
+                        <td className="px-4 py-2 text-right text-gray-600">{formatPrice(statement.totalCredits, currency)}</td>
+                        <td className="px-4 py-2 text-right font-semibold text-gray-900">
+                          {formatPrice(statement.closingBalance, currency)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CustomerStatementModal;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { AdminUser, Category } from '../types';
+import { getCategories, updateUser } from '../api/supabaseHelpers';
+import { toast } from '../../utils/toast';
+
+interface DesignerAvailabilityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  designer: AdminUser | null;
+  onUpdated: () => void;
+}
+
+const DesignerAvailabilityModal: React.FC<DesignerAvailabilityModalProps> = ({
+  isOpen,
+  onClose,
+  designer,
+  onUpdated,
+}) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [skills, setSkills] = useState<string[]>([]);
+  const [outFrom, setOutFrom] = useState('');
+  const [outUntil, setOutUntil] = useState('');
+  const [autoAssign, setAutoAssign] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error fetching categories:', error));
+  }, [isOpen]);
+
+  useEffect(() => {
+    setSkills(designer?.skill_category_ids || []);
+    setOutFrom(designer?.out_of_office_from || '');
+    setOutUntil(designer?.out_of_office_until || '');
+    setAutoAssign(designer?.auto_assign_enabled ?? true);
+  }, [designer]);
+
+  if (!isOpen || !designer) return null;
+
+  const toggleSkill = (categoryId: string) => {
+    setSkills(prev => (prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]));
+  };
+
+  const handleSave = async () => {
+    if (outUntil && !outFrom) {
+      toast.error('Set the first day out of office as well');
+      return;
+    }
+    if (outFrom && outUntil && outUntil < outFrom) {
+      toast.error('The last day out must be on or after the first');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateUser(designer.id, {
+        skill_category_ids: skills,
+        out_of_office_from: outFrom || null,
+        out_of_office_until: outUntil || null,
+        auto_assign_enabled: autoAssign,
+      });
+      toast.success(`Availability for ${designer.full_name} saved`);
+      onUpdated();
+      onClose();
+    } catch (error) {
+      console.error('Error saving designer availability:', error);
+      toast.error('Failed to save availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Designer Availability</h2>
+              <p className="text-sm text-gray-500">{designer.full_name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Skills */}
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">Skills</p>
+              <p className="text-xs text-gray-500 mb-2">
+                Orders in these categories lean towards this designer. Leave empty for no preference.
+              </p>
+              {categories.length === 0 ? (
+                <p className="text-sm text-gray-400">No categories yet</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={skills.includes(category.id)}
+                        onChange={() => toggleSkill(category.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>{category.category_name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Out of office */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Out of Office From</label>
+                <input
+                  type="date"
+                  value={outFrom}
+                  onChange={(e) => setOutFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Out of Office Until</label>
+                <input
+                  type="date"
+                  value={outUntil}
+                  min={outFrom || undefined}
+                  onChange={(e) => setOutUntil(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Last day away. Leave empty if unknown.</p>
+              </div>
+            </div>
+
+            <label className="flex items-start space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={autoAssign}
+                onChange={(e) => setAutoAssign(e.target.checked)}
+                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                Include in automatic assignment
+                <span className="block text-xs text-gray-500">When off, orders reach this designer only when a rep picks them.</span>
+              </span>
+            </label>
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button type="button" onClick={onClose} className="btn-secondary text-sm">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="btn-primary text-sm flex items-center space-x-2"
+              >
+                <Save className="h-4 w-4" />
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DesignerAvailabilityModal;
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Timer } from 'lucide-react';
+import { formatPrice } from '../../services/pricingService';
+import {
+  fetchTimeTrackingOverview,
+  formatDuration,
+  getDesignerTimeCost,
+  getWeekStart,
+  TimeTrackingOverview,
+} from '../../services/timeTrackingService';
+import { timeTrackingConfig } from '../../config/timeTracking.config';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DesignerTimeOverview: React.FC = () => {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart());
+  const [overview, setOverview] = useState<TimeTrackingOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadOverview = useCallback(async () => {
+    setLoading(true);
+    try {
+      setOverview(await fetchTimeTrackingOverview(weekStart));
+      setError('');
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load designer time');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const isCurrentWeek = weekStart.getTime() === getWeekStart().getTime();
+  const weekEnd = new Date(weekStart.getTime() + WEEK_MS - 1);
+
+  const totalMinutes = overview?.designers.reduce((sum, designer) => sum + designer.minutes, 0) || 0;
+  const totalCost = overview?.orders.reduce((sum, order) => sum + order.cost, 0) || 0;
+  const totalRevenue = overview?.orders.reduce((sum, order) => sum + order.total_amount, 0) || 0;
+
+  const shiftWeek = (direction: -1 | 1) => {
+    setWeekStart(prev => getWeekStart(new Date(prev.getTime() + direction * WEEK_MS + WEEK_MS / 2)));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="p-4 sm:p-6 border-b border-gray-100 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <Timer className="h-5 w-5 text-gray-500" />
+            <span>Designer Time</span>
+          </h3>
+          <p className="text-xs sm:text-sm text-gray-600 mt-1">
+            Finished time logged this week, costed at {formatPrice(timeTrackingConfig.designerHourlyCost)}/hour
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => shiftWeek(-1)}
+            className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+            title="Previous Week"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 whitespace-nowrap">
+            {weekStart.toLocaleDateString()} – {weekEnd.toLocaleDateString()}
+          </span>
+          <button
+            onClick={() => shiftWeek(1)}
+            disabled={isCurrentWeek}
+            className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Next Week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="loading-spinner"></div>
+        </div>
+      ) : error ? (
+        <div className="p-4 sm:p-6 text-center">
+          <p className="text-red-600 text-sm mb-3">{error}</p>
+          <button onClick={loadOverview} className="btn-secondary text-sm">Retry</button>
+        </div>
+      ) : !overview || overview.designers.length === 0 ? (
+        <p className="px-4 sm:px-6 py-8 text-center text-gray-500 text-sm">No time logged this week</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 sm:gap-6 p-4 sm:p-6">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Weekly Hours by Designer</h4>
+            <table className="w-full divide-y divide-gray-200 text-xs sm:text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Designer</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {overview.designers.map(designer => (
+                  <tr key={designer.designer_id}>
+                    <td className="px-3 py-2 text-gray-900">{designer.designer_name}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{designer.order_count}</td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">{formatDuration(designer.minutes)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatPrice(getDesignerTimeCost(designer.minutes))}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-3 py-2 text-gray-900" colSpan={2}>Total</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatDuration(totalMinutes)}</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatPrice(getDesignerTimeCost(totalMinutes))}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="xl:col-span-2 overflow-x-auto">
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Cost vs Revenue</h4>
+            <p className="text-xs text-gray-500 mb-2">Orders worked on this week, with all time logged on each order</p>
+            <table className="w-full divide-y divide-gray-200 text-xs sm:text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {overview.orders.map(order => (
+                  <tr key={order.order_id}>
+                    <td className="px-3 py-2">
+                      <p className="font-medium text-gray-900">{order.order_number}</p>
+                      <p className="text-gray-500 truncate max-w-[14rem]">{order.order_name || 'No Order Name'}</p>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatDuration(order.minutes)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatPrice(order.cost)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatPrice(order.total_amount)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${order.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatPrice(order.margin)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-3 py-2 text-gray-900" colSpan={2}>Total</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatPrice(totalCost)}</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatPrice(totalRevenue)}</td>
+                  <td className={`px-3 py-2 text-right ${totalRevenue - totalCost < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatPrice(totalRevenue - totalCost)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DesignerTimeOverview;
@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Plus, Save, Trash2, Send, Loader } from 'lucide-react';
+import { DunningStep } from '../types';
+import { toast } from '../../utils/toast';
+import {
+  deleteDunningStep,
+  DunningStepInput,
+  fetchDunningSteps,
+  saveDunningStep,
+  sendDueInvoiceReminders,
+} from '../../services/dunningService';
+
+interface DunningScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRemindersSent: () => void;
+}
+
+interface StepDraft extends Omit<DunningStepInput, 'days_after'> {
+  id?: string;
+  days_after: string;
+}
+
+const toDraft = (step: DunningStep): StepDraft => ({
+  id: step.id,
+  days_after: step.days_after.toString(),
+  escalate_to_sales_rep: step.escalate_to_sales_rep,
+  hold_customer: step.hold_customer,
+  is_active: step.is_active,
+});
+
+const DunningScheduleModal: React.FC<DunningScheduleModalProps> = ({
+  isOpen,
+  onClose,
+  onRemindersSent,
+}) => {
+  const [drafts, setDrafts] = useState<StepDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSteps = useCallback(async () => {
+    try {
+      setLoading(true);
+      setDrafts((await fetchDunningSteps()).map(toDraft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reminder schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      loadSteps();
+    }
+  }, [isOpen, loadSteps]);
+
+  const updateDraft = (index: number, changes: Partial<StepDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAddStep = () => {
+    const lastDays = drafts.reduce((max, draft) => Math.max(max, parseInt(draft.days_after, 10) || 0), 0);
+    setDrafts(prev => [...prev, {
+      days_after: (lastDays + 7).toString(),
+      escalate_to_sales_rep: false,
+      hold_customer: false,
+      is_active: true,
+    }]);
+  };
+
+  const handleSaveStep = async (index: number) => {
+    const draft = drafts[index];
+    setSavingIndex(index);
+    setError('');
+
+    try {
+      const saved = await saveDunningStep({
+        days_after: Number(draft.days_after),
+        escalate_to_sales_rep: draft.escalate_to_sales_rep,
+        hold_customer: draft.hold_customer,
+        is_active: draft.is_active,
+      }, draft.id);
+      updateDraft(index, toDraft(saved));
+      toast.success(`Reminder at ${saved.days_after} days saved`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save reminder step');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const handleDeleteStep = async (index: number) => {
+    const draft = drafts[index];
+    if (!draft.id) {
+      setDrafts(prev => prev.filter((_, i) => i !== index));
+      return;
+    }
+
+    setSavingIndex(index);
+    setError('');
+
+    try {
+      await deleteDunningStep(draft.id);
+      setDrafts(prev => prev.filter((_, i) => i !== index));
+      toast.success('Reminder step removed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete reminder step');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const handleSendNow = async () => {
+    setSending(true);
+    setError('');
+
+    try {
+      const sent = await sendDueInvoiceReminders();
+      toast.success(sent.length > 0
+        ? `Sent ${sent.length} reminder${sent.length === 1 ? '' : 's'}`
+        : 'No reminders were due');
+      if (sent.length > 0) {
+        onRemindersSent();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invoice reminders');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Payment Reminder Schedule</h2>
+              <p className="text-sm text-gray-500">
+                Unpaid invoices get an in-app notification and an email with their payment link at each step.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="loading-spinner mr-2"></div>
+                <span className="text-gray-600">Loading schedule...</span>
+              </div>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Days After Invoice</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Alert Sales Rep</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Put Customer On Hold</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Active</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {drafts.map((draft, index) => (
+                      <tr key={draft.id || `new-${index}`}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={draft.days_after}
+                            onChange={(e) => updateDraft(index, { days_after: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={draft.escalate_to_sales_rep}
+                            onChange={(e) => updateDraft(index, { escalate_to_sales_rep: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={draft.hold_customer}
+                            onChange={(e) => updateDraft(index, { hold_customer: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={draft.is_active}
+                            onChange={(e) => updateDraft(index, { is_active: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => handleSaveStep(index)}
+                              className="text-blue-600 hover:text-blue-900 transition-colors disabled:opacity-50"
+                              title="Save Step"
+                              disabled={savingIndex !== null}
+                            >
+                              {savingIndex === index ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteStep(index)}
+                              className="text-red-600 hover:text-red-900 transition-colors disabled:opacity-50"
+                              title="Remove Step"
+                              disabled={savingIndex !== null}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {drafts.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                          No reminder steps. Unpaid invoices will not be chased.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Reminders run daily. An invoice past several steps at once only gets the latest one, and each step is sent once per invoice.
+            </p>
+
+            <div className="flex justify-between pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={handleAddStep}
+                className="btn-secondary text-sm flex items-center space-x-1"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Step</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleSendNow}
+                className="btn-primary text-sm flex items-center space-x-2"
+                disabled={sending}
+              >
+                {sending ? <Loader className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                <span>{sending ? 'Sending...' : 'Send Due Reminders Now'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DunningScheduleModal;
@@ -5,6 +5,9 @@ import { Invoice, AdminOrder } from '../types';
 import ConfirmationModal from './ConfirmationModal';
 import { toast } from '../../utils/toast';
 import { notifyAboutInvoiceStatusChange } from '../../services/notificationService';
+import { applyTaxRate, getTaxLabel } from '../../services/taxService';
+import { formatPrice } from '../../services/pricingService';
+import { convertAmount, convertLineItems } from '../../services/currencyService';
 
 interface EditInvoiceModalProps {
   isOpen: boolean;
@@ -80,10 +83,13 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
     }
   };
 
-  const calculateTotal = () => {
-    return allOrders
+  // Keeps the rate the invoice was issued with, even if the customer's region changed since
+  const calculateTotals = () => {
+    const lines = allOrders
       .filter(order => selectedOrderIds.includes(order.id))
-      .reduce((sum, order) => sum + (order.total_amount || 0), 0);
+      .map(order => ({ name: order.order_number, price: order.total_amount || 0, quantity: 1 }));
+    // Keep the currency and rate the invoice was issued with
+    return applyTaxRate(convertLineItems(lines, invoice?.exchange_rate || 1), invoice?.tax_rate || 0, invoice?.tax_region || null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -114,7 +120,7 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
     setError('');
 
     try {
-      const totalAmount = calculateTotal();
+      const totals = calculateTotals();
       const previousStatus = invoice.status;
 
       await updateInvoice(invoice.id, {
@@ -122,7 +128,9 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
         status: invoiceStatus,
         payment_link: paymentLink.trim() || null,
         order_ids: selectedOrderIds,
-        total_amount: totalAmount,
+        subtotal: totals.subtotal,
+        tax_amount: totals.taxAmount,
+        total_amount: totals.total,
       });
 
       if (invoiceStatus !== previousStatus && (invoiceStatus === 'paid' || invoiceStatus === 'cancelled')) {
@@ -173,8 +181,8 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
 
   if (!isOpen) return null;
 
-  const totalAmount = calculateTotal();
-  const isDisabled = invoice?.status === 'cancelled' || invoice?.status === 'paid';
+  const totals = calculateTotals();
+  const isDisabled = invoice?.status === 'cancelled' || invoice?.status === 'paid' || invoice?.status === 'refunded';
 
   return (
     <>
@@ -242,7 +250,13 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
                       disabled={isDisabled}
                     >
+                      {/* Drafts are issued with the Approve action so they get a payment link */}
+                      <option value="draft" disabled>Draft</option>
                       <option value="paid">Paid</option>
+                      {/* Derived from the payments ledger, not set by hand */}
+                      <option value="partially_paid" disabled>Partially Paid</option>
+                      <option value="refunded" disabled>Refunded</option>
+                      <option value="charged_back" disabled>Charged Back</option>
                       <option value="unpaid">Unpaid</option>
                       <option value="cancelled">Cancelled</option>
                     </select>
@@ -330,7 +344,7 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
                                 <span className="font-medium text-gray-900">{order.order_number}</span>
                                 <span className="text-sm text-gray-500 ml-2">({order.order_name || 'No Order Name'})</span>
                               </div>
-                              <span className="font-semibold text-gray-900">${order.total_amount?.toFixed(2) || '0'}</span>
+                              <span className="font-semibold text-gray-900">{formatPrice(convertAmount(order.total_amount || 0, invoice?.exchange_rate || 1), invoice?.currency)}</span>
                             </div>
                             <div className="flex items-center space-x-2 mt-1">
                               <p className="text-sm text-gray-500">
@@ -367,13 +381,25 @@ const EditInvoiceModal: React.FC<EditInvoiceModalProps> = ({
 
                 {/* Total */}
                 {selectedOrderIds.length > 0 && (
-                  <div className="bg-blue-50 rounded-lg p-4 mb-6">
+                  <div className="bg-blue-50 rounded-lg p-4 mb-6 space-y-1">
+                    {totals.taxAmount > 0 && (
+                      <>
+                        <div className="flex items-center justify-between text-sm text-gray-700">
+                          <span>Subtotal</span>
+                          <span>{formatPrice(totals.subtotal, invoice?.currency)}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-sm text-gray-700">
+                          <span>{getTaxLabel(totals.rate)}</span>
+                          <span>{formatPrice(totals.taxAmount, invoice?.currency)}</span>
+                        </div>
+                      </>
+                    )}
                     <div className="flex items-center justify-between">
                       <span className="text-lg font-medium text-gray-900">
                         Total ({selectedOrderIds.length} orders):
                       </span>
                       <span className="text-2xl font-bold text-blue-600">
-                        ${totalAmount.toFixed(2)}
+                        {formatPrice(totals.total, invoice?.currency)}
                       </span>
                     </div>
                   </div>
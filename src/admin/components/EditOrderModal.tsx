@@ -1,13 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Loader, Paperclip, Trash2, Upload, Download, MessageSquare, Send } from 'lucide-react';
 import { updateOrder, getSalesReps, getDesigners, getOrderComments, addOrderComment, getCategories } from '../api/supabaseHelpers';
-import { AdminOrder, AdminUser, OrderAttachment } from '../types';
+import { AdminOrder, AdminUser, DesignerCandidate, OrderAttachment } from '../types';
 import { supabase, getCurrentUser, getUserProfile } from '../../lib/supabase';
 import { toast } from '../../utils/toast';
 import { AttachmentList } from '../../components/AttachmentList';
+import { OrderActivityTimeline } from '../../components/OrderActivityTimeline';
 import { fetchOrderAttachments, uploadAttachment, deleteAttachment } from '../../lib/attachmentService';
 import { editCommentsService } from '../../services/editCommentsService';
-import { notifyAboutOrderStatusChange, notifyDesignerAboutAssignment } from '../../services/notificationService';
+import { notifyDesignerAboutAssignment } from '../../services/notificationService';
+import { getOrderStatusOptions, validateOrderStatusTransition, OrderStatusActor, OrderStatusValue } from '../../services/orderStatusService';
+import { calculateQuote, formatPrice } from '../../services/pricingService';
+import { getComplexityColor } from '../../shared/utils/statusColors';
+import { getSlaColor } from '../../shared/utils/orderTableUtils';
+import { turnaroundConfig } from '../../config/turnaround.config';
+import { getSlaState, getTurnaroundDueDate, SLA_STATE_LABELS, TURNAROUND_TIERS } from '../../services/turnaroundService';
+import { canAutoAssign, describeDesignerCandidate, getDesignerCandidates } from '../../services/designerAssignmentService';
 interface EditOrderModalProps {
 isOpen: boolean;
 onClose: () => void;
@@ -32,9 +40,14 @@ assigned_designer_id: '',
 total_amount: 0,
 custom_width: 0,
 custom_height: 0,
+quantity: 1,
+color_count: 0,
+stitch_count: 0,
+turnaround_tier: turnaroundConfig.defaultTier,
 });
 const [salesReps, setSalesReps] = useState<AdminUser[]>([]);
 const [designers, setDesigners] = useState<AdminUser[]>([]);
+const [designerCandidates, setDesignerCandidates] = useState<DesignerCandidate[]>([]);
 const [categories, setCategories] = useState<{id: string, category_name: string}[]>([]);
 const [currentUser, setCurrentUser] = useState<any>(propCurrentUser || null);
 const [loading, setLoading] = useState(false);
@@ -50,6 +63,10 @@ const [editComments, setEditComments] = useState<any[]>([]);
 const [loadingEditComments, setLoadingEditComments] = useState(false);
 const [newEditComment, setNewEditComment] = useState('');
 const [submittingEditComment, setSubmittingEditComment] = useState(false);
+const [activeTab, setActiveTab] = useState<'details' | 'activity'>('details');
+useEffect(() => {
+setActiveTab('details');
+}, [order?.id]);
 useEffect(() => {
 // Use prop currentUser if provided, otherwise fetch it
 if (propCurrentUser) {
@@ -69,10 +86,14 @@ assigned_designer_id: order.assigned_designer_id || '',
 total_amount: order.total_amount || 0,
 custom_width: order.custom_width || 0,
 custom_height: order.custom_height || 0,
+quantity: order.quantity || 1,
+color_count: order.color_count || 0,
+stitch_count: order.stitch_count || 0,
+turnaround_tier: order.turnaround_tier || turnaroundConfig.defaultTier,
 });
 setError('');
 // Fetch assignment options
-fetchAssignmentOptions();
+fetchAssignmentOptions(order);
 // Fetch current user only if not provided as prop
 if (!propCurrentUser) {
 fetchCurrentUser();
@@ -164,7 +185,7 @@ toast.error('Failed to post reply');
 setSubmittingEditComment(false);
 }
 };
-const fetchAssignmentOptions = async () => {
+const fetchAssignmentOptions = async (forOrder: AdminOrder) => {
 try {
 setLoading(true);
 const [salesRepsData, designersData, categoriesData] = await Promise.all([
@@ -175,6 +196,16 @@ getCategories(),
 setSalesReps(salesRepsData);
 setDesigners(designersData);
 setCategories(categoriesData);
+// Ranking is a guide for the rep, so the plain designer list still works without it
+if (forOrder.order_type !== 'stock_design') {
+try {
+setDesignerCandidates(await getDesignerCandidates(forOrder.id));
+} catch {
+setDesignerCandidates([]);
+}
+} else {
+setDesignerCandidates([]);
+}
 } catch (error) {
 console.error('Error fetching assignment options:', error);
 setError('Failed to load assignment options');
@@ -233,40 +264,41 @@ if (!formData.custom_height || formData.custom_height <= 0) {
 setError('Custom height must be greater than 0.');
 return;
 }
+// Validate the status change against the transition table
+if (formData.status !== order.status) {
+try {
+validateOrderStatusTransition(order.status, formData.status as OrderStatusValue, currentUser?.role as OrderStatusActor);
+} catch (transitionError) {
+setError(transitionError instanceof Error ? transitionError.message : 'This status change is not allowed.');
+return;
+}
+}
 // Validate designer assignment for in_progress orders (skip for stock designs)
 if (formData.status === 'in_progress' && !formData.assigned_designer_id && order.order_type !== 'stock_design') {
 setError('Please assign a designer before setting order to "In Progress".');
 return;
 }
+if (!formData.quantity || formData.quantity < 1) {
+setError('Quantity must be at least 1.');
+return;
+}
 // Convert empty strings to null for UUID fields to prevent database errors
 const sanitizedData = {
 ...formData,
 assigned_sales_rep_id: formData.assigned_sales_rep_id || null,
 assigned_designer_id: formData.assigned_designer_id || null,
+color_count: formData.color_count || null,
+stitch_count: formData.stitch_count || null,
 };
 setSubmitting(true);
 setError('');
 try {
 // Track changes for notifications
-const previousStatus = order.status;
 const previousDesignerId = order.assigned_designer_id;
 
-// Update order
+// Update order (status change notifications are sent by updateOrder)
 await updateOrder(order.id, sanitizedData);
 
-// Send notifications for status changes
-if (formData.status !== previousStatus) {
-  await notifyAboutOrderStatusChange(
-    order.id,
-    order.order_number,
-    formData.status,
-    order.customer_id,
-    order.order_type as 'custom' | 'stock_design',
-    sanitizedData.assigned_sales_rep_id || undefined,
-    sanitizedData.assigned_designer_id || undefined
-  );
-}
-
 // Send notification for designer assignment
 if (sanitizedData.assigned_designer_id && sanitizedData.assigned_designer_id !== previousDesignerId) {
   await notifyDesignerAboutAssignment(sanitizedData.assigned_designer_id, order.order_number);
@@ -316,13 +348,29 @@ setSubmitting(false);
 }
 };
 if (!isOpen || !order) return null;
+const quote = calculateQuote({
+categoryName: categories.find(category => category.id === formData.category_id)?.category_name,
+width: formData.custom_width,
+height: formData.custom_height,
+stitchCount: formData.stitch_count || order.estimated_stitch_count,
+colorCount: formData.color_count || order.estimated_color_count,
+quantity: formData.quantity,
+turnaroundTier: formData.turnaround_tier,
+});
 const isDesigner = currentUser?.role === 'designer';
+const statusOptions = getOrderStatusOptions(order.status, (currentUser?.role || 'designer') as OrderStatusActor);
 const isCompletedOrCancelled = order.status === 'completed' || order.status === 'cancelled';
 const canEditCompletedOrder = currentUser?.role === 'admin' || currentUser?.role === 'sales_rep';
 const isFormDisabled = isCompletedOrCancelled && !canEditCompletedOrder;
 const isAssignedSalesRep = currentUser?.role === 'sales_rep' && order.assigned_sales_rep_id === currentUser.id;
 const canDeleteAttachment = currentUser?.role === 'admin' || isAssignedSalesRep;
 const isStockDesign = order.order_type === 'stock_design';
+const suggestedDesigner = designerCandidates.find(canAutoAssign);
+// Preview the due date the selected tier gives, counted from when the order was placed
+const dueAt = formData.turnaround_tier === order.turnaround_tier && order.due_at
+? order.due_at
+: getTurnaroundDueDate(formData.turnaround_tier, order.created_at);
+const slaState = getSlaState({ status: order.status, due_at: dueAt, completed_at: order.completed_at });
 return (
 <>
 {/* Backdrop */}
@@ -356,7 +404,29 @@ return (
             <X className="h-6 w-6" />
          </button>
       </div>
-      {/* Form */}
+      {/* Tabs */}
+      <div className="flex border-b border-gray-200 px-6">
+         {(['details', 'activity'] as const).map(tab => (
+         <button
+            key={tab}
+            type="button"
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+            activeTab === tab
+            ? 'border-blue-600 text-blue-600'
+            : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+            >
+         {tab === 'details' ? 'Details' : 'Activity'}
+         </button>
+         ))}
+      </div>
+      {activeTab === 'activity' ? (
+      <div className="p-6">
+         <OrderActivityTimeline orderId={order.id} />
+      </div>
+      ) : (
+      /* Form */
       <form onSubmit={handleSubmit} className="p-6">
          {/* Error Display */}
          {error && (
@@ -466,17 +536,9 @@ return (
                   disabled={isFormDisabled}
                   required
                   >
-                  {!isDesigner && 
-                  <option value="new">New</option>
-                  }
-                  <option value="in_progress">In Progress</option>
-                  <option value="under_review">Under Review</option>
-                  {!isDesigner && 
-                  <option value="completed">Completed</option>
-                  }
-                  {!isDesigner && 
-                  <option value="cancelled">Cancelled</option>
-                  }
+                  {statusOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
                </select>
             </div>
             {/* Apparel Type */}
@@ -531,6 +593,101 @@ return (
                placeholder="Height"
                />
             </div>
+            {/* Quantity */}
+            <div>
+               <label className="block text-sm font-medium text-gray-700 mb-2">
+               Quantity
+               </label>
+               <input
+               type="number"
+               name="quantity"
+               value={formData.quantity}
+               onChange={handleInputChange}
+               step="1"
+               min="1"
+               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+               disabled={isDesigner || isStockDesign || isFormDisabled}
+               placeholder="Quantity"
+               />
+            </div>
+            {/* Color Count */}
+            <div>
+               <label className="block text-sm font-medium text-gray-700 mb-2">
+               Number of Colors
+               </label>
+               <input
+               type="number"
+               name="color_count"
+               value={formData.color_count || ''}
+               onChange={handleInputChange}
+               step="1"
+               min="0"
+               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+               disabled={isStockDesign || isFormDisabled}
+               placeholder="Colors"
+               />
+            </div>
+            {/* Stitch Count */}
+            <div>
+               <label className="block text-sm font-medium text-gray-700 mb-2">
+               Stitch Count
+               </label>
+               <input
+               type="number"
+               name="stitch_count"
+               value={formData.stitch_count || ''}
+               onChange={handleInputChange}
+               step="1"
+               min="0"
+               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+               disabled={isStockDesign || isFormDisabled}
+               placeholder={order.estimated_stitch_count ? `Estimated ${order.estimated_stitch_count.toLocaleString()}` : 'Leave blank to estimate from size'}
+               />
+            </div>
+            {/* Artwork Estimate */}
+            {order.complexity_band && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+               <p className="text-sm font-medium text-gray-700 mb-1">Artwork Estimate</p>
+               <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getComplexityColor(order.complexity_band)}`}>
+                     {order.complexity_band}
+                  </span>
+                  <span>
+                     ~{(order.estimated_stitch_count || 0).toLocaleString()} stitches • {order.estimated_color_count || 1} colors
+                  </span>
+               </div>
+            </div>
+            )}
+            {/* Turnaround */}
+            {!isStockDesign && (
+            <div>
+               <label className="block text-sm font-medium text-gray-700 mb-2">
+               Turnaround
+               </label>
+               <select
+                  name="turnaround_tier"
+                  value={formData.turnaround_tier}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+                  disabled={isDesigner || isFormDisabled}
+                  >
+                  {TURNAROUND_TIERS.map(tier => (
+                  <option key={tier} value={tier}>
+                     {turnaroundConfig.tiers[tier].label}
+                     {turnaroundConfig.tiers[tier].surchargePercent > 0 && ` (+${turnaroundConfig.tiers[tier].surchargePercent}%)`}
+                  </option>
+                  ))}
+               </select>
+               <p className="text-xs text-gray-500 mt-1 flex items-center space-x-2">
+                  <span>Due {new Date(dueAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                  {slaState && (
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getSlaColor(slaState)}`}>
+                     {SLA_STATE_LABELS[slaState]}
+                  </span>
+                  )}
+               </p>
+            </div>
+            )}
             {/* Assigned Sales Rep */}
             {/* Only show sales rep assignment to admin users */}
             {currentUser?.role === 'admin' && (
@@ -572,10 +729,35 @@ return (
                   disabled={isFormDisabled || isStockDesign}
                   >
                   <option value="">Unassigned</option>
-                  {designers.map(designer => (
+                  {designerCandidates.length > 0
+                  ? designerCandidates.map(candidate => (
+                  <option key={candidate.designer_id} value={candidate.designer_id}>
+                     {candidate.full_name} ({describeDesignerCandidate(candidate)})
+                  </option>
+                  ))
+                  : designers.map(designer => (
                   <option key={designer.id} value={designer.id}>{designer.full_name}</option>
                   ))}
                </select>
+               {suggestedDesigner && !isStockDesign && (
+               <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                  {formData.assigned_designer_id === order.assigned_designer_id && order.designer_auto_assigned
+                  ? 'Assigned automatically. '
+                  : ''}
+                  Suggested: {suggestedDesigner.full_name}
+                  </span>
+                  {formData.assigned_designer_id !== suggestedDesigner.designer_id && !isFormDisabled && (
+                  <button
+                     type="button"
+                     onClick={() => setFormData(prev => ({ ...prev, assigned_designer_id: suggestedDesigner.designer_id }))}
+                     className="text-blue-600 hover:text-blue-800 font-medium"
+                     >
+                  Use suggestion
+                  </button>
+                  )}
+               </div>
+               )}
             </div>
             )}
             {/* Total Amount */}
@@ -594,6 +776,23 @@ return (
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
                   disabled={isFormDisabled}
                   />
+               {!isStockDesign && (
+               <div className="flex items-center justify-between mt-1">
+                  <p className="text-xs text-gray-500">
+                     Pricing quote: {formatPrice(quote.total)} ({formatPrice(quote.unitPrice)} × {quote.quantity}
+                     {quote.discountPercent > 0 && `, ${quote.discountPercent}% off`}
+                     {quote.turnaroundSurchargePercent > 0 && `, +${quote.turnaroundSurchargePercent}% turnaround`})
+                  </p>
+                  <button
+                     type="button"
+                     onClick={() => setFormData(prev => ({ ...prev, total_amount: quote.total }))}
+                     className="text-xs text-blue-600 hover:text-blue-800"
+                     disabled={isFormDisabled}
+                     >
+                  Apply quote
+                  </button>
+               </div>
+               )}
             </div>
             )}
          </div>
@@ -760,6 +959,7 @@ return (
             onPendingDeletionsChange={setPendingDeletions}
             deferDeletion={true}
             onConfirmDelete={handleConfirmDelete}
+            canMarkFinal={!isFormDisabled}
             />
       </div>
       </>
@@ -793,6 +993,7 @@ return (
          </button>
       </div>
       </form>
+      )}
    </div>
 </div>
 </>
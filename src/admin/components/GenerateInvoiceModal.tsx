@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, Loader, Calendar, User, FileText, Copy, Link as LinkIcon } from 'lucide-react';
+import { X, Save, Loader, Calendar, User, FileText, Copy, Link as LinkIcon, Wallet } from 'lucide-react';
 import { getCustomersForInvoice, getUnpaidOrdersForCustomer } from '../api/supabaseHelpers';
 import { AdminOrder } from '../types';
 import { toast } from '../../utils/toast';
 import { createInvoiceWithPayment } from '../../services/invoiceService';
+import { buildInvoiceLineItem, formatPrice, getBillableAmount, isQuotedAmount, roundCurrency } from '../../services/pricingService';
+import { calculateTax, getTaxLabel } from '../../services/taxService';
+import { convertAmount, convertLineItems, resolveBillingCurrency } from '../../services/currencyService';
+import { fetchCustomerCreditBalance } from '../../services/creditService';
 
 interface GenerateInvoiceModalProps {
   isOpen: boolean;
@@ -16,7 +20,7 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
   onClose,
   onSuccess,
 }) => {
-  const [customers, setCustomers] = useState<{ id: string; full_name: string; email: string }[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; full_name: string; email: string; tax_region: string | null; tax_exempt: boolean; billing_currency: string }[]>([]);
   const [selectedCustomerId, setSelectedCustomerId] = useState('');
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
@@ -25,6 +29,8 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
   const [invoiceTitle, setInvoiceTitle] = useState('');
   const [monthYear, setMonthYear] = useState('');
   const [generatedPaymentLink, setGeneratedPaymentLink] = useState('');
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [useCredit, setUseCredit] = useState(false);
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -48,6 +54,26 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
     }
   }, [selectedCustomerId, dateFrom, dateTo]);
 
+  useEffect(() => {
+    if (!selectedCustomerId) {
+      setCreditBalance(0);
+      setUseCredit(false);
+      return;
+    }
+
+    const customer = customers.find(c => c.id === selectedCustomerId);
+    fetchCustomerCreditBalance(selectedCustomerId, resolveBillingCurrency(customer?.billing_currency).currency)
+      .then(balance => {
+        setCreditBalance(balance);
+        setUseCredit(balance > 0);
+      })
+      .catch(error => {
+        console.error('Error fetching account credit:', error);
+        setCreditBalance(0);
+        setUseCredit(false);
+      });
+  }, [selectedCustomerId, customers]);
+
   const fetchCustomers = async () => {
     try {
       const data = await getCustomersForInvoice();
@@ -91,9 +117,9 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
   };
 
   const calculateTotal = () => {
-    return unpaidOrders
+    return roundCurrency(unpaidOrders
       .filter(order => selectedOrderIds.includes(order.id))
-      .reduce((sum, order) => sum + (order.total_amount || 0), 0);
+      .reduce((sum, order) => sum + getBillableAmount(order), 0));
   };
 
   const getOrderStatusColor = (status: string) => {
@@ -125,19 +151,15 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
 
     try {
       const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
-      const totalAmount = calculateTotal();
+      const subtotal = calculateTotal();
 
       const selectedOrders = unpaidOrders.filter(order => selectedOrderIds.includes(order.id));
 
       const products = selectedOrders.length > 0
-        ? selectedOrders.map(order => ({
-            name: (order.order_name && order.order_name.trim()) || `Order ${order.order_number}`,
-            price: order.total_amount || 0,
-            quantity: 1,
-          }))
+        ? selectedOrders.map(order => buildInvoiceLineItem(order))
         : [{
             name: invoiceTitle.trim(),
-            price: totalAmount,
+            price: subtotal,
             quantity: 1,
           }];
 
@@ -146,14 +168,14 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
         invoice_title: invoiceTitle.trim(),
         month_year: monthYear,
         order_ids: selectedOrderIds,
-        total_amount: totalAmount,
         customerEmail: selectedCustomer?.email || '',
         customerName: selectedCustomer?.full_name || '',
         products,
+        useCredit: useCredit && creditBalance > 0,
       });
 
-      setGeneratedPaymentLink(paymentLink);
-      toast.success('Invoice generated with payment link!');
+      setGeneratedPaymentLink(paymentLink || '');
+      toast.success(paymentLink ? 'Invoice generated with payment link!' : 'Invoice generated and paid from account credit');
       onSuccess();
 
       // Reset form
@@ -190,7 +212,15 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
   if (!isOpen) return null;
 
   const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
-  const totalAmount = calculateTotal();
+  const billingCurrency = resolveBillingCurrency(selectedCustomer?.billing_currency);
+  const tax = calculateTax(
+    convertLineItems(
+      unpaidOrders.filter(order => selectedOrderIds.includes(order.id)).map(order => buildInvoiceLineItem(order)),
+      billingCurrency.rate
+    ),
+    selectedCustomer || {}
+  );
+  const creditApplied = useCredit ? Math.min(creditBalance, tax.total) : 0;
 
   return (
     <>
@@ -345,7 +375,12 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
                               <span className="font-medium text-gray-900">{order.order_number}</span>
                               <span className="text-sm text-gray-500 ml-2">({order.order_name || 'No Order Name'})</span>
                             </div>
-                            <span className="font-semibold text-gray-900">${order.total_amount?.toFixed(2) || '0'}</span>
+                            <span className="font-semibold text-gray-900">
+                              {formatPrice(convertAmount(getBillableAmount(order), billingCurrency.rate), billingCurrency.currency)}
+                              {isQuotedAmount(order) && (
+                                <span className="ml-1 text-xs font-normal text-gray-500">(quoted)</span>
+                              )}
+                            </span>
                           </div>
                           <div className="flex items-center space-x-2 mt-1">
                             <p className="text-sm text-gray-500">
@@ -363,6 +398,9 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
                               {order.order_type === 'custom' && order.custom_width > 0 && order.custom_height > 0 && (
                                 <> • {order.custom_width}"×{order.custom_height}"</>
                               )}
+                              {(order.quantity || 1) > 1 && (
+                                <> • Qty {order.quantity}</>
+                              )}
                             </p>
                           )}
                           {order.edits > 0 && (
@@ -408,15 +446,49 @@ const GenerateInvoiceModal: React.FC<GenerateInvoiceModalProps> = ({
 
             {/* Total */}
             {selectedOrderIds.length > 0 && (
-              <div className="bg-blue-50 rounded-lg p-4 mb-6">
+              <div className="bg-blue-50 rounded-lg p-4 mb-6 space-y-1">
+                <div className="flex items-center justify-between text-sm text-gray-700">
+                  <span>Subtotal</span>
+                  <span>{formatPrice(tax.subtotal, billingCurrency.currency)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm text-gray-700">
+                  <span>{tax.exempt ? 'Tax (exempt)' : getTaxLabel(tax.rate)}</span>
+                  <span>{formatPrice(tax.taxAmount, billingCurrency.currency)}</span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-lg font-medium text-gray-900">
                     Total ({selectedOrderIds.length} orders):
                   </span>
                   <span className="text-2xl font-bold text-blue-600">
-                    ${totalAmount.toFixed(2)}
+                    {formatPrice(tax.total, billingCurrency.currency)}
                   </span>
                 </div>
+                {creditBalance > 0 && (
+                  <div className="pt-2 mt-2 border-t border-blue-100 space-y-1">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={useCredit}
+                        onChange={(e) => setUseCredit(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <Wallet className="h-4 w-4 text-gray-500" />
+                      <span>Use account credit ({formatPrice(creditBalance, billingCurrency.currency)} available)</span>
+                    </label>
+                    {creditApplied > 0 && (
+                      <>
+                        <div className="flex items-center justify-between text-sm text-green-700">
+                          <span>Account credit</span>
+                          <span>-{formatPrice(creditApplied, billingCurrency.currency)}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-sm font-medium text-gray-900">
+                          <span>Charged via payment link</span>
+                          <span>{formatPrice(roundCurrency(tax.total - creditApplied), billingCurrency.currency)}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
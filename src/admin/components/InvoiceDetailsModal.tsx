@@ -1,26 +1,51 @@
 import React, { useState, useEffect } from 'react';
-import { X, Calendar, User, FileText, Package, Eye } from 'lucide-react';
+import { X, Calendar, User, FileText, Package, Eye, Plus, RotateCcw, BellRing } from 'lucide-react';
 import { getInvoiceById, getOrdersByIds } from '../api/supabaseHelpers';
-import { Invoice, AdminOrder } from '../types';
+import { Invoice, AdminOrder, InvoicePayment, InvoiceCreditNote, InvoiceReminder } from '../types';
+import {
+  CREDIT_NOTE_KIND_LABELS,
+  fetchInvoiceCreditNotes,
+  fetchInvoicePayments,
+  getInvoiceBalance,
+  PAYMENT_METHOD_LABELS,
+} from '../../services/paymentService';
+import { getTaxLabel } from '../../services/taxService';
+import { formatPrice } from '../../services/pricingService';
+import { convertAmount } from '../../services/currencyService';
+import { fetchInvoiceReminders, setInvoiceDunningPaused } from '../../services/dunningService';
+import RecordPaymentForm from './RecordPaymentForm';
+import RefundCreditForm from './RefundCreditForm';
 
 interface InvoiceDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
   invoiceId: string | null;
+  canRecordPayments?: boolean;
+  onPaymentRecorded?: () => void;
 }
 
 const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
   isOpen,
   onClose,
   invoiceId,
+  canRecordPayments = false,
+  onPaymentRecorded,
 }) => {
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [creditNotes, setCreditNotes] = useState<InvoiceCreditNote[]>([]);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [updatingReminders, setUpdatingReminders] = useState(false);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [showRefundForm, setShowRefundForm] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
   useEffect(() => {
     if (isOpen && invoiceId) {
+      setShowPaymentForm(false);
+      setShowRefundForm(false);
       fetchInvoiceDetails();
     }
   }, [isOpen, invoiceId]);
@@ -32,8 +57,16 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
       setLoading(true);
       setError('');
 
-      const invoiceData = await getInvoiceById(invoiceId);
+      const [invoiceData, paymentsData, creditNotesData, remindersData] = await Promise.all([
+        getInvoiceById(invoiceId),
+        fetchInvoicePayments(invoiceId),
+        fetchInvoiceCreditNotes(invoiceId),
+        canRecordPayments ? fetchInvoiceReminders(invoiceId) : Promise.resolve([]),
+      ]);
       setInvoice(invoiceData);
+      setPayments(paymentsData);
+      setCreditNotes(creditNotesData);
+      setReminders(remindersData);
 
       if (invoiceData.order_ids && invoiceData.order_ids.length > 0) {
         const ordersData = await getOrdersByIds(invoiceData.order_ids);
@@ -52,7 +85,11 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-800';
+      case 'draft': return 'bg-blue-100 text-blue-800';
+      case 'partially_paid': return 'bg-yellow-100 text-yellow-800';
       case 'unpaid': return 'bg-red-100 text-red-800';
+      case 'refunded': return 'bg-purple-100 text-purple-800';
+      case 'charged_back': return 'bg-orange-100 text-orange-800';
       case 'cancelled': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -71,8 +108,38 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
     }
   };
 
+  const handlePaymentRecorded = async () => {
+    setShowPaymentForm(false);
+    setShowRefundForm(false);
+    await fetchInvoiceDetails();
+    onPaymentRecorded?.();
+  };
+
+  const handleToggleReminders = async () => {
+    if (!invoice) return;
+
+    try {
+      setUpdatingReminders(true);
+      setError('');
+      await setInvoiceDunningPaused(invoice.id, !invoice.dunning_paused);
+      setInvoice({ ...invoice, dunning_paused: !invoice.dunning_paused });
+      onPaymentRecorded?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update reminders');
+    } finally {
+      setUpdatingReminders(false);
+    }
+  };
+
   if (!isOpen) return null;
 
+  const { amountPaid, amountCredited, amountChargedBack, balanceDue } = invoice
+    ? getInvoiceBalance(invoice.total_amount, payments, creditNotes)
+    : { amountPaid: 0, amountCredited: 0, amountChargedBack: 0, balanceDue: 0 };
+
+  const canIssueRefund = canRecordPayments && !!invoice && amountPaid > 0 &&
+    invoice.status !== 'cancelled' && invoice.status !== 'draft';
+
   return (
     <>
       {/* Backdrop */}
@@ -208,7 +275,7 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
                               <div className="flex items-center space-x-3">
                                 <div className="text-right">
                                   <p className="font-semibold text-gray-900">
-                                    ${order.total_amount?.toFixed(2) || '0'}
+                                    {formatPrice(convertAmount(order.total_amount || 0, invoice.exchange_rate || 1), invoice.currency)}
                                   </p>
                                   
                                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getOrderStatusColor(order.status)}`}>
@@ -240,9 +307,142 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
                     <div className="flex items-center space-x-2">
                       
                       <div className="text-3xl font-bold text-blue-600">
-                        ${invoice.total_amount.toFixed(2)}
+                        {formatPrice(invoice.total_amount, invoice.currency)}
                       </div>
                     </div>
+                    {(invoice.tax_amount || 0) > 0 && (
+                      <div className="space-y-1 mt-3 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Subtotal</span>
+                          <span className="font-medium text-gray-800">{formatPrice(invoice.subtotal ?? invoice.total_amount, invoice.currency)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">{getTaxLabel(invoice.tax_rate || 0)}</span>
+                          <span className="font-medium text-gray-800">{formatPrice(invoice.tax_amount || 0, invoice.currency)}</span>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Payments */}
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-lg font-semibold text-gray-800">Payments</h3>
+                      <div className="flex items-center space-x-3">
+                        {canIssueRefund && !showPaymentForm && !showRefundForm && (
+                          <button
+                            type="button"
+                            onClick={() => setShowRefundForm(true)}
+                            className="inline-flex items-center text-sm font-medium text-purple-600 hover:text-purple-800"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Refund
+                          </button>
+                        )}
+                        {canRecordPayments && !showPaymentForm && !showRefundForm && balanceDue > 0 &&
+                          invoice.status !== 'cancelled' && invoice.status !== 'draft' && invoice.status !== 'refunded' && (
+                          <button
+                            type="button"
+                            onClick={() => setShowPaymentForm(true)}
+                            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Record
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1 mb-3">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-500">Paid</span>
+                        <span className="font-medium text-green-700">{formatPrice(amountPaid, invoice.currency)}</span>
+                      </div>
+                      {amountCredited > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Refunded</span>
+                          <span className="font-medium text-purple-700">{formatPrice(amountCredited, invoice.currency)}</span>
+                        </div>
+                      )}
+                      {amountChargedBack > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Charged Back</span>
+                          <span className="font-medium text-orange-700">{formatPrice(amountChargedBack, invoice.currency)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-500">Balance Due</span>
+                        <span className={`font-semibold ${balanceDue > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                          {formatPrice(balanceDue, invoice.currency)}
+                        </span>
+                      </div>
+                    </div>
+
+                    {showPaymentForm && (
+                      <div className="border-t border-gray-200 pt-3 mb-3">
+                        <RecordPaymentForm
+                          invoiceId={invoice.id}
+                          balanceDue={balanceDue}
+                          currency={invoice.currency}
+                          onRecorded={handlePaymentRecorded}
+                          onCancel={() => setShowPaymentForm(false)}
+                        />
+                      </div>
+                    )}
+
+                    {showRefundForm && (
+                      <div className="border-t border-gray-200 pt-3 mb-3">
+                        <RefundCreditForm
+                          invoiceId={invoice.id}
+                          refundable={amountPaid}
+                          currency={invoice.currency}
+                          onIssued={handlePaymentRecorded}
+                          onCancel={() => setShowRefundForm(false)}
+                        />
+                      </div>
+                    )}
+
+                    {payments.length > 0 ? (
+                      <div className="border-t border-gray-200 pt-3 space-y-3">
+                        {payments.map(payment => (
+                          <div key={payment.id} className="text-sm">
+                            <div className="flex justify-between">
+                              <span className="font-medium text-gray-800">{formatPrice(Number(payment.amount), invoice.currency)}</span>
+                              <span className="text-gray-500">{new Date(payment.paid_at).toLocaleDateString()}</span>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {PAYMENT_METHOD_LABELS[payment.method] || payment.method}
+                              {payment.reference && ` • ${payment.reference}`}
+                            </p>
+                            {payment.notes && (
+                              <p className="text-xs text-gray-400 italic">{payment.notes}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-400">No payments recorded yet</p>
+                    )}
+
+                    {creditNotes.length > 0 && (
+                      <div className="border-t border-gray-200 pt-3 mt-3 space-y-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Credit Notes</p>
+                        {creditNotes.map(note => (
+                          <div key={note.id} className="text-sm">
+                            <div className="flex justify-between">
+                              <span className="font-medium text-gray-800">-{formatPrice(Number(note.amount), invoice.currency)}</span>
+                              <span className="text-gray-500">{new Date(note.issued_at).toLocaleDateString()}</span>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {CREDIT_NOTE_KIND_LABELS[note.kind]} • {PAYMENT_METHOD_LABELS[note.method] || note.method}
+                              {note.reference && ` • ${note.reference}`}
+                            </p>
+                            {note.reason && (
+                              <p className="text-xs text-gray-400 italic">{note.reason}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {/* Invoice Metadata */}
@@ -268,6 +468,47 @@ const InvoiceDetailsModal: React.FC<InvoiceDetailsModalProps> = ({
                     </div>
                   </div>
 
+                  {/* Payment Reminders */}
+                  {canRecordPayments && (
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-lg font-semibold text-gray-800">Reminders</h3>
+                        <button
+                          onClick={handleToggleReminders}
+                          disabled={updatingReminders}
+                          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          {invoice.dunning_paused ? 'Resume' : 'Pause'}
+                        </button>
+                      </div>
+                      {invoice.dunning_paused && (
+                        <p className="text-xs text-gray-500 mb-2">Automatic reminders are paused for this invoice.</p>
+                      )}
+                      {reminders.length > 0 ? (
+                        <div className="space-y-2">
+                          {reminders.map(reminder => (
+                            <div key={reminder.id} className="text-sm">
+                              <div className="flex justify-between">
+                                <span className="flex items-center font-medium text-gray-800">
+                                  <BellRing className="h-3 w-3 mr-1 text-orange-500" />
+                                  Day {reminder.days_after}
+                                </span>
+                                <span className="text-gray-500">{new Date(reminder.created_at).toLocaleDateString()}</span>
+                              </div>
+                              <p className="text-xs text-gray-500">
+                                {reminder.emailed ? 'Emailed' : `Not emailed${reminder.email_error ? ` (${reminder.email_error})` : ''}`}
+                                {reminder.escalated_to && ' • Sales rep alerted'}
+                                {reminder.customer_held && ' • Customer put on hold'}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-400">No reminders sent yet</p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Payment Link */}
                   {invoice.payment_link && invoice.status === 'unpaid' && (
                     <div className="bg-green-50 rounded-lg p-4">
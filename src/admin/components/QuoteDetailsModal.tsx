@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import { X, Paperclip, Save, CheckCircle, Send, XCircle, Clock, Tag } from 'lucide-react';
+import { AdminUser, Quote, QuoteStage } from '../types';
+import { formatPrice } from '../../services/pricingService';
+import { formatFileSize } from '../../lib/attachmentService';
+import { toast } from '../../utils/toast';
+import {
+  acceptQuote,
+  findQuoteCustomer,
+  getQuoteAttachmentUrl,
+  isQuotePastValidity,
+  QUOTE_STAGE_LABELS,
+  QUOTE_STAGE_TRANSITIONS,
+  setQuoteStage,
+  updateQuote,
+} from '../../services/quoteService';
+
+interface QuoteDetailsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quote: Quote | null;
+  // Only admins get to hand a quote to another rep
+  salesReps?: AdminUser[];
+  onUpdated: () => void;
+}
+
+const STAGE_ACTIONS: Record<Exclude<QuoteStage, 'new' | 'accepted'>, { label: string; icon: React.ElementType; className: string }> = {
+  priced: { label: 'Mark Priced', icon: Tag, className: 'btn-secondary' },
+  sent: { label: 'Mark Sent', icon: Send, className: 'btn-primary' },
+  declined: { label: 'Mark Declined', icon: XCircle, className: 'btn-danger' },
+  expired: { label: 'Mark Expired', icon: Clock, className: 'btn-secondary' },
+};
+
+const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
+  isOpen,
+  onClose,
+  quote,
+  salesReps,
+  onUpdated,
+}) => {
+  const [current, setCurrent] = useState<Quote | null>(quote);
+  const [price, setPrice] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [notes, setNotes] = useState('');
+  const [salesRepId, setSalesRepId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrent(quote);
+    setPrice(quote?.quoted_price !== null && quote?.quoted_price !== undefined ? String(quote.quoted_price) : '');
+    setValidUntil(quote?.valid_until || '');
+    setNotes(quote?.notes || '');
+    setSalesRepId(quote?.assigned_sales_rep_id || '');
+  }, [quote]);
+
+  if (!isOpen || !current) return null;
+
+  const isClosed = current.stage === 'accepted' || current.stage === 'declined';
+  const isDirty = price !== (current.quoted_price !== null && current.quoted_price !== undefined ? String(current.quoted_price) : '')
+    || validUntil !== (current.valid_until || '')
+    || notes !== (current.notes || '')
+    || salesRepId !== (current.assigned_sales_rep_id || '');
+
+  const runAction = async (action: () => Promise<Quote>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const updated = await action();
+      setCurrent(prev => (prev ? { ...prev, ...updated } : prev));
+      toast.success(successMessage);
+      onUpdated();
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(
+      () => updateQuote(current.id, {
+        quoted_price: price.trim() === '' ? null : Number(price),
+        valid_until: validUntil || null,
+        notes: notes.trim() || null,
+        ...(salesReps ? { assigned_sales_rep_id: salesRepId || null } : {}),
+      }),
+      `Quote ${current.quote_number} saved`
+    );
+
+  const handleStage = (stage: Exclude<QuoteStage, 'accepted'>) =>
+    runAction(() => setQuoteStage(current, stage), `Quote ${current.quote_number} marked ${QUOTE_STAGE_LABELS[stage].toLowerCase()}`);
+
+  const handleAccept = async () => {
+    setSaving(true);
+    try {
+      const customer = await findQuoteCustomer(current);
+      if (!customer) {
+        throw new Error(`No customer account uses ${current.email}. Ask the customer to sign up, then accept the quote again.`);
+      }
+
+      if (!window.confirm(
+        `Accept ${current.quote_number} and create an order for ${formatPrice(Number(current.quoted_price))} on this customer account?\n\n${customer.full_name} <${customer.email}>`
+      )) return;
+
+      const { quote: accepted, orderNumber } = await acceptQuote(current, customer.id);
+      setCurrent(prev => (prev ? { ...prev, ...accepted, order_number: orderNumber } : prev));
+      toast.success(`Quote ${current.quote_number} accepted as order ${orderNumber}`);
+      onUpdated();
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to accept quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenAttachment = async () => {
+    try {
+      window.open(await getQuoteAttachmentUrl(current), '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open attachment');
+    }
+  };
+
+  const nextStages = QUOTE_STAGE_TRANSITIONS[current.stage];
+  const pastValidity = isQuotePastValidity(current);
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Quote {current.quote_number}</h2>
+              <p className="text-sm text-gray-500">
+                {QUOTE_STAGE_LABELS[current.stage]} since {new Date(current.stage_changed_at).toLocaleDateString()}
+                {current.order_number && ` • Order #${current.order_number}`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {pastValidity && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <p className="text-sm text-yellow-800">
+                  This quote was valid until {new Date(`${current.valid_until}T00:00:00`).toLocaleDateString()}. Mark it expired or re-price it.
+                </p>
+              </div>
+            )}
+
+            {/* Request */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase">Contact</p>
+                <p className="font-medium text-gray-900">{current.full_name}</p>
+                <p className="text-gray-600">{current.email}</p>
+                {current.phone && <p className="text-gray-600">{current.phone}</p>}
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase">Design</p>
+                <p className="text-gray-900">{current.category_name || 'No category'}</p>
+                {current.custom_width && current.custom_height && (
+                  <p className="text-gray-600">{current.custom_width}" × {current.custom_height}"</p>
+                )}
+                {current.estimated_stitch_count && (
+                  <p className="text-gray-600">
+                    ~{current.estimated_stitch_count.toLocaleString()} stitches
+                    {current.estimated_color_count ? `, ${current.estimated_color_count} colors` : ''}
+                    {current.complexity_band ? ` (${current.complexity_band})` : ''}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {current.design_instructions && (
+              <div className="text-sm">
+                <p className="text-xs font-medium text-gray-500 uppercase mb-1">Instructions</p>
+                <p className="text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-3">{current.design_instructions}</p>
+              </div>
+            )}
+
+            {current.attachment_path && (
+              <button
+                type="button"
+                onClick={handleOpenAttachment}
+                className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Paperclip className="h-4 w-4" />
+                <span>{current.attachment_name}</span>
+                {current.attachment_size ? <span className="text-gray-500">({formatFileSize(current.attachment_size)})</span> : null}
+              </button>
+            )}
+
+            {/* Pricing */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quoted Price</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={price}
+                  disabled={isClosed}
+                  onChange={(e) => setPrice(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Valid Until</label>
+                <input
+                  type="date"
+                  value={validUntil}
+                  disabled={isClosed}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+              {salesReps && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Sales Rep</label>
+                  <select
+                    value={salesRepId}
+                    disabled={isClosed}
+                    onChange={(e) => setSalesRepId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">Unassigned</option>
+                    {salesReps.map(rep => (
+                      <option key={rep.id} value={rep.id}>{rep.full_name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  rows={3}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Internal notes about this quote"
+                />
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !isDirty}
+                className="btn-secondary text-sm flex items-center space-x-2"
+              >
+                <Save className="h-4 w-4" />
+                <span>Save Changes</span>
+              </button>
+              <div className="flex flex-wrap items-center gap-2">
+                {nextStages.map(stage => {
+                  if (stage === 'accepted') {
+                    return (
+                      <button
+                        key={stage}
+                        type="button"
+                        onClick={handleAccept}
+                        disabled={saving || isDirty}
+                        className="btn-success text-sm flex items-center space-x-2"
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                        <span>Accept &amp; Create Order</span>
+                      </button>
+                    );
+                  }
+                  const action = STAGE_ACTIONS[stage as keyof typeof STAGE_ACTIONS];
+                  const Icon = action.icon;
+                  return (
+                    <button
+                      key={stage}
+                      type="button"
+                      onClick={() => handleStage(stage as Exclude<QuoteStage, 'accepted'>)}
+                      disabled={saving || isDirty}
+                      className={`${action.className} text-sm flex items-center space-x-2`}
+                    >
+                      <Icon className="h-4 w-4" />
+                      <span>{action.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {isDirty && nextStages.length > 0 && (
+              <p className="text-xs text-gray-500 text-right">Save your changes before moving the quote on.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default QuoteDetailsModal;
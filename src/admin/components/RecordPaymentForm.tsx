@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { InvoicePaymentMethod } from '../types';
+import { toast } from '../../utils/toast';
+import { recordInvoicePayment, OFFLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../../services/paymentService';
+import { formatPrice } from '../../services/pricingService';
+
+interface RecordPaymentFormProps {
+  invoiceId: string;
+  balanceDue: number;
+  currency?: string;
+  onRecorded: () => void;
+  onCancel: () => void;
+}
+
+const RecordPaymentForm: React.FC<RecordPaymentFormProps> = ({
+  invoiceId,
+  balanceDue,
+  currency,
+  onRecorded,
+  onCancel,
+}) => {
+  const [amount, setAmount] = useState(balanceDue.toFixed(2));
+  const [method, setMethod] = useState<InvoicePaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [paidOn, setPaidOn] = useState(new Date().toISOString().slice(0, 10));
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount);
+    if (!parsedAmount || parsedAmount <= 0) {
+      setError('Enter an amount greater than 0.');
+      return;
+    }
+
+    if (parsedAmount > balanceDue + 0.005) {
+      setError(`Amount cannot exceed the balance due of ${formatPrice(balanceDue, currency)}.`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await recordInvoicePayment({
+        invoice_id: invoiceId,
+        amount: parsedAmount,
+        method,
+        reference,
+        // Noon keeps the chosen day stable across time zones
+        paid_at: new Date(`${paidOn}T12:00:00`).toISOString(),
+        notes,
+      });
+      toast.success(`Payment of ${formatPrice(parsedAmount, currency)} recorded`);
+      onRecorded();
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Amount{currency ? ` (${currency})` : ''}</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={submitting}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Received On</label>
+          <input
+            type="date"
+            value={paidOn}
+            onChange={(e) => setPaidOn(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={submitting}
+            required
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Method</label>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as InvoicePaymentMethod)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={submitting}
+        >
+          {OFFLINE_PAYMENT_METHODS.map(option => (
+            <option key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Reference</label>
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="Check number, transfer ID..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={submitting}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+          disabled={submitting}
+        />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-secondary text-sm"
+          disabled={submitting}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn-primary text-sm"
+          disabled={submitting}
+        >
+          {submitting ? 'Recording...' : 'Record Payment'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RecordPaymentForm;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { InvoicePaymentMethod } from '../types';
+import { toast } from '../../utils/toast';
+import { issueRefundCredit, OFFLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../../services/paymentService';
+import { formatPrice } from '../../services/pricingService';
+
+interface RefundCreditFormProps {
+  invoiceId: string;
+  refundable: number;
+  currency?: string;
+  onIssued: () => void;
+  onCancel: () => void;
+}
+
+const RefundCreditForm: React.FC<RefundCreditFormProps> = ({
+  invoiceId,
+  refundable,
+  currency,
+  onIssued,
+  onCancel,
+}) => {
+  const [amount, setAmount] = useState(refundable.toFixed(2));
+  const [method, setMethod] = useState<InvoicePaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount);
+    if (!parsedAmount || parsedAmount <= 0) {
+      setError('Enter an amount greater than 0.');
+      return;
+    }
+
+    if (parsedAmount > refundable + 0.005) {
+      setError(`Amount cannot exceed the ${formatPrice(refundable, currency)} paid.`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await issueRefundCredit({
+        invoice_id: invoiceId,
+        amount: parsedAmount,
+        method,
+        reference,
+        reason,
+      });
+      toast.success(`Refund of ${formatPrice(parsedAmount, currency)} issued`);
+      onIssued();
+    } catch (err) {
+      console.error('Error issuing refund:', err);
+      setError(err instanceof Error ? err.message : 'Failed to issue refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Records money returned to the customer. Gateway refunds are recorded automatically.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Amount{currency ? ` (${currency})` : ''}</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={submitting}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Refunded Via</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as InvoicePaymentMethod)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            disabled={submitting}
+          >
+            {OFFLINE_PAYMENT_METHODS.map(option => (
+              <option key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Reference</label>
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="Transfer ID, check number..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={submitting}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Reason</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+          disabled={submitting}
+        />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-secondary text-sm"
+          disabled={submitting}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn-primary text-sm"
+          disabled={submitting}
+        >
+          {submitting ? 'Issuing...' : 'Issue Refund'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RefundCreditForm;
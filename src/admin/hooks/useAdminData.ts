@@ -30,6 +30,8 @@ export const useAdminData = (options: UseAdminDataOptions = {}) => {
     activeStockDesigns: 0,
     newOrdersCount: 0,
     underReviewOrdersCount: 0,
+    slaBreachedOrders: 0,
+    lateCompletionsThisMonth: 0,
   });
   
   const [recentOrders, setRecentOrders] = useState<AdminOrder[]>([]);
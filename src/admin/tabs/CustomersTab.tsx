@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { CreditCard as Edit, Trash2, UserCheck, UserX } from 'lucide-react';
+import { CreditCard as Edit, Trash2, UserCheck, UserX, Wallet, ScrollText } from 'lucide-react';
 import DataTable from '../components/DataTable';
 import FilterBar, { FilterConfig } from '../components/FilterBar';
 import CrudModal from '../components/CrudModal';
 import ConfirmationModal from '../components/ConfirmationModal';
+import CustomerCreditModal from '../components/CustomerCreditModal';
+import CustomerStatementModal from '../components/CustomerStatementModal';
 import { updateCustomer, deleteCustomer, getSalesReps } from '../api/supabaseHelpers';
 import { AdminCustomer, AdminUser, PaginationParams } from '../types';
 import { usePaginatedData } from '../hooks/useAdminData';
@@ -11,6 +13,9 @@ import { getCustomers } from '../api/supabaseHelpers';
 import { toast } from '../../utils/toast';
 import { CSVColumn } from '../../shared/utils/csvExport';
 import { notifySalesRepAboutAssignment } from '../../services/notificationService';
+import { normalizeTaxRegion } from '../../services/taxService';
+import { BASE_CURRENCY, getBillingCurrencies } from '../../services/currencyService';
+import { formatPrice } from '../../services/pricingService';
 
 const CustomersTab: React.FC = () => {
   // Use the new paginated data hook
@@ -50,6 +55,10 @@ const CustomersTab: React.FC = () => {
   const [isConfirmationOpen, setIsConfirmationOpen] = useState(false);
   const [customerToDelete, setCustomerToDelete] = useState<AdminCustomer | null>(null);
 
+  // Account credit modal
+  const [creditCustomer, setCreditCustomer] = useState<AdminCustomer | null>(null);
+  const [statementCustomerId, setStatementCustomerId] = useState<string | null>(null);
+
   // Sales reps for assignment dropdown
   const [salesReps, setSalesReps] = useState<AdminUser[]>([]);
 
@@ -180,7 +189,16 @@ const CustomersTab: React.FC = () => {
         const previousSalesRepId = selectedCustomer.assigned_sales_rep_id;
         const newSalesRepId = formData.assigned_sales_rep_id;
 
-        await updateCustomer(selectedCustomer.id, formData);
+        const onHold = !!formData.on_hold;
+
+        await updateCustomer(selectedCustomer.id, {
+          ...formData,
+          tax_region: normalizeTaxRegion(formData.tax_region),
+          tax_exemption_id: formData.tax_exemption_id?.trim() || null,
+          on_hold: onHold,
+          on_hold_reason: onHold ? formData.on_hold_reason?.trim() || null : null,
+          on_hold_since: onHold ? selectedCustomer.on_hold_since || new Date().toISOString() : null,
+        });
         toast.success(`Customer ${formData.full_name} updated successfully`);
 
         if (newSalesRepId && newSalesRepId !== previousSalesRepId) {
@@ -200,6 +218,18 @@ const CustomersTab: React.FC = () => {
     { key: 'email', label: 'Email', type: 'email' as const, required: true },
     { key: 'phone', label: 'Phone', type: 'text' as const },
     { key: 'company_name', label: 'Company Name', type: 'text' as const },
+    { key: 'tax_region', label: 'Tax Region', type: 'text' as const, placeholder: 'e.g. US-CA or GB' },
+    { key: 'tax_exempt', label: 'Tax Exempt', type: 'checkbox' as const },
+    { key: 'tax_exemption_id', label: 'Exemption Certificate / VAT Number', type: 'text' as const },
+    { key: 'on_hold', label: 'On Hold (new orders need admin approval)', type: 'checkbox' as const },
+    { key: 'on_hold_reason', label: 'Hold Reason', type: 'text' as const },
+    {
+      key: 'billing_currency',
+      label: 'Billing Currency',
+      type: 'select' as const,
+      required: true,
+      options: getBillingCurrencies().map(currency => ({ value: currency, label: currency })),
+    },
     { 
       key: 'assigned_sales_rep_id', 
       label: 'Assigned Sales Rep', 
@@ -234,18 +264,37 @@ const CustomersTab: React.FC = () => {
       label: 'Sales Rep',
       render: (customer: AdminCustomer) => customer.assigned_sales_rep_name || '-',
     },
+    {
+      key: 'credit_balance',
+      label: 'Account Credit',
+      render: (customer: AdminCustomer) => (
+        <span className={customer.credit_balance ? 'font-medium text-green-700' : 'text-gray-500'}>
+          {formatPrice(customer.credit_balance || 0, customer.billing_currency || BASE_CURRENCY)}
+        </span>
+      ),
+    },
     {
       key: 'status',
       label: 'Status',
       sortable: true,
       render: (customer: AdminCustomer) => (
-        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-          customer.status === 'active' 
-            ? 'bg-green-100 text-green-800' 
-            : 'bg-red-100 text-red-800'
-        }`}>
-          {customer.status}
-        </span>
+        <div className="space-y-1">
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            customer.status === 'active' 
+              ? 'bg-green-100 text-green-800' 
+              : 'bg-red-100 text-red-800'
+          }`}>
+            {customer.status}
+          </span>
+          {customer.on_hold && (
+            <div
+              className="text-xs font-medium text-orange-600"
+              title={customer.on_hold_reason || undefined}
+            >
+              On hold
+            </div>
+          )}
+        </div>
       ),
     },
     {
@@ -266,6 +315,20 @@ const CustomersTab: React.FC = () => {
           >
             <Edit className="h-4 w-4" />
           </button>
+          <button
+            onClick={() => setCreditCustomer(customer)}
+            className="text-green-600 hover:text-green-900 transition-colors"
+            title="Account Credit"
+          >
+            <Wallet className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setStatementCustomerId(customer.id)}
+            className="text-indigo-600 hover:text-indigo-900 transition-colors"
+            title="Statement & Aging"
+          >
+            <ScrollText className="h-4 w-4" />
+          </button>
           <button
             onClick={() => handleToggleStatus(customer)}
             className={`transition-colors ${
@@ -295,6 +358,11 @@ const CustomersTab: React.FC = () => {
     { key: 'phone', label: 'Phone' },
     { key: 'company_name', label: 'Company' },
     { key: 'assigned_sales_rep_name', label: 'Sales Rep' },
+    {
+      key: 'credit_balance',
+      label: 'Account Credit',
+      format: (customer) => formatPrice(customer.credit_balance || 0, customer.billing_currency || BASE_CURRENCY, 'code')
+    },
     { key: 'status', label: 'Status' },
     {
       key: 'created_at',
@@ -355,6 +423,21 @@ const CustomersTab: React.FC = () => {
           initialData={selectedCustomer}
         />
 
+        {/* Account Credit Modal */}
+        <CustomerCreditModal
+          isOpen={!!creditCustomer}
+          customer={creditCustomer}
+          onClose={() => setCreditCustomer(null)}
+          onChanged={refetch}
+        />
+
+        {/* Statement of Account Modal */}
+        <CustomerStatementModal
+          isOpen={!!statementCustomerId}
+          customerId={statementCustomerId}
+          onClose={() => setStatementCustomerId(null)}
+        />
+
         {/* Delete Confirmation Modal */}
         <ConfirmationModal
           isOpen={isConfirmationOpen}
@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, CreditCard as Edit, Trash2, ToggleLeft, ToggleRight } from 'lucide-react';
+import DataTable from '../components/DataTable';
+import FilterBar, { FilterConfig } from '../components/FilterBar';
+import CrudModal from '../components/CrudModal';
+import { createDiscountCode, updateDiscountCode, deleteDiscountCode, getCategories, getStockDesigns } from '../api/supabaseHelpers';
+import { Category, DiscountCode, DiscountType, PaginationParams } from '../types';
+import { usePaginatedData } from '../hooks/useAdminData';
+import { getDiscountCodes } from '../api/supabaseHelpers';
+import { toast } from '../../utils/toast';
+import { CSVColumn } from '../../shared/utils/csvExport';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY } from '../../services/currencyService';
+import { formatDiscountValue, normalizeDiscountCode } from '../../services/discountService';
+
+interface DiscountCodeFormData {
+  code?: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  discount_value: string | number;
+  category_id?: string | null;
+  stock_design_id?: string | null;
+  minimum_spend?: string | number;
+  expires_at?: string;
+  max_redemptions?: string | number | null;
+  max_redemptions_per_customer?: string | number | null;
+  is_active?: boolean;
+}
+
+const isExpired = (discountCode: DiscountCode) =>
+  !!discountCode.expires_at && new Date(discountCode.expires_at) <= new Date();
+
+const getAppliesTo = (discountCode: DiscountCode) =>
+  discountCode.stock_design_title || discountCode.category_name || 'All stock designs';
+
+// Local calendar day, so the date input shows the day the admin picked
+const toDateInputValue = (value: string) => {
+  const date = new Date(value);
+  const pad = (part: number) => part.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatUsage = (discountCode: DiscountCode) =>
+  `${discountCode.redemption_count || 0} / ${discountCode.max_redemptions || '∞'}`;
+
+const DiscountCodesTab: React.FC = () => {
+  const { data: discountCodes, params, loading, error, updateParams, refetch } = usePaginatedData(
+    getDiscountCodes,
+    {
+      page: 1,
+      limit: 25,
+      search: '',
+      sortBy: 'created_at',
+      sortOrder: 'desc',
+    }
+  );
+
+  const [filterValues, setFilterValues] = useState<Record<string, string>>({
+    discountActive: '',
+  });
+
+  const [initialParams] = useState<PaginationParams>({
+    page: 1,
+    limit: 25,
+    search: '',
+    sortBy: 'created_at',
+    sortOrder: 'desc',
+  });
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedDiscountCode, setSelectedDiscountCode] = useState<DiscountCode | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [stockDesignOptions, setStockDesignOptions] = useState<{ value: string; label: string }[]>([]);
+
+  useEffect(() => {
+    const fetchRestrictionOptions = async () => {
+      try {
+        const [categoriesData, stockDesignsData] = await Promise.all([
+          getCategories(),
+          getStockDesigns({ page: 1, limit: 500, sortBy: 'title', sortOrder: 'asc' }),
+        ]);
+        setCategories(categoriesData);
+        setStockDesignOptions(stockDesignsData.data.map(stockDesign => ({ value: stockDesign.id, label: stockDesign.title })));
+      } catch (error) {
+        console.error('Error fetching discount restriction options:', error);
+      }
+    };
+
+    fetchRestrictionOptions();
+  }, []);
+
+  const filterConfigs: FilterConfig[] = [
+    {
+      key: 'discountActive',
+      label: 'Status',
+      options: [
+        { value: 'active', label: 'Active' },
+        { value: 'inactive', label: 'Inactive' },
+      ],
+    },
+  ];
+
+  const handleParamsChange = (newParams: Partial<PaginationParams>) => {
+    updateParams(newParams);
+  };
+
+  const handleSearch = (search: string) => {
+    updateParams({ search, page: 1 });
+  };
+
+  const handleFilterChange = (key: string, value: string | string[]) => {
+    const filterValue = Array.isArray(value) ? value.join(',') : value;
+    setFilterValues(prev => ({ ...prev, [key]: filterValue }));
+    if (key === 'discountActive') {
+      updateParams({ discountActive: filterValue || undefined, page: 1 });
+    }
+  };
+
+  const handleClearFilters = () => {
+    setFilterValues({ discountActive: '' });
+    updateParams({ ...initialParams, discountActive: undefined });
+  };
+
+  const handleCreateDiscountCode = () => {
+    setSelectedDiscountCode(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditDiscountCode = (discountCode: DiscountCode) => {
+    setSelectedDiscountCode(discountCode);
+    setIsModalOpen(true);
+  };
+
+  const handleToggleActive = async (discountCode: DiscountCode) => {
+    try {
+      await updateDiscountCode(discountCode.id, { is_active: !discountCode.is_active });
+      await refetch();
+      toast.success(`Discount code ${discountCode.code} ${discountCode.is_active ? 'deactivated' : 'activated'}`);
+    } catch (error) {
+      console.error('Error updating discount code status:', error);
+      toast.error('Failed to update discount code status. Please try again.');
+    }
+  };
+
+  const handleDeleteDiscountCode = async (discountCode: DiscountCode) => {
+    if (window.confirm(`Are you sure you want to delete ${discountCode.code}?`)) {
+      try {
+        await deleteDiscountCode(discountCode.id);
+        await refetch();
+        toast.success(`Discount code ${discountCode.code} deleted successfully`);
+      } catch (error) {
+        console.error('Error deleting discount code:', error);
+        // Redemptions reference the code, so used codes can only be switched off
+        if ((error as { code?: string })?.code === '23503') {
+          toast.error('This code has been redeemed and can only be deactivated.');
+        } else {
+          toast.error('Failed to delete discount code. Please try again.');
+        }
+      }
+    }
+  };
+
+  const handleModalSubmit = async (formData: DiscountCodeFormData) => {
+    const discountValue = Number(formData.discount_value);
+    if (formData.discount_type === 'percentage' && discountValue > 100) {
+      throw new Error('A percentage discount cannot be more than 100%');
+    }
+
+    const toLimit = (value: unknown) => (Number(value) > 0 ? Math.floor(Number(value)) : null);
+
+    const discountCodeData: Partial<DiscountCode> = {
+      code: normalizeDiscountCode(formData.code || ''),
+      description: formData.description?.trim() || null,
+      discount_type: formData.discount_type,
+      discount_value: discountValue,
+      category_id: formData.category_id || null,
+      stock_design_id: formData.stock_design_id || null,
+      minimum_spend: Number(formData.minimum_spend) || 0,
+      // The code stays valid through the whole expiry day
+      expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59`).toISOString() : null,
+      max_redemptions: toLimit(formData.max_redemptions),
+      max_redemptions_per_customer: toLimit(formData.max_redemptions_per_customer),
+      is_active: Boolean(formData.is_active),
+    };
+
+    try {
+      if (selectedDiscountCode) {
+        await updateDiscountCode(selectedDiscountCode.id, discountCodeData);
+        toast.success(`Discount code ${discountCodeData.code} updated successfully`);
+      } else {
+        await createDiscountCode(discountCodeData);
+        toast.success(`Discount code ${discountCodeData.code} created successfully`);
+      }
+      await refetch();
+    } catch (error) {
+      console.error('Error saving discount code:', error);
+      if ((error as { code?: string })?.code === '23505') {
+        throw new Error(`The code ${discountCodeData.code} already exists`);
+      }
+      throw new Error('Failed to save discount code. Codes may only contain letters, numbers, dashes and underscores.');
+    }
+  };
+
+  const discountCodeFields = [
+    { key: 'code', label: 'Code', type: 'text' as const, required: true, placeholder: 'e.g. SPRING10' },
+    { key: 'description', label: 'Description', type: 'text' as const, placeholder: 'Shown to admins only' },
+    {
+      key: 'discount_type',
+      label: 'Discount Type',
+      type: 'select' as const,
+      required: true,
+      options: [
+        { value: 'percentage', label: 'Percentage off' },
+        { value: 'fixed', label: `Fixed amount off (${BASE_CURRENCY})` },
+      ],
+    },
+    { key: 'discount_value', label: 'Discount Value', type: 'number' as const, required: true, min: 0.01, step: 0.01 },
+    { key: 'minimum_spend', label: `Minimum Spend (${BASE_CURRENCY})`, type: 'number' as const, min: 0, step: 0.01 },
+    { key: 'expires_at', label: 'Expires On', type: 'date' as const },
+    { key: 'max_redemptions', label: 'Total Uses (0 = unlimited)', type: 'number' as const, min: 0, step: 1 },
+    { key: 'max_redemptions_per_customer', label: 'Uses per Customer (0 = unlimited)', type: 'number' as const, min: 0, step: 1 },
+    {
+      key: 'category_id',
+      label: 'Only Category',
+      type: 'select' as const,
+      options: categories.map(category => ({ value: category.id, label: category.category_name })),
+    },
+    {
+      key: 'stock_design_id',
+      label: 'Only Stock Design',
+      type: 'select' as const,
+      options: stockDesignOptions,
+    },
+    { key: 'is_active', label: 'Active', type: 'checkbox' as const },
+  ];
+
+  const columns = [
+    {
+      key: 'code',
+      label: 'Code',
+      sortable: true,
+      render: (discountCode: DiscountCode) => (
+        <div>
+          <p className="font-mono font-semibold text-gray-900">{discountCode.code}</p>
+          {discountCode.description && <p className="text-xs text-gray-500">{discountCode.description}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'discount_value',
+      label: 'Discount',
+      sortable: true,
+      render: (discountCode: DiscountCode) => formatDiscountValue(discountCode),
+    },
+    {
+      key: 'applies_to',
+      label: 'Applies To',
+      render: (discountCode: DiscountCode) => getAppliesTo(discountCode),
+    },
+    {
+      key: 'minimum_spend',
+      label: 'Min. Spend',
+      sortable: true,
+      render: (discountCode: DiscountCode) => (discountCode.minimum_spend > 0 ? formatPrice(discountCode.minimum_spend) : '—'),
+    },
+    {
+      key: 'expires_at',
+      label: 'Expires',
+      sortable: true,
+      render: (discountCode: DiscountCode) =>
+        discountCode.expires_at ? new Date(discountCode.expires_at).toLocaleDateString() : 'Never',
+    },
+    {
+      key: 'redemption_count',
+      label: 'Used',
+      render: (discountCode: DiscountCode) => (
+        <div>
+          <p className="text-gray-900">{formatUsage(discountCode)}</p>
+          {discountCode.max_redemptions_per_customer && (
+            <p className="text-xs text-gray-500">{discountCode.max_redemptions_per_customer} per customer</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'total_discounted',
+      label: 'Total Discounted',
+      render: (discountCode: DiscountCode) => formatPrice(discountCode.total_discounted || 0),
+    },
+    {
+      key: 'is_active',
+      label: 'Status',
+      sortable: true,
+      render: (discountCode: DiscountCode) => {
+        const label = !discountCode.is_active ? 'inactive' : isExpired(discountCode) ? 'expired' : 'active';
+        const color = label === 'active'
+          ? 'bg-green-100 text-green-800'
+          : label === 'expired'
+            ? 'bg-yellow-100 text-yellow-800'
+            : 'bg-gray-100 text-gray-800';
+        return (
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${color}`}>
+            {label}
+          </span>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      render: (discountCode: DiscountCode) => (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleEditDiscountCode(discountCode)}
+            className="text-blue-600 hover:text-blue-900 transition-colors"
+            title="Edit Discount Code"
+          >
+            <Edit className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleToggleActive(discountCode)}
+            className={`transition-colors ${
+              discountCode.is_active
+                ? 'text-orange-600 hover:text-orange-900'
+                : 'text-green-600 hover:text-green-900'
+            }`}
+            title={discountCode.is_active ? 'Deactivate Discount Code' : 'Activate Discount Code'}
+          >
+            {discountCode.is_active ? <ToggleRight className="h-4 w-4" /> : <ToggleLeft className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => handleDeleteDiscountCode(discountCode)}
+            className="text-red-600 hover:text-red-900 transition-colors"
+            title="Delete Discount Code"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  const csvColumns: CSVColumn<DiscountCode>[] = [
+    { key: 'code', label: 'Code' },
+    { key: 'description', label: 'Description' },
+    { key: 'discount_type', label: 'Type' },
+    { key: 'discount_value', label: 'Discount', format: (discountCode) => formatDiscountValue(discountCode) },
+    { key: 'applies_to', label: 'Applies To', format: (discountCode) => getAppliesTo(discountCode) },
+    {
+      key: 'minimum_spend',
+      label: 'Minimum Spend',
+      format: (discountCode) => formatPrice(discountCode.minimum_spend || 0, BASE_CURRENCY, 'code'),
+    },
+    {
+      key: 'expires_at',
+      label: 'Expires',
+      format: (discountCode) => (discountCode.expires_at ? new Date(discountCode.expires_at).toLocaleDateString() : ''),
+    },
+    { key: 'redemption_count', label: 'Redemptions', format: (discountCode) => String(discountCode.redemption_count || 0) },
+    {
+      key: 'total_discounted',
+      label: 'Total Discounted',
+      format: (discountCode) => formatPrice(discountCode.total_discounted || 0, BASE_CURRENCY, 'code'),
+    },
+    { key: 'is_active', label: 'Active', format: (discountCode) => (discountCode.is_active ? 'Yes' : 'No') },
+  ];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="w-full px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0 mb-4 sm:mb-6">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Discount Codes</h2>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">Create promotions customers can apply at checkout</p>
+          </div>
+          <button
+            onClick={handleCreateDiscountCode}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Discount Code</span>
+          </button>
+        </div>
+
+        {/* Enhanced Filter Bar */}
+        <FilterBar
+          searchValue={params.search || ''}
+          onSearchChange={handleSearch}
+          searchPlaceholder="Search discount codes by code or description..."
+          filters={filterConfigs}
+          filterValues={filterValues}
+          onFilterChange={handleFilterChange}
+          onClearFilters={handleClearFilters}
+          resultCount={discountCodes.total}
+          loading={loading}
+        />
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mt-4 sm:mt-6">
+            <p className="text-sm sm:text-base text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Discount Codes Table */}
+        <DataTable
+          data={discountCodes}
+          columns={columns}
+          onParamsChange={handleParamsChange}
+          currentParams={params}
+          loading={loading}
+          csvFilename="discount_codes_filtered"
+          csvColumns={csvColumns}
+        />
+
+        {/* Discount Code Modal */}
+        <CrudModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          onSubmit={handleModalSubmit}
+          title={selectedDiscountCode ? 'Edit Discount Code' : 'Add Discount Code'}
+          fields={discountCodeFields}
+          initialData={selectedDiscountCode
+            ? { ...selectedDiscountCode, expires_at: selectedDiscountCode.expires_at ? toDateInputValue(selectedDiscountCode.expires_at) : '' }
+            : { discount_type: 'percentage', is_active: true }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DiscountCodesTab;
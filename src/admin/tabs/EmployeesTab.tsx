@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
-import { Copy, CreditCard as Edit, Trash2, UserCheck, UserX } from 'lucide-react';
+import { CalendarClock, Copy, CreditCard as Edit, Trash2, UserCheck, UserX } from 'lucide-react';
 import DataTable from '../components/DataTable';
 import FilterBar, { FilterConfig } from '../components/FilterBar';
 import CrudModal from '../components/CrudModal';
+import DesignerAvailabilityModal from '../components/DesignerAvailabilityModal';
 import { updateUser, deleteUser } from '../api/supabaseHelpers';
 import { AdminUser, PaginationParams } from '../types';
 import { usePaginatedData } from '../hooks/useAdminData';
 import { getUsers } from '../api/supabaseHelpers';
 import { toast } from '../../utils/toast';
 import { CSVColumn } from '../../shared/utils/csvExport';
+import { isDesignerOutOfOffice } from '../../services/designerAssignmentService';
 
 const EmployeesTab: React.FC = () => {
   // Use the new paginated data hook
@@ -41,6 +43,7 @@ const EmployeesTab: React.FC = () => {
   // Modal states
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<AdminUser | null>(null);
+  const [availabilityDesigner, setAvailabilityDesigner] = useState<AdminUser | null>(null);
 
   // Filter configurations
   const filterConfigs: FilterConfig[] = [
@@ -188,9 +191,23 @@ const EmployeesTab: React.FC = () => {
       label: 'Role',
       sortable: true,
       render: (employee: AdminUser) => (
-        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-          {employee.role.replace('_', ' ')}
-        </span>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+            {employee.role.replace('_', ' ')}
+          </span>
+          {employee.role === 'designer' && isDesignerOutOfOffice(employee) && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+              {employee.out_of_office_until
+                ? `Out until ${new Date(`${employee.out_of_office_until}T00:00:00`).toLocaleDateString()}`
+                : 'Out of office'}
+            </span>
+          )}
+          {employee.role === 'designer' && employee.auto_assign_enabled === false && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+              Manual only
+            </span>
+          )}
+        </div>
       ),
     },
     {
@@ -228,6 +245,15 @@ const EmployeesTab: React.FC = () => {
           >
             <Edit className="h-4 w-4" />
           </button>
+          {employee.role === 'designer' && (
+            <button
+              onClick={() => setAvailabilityDesigner(employee)}
+              className="text-purple-600 hover:text-purple-900 transition-colors"
+              title="Skills & Availability"
+            >
+              <CalendarClock className="h-4 w-4" />
+            </button>
+          )}
           <button
             onClick={() => handleToggleStatus(employee)}
             className={`transition-colors ${
@@ -344,6 +370,14 @@ const EmployeesTab: React.FC = () => {
           fields={employeeFields}
           initialData={selectedEmployee}
         />
+
+        {/* Designer Availability Modal */}
+        <DesignerAvailabilityModal
+          isOpen={!!availabilityDesigner}
+          onClose={() => setAvailabilityDesigner(null)}
+          designer={availabilityDesigner}
+          onUpdated={refetch}
+        />
       </div>
     </div>
   );
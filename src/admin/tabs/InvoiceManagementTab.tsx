@@ -1,17 +1,24 @@
 import React, { useState } from 'react';
-import { Plus, FileText, Eye, CreditCard as Edit, Calendar, Copy, Link as LinkIcon, CheckCircle, RefreshCw } from 'lucide-react';
+import { Plus, FileText, Eye, CreditCard as Edit, Calendar, Copy, Link as LinkIcon, CheckCircle, RefreshCw, Download, Send, BellRing } from 'lucide-react';
 import DataTable from '../components/DataTable';
 import FilterBar, { FilterConfig } from '../components/FilterBar';
 import GenerateInvoiceModal from '../components/GenerateInvoiceModal';
 import InvoiceDetailsModal from '../components/InvoiceDetailsModal';
 import EditInvoiceModal from '../components/EditInvoiceModal';
 import ConfirmationModal from '../components/ConfirmationModal';
+import DunningScheduleModal from '../components/DunningScheduleModal';
 import { getInvoices, getCustomersForInvoice } from '../api/supabaseHelpers';
-import { Invoice, PaginationParams } from '../types';
+import { Invoice, Order, PaginationParams } from '../types';
 import { usePaginatedData } from '../hooks/useAdminData';
 import { CSVColumn } from '../../shared/utils/csvExport';
 import { toast } from '../../utils/toast';
 import { supabase } from '../../lib/supabase';
+import { fetchInvoiceCreditNotes, fetchInvoicePayments, getInvoiceBalance, recordInvoicePayment } from '../../services/paymentService';
+import { approveDraftInvoice, createPaymentLink } from '../../services/invoiceService';
+import { downloadInvoicePdf } from '../../services/invoicePdfService';
+import { formatPrice } from '../../services/pricingService';
+import { withTaxLineItem } from '../../services/taxService';
+import { convertLineItems } from '../../services/currencyService';
 
 const InvoiceManagementTab: React.FC = () => {
   // Use the paginated data hook
@@ -35,11 +42,15 @@ const InvoiceManagementTab: React.FC = () => {
     dateTo: '',
   });
 
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
+  const [approvingInvoiceId, setApprovingInvoiceId] = useState<string | null>(null);
+
   // Modal states
   const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isMarkAsPaidModalOpen, setIsMarkAsPaidModalOpen] = useState(false);
+  const [isDunningModalOpen, setIsDunningModalOpen] = useState(false);
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [selectedInvoiceForPayment, setSelectedInvoiceForPayment] = useState<Invoice | null>(null);
   const [customers, setCustomers] = useState<{ id: string; full_name: string; email: string }[]>([]);
@@ -71,8 +82,12 @@ const InvoiceManagementTab: React.FC = () => {
       key: 'status',
       label: 'Status',
       options: [
+        { value: 'draft', label: 'Draft' },
         { value: 'paid', label: 'Paid' },
+        { value: 'partially_paid', label: 'Partially Paid' },
         { value: 'unpaid', label: 'Unpaid' },
+        { value: 'refunded', label: 'Refunded' },
+        { value: 'charged_back', label: 'Charged Back' },
       ],
     },
     {
@@ -129,8 +144,12 @@ const InvoiceManagementTab: React.FC = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'draft': return 'bg-blue-100 text-blue-800';
       case 'paid': return 'bg-green-100 text-green-800';
+      case 'partially_paid': return 'bg-yellow-100 text-yellow-800';
       case 'unpaid': return 'bg-red-100 text-red-800';
+      case 'refunded': return 'bg-purple-100 text-purple-800';
+      case 'charged_back': return 'bg-orange-100 text-orange-800';
       case 'cancelled': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -141,8 +160,36 @@ const InvoiceManagementTab: React.FC = () => {
     setIsDetailsModalOpen(true);
   };
 
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    setDownloadingInvoiceId(invoice.id);
+    try {
+      // Staff downloads refresh the stored copy the orders' invoice_url points at
+      await downloadInvoicePdf(invoice.id, { store: true });
+    } catch (error) {
+      console.error('Error downloading invoice PDF:', error);
+      toast.error('Failed to download invoice PDF');
+    } finally {
+      setDownloadingInvoiceId(null);
+    }
+  };
+
+  const handleApproveDraft = async (invoice: Invoice) => {
+    setApprovingInvoiceId(invoice.id);
+    try {
+      await approveDraftInvoice(invoice.id);
+      toast.success('Invoice approved and sent to the customer!');
+      refetch();
+    } catch (error) {
+      console.error('Error approving draft invoice:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to approve invoice';
+      toast.error(errorMessage);
+    } finally {
+      setApprovingInvoiceId(null);
+    }
+  };
+
   const handleEditInvoice = (invoice: Invoice) => {
-    if (invoice.status === 'paid' || invoice.status === 'cancelled') {
+    if (invoice.status === 'paid' || invoice.status === 'cancelled' || invoice.status === 'refunded') {
       return;
     }
     setSelectedInvoiceId(invoice.id);
@@ -165,12 +212,28 @@ const InvoiceManagementTab: React.FC = () => {
     if (!selectedInvoiceForPayment) return;
 
     try {
-      const { error } = await supabase
-        .from('invoices')
-        .update({ status: 'paid' })
-        .eq('id', selectedInvoiceForPayment.id);
-
-      if (error) throw error;
+      // Settle the outstanding balance through the ledger so the balance stays accurate
+      const [payments, creditNotes] = await Promise.all([
+        fetchInvoicePayments(selectedInvoiceForPayment.id),
+        fetchInvoiceCreditNotes(selectedInvoiceForPayment.id),
+      ]);
+      const { balanceDue } = getInvoiceBalance(selectedInvoiceForPayment.total_amount, payments, creditNotes);
+
+      if (balanceDue > 0) {
+        await recordInvoicePayment({
+          invoice_id: selectedInvoiceForPayment.id,
+          amount: balanceDue,
+          method: 'other',
+          notes: 'Marked as paid',
+        });
+      } else {
+        const { error } = await supabase
+          .from('invoices')
+          .update({ status: 'paid' })
+          .eq('id', selectedInvoiceForPayment.id);
+
+        if (error) throw error;
+      }
 
       toast.success('Invoice marked as paid!');
       setIsMarkAsPaidModalOpen(false);
@@ -201,42 +264,28 @@ const InvoiceManagementTab: React.FC = () => {
 
       const baseUrl = window.location.origin;
 
+      // Orders are priced in the base currency; convert them at the invoice's own rate
       const products = ordersData && ordersData.length > 0
-        ? ordersData.map((order: any) => ({
+        ? convertLineItems((ordersData as Pick<Order, 'order_name' | 'order_number' | 'total_amount'>[]).map(order => ({
             name: (order.order_name && order.order_name.trim()) || `Order ${order.order_number}`,
             price: order.total_amount || 0,
             quantity: 1,
-          }))
+          })), invoiceData.exchange_rate || 1)
         : [{
             name: invoiceData.invoice_title || 'Invoice Payment',
-            price: invoice.total_amount,
+            price: invoiceData.subtotal ?? invoice.total_amount,
             quantity: 1,
           }];
 
-      const { data: paymentData, error: paymentError } = await supabase.functions.invoke(
-        'generate-2co-payment-url',
-        {
-          body: {
-            invoiceId: invoice.id,
-            products,
-            returnUrl: `${baseUrl}/payment/success`,
-            cancelUrl: `${baseUrl}/payment/failure`,
-            currency: 'USD',
-          },
-        }
+      // Charge the tax fixed when the invoice was issued, not today's rate
+      await createPaymentLink(
+        invoice.id,
+        withTaxLineItem(products, { rate: invoiceData.tax_rate || 0, taxAmount: invoiceData.tax_amount || 0 }),
+        `${baseUrl}/payment/success`,
+        `${baseUrl}/payment/failure`,
+        invoiceData.currency
       );
 
-      if (paymentError || !paymentData?.checkoutUrl) {
-        throw new Error(paymentError?.message || 'Failed to generate payment URL');
-      }
-
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({ payment_link: paymentData.checkoutUrl })
-        .eq('id', invoice.id);
-
-      if (updateError) throw updateError;
-
       toast.success('Payment link regenerated!');
       refetch();
     } catch (error) {
@@ -271,8 +320,7 @@ const InvoiceManagementTab: React.FC = () => {
       sortable: true,
       render: (invoice: Invoice) => (
         <div className="flex items-center">
-          
-          ${invoice.total_amount.toFixed(2)}
+          {formatPrice(invoice.total_amount, invoice.currency)}
         </div>
       ),
     },
@@ -290,6 +338,21 @@ const InvoiceManagementTab: React.FC = () => {
               TCO: {invoice.tco_reference_number}
             </div>
           )}
+          {invoice.paypal_capture_id && (
+            <div className="text-xs text-gray-500">
+              PayPal: {invoice.paypal_capture_id}
+            </div>
+          )}
+          {invoice.last_reminder_days && (
+            <div className="text-xs text-orange-600">
+              Reminded (day {invoice.last_reminder_days})
+            </div>
+          )}
+          {invoice.dunning_paused && (
+            <div className="text-xs text-gray-500">
+              Reminders paused
+            </div>
+          )}
         </div>
       ),
     },
@@ -332,7 +395,18 @@ const InvoiceManagementTab: React.FC = () => {
               Generate
             </button>
           )}
-          {invoice.status === 'unpaid' && (
+          {invoice.status === 'draft' && (
+            <button
+              onClick={() => handleApproveDraft(invoice)}
+              className="flex items-center text-blue-600 hover:text-blue-900 transition-colors text-xs disabled:opacity-50"
+              title="Approve and create payment link"
+              disabled={approvingInvoiceId === invoice.id}
+            >
+              <Send className="h-3.5 w-3.5 mr-1" />
+              Approve
+            </button>
+          )}
+          {(invoice.status === 'unpaid' || invoice.status === 'partially_paid' || invoice.status === 'charged_back') && (
             <button
               onClick={() => handleMarkAsPaid(invoice)}
               className="text-green-600 hover:text-green-900 transition-colors p-1"
@@ -362,15 +436,23 @@ const InvoiceManagementTab: React.FC = () => {
           >
             <Eye className="h-4 w-4" />
           </button>
+          <button
+            onClick={() => handleDownloadPdf(invoice)}
+            className="text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50"
+            title="Download PDF"
+            disabled={downloadingInvoiceId === invoice.id}
+          >
+            <Download className="h-4 w-4" />
+          </button>
           <button
             onClick={() => handleEditInvoice(invoice)}
             className={`transition-colors ${
-              invoice.status === 'cancelled' || invoice.status === 'paid'
+              invoice.status === 'cancelled' || invoice.status === 'paid' || invoice.status === 'refunded'
                 ? 'text-gray-400 cursor-not-allowed'
                 : 'text-green-600 hover:text-green-900'
             }`}
             title="Edit Invoice"
-            disabled={invoice.status === 'cancelled' || invoice.status === 'paid'}
+            disabled={invoice.status === 'cancelled' || invoice.status === 'paid' || invoice.status === 'refunded'}
           >
             <Edit className="h-4 w-4" />
           </button>
@@ -391,7 +473,7 @@ const InvoiceManagementTab: React.FC = () => {
     {
       key: 'total_amount',
       label: 'Total Amount',
-      format: (invoice) => invoice.total_amount.toFixed(2)
+      format: (invoice) => formatPrice(invoice.total_amount, invoice.currency, 'code')
     },
     {
       key: 'status',
@@ -414,13 +496,22 @@ const InvoiceManagementTab: React.FC = () => {
             <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Invoice Management</h2>
             <p className="text-sm sm:text-base text-gray-600 mt-1">Generate and manage customer invoices</p>
           </div>
-          <button
-            onClick={() => setIsGenerateModalOpen(true)}
-            className="btn-success btn-large px-6 flex items-center space-x-2"
-          >
-            <Plus className="h-5 w-5" />
-            <span>Generate Invoice</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsDunningModalOpen(true)}
+              className="btn-primary btn-large px-6 flex items-center space-x-2"
+            >
+              <BellRing className="h-5 w-5" />
+              <span>Payment Reminders</span>
+            </button>
+            <button
+              onClick={() => setIsGenerateModalOpen(true)}
+              className="btn-success btn-large px-6 flex items-center space-x-2"
+            >
+              <Plus className="h-5 w-5" />
+              <span>Generate Invoice</span>
+            </button>
+          </div>
         </div>
 
         {/* Filter Bar */}
@@ -470,6 +561,15 @@ const InvoiceManagementTab: React.FC = () => {
           isOpen={isDetailsModalOpen}
           onClose={() => setIsDetailsModalOpen(false)}
           invoiceId={selectedInvoiceId}
+          canRecordPayments={true}
+          onPaymentRecorded={refetch}
+        />
+
+        {/* Payment Reminder Schedule Modal */}
+        <DunningScheduleModal
+          isOpen={isDunningModalOpen}
+          onClose={() => setIsDunningModalOpen(false)}
+          onRemindersSent={refetch}
         />
 
         {/* Edit Invoice Modal */}
@@ -492,7 +592,7 @@ const InvoiceManagementTab: React.FC = () => {
           }}
           onConfirm={confirmMarkAsPaid}
           title="Mark Invoice as Paid"
-          message={`Are you sure you want to mark invoice "${selectedInvoiceForPayment?.invoice_title}" as paid? This action will update the invoice status.`}
+          message={`Are you sure you want to mark invoice "${selectedInvoiceForPayment?.invoice_title}" as paid? The outstanding balance will be recorded as a payment.`}
           confirmText="Mark as Paid"
           cancelText="Cancel"
           type="info"
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { CreditCard as Edit, Eye, Calendar, CreditCard } from 'lucide-react';
+import { CreditCard as Edit, Eye, Calendar, CreditCard, ShieldCheck } from 'lucide-react';
 import DataTable from '../components/DataTable';
 import FilterBar, { FilterConfig } from '../components/FilterBar';
 import EditOrderModal from '../components/EditOrderModal';
@@ -9,6 +9,12 @@ import { usePaginatedData } from '../hooks/useAdminData';
 import { getOrders } from '../api/supabaseHelpers';
 import { OrderImagePreview } from '../../components/OrderImagePreview';
 import { CSVColumn } from '../../shared/utils/csvExport';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY } from '../../services/currencyService';
+import { approveHeldOrder } from '../../services/dunningService';
+import { createDueDateColumn } from '../../shared/utils/orderTableUtils';
+import { getSlaState, SLA_STATE_LABELS } from '../../services/turnaroundService';
+import { toast } from '../../utils/toast';
 
 interface OrdersTabProps {
   onOrderClick: (order: AdminOrder) => void;
@@ -189,6 +195,16 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
     updateParams(resetParams);
   };
 
+  const handleApproveOrder = async (order: AdminOrder) => {
+    try {
+      await approveHeldOrder(order.id);
+      toast.success(`Order ${order.order_number} approved`);
+      refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve order');
+    }
+  };
+
   const handleEditOrder = (order: AdminOrder) => {
     setSelectedOrder(order);
     setIsModalOpen(true);
@@ -239,16 +255,21 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
       key: 'total_amount',
       label: 'Total',
       sortable: true,
-      render: (order: AdminOrder) => `$${(order.total_amount || 0).toFixed(2)}`,
+      render: (order: AdminOrder) => formatPrice(order.total_amount || 0),
     },
     {
       key: 'status',
       label: 'Status',
       sortable: true,
       render: (order: AdminOrder) => (
-        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-          {order.status.replace('_', ' ')}
-        </span>
+        <div className="space-y-1">
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
+            {order.status.replace('_', ' ')}
+          </span>
+          {order.requires_approval && (
+            <div className="text-xs font-medium text-orange-600">Needs approval</div>
+          )}
+        </div>
       ),
     },
     {
@@ -261,6 +282,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
         </span>
       ),
     },
+    createDueDateColumn(),
     {
       key: 'assigned_sales_rep_name',
       label: 'Sales Rep',
@@ -307,6 +329,15 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
           >
             <Eye className="h-4 w-4" />
           </button>
+          {order.requires_approval && (
+            <button
+              onClick={() => handleApproveOrder(order)}
+              className="text-orange-600 hover:text-orange-900 transition-colors"
+              title="Approve Order (customer on hold)"
+            >
+              <ShieldCheck className="h-4 w-4" />
+            </button>
+          )}
         </div>
       ),
     },
@@ -319,7 +350,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
     {
       key: 'total_amount',
       label: 'Total Amount',
-      format: (order) => (order.total_amount || 0).toFixed(2)
+      format: (order) => formatPrice(order.total_amount || 0, BASE_CURRENCY, 'code')
     },
     {
       key: 'status',
@@ -331,6 +362,19 @@ const OrdersTab: React.FC<OrdersTabProps> = ({ onOrderClick }) => {
       label: 'Payment Status',
       format: (order) => order.payment_status.replace('_', ' ')
     },
+    {
+      key: 'due_at',
+      label: 'Due Date',
+      format: (order) => (order.due_at ? new Date(order.due_at).toLocaleDateString() : '')
+    },
+    {
+      key: 'sla',
+      label: 'SLA',
+      format: (order) => {
+        const slaState = getSlaState(order);
+        return slaState ? SLA_STATE_LABELS[slaState] : '';
+      }
+    },
     { key: 'assigned_sales_rep_name', label: 'Sales Rep' },
     { key: 'assigned_designer_name', label: 'Designer' },
     {
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { ShoppingBag, Users, Package, TrendingUp, Eye, AlertCircle, DollarSign, Clock } from 'lucide-react';
+import { ShoppingBag, Users, Package, TrendingUp, Eye, AlertCircle, DollarSign, Clock, AlarmClock, TimerOff } from 'lucide-react';
 import { useAdminData } from '../hooks/useAdminData';
 import { AdminOrder } from '../types';
+import { formatPrice } from '../../services/pricingService';
+import DesignerTimeOverview from '../components/DesignerTimeOverview';
 
 
 interface OverviewTabProps {
@@ -25,6 +27,8 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ onOrderClick }) => {
         return { bg: 'bg-orange-100', text: 'text-orange-600' };
       case 'indigo':
         return { bg: 'bg-indigo-100', text: 'text-indigo-600' };
+      case 'red':
+        return { bg: 'bg-red-100', text: 'text-red-600' };
       default:
         return { bg: 'bg-gray-100', text: 'text-gray-600' };
     }
@@ -45,7 +49,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ onOrderClick }) => {
     },
     {
       title: 'Revenue This Month',
-      value: `$${stats.totalRevenueThisMonth.toLocaleString()}`,
+      value: formatPrice(stats.totalRevenueThisMonth),
       icon: DollarSign,
       color: 'purple',
     },
@@ -73,6 +77,18 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ onOrderClick }) => {
       icon: Clock,
       color: 'orange',
     },
+    {
+      title: 'Overdue Orders',
+      value: stats.slaBreachedOrders.toString(),
+      icon: AlarmClock,
+      color: stats.slaBreachedOrders > 0 ? 'red' : 'green',
+    },
+    {
+      title: 'Completed Late this Month',
+      value: stats.lateCompletionsThisMonth.toString(),
+      icon: TimerOff,
+      color: stats.lateCompletionsThisMonth > 0 ? 'red' : 'green',
+    },
   ];
 
   const getStatusColor = (status: string) => {
@@ -150,6 +166,11 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ onOrderClick }) => {
         </div>
       </div>
 
+      {/* Designer Time */}
+      <div className="w-full px-4 sm:px-6 lg:px-8">
+        <DesignerTimeOverview />
+      </div>
+
       {/* Recent Orders */}
       <div className="w-full px-4 sm:px-6 lg:px-8">
         <div className="bg-white rounded-xl shadow-sm border border-gray-100">
@@ -220,7 +241,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ onOrderClick }) => {
                       {new Date(order.created_at).toLocaleDateString()}
                     </td>
                     <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-xs sm:text-sm font-medium text-gray-900">
-                      ${(order.total_amount || 0).toFixed(2)}
+                      {formatPrice(order.total_amount || 0)}
                     </td>
                   </tr>
                 ))
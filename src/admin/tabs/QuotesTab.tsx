@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, Paperclip } from 'lucide-react';
+import DataTable from '../components/DataTable';
+import FilterBar, { FilterConfig } from '../components/FilterBar';
+import QuoteDetailsModal from '../components/QuoteDetailsModal';
+import { getQuotes, getSalesReps } from '../api/supabaseHelpers';
+import { AdminUser, PaginationParams, Quote, QuoteStage } from '../types';
+import { usePaginatedData } from '../hooks/useAdminData';
+import { CSVColumn } from '../../shared/utils/csvExport';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY } from '../../services/currencyService';
+import { isQuotePastValidity, QUOTE_STAGE_LABELS } from '../../services/quoteService';
+
+interface QuotesTabProps {
+  // Set on the sales rep dashboard to show only that rep's quotes
+  salesRepId?: string;
+}
+
+const STAGE_COLORS: Record<QuoteStage, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  priced: 'bg-purple-100 text-purple-800',
+  sent: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800',
+};
+
+const QuotesTab: React.FC<QuotesTabProps> = ({ salesRepId }) => {
+  const isAdminView = !salesRepId;
+
+  const [initialParams] = useState<PaginationParams>({
+    page: 1,
+    limit: 25,
+    search: '',
+    sortBy: 'created_at',
+    sortOrder: 'desc',
+    salesRepId,
+  });
+
+  const { data: quotes, params, loading, error, updateParams, refetch } = usePaginatedData(
+    getQuotes,
+    initialParams
+  );
+
+  const [filterValues, setFilterValues] = useState<Record<string, string>>({
+    quoteStage: '',
+    salesRepId: '',
+  });
+
+  const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
+  const [salesReps, setSalesReps] = useState<AdminUser[]>([]);
+
+  useEffect(() => {
+    if (!isAdminView) return;
+
+    getSalesReps()
+      .then(setSalesReps)
+      .catch(error => console.error('Error fetching sales reps:', error));
+  }, [isAdminView]);
+
+  const filterConfigs: FilterConfig[] = [
+    {
+      key: 'quoteStage',
+      label: 'Stage',
+      options: (Object.keys(QUOTE_STAGE_LABELS) as QuoteStage[]).map(stage => ({
+        value: stage,
+        label: QUOTE_STAGE_LABELS[stage],
+      })),
+    },
+    ...(isAdminView
+      ? [{
+        key: 'salesRepId',
+        label: 'Sales Rep',
+        options: salesReps.map(rep => ({ value: rep.id, label: rep.full_name })),
+      }]
+      : []),
+  ];
+
+  const handleParamsChange = (newParams: Partial<PaginationParams>) => {
+    updateParams(newParams);
+  };
+
+  const handleSearch = (search: string) => {
+    updateParams({ search, page: 1 });
+  };
+
+  const handleFilterChange = (key: string, value: string | string[]) => {
+    const filterValue = Array.isArray(value) ? value.join(',') : value;
+    setFilterValues(prev => ({ ...prev, [key]: filterValue }));
+    if (key === 'quoteStage' || key === 'salesRepId') {
+      updateParams({ [key]: filterValue || undefined, page: 1 });
+    }
+  };
+
+  const handleClearFilters = () => {
+    setFilterValues({ quoteStage: '', salesRepId: '' });
+    updateParams({ ...initialParams, quoteStage: undefined });
+  };
+
+  const columns = [
+    {
+      key: 'quote_number',
+      label: 'Quote',
+      sortable: true,
+      render: (quote: Quote) => (
+        <div>
+          <p className="font-mono font-semibold text-gray-900">{quote.quote_number}</p>
+          <p className="text-xs text-gray-500">{new Date(quote.created_at).toLocaleDateString()}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'full_name',
+      label: 'Contact',
+      sortable: true,
+      render: (quote: Quote) => (
+        <div>
+          <p className="text-gray-900">{quote.full_name}</p>
+          <p className="text-xs text-gray-500">{quote.email}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'category_name',
+      label: 'Design',
+      render: (quote: Quote) => (
+        <div className="flex items-center space-x-1">
+          <span>{quote.category_name || '—'}</span>
+          {quote.attachment_path && <Paperclip className="h-3 w-3 text-gray-400" />}
+        </div>
+      ),
+    },
+    ...(isAdminView
+      ? [{
+        key: 'assigned_sales_rep_name',
+        label: 'Sales Rep',
+        render: (quote: Quote) => quote.assigned_sales_rep_name || <span className="text-gray-400">Unassigned</span>,
+      }]
+      : []),
+    {
+      key: 'quoted_price',
+      label: 'Price',
+      sortable: true,
+      render: (quote: Quote) => (quote.quoted_price !== null && quote.quoted_price !== undefined ? formatPrice(Number(quote.quoted_price)) : '—'),
+    },
+    {
+      key: 'valid_until',
+      label: 'Valid Until',
+      sortable: true,
+      render: (quote: Quote) => (quote.valid_until ? new Date(`${quote.valid_until}T00:00:00`).toLocaleDateString() : '—'),
+    },
+    {
+      key: 'stage',
+      label: 'Stage',
+      sortable: true,
+      render: (quote: Quote) => (
+        <div>
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STAGE_COLORS[quote.stage]}`}>
+            {QUOTE_STAGE_LABELS[quote.stage]}
+          </span>
+          {isQuotePastValidity(quote) && <p className="text-xs text-red-600 mt-1">Past valid date</p>}
+          {quote.order_number && <p className="text-xs text-gray-500 mt-1">Order #{quote.order_number}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      render: (quote: Quote) => (
+        <button
+          onClick={() => setSelectedQuote(quote)}
+          className="text-blue-600 hover:text-blue-900 transition-colors"
+          title="View Quote"
+        >
+          <Eye className="h-4 w-4" />
+        </button>
+      ),
+    },
+  ];
+
+  const csvColumns: CSVColumn<Quote>[] = [
+    { key: 'quote_number', label: 'Quote' },
+    { key: 'created_at', label: 'Received', format: (quote) => new Date(quote.created_at).toLocaleDateString() },
+    { key: 'full_name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'category_name', label: 'Category' },
+    { key: 'assigned_sales_rep_name', label: 'Sales Rep' },
+    {
+      key: 'quoted_price',
+      label: 'Price',
+      format: (quote) => (quote.quoted_price !== null && quote.quoted_price !== undefined
+        ? formatPrice(Number(quote.quoted_price), BASE_CURRENCY, 'code')
+        : ''),
+    },
+    { key: 'valid_until', label: 'Valid Until' },
+    { key: 'stage', label: 'Stage', format: (quote) => QUOTE_STAGE_LABELS[quote.stage] },
+    { key: 'order_number', label: 'Order' },
+  ];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className={isAdminView ? 'w-full px-4 sm:px-6 lg:px-8' : ''}>
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0 mb-4 sm:mb-6">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Quotes</h2>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              {isAdminView ? 'Quote requests from the website and where they stand' : 'Price and follow up the quote requests assigned to you'}
+            </p>
+          </div>
+        </div>
+
+        {/* Enhanced Filter Bar */}
+        <FilterBar
+          searchValue={params.search || ''}
+          onSearchChange={handleSearch}
+          searchPlaceholder="Search quotes by number, name or email..."
+          filters={filterConfigs}
+          filterValues={filterValues}
+          onFilterChange={handleFilterChange}
+          onClearFilters={handleClearFilters}
+          resultCount={quotes.total}
+          loading={loading}
+        />
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mt-4 sm:mt-6">
+            <p className="text-sm sm:text-base text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Quotes Table */}
+        <DataTable
+          data={quotes}
+          columns={columns}
+          onParamsChange={handleParamsChange}
+          currentParams={params}
+          loading={loading}
+          csvFilename="quotes_filtered"
+          csvColumns={csvColumns}
+        />
+
+        {/* Quote Details Modal */}
+        <QuoteDetailsModal
+          isOpen={!!selectedQuote}
+          onClose={() => setSelectedQuote(null)}
+          quote={selectedQuote}
+          salesReps={isAdminView ? salesReps : undefined}
+          onUpdated={refetch}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default QuotesTab;
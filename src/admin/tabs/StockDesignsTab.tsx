@@ -11,6 +11,8 @@ import { getStockDesigns } from '../api/supabaseHelpers';
 import { toast } from '../../utils/toast';
 import { getPlaceholderImage } from '../../lib/placeholderImages';
 import { CSVColumn } from '../../shared/utils/csvExport';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY } from '../../services/currencyService';
 
 const StockDesignsTab: React.FC = () => {
   // Use the new paginated data hook
@@ -204,7 +206,7 @@ const StockDesignsTab: React.FC = () => {
       key: 'price',
       label: 'Price',
       sortable: true,
-      render: (stockDesign: AdminStockDesign) => `$${stockDesign.price.toFixed(2)}`,
+      render: (stockDesign: AdminStockDesign) => formatPrice(stockDesign.price),
     },
     {
       key: 'status',
@@ -256,7 +258,7 @@ const StockDesignsTab: React.FC = () => {
     {
       key: 'price',
       label: 'Price',
-      format: (stockDesign) => stockDesign.price.toFixed(2)
+      format: (stockDesign) => formatPrice(stockDesign.price, BASE_CURRENCY, 'code')
     },
     { key: 'status', label: 'Status' },
     {
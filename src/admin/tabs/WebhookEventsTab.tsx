@@ -0,0 +1,411 @@
+import React, { useState } from 'react';
+import { Eye, RotateCcw, X, AlertTriangle } from 'lucide-react';
+import DataTable from '../components/DataTable';
+import FilterBar, { FilterConfig } from '../components/FilterBar';
+import { getPaymentWebhookEvents } from '../api/supabaseHelpers';
+import { PaginationParams, PaymentWebhookEvent } from '../types';
+import { usePaginatedData } from '../hooks/useAdminData';
+import { CSVColumn } from '../../shared/utils/csvExport';
+import { toast } from '../../utils/toast';
+import { replayWebhookEvent } from '../../services/paymentService';
+
+const GATEWAY_LABELS: Record<PaymentWebhookEvent['gateway'], string> = {
+  twoCheckout: '2Checkout',
+  stripe: 'Stripe',
+  paypal: 'PayPal',
+};
+
+const REPLAYABLE_STATUSES: PaymentWebhookEvent['status'][] = ['failed', 'received', 'processing'];
+
+const WebhookEventsTab: React.FC = () => {
+  const { data: events, params, loading, error, updateParams, refetch } = usePaginatedData(
+    getPaymentWebhookEvents,
+    {
+      page: 1,
+      limit: 25,
+      search: '',
+      sortBy: 'received_at',
+      sortOrder: 'desc',
+    }
+  );
+
+  const [filterValues, setFilterValues] = useState<Record<string, string>>({
+    status: '',
+    gateway: '',
+    dateFrom: '',
+    dateTo: '',
+  });
+
+  const [selectedEvent, setSelectedEvent] = useState<PaymentWebhookEvent | null>(null);
+  const [replayingEventId, setReplayingEventId] = useState<string | null>(null);
+
+  const [initialParams] = useState<PaginationParams>({
+    page: 1,
+    limit: 25,
+    search: '',
+    sortBy: 'received_at',
+    sortOrder: 'desc',
+  });
+
+  const filterConfigs: FilterConfig[] = [
+    {
+      key: 'status',
+      label: 'Status',
+      options: [
+        { value: 'failed', label: 'Failed' },
+        { value: 'processed', label: 'Processed' },
+        { value: 'ignored', label: 'Ignored' },
+        { value: 'received', label: 'Received' },
+        { value: 'processing', label: 'Processing' },
+        { value: 'rejected', label: 'Rejected' },
+      ],
+    },
+    {
+      key: 'gateway',
+      label: 'Gateway',
+      options: [
+        { value: 'twoCheckout', label: '2Checkout' },
+        { value: 'stripe', label: 'Stripe' },
+        { value: 'paypal', label: 'PayPal' },
+      ],
+    },
+    {
+      key: 'dateFrom',
+      label: 'From Date',
+      type: 'date' as const,
+    },
+    {
+      key: 'dateTo',
+      label: 'To Date',
+      type: 'date' as const,
+    },
+  ];
+
+  const handleParamsChange = (newParams: Partial<PaginationParams>) => {
+    updateParams(newParams);
+  };
+
+  const handleSearch = (search: string) => {
+    updateParams({ search, page: 1 });
+  };
+
+  const handleFilterChange = (key: string, value: string | string[]) => {
+    const stringValue = Array.isArray(value) ? value.join(',') : value;
+    setFilterValues(prev => ({ ...prev, [key]: stringValue }));
+
+    const newParams: Partial<PaginationParams> = { page: 1 };
+
+    if (key === 'status') {
+      newParams.webhookStatus = stringValue || undefined;
+    } else if (key === 'gateway') {
+      newParams.webhookGateway = stringValue || undefined;
+    } else if (key === 'dateFrom') {
+      newParams.dateFrom = stringValue || undefined;
+    } else if (key === 'dateTo') {
+      newParams.dateTo = stringValue || undefined;
+    }
+
+    updateParams(newParams);
+  };
+
+  const handleClearFilters = () => {
+    setFilterValues({
+      status: '',
+      gateway: '',
+      dateFrom: '',
+      dateTo: '',
+    });
+    updateParams({
+      ...initialParams,
+      webhookStatus: undefined,
+      webhookGateway: undefined,
+      dateFrom: undefined,
+      dateTo: undefined,
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'processed': return 'bg-green-100 text-green-800';
+      case 'ignored': return 'bg-gray-100 text-gray-800';
+      case 'received': return 'bg-blue-100 text-blue-800';
+      case 'processing': return 'bg-yellow-100 text-yellow-800';
+      case 'failed': return 'bg-red-100 text-red-800';
+      case 'rejected': return 'bg-orange-100 text-orange-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatPayload = (event: PaymentWebhookEvent) => {
+    try {
+      return JSON.stringify(JSON.parse(event.raw_payload), null, 2);
+    } catch {
+      // 2Checkout posts form-encoded notifications
+      return Array.from(new URLSearchParams(event.raw_payload)).map(([key, value]) => `${key}=${value}`).join('\n');
+    }
+  };
+
+  const handleReplay = async (event: PaymentWebhookEvent) => {
+    setReplayingEventId(event.id);
+    try {
+      const result = await replayWebhookEvent(event.id);
+      if (result.status === 'failed') {
+        toast.error(`Replay failed: ${result.message}`);
+      } else {
+        toast.success(`Event ${result.status}: ${result.message}`);
+      }
+      setSelectedEvent(null);
+      refetch();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to replay event';
+      toast.error(errorMessage);
+    } finally {
+      setReplayingEventId(null);
+    }
+  };
+
+  const canReplay = (event: PaymentWebhookEvent) =>
+    event.signature_valid && REPLAYABLE_STATUSES.includes(event.status);
+
+  const columns = [
+    {
+      key: 'received_at',
+      label: 'Received',
+      sortable: true,
+      render: (event: PaymentWebhookEvent) => new Date(event.received_at).toLocaleString(),
+    },
+    {
+      key: 'gateway',
+      label: 'Gateway',
+      sortable: true,
+      render: (event: PaymentWebhookEvent) => GATEWAY_LABELS[event.gateway] || event.gateway,
+    },
+    {
+      key: 'event_type',
+      label: 'Event',
+      render: (event: PaymentWebhookEvent) => (
+        <div>
+          <div className="text-sm text-gray-900">{event.event_type || '-'}</div>
+          {event.reference && (
+            <div className="text-xs text-gray-500">Ref: {event.reference}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'invoice_title',
+      label: 'Invoice',
+      render: (event: PaymentWebhookEvent) => event.invoice_title || '-',
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      sortable: true,
+      render: (event: PaymentWebhookEvent) => (
+        <div className="space-y-1">
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(event.status)}`}>
+            {event.status}
+          </span>
+          {event.error && (
+            <div className="text-xs text-red-600 max-w-xs truncate" title={event.error}>
+              {event.error}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'deliveries',
+      label: 'Deliveries',
+      sortable: true,
+      render: (event: PaymentWebhookEvent) => `${event.deliveries} / ${event.attempts} attempts`,
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      render: (event: PaymentWebhookEvent) => (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setSelectedEvent(event)}
+            className="text-blue-600 hover:text-blue-900 transition-colors"
+            title="View Event"
+          >
+            <Eye className="h-4 w-4" />
+          </button>
+          {canReplay(event) && (
+            <button
+              onClick={() => handleReplay(event)}
+              className="text-purple-600 hover:text-purple-900 transition-colors disabled:opacity-50"
+              title="Replay Event"
+              disabled={replayingEventId === event.id}
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  const csvColumns: CSVColumn<PaymentWebhookEvent>[] = [
+    {
+      key: 'received_at',
+      label: 'Received',
+      format: (event) => new Date(event.received_at).toLocaleString()
+    },
+    {
+      key: 'gateway',
+      label: 'Gateway',
+      format: (event) => GATEWAY_LABELS[event.gateway] || event.gateway
+    },
+    { key: 'event_type', label: 'Event Type' },
+    { key: 'event_key', label: 'Event Key' },
+    { key: 'reference', label: 'Reference' },
+    { key: 'invoice_title', label: 'Invoice' },
+    { key: 'status', label: 'Status' },
+    { key: 'error', label: 'Error' },
+    { key: 'deliveries', label: 'Deliveries' },
+    { key: 'attempts', label: 'Attempts' },
+  ];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="w-full px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-4 sm:mb-6">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Webhook Events</h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">Inspect payment gateway notifications and replay failed ones</p>
+        </div>
+
+        {/* Filter Bar */}
+        <FilterBar
+          searchValue={params.search || ''}
+          onSearchChange={handleSearch}
+          searchPlaceholder="Search by event key, reference, or type..."
+          filters={filterConfigs}
+          filterValues={filterValues}
+          onFilterChange={handleFilterChange}
+          onClearFilters={handleClearFilters}
+          resultCount={events.total}
+          loading={loading}
+        />
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mt-4 sm:mt-6">
+            <p className="text-sm sm:text-base text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Events Table */}
+        <DataTable
+          data={events}
+          columns={columns}
+          onParamsChange={handleParamsChange}
+          currentParams={params}
+          loading={loading}
+          csvFilename="webhook_events_filtered"
+          csvColumns={csvColumns}
+        />
+
+        {/* Event Details Modal */}
+        {selectedEvent && (
+          <>
+            <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={() => setSelectedEvent(null)} />
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+              <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {GATEWAY_LABELS[selectedEvent.gateway]} · {selectedEvent.event_type || 'Unknown event'}
+                    </h2>
+                    <p className="text-xs text-gray-500 mt-1">{selectedEvent.event_key || 'No event key'}</p>
+                  </div>
+                  <button
+                    onClick={() => setSelectedEvent(null)}
+                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div>
+                      <span className="text-gray-500">Status: </span>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(selectedEvent.status)}`}>
+                        {selectedEvent.status}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Invoice: </span>
+                      {selectedEvent.invoice_title || '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Received: </span>
+                      {new Date(selectedEvent.received_at).toLocaleString()}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Processed: </span>
+                      {selectedEvent.processed_at ? new Date(selectedEvent.processed_at).toLocaleString() : '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Deliveries: </span>
+                      {selectedEvent.deliveries}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Attempts: </span>
+                      {selectedEvent.attempts}
+                    </div>
+                    {selectedEvent.last_replayed_at && (
+                      <div>
+                        <span className="text-gray-500">Last Replayed: </span>
+                        {new Date(selectedEvent.last_replayed_at).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+
+                  {selectedEvent.error && (
+                    <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3">
+                      <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                      <p className="text-sm text-red-700">{selectedEvent.error}</p>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Payload</h3>
+                    <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap break-all">
+                      {formatPayload(selectedEvent)}
+                    </pre>
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-2 p-6 border-t border-gray-200">
+                  <button
+                    onClick={() => setSelectedEvent(null)}
+                    className="btn-secondary text-sm"
+                  >
+                    Close
+                  </button>
+                  {canReplay(selectedEvent) && (
+                    <button
+                      onClick={() => handleReplay(selectedEvent)}
+                      className="btn-primary text-sm flex items-center disabled:opacity-50"
+                      disabled={replayingEventId === selectedEvent.id}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {replayingEventId === selectedEvent.id ? 'Replaying...' : 'Replay'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WebhookEventsTab;
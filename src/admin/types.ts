@@ -7,6 +7,8 @@ export interface AdminStats {
   activeStockDesigns: number;
   newOrdersCount: number;
   underReviewOrdersCount: number;
+  slaBreachedOrders: number;
+  lateCompletionsThisMonth: number;
 }
 
 export interface AdminUser {
@@ -16,16 +18,43 @@ export interface AdminUser {
   phone?: string;
   role: 'admin' | 'sales_rep' | 'designer';
   status: 'active' | 'disabled';
+  skill_category_ids?: string[];
+  out_of_office_from?: string | null;
+  out_of_office_until?: string | null;
+  auto_assign_enabled?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// One designer as ranked by the assignment engine for a given order
+export interface DesignerCandidate {
+  designer_id: string;
+  full_name: string;
+  open_orders: number;
+  skill_match: boolean;
+  out_of_office: boolean;
+  auto_assign_enabled: boolean;
+  is_previous_designer: boolean;
+  // Lower is better
+  score: number;
+}
+
 export interface AdminCustomer {
   id: string;
   full_name: string;
   email: string;
   phone?: string;
   company_name?: string;
+  tax_region?: string | null;
+  tax_exempt?: boolean;
+  tax_exemption_id?: string | null;
+  billing_currency?: string;
+  // Account credit available in the billing currency
+  credit_balance?: number;
+  // On hold customers' new orders wait for admin approval
+  on_hold?: boolean;
+  on_hold_reason?: string | null;
+  on_hold_since?: string | null;
   status: 'active' | 'disabled';
   assigned_sales_rep_id?: string;
   assigned_sales_rep_name?: string;
@@ -44,6 +73,9 @@ export interface OrderAttachment {
   uploaded_by: string;
   uploaded_at: string;
   created_at: string;
+  group_id?: string | null;
+  version?: number;
+  edit_comment_id?: number | null;
 }
 
 export interface AdminOrder {
@@ -66,13 +98,27 @@ export interface AdminOrder {
   category_name?: string;
   custom_width: number;
   custom_height: number;
+  quantity?: number;
+  color_count?: number | null;
+  stitch_count?: number | null;
+  estimated_stitch_count?: number | null;
+  estimated_color_count?: number | null;
+  complexity_band?: 'simple' | 'moderate' | 'complex' | null;
   total_amount: number;
+  discount_code_id?: string | null;
+  discount_amount?: number;
+  requires_approval?: boolean;
+  approved_at?: string | null;
+  turnaround_tier?: 'standard' | 'priority' | 'rush';
+  due_at?: string | null;
+  completed_at?: string | null;
   payment_status: 'paid' | 'unpaid';
   status: 'new' | 'in_progress' | 'under_review' | 'completed' | 'cancelled';
   assigned_sales_rep_id?: string;
   assigned_sales_rep_name?: string;
   assigned_designer_id?: string;
   assigned_designer_name?: string;
+  designer_auto_assigned?: boolean;
   invoice_url?: string;
   edits?: number;
   created_at: string;
@@ -88,6 +134,61 @@ export interface EditComment {
   created_at: string;
 }
 
+export type ProofStatus = 'pending' | 'approved' | 'changes_requested';
+
+export interface ProofComment {
+  id: string;
+  proof_id: string;
+  author_id: string;
+  author_name?: string;
+  content: string;
+  pin_x?: number | null;
+  pin_y?: number | null;
+  created_at: string;
+}
+
+export interface OrderProof {
+  id: string;
+  order_id: string;
+  attachment_id?: string | null;
+  version: number;
+  notes?: string | null;
+  status: ProofStatus;
+  submitted_by: string;
+  submitted_by_name?: string;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_comment?: string | null;
+  created_at: string;
+  attachment?: OrderAttachment | null;
+  comments?: ProofComment[];
+}
+
+export type OrderActivityEventType =
+  | 'order_created'
+  | 'field_changed'
+  | 'comment_added'
+  | 'attachment_uploaded'
+  | 'attachment_deleted'
+  | 'invoice_linked'
+  | 'invoice_unlinked';
+
+export interface OrderActivity {
+  id: string;
+  order_id: string;
+  actor_id?: string | null;
+  actor_name?: string;
+  event_type: OrderActivityEventType;
+  field_name?: string | null;
+  old_value?: string | null;
+  new_value?: string | null;
+  // Display values for id fields (designer, sales rep, category)
+  old_label?: string | null;
+  new_label?: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
 export interface AdminStockDesign {
   id: string;
   title: string;
@@ -120,11 +221,188 @@ export interface Invoice {
   month_year: string;
   payment_link?: string;
   order_ids: string[];
+  subtotal?: number;
+  tax_amount?: number;
+  tax_rate?: number;
+  tax_region?: string | null;
   total_amount: number;
-  status: 'paid' | 'unpaid' | 'cancelled';
+  currency?: string;
+  exchange_rate?: number;
+  status: 'draft' | 'paid' | 'unpaid' | 'partially_paid' | 'refunded' | 'charged_back' | 'cancelled';
+  source?: 'manual' | 'monthly';
   tco_reference_number?: string;
   tco_order_id?: string;
   tco_payment_method?: string;
+  paypal_order_id?: string;
+  paypal_capture_id?: string;
+  paypal_payer_id?: string;
+  payment_gateway?: 'twoCheckout' | 'stripe' | 'paypal';
+  gateway_session_id?: string;
+  dunning_paused?: boolean;
+  last_reminder_at?: string | null;
+  last_reminder_days?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InvoicePaymentMethod = '2checkout' | 'stripe' | 'paypal' | 'account_credit' | 'card' | 'bank_transfer' | 'check' | 'cash' | 'other';
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string | null;
+  paid_at: string;
+  notes?: string | null;
+  recorded_by?: string | null;
+  created_at: string;
+}
+
+export type CreditNoteKind = 'refund' | 'chargeback' | 'reversal';
+
+export interface InvoiceCreditNote {
+  id: string;
+  invoice_id: string;
+  kind: CreditNoteKind;
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string | null;
+  reason?: string | null;
+  issued_at: string;
+  issued_by?: string | null;
+  created_at: string;
+}
+
+export interface DunningStep {
+  id: string;
+  days_after: number;
+  escalate_to_sales_rep: boolean;
+  hold_customer: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  days_after: number;
+  emailed: boolean;
+  email_error?: string | null;
+  escalated_to?: string | null;
+  customer_held: boolean;
+  created_at: string;
+}
+
+export type QuoteStage = 'new' | 'priced' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export interface Quote {
+  id: string;
+  quote_number: string;
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  category_id?: string | null;
+  category_name?: string;
+  custom_width?: number | null;
+  custom_height?: number | null;
+  design_instructions?: string | null;
+  estimated_stitch_count?: number | null;
+  estimated_color_count?: number | null;
+  complexity_band?: 'simple' | 'moderate' | 'complex' | null;
+  attachment_name?: string | null;
+  attachment_path?: string | null;
+  attachment_mime_type?: string | null;
+  attachment_size?: number | null;
+  customer_id?: string | null;
+  assigned_sales_rep_id?: string | null;
+  assigned_sales_rep_name?: string;
+  stage: QuoteStage;
+  quoted_price?: number | null;
+  valid_until?: string | null;
+  notes?: string | null;
+  order_id?: string | null;
+  order_number?: string;
+  stage_changed_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderTimeEntry {
+  id: string;
+  order_id: string;
+  designer_id: string;
+  started_at: string;
+  // Null while the timer is running
+  ended_at: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  designer_name?: string;
+  order_number?: string;
+}
+
+export type CustomerCreditKind = 'top_up' | 'consumption' | 'adjustment';
+
+export interface CustomerCreditEntry {
+  id: string;
+  customer_id: string;
+  kind: CustomerCreditKind;
+  // Signed: top-ups add to the balance, consumption takes from it
+  amount: number;
+  currency: string;
+  invoice_id?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  invoice_title?: string | null;
+}
+
+export type PaymentWebhookEventStatus = 'received' | 'processing' | 'processed' | 'ignored' | 'failed' | 'rejected';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  gateway: 'twoCheckout' | 'stripe' | 'paypal';
+  event_key?: string | null;
+  event_type?: string | null;
+  reference?: string | null;
+  invoice_id?: string | null;
+  invoice_title?: string;
+  raw_payload: string;
+  content_type?: string | null;
+  signature_valid: boolean;
+  status: PaymentWebhookEventStatus;
+  error?: string | null;
+  attempts: number;
+  deliveries: number;
+  received_at: string;
+  processed_at?: string | null;
+  last_replayed_at?: string | null;
+  replayed_by?: string | null;
+}
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  category_id?: string | null;
+  category_name?: string;
+  stock_design_id?: string | null;
+  stock_design_title?: string;
+  minimum_spend: number;
+  expires_at?: string | null;
+  max_redemptions?: number | null;
+  max_redemptions_per_customer?: number | null;
+  is_active: boolean;
+  redemption_count?: number;
+  total_discounted?: number;
+  created_by?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -165,6 +443,16 @@ export interface PaginationParams {
   invoiceStatus?: string;
   invoiceCustomerId?: string;
   invoiceMonthYear?: string;
+
+  // Webhook event-specific params
+  webhookStatus?: string;
+  webhookGateway?: string;
+
+  // Discount code-specific params
+  discountActive?: string;
+
+  // Quote-specific params
+  quoteStage?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -198,6 +486,12 @@ export interface CustomerOrder {
   category_name?: string;
   custom_width: number;
   custom_height: number;
+  quantity?: number;
+  color_count?: number | null;
+  stitch_count?: number | null;
+  estimated_stitch_count?: number | null;
+  estimated_color_count?: number | null;
+  complexity_band?: 'simple' | 'moderate' | 'complex' | null;
   assigned_sales_rep_name?: string;
   assigned_designer_name?: string;
   assigned_sales_rep_id?: string;
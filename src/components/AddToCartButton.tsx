@@ -8,9 +8,10 @@ interface AddToCartButtonProps {
   item: {
     id: string;
     title: string;
-    price: string;
+    price: number;
     image: string;
     apparelType: string;
+    categoryId?: string | null;
   };
   className?: string;
 }
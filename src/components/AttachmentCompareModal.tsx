@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { OrderAttachment } from '../admin/types';
+import { getAttachmentDownloadUrl, fetchAttachmentContent, formatFileSize, isEmbroideryFile } from '../lib/attachmentService';
+import { parseEmbroideryFile, EmbroideryDesign } from '../lib/embroideryParser';
+
+interface AttachmentCompareModalProps {
+  deliverableName: string;
+  versions: [OrderAttachment, OrderAttachment];
+  uploaderNames: Record<string, string>;
+  onClose: () => void;
+}
+
+interface VersionDetails {
+  imageUrl?: string;
+  design?: EmbroideryDesign;
+  error?: string;
+}
+
+async function loadVersionDetails(attachment: OrderAttachment): Promise<VersionDetails> {
+  try {
+    if (attachment.mime_type?.startsWith('image/')) {
+      return { imageUrl: await getAttachmentDownloadUrl(attachment.id) };
+    }
+    if (isEmbroideryFile(attachment.original_filename)) {
+      const content = await fetchAttachmentContent(attachment.id);
+      return { design: parseEmbroideryFile(content, attachment.original_filename) };
+    }
+    return {};
+  } catch (error) {
+    console.error('Error loading version details:', error);
+    return { error: 'Could not load file contents' };
+  }
+}
+
+const formatDelta = (before: number, after: number, suffix = '') => {
+  const delta = Math.round((after - before) * 100) / 100;
+  if (delta === 0) return <span className="text-gray-400">no change</span>;
+  return (
+    <span className={delta > 0 ? 'text-orange-600' : 'text-blue-600'}>
+      {delta > 0 ? '+' : ''}{delta.toLocaleString()}{suffix}
+    </span>
+  );
+};
+
+export function AttachmentCompareModal({
+  deliverableName,
+  versions,
+  uploaderNames,
+  onClose
+}: AttachmentCompareModalProps) {
+  // Always show the older version on the left
+  const [older, newer] = [...versions].sort((a, b) => (a.version || 1) - (b.version || 1));
+  const [details, setDetails] = useState<[VersionDetails, VersionDetails] | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([loadVersionDetails(older), loadVersionDetails(newer)]).then(result => {
+      if (isMounted) setDetails(result as [VersionDetails, VersionDetails]);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [older, newer]);
+
+  const designs = details && details[0].design && details[1].design
+    ? [details[0].design, details[1].design] as const
+    : null;
+
+  const metadataRows: Array<{ label: string; render: (attachment: OrderAttachment) => React.ReactNode }> = [
+    { label: 'File', render: (attachment) => attachment.original_filename },
+    { label: 'Size', render: (attachment) => formatFileSize(attachment.file_size) },
+    { label: 'Uploaded By', render: (attachment) => uploaderNames[attachment.uploaded_by] || 'Unknown User' },
+    { label: 'Uploaded', render: (attachment) => new Date(attachment.uploaded_at).toLocaleString() },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Compare {deliverableName}: v{older.version || 1} → v{newer.version || 1}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium"></th>
+                <th className="py-2 pr-4 font-medium">v{older.version || 1}</th>
+                <th className="py-2 font-medium">v{newer.version || 1}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {metadataRows.map(row => (
+                <tr key={row.label}>
+                  <td className="py-2 pr-4 text-gray-500">{row.label}</td>
+                  <td className="py-2 pr-4 text-gray-800 break-all">{row.render(older)}</td>
+                  <td className="py-2 text-gray-800 break-all">{row.render(newer)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!details ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+              <span className="text-gray-600 text-sm">Loading versions...</span>
+            </div>
+          ) : designs ? (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">Stitch File Changes</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium"></th>
+                    <th className="py-2 pr-4 font-medium">v{older.version || 1}</th>
+                    <th className="py-2 pr-4 font-medium">v{newer.version || 1}</th>
+                    <th className="py-2 font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {[
+                    { label: 'Stitches', before: designs[0].stitchCount, after: designs[1].stitchCount, suffix: '' },
+                    { label: 'Color Changes', before: designs[0].colorChanges, after: designs[1].colorChanges, suffix: '' },
+                    { label: 'Trims', before: designs[0].trimCount, after: designs[1].trimCount, suffix: '' },
+                    { label: 'Width', before: designs[0].widthInches, after: designs[1].widthInches, suffix: '"' },
+                    { label: 'Height', before: designs[0].heightInches, after: designs[1].heightInches, suffix: '"' },
+                  ].map(row => (
+                    <tr key={row.label}>
+                      <td className="py-2 pr-4 text-gray-500">{row.label}</td>
+                      <td className="py-2 pr-4 text-gray-800">{row.before.toLocaleString()}{row.suffix}</td>
+                      <td className="py-2 pr-4 text-gray-800">{row.after.toLocaleString()}{row.suffix}</td>
+                      <td className="py-2">{formatDelta(row.before, row.after, row.suffix)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : details[0].imageUrl && details[1].imageUrl ? (
+            <div className="grid grid-cols-2 gap-4">
+              {[details[0].imageUrl, details[1].imageUrl].map((url, index) => (
+                <div key={index} className="border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+                  <img src={url} alt={`Version ${index === 0 ? older.version : newer.version}`} className="w-full h-auto" />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {details[0].error || details[1].error || 'A visual comparison is only available for images and stitch files of the same kind.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,20 @@
-import { useState } from 'react';
-import { Download, Trash2, Upload, X, FileIcon } from 'lucide-react';
-import { OrderAttachment } from '../admin/types';
+import { useState, useEffect, useMemo } from 'react';
+import { Download, Trash2, Upload, X, FileIcon, Eye, Star, History, GitCompare } from 'lucide-react';
+import { OrderAttachment, EditComment } from '../admin/types';
 import {
   uploadAttachment,
   downloadAttachment,
   deleteAttachment,
-  fetchOrderAttachments,
+  fetchAttachmentGroups,
+  markAttachmentFinal,
+  getUploaderNames,
   getFileIcon,
-  formatFileSize
+  formatFileSize,
+  isEmbroideryFile,
+  AttachmentGroup
 } from '../lib/attachmentService';
+import { editCommentsService } from '../services/editCommentsService';
+import { AttachmentCompareModal } from './AttachmentCompareModal';
 import { toast } from '../utils/toast';
 
 interface AttachmentListProps {
@@ -22,8 +28,26 @@ interface AttachmentListProps {
   onPendingDeletionsChange?: (ids: string[]) => void;
   deferDeletion?: boolean;
   onConfirmDelete?: () => Promise<void>;
+  onPreviewEmbroidery?: (attachment: OrderAttachment) => void;
+  canMarkFinal?: boolean;
 }
 
+interface Deliverable {
+  key: string;
+  name: string;
+  group: AttachmentGroup | null;
+  // Newest version first
+  versions: OrderAttachment[];
+}
+
+interface SelectedUpload {
+  file: File;
+  groupId: string;
+}
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+
 export function AttachmentList({
   orderId,
   orderNumber,
@@ -35,11 +59,82 @@ export function AttachmentList({
   onPendingDeletionsChange,
   deferDeletion = false,
   onConfirmDelete,
+  onPreviewEmbroidery,
+  canMarkFinal = false,
 }: AttachmentListProps) {
   const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState(false);
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [selectedFiles, setSelectedFiles] = useState<SelectedUpload[]>([]);
+  const [groups, setGroups] = useState<AttachmentGroup[]>([]);
+  const [uploaderNames, setUploaderNames] = useState<Record<string, string>>({});
+  const [editComments, setEditComments] = useState<EditComment[]>([]);
+  const [answersCommentId, setAnswersCommentId] = useState<string>('');
+  const [expandedKeys, setExpandedKeys] = useState<string[]>([]);
+  const [compareSelection, setCompareSelection] = useState<OrderAttachment | null>(null);
+  const [comparing, setComparing] = useState<{ name: string; versions: [OrderAttachment, OrderAttachment] } | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadVersionDetails = async () => {
+      try {
+        const [fetchedGroups, names] = await Promise.all([
+          fetchAttachmentGroups(orderId),
+          getUploaderNames(attachments.map(attachment => attachment.uploaded_by)),
+        ]);
+        if (!isMounted) return;
+        setGroups(fetchedGroups);
+        setUploaderNames(names);
+      } catch (error) {
+        console.error('Error loading attachment versions:', error);
+      }
+
+      try {
+        const comments = await editCommentsService.getEditCommentsByOrder(orderId);
+        if (isMounted) setEditComments(comments);
+      } catch (error) {
+        console.error('Error loading edit comments:', error);
+      }
+    };
+
+    loadVersionDetails();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orderId, attachments]);
+
+  const deliverables = useMemo<Deliverable[]>(() => {
+    const byVersionDesc = (a: OrderAttachment, b: OrderAttachment) => (b.version || 1) - (a.version || 1);
+    const grouped: Deliverable[] = groups
+      .map(group => ({
+        key: group.id,
+        name: group.name,
+        group,
+        versions: attachments.filter(attachment => attachment.group_id === group.id).sort(byVersionDesc),
+      }))
+      .filter(deliverable => deliverable.versions.length > 0);
+
+    const knownGroupIds = new Set(grouped.map(deliverable => deliverable.key));
+    const ungrouped: Deliverable[] = attachments
+      .filter(attachment => !attachment.group_id || !knownGroupIds.has(attachment.group_id))
+      .map(attachment => ({
+        key: attachment.id,
+        name: attachment.original_filename,
+        group: null,
+        versions: [attachment],
+      }));
+
+    return [...grouped, ...ungrouped];
+  }, [groups, attachments]);
+
+  const editCommentsById = useMemo(() => {
+    const map: Record<number, EditComment> = {};
+    editComments.forEach(comment => {
+      map[comment.id] = comment;
+    });
+    return map;
+  }, [editComments]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
@@ -51,7 +146,7 @@ export function AttachmentList({
         }
         return true;
       });
-      setSelectedFiles(prev => [...prev, ...validFiles]);
+      setSelectedFiles(prev => [...prev, ...validFiles.map(file => ({ file, groupId: '' }))]);
     }
   };
 
@@ -59,6 +154,10 @@ export function AttachmentList({
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const setSelectedFileTarget = (index: number, groupId: string) => {
+    setSelectedFiles(prev => prev.map((selected, i) => (i === index ? { ...selected, groupId } : selected)));
+  };
+
   const handleUpload = async () => {
     if (selectedFiles.length === 0) return;
 
@@ -66,15 +165,18 @@ export function AttachmentList({
     let successCount = 0;
     let errorCount = 0;
 
-    for (const file of selectedFiles) {
+    for (const selected of selectedFiles) {
       try {
-        await uploadAttachment(orderId, orderNumber, file);
+        await uploadAttachment(orderId, orderNumber, selected.file, undefined, {
+          groupId: selected.groupId || undefined,
+          editCommentId: answersCommentId ? Number(answersCommentId) : null,
+        });
         successCount++;
-        setSelectedFiles(prev => prev.filter(f => f !== file));
+        setSelectedFiles(prev => prev.filter(f => f !== selected));
       } catch (error) {
         console.error('Upload error:', error);
         errorCount++;
-        toast.error(`Failed to upload ${file.name}`);
+        toast.error(`Failed to upload ${selected.file.name}`);
       }
     }
 
@@ -82,10 +184,49 @@ export function AttachmentList({
 
     if (successCount > 0) {
       toast.success(`Successfully uploaded ${successCount} file(s)`);
+      if (errorCount === 0) setAnswersCommentId('');
       onAttachmentsChange();
     }
   };
 
+  const handleToggleFinal = async (deliverable: Deliverable, attachment: OrderAttachment) => {
+    if (!deliverable.group) return;
+
+    const isFinal = deliverable.group.final_attachment_id === attachment.id;
+    try {
+      await markAttachmentFinal(deliverable.group.id, isFinal ? null : attachment.id);
+      setGroups(prev => prev.map(group =>
+        group.id === deliverable.group!.id
+          ? { ...group, final_attachment_id: isFinal ? null : attachment.id }
+          : group
+      ));
+      toast.success(isFinal ? 'Final mark removed' : `v${attachment.version || 1} marked as final`);
+    } catch (error) {
+      console.error('Mark final error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update final version');
+    }
+  };
+
+  const handleCompareSelect = (deliverable: Deliverable, attachment: OrderAttachment) => {
+    if (!compareSelection || compareSelection.group_id !== attachment.group_id) {
+      setCompareSelection(attachment);
+      toast.info(`Select another version of ${deliverable.name} to compare`);
+      return;
+    }
+
+    if (compareSelection.id === attachment.id) {
+      setCompareSelection(null);
+      return;
+    }
+
+    setComparing({ name: deliverable.name, versions: [compareSelection, attachment] });
+    setCompareSelection(null);
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
   const handleDownload = async (attachment: OrderAttachment) => {
     try {
       await downloadAttachment(attachment.id, attachment.original_filename);
@@ -133,6 +274,112 @@ export function AttachmentList({
     }
   };
 
+  const renderVersionRow = (deliverable: Deliverable, attachment: OrderAttachment, isCurrent: boolean) => {
+    const isPendingDeletion = pendingDeletions.includes(attachment.id);
+    const isFinal = deliverable.group?.final_attachment_id === attachment.id;
+    const isCompareSelected = compareSelection?.id === attachment.id;
+    const answeredComment = attachment.edit_comment_id != null ? editCommentsById[attachment.edit_comment_id] : undefined;
+
+    return (
+      <div
+        key={attachment.id}
+        className={`flex items-center justify-between p-3 transition-all ${
+          isPendingDeletion ? 'bg-red-50 opacity-60' : isCompareSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+        }`}
+      >
+        <div className="flex items-center space-x-3 flex-1 min-w-0">
+          <span className={`text-2xl flex-shrink-0 ${isPendingDeletion ? 'line-through' : ''}`}>
+            {getFileIcon(attachment.mime_type, attachment.original_filename)}
+          </span>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-2 min-w-0">
+              <p className={`text-sm font-medium truncate ${
+                isPendingDeletion ? 'line-through text-gray-500' : 'text-gray-900'
+              }`}>
+                {isCurrent ? deliverable.name : attachment.original_filename}
+              </p>
+              <span className="px-1.5 py-0.5 text-xs font-semibold rounded bg-gray-100 text-gray-700 flex-shrink-0">
+                v{attachment.version || 1}
+              </span>
+              {isFinal && (
+                <span className="px-1.5 py-0.5 text-xs font-semibold rounded bg-green-100 text-green-800 flex-shrink-0">
+                  Final
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(attachment.file_size)} •
+              {new Date(attachment.uploaded_at).toLocaleDateString()}
+              {uploaderNames[attachment.uploaded_by] && ` • ${uploaderNames[attachment.uploaded_by]}`}
+              {isPendingDeletion && <span className="text-red-600 ml-2 font-semibold">• Will be deleted</span>}
+            </p>
+            {answeredComment && (
+              <p className="text-xs text-blue-700 truncate" title={answeredComment.content}>
+                Answers edit request: “{truncate(answeredComment.content, 80)}”
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          {canMarkFinal && deliverable.group && (
+            <button
+              type="button"
+              onClick={() => handleToggleFinal(deliverable, attachment)}
+              className={`p-2 rounded hover:bg-green-50 ${isFinal ? 'text-green-600 hover:text-green-800' : 'text-gray-400 hover:text-green-600'}`}
+              title={isFinal ? 'Unmark final' : 'Mark as final'}
+              disabled={isPendingDeletion}
+            >
+              <Star className={`h-4 w-4 ${isFinal ? 'fill-current' : ''}`} />
+            </button>
+          )}
+          {deliverable.versions.length > 1 && (
+            <button
+              type="button"
+              onClick={() => handleCompareSelect(deliverable, attachment)}
+              className={`p-2 rounded hover:bg-blue-50 ${isCompareSelected ? 'text-blue-700 bg-blue-100' : 'text-gray-500 hover:text-blue-700'}`}
+              title={isCompareSelected ? 'Cancel compare' : 'Compare versions'}
+              disabled={isPendingDeletion}
+            >
+              <GitCompare className="h-4 w-4" />
+            </button>
+          )}
+          {onPreviewEmbroidery && isEmbroideryFile(attachment.original_filename) && (
+            <button
+              type="button"
+              onClick={() => onPreviewEmbroidery(attachment)}
+              className="p-2 text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded"
+              title="Preview Stitches"
+              disabled={isPendingDeletion}
+            >
+              <Eye className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => handleDownload(attachment)}
+            className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+            title="Download"
+            disabled={isPendingDeletion}
+          >
+            <Download className="h-4 w-4" />
+          </button>
+          {canDelete && (
+            <button
+              type="button"
+              onClick={() => handleDelete(attachment.id, attachment.original_filename)}
+              className={`p-2 hover:bg-red-50 rounded ${
+                isPendingDeletion ? 'text-orange-600 hover:text-orange-800' : 'text-red-600 hover:text-red-800'
+              }`}
+              title={isPendingDeletion ? 'Undo deletion' : 'Delete'}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -189,19 +436,54 @@ export function AttachmentList({
               {uploading ? 'Uploading...' : 'Upload All'}
             </button>
           </div>
+          {editComments.length > 0 && (
+            <div className="mb-3">
+              <label htmlFor={`answers-comment-${orderId}`} className="block text-xs font-medium text-blue-900 mb-1">
+                Answers edit request
+              </label>
+              <select
+                id={`answers-comment-${orderId}`}
+                value={answersCommentId}
+                onChange={(e) => setAnswersCommentId(e.target.value)}
+                disabled={uploading}
+                className="w-full px-2 py-1.5 border border-blue-200 rounded text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">None</option>
+                {editComments.map(comment => (
+                  <option key={comment.id} value={comment.id}>
+                    {new Date(comment.created_at).toLocaleDateString()} – {truncate(comment.content, 60)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="space-y-2">
-            {selectedFiles.map((file, index) => (
+            {selectedFiles.map((selected, index) => (
               <div
                 key={index}
                 className="flex items-center justify-between bg-white p-2 rounded border border-blue-200"
               >
                 <div className="flex items-center space-x-2 flex-1 min-w-0">
                   <FileIcon className="h-4 w-4 text-blue-600 flex-shrink-0" />
-                  <span className="text-sm text-gray-900 truncate">{file.name}</span>
+                  <span className="text-sm text-gray-900 truncate">{selected.file.name}</span>
                   <span className="text-xs text-gray-500 flex-shrink-0">
-                    {formatFileSize(file.size)}
+                    {formatFileSize(selected.file.size)}
                   </span>
                 </div>
+                {groups.length > 0 && (
+                  <select
+                    value={selected.groupId}
+                    onChange={(e) => setSelectedFileTarget(index, e.target.value)}
+                    disabled={uploading}
+                    className="ml-2 max-w-[12rem] px-2 py-1 border border-gray-300 rounded text-xs bg-white"
+                    title="Deliverable this file is a new version of"
+                  >
+                    <option value="">Auto (match by filename)</option>
+                    {groups.map(group => (
+                      <option key={group.id} value={group.id}>New version of {group.name}</option>
+                    ))}
+                  </select>
+                )}
                 {!uploading && (
                   <button
                     type="button"
@@ -224,60 +506,46 @@ export function AttachmentList({
         </div>
       ) : (
         <div className="space-y-2">
-          {attachments.map((attachment) => {
-            const isPendingDeletion = pendingDeletions.includes(attachment.id);
+          {deliverables.map((deliverable) => {
+            const finalId = deliverable.group?.final_attachment_id;
+            const current = deliverable.versions.find(version => version.id === finalId) || deliverable.versions[0];
+            const isExpanded = expandedKeys.includes(deliverable.key);
+            const olderVersions = deliverable.versions.filter(version => version.id !== current.id);
+
             return (
-            <div
-              key={attachment.id}
-              className={`flex items-center justify-between p-3 bg-white border rounded-md hover:bg-gray-50 transition-all ${
-                isPendingDeletion ? 'border-red-300 bg-red-50 opacity-60' : 'border-gray-200'
-              }`}
-            >
-              <div className="flex items-center space-x-3 flex-1 min-w-0">
-                <span className={`text-2xl flex-shrink-0 ${isPendingDeletion ? 'line-through' : ''}`}>
-                  {getFileIcon(attachment.mime_type)}
-                </span>
-                <div className="flex-1 min-w-0">
-                  <p className={`text-sm font-medium truncate ${
-                    isPendingDeletion ? 'line-through text-gray-500' : 'text-gray-900'
-                  }`}>
-                    {attachment.original_filename}
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    {formatFileSize(attachment.file_size)} •
-                    {new Date(attachment.uploaded_at).toLocaleDateString()}
-                    {isPendingDeletion && <span className="text-red-600 ml-2 font-semibold">• Will be deleted</span>}
-                  </p>
-                </div>
-              </div>
-              <div className="flex items-center space-x-2 flex-shrink-0">
-                <button
-                  type="button"
-                  onClick={() => handleDownload(attachment)}
-                  className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
-                  title="Download"
-                  disabled={isPendingDeletion}
-                >
-                  <Download className="h-4 w-4" />
-                </button>
-                {canDelete && (
-                  <button
-                    type="button"
-                    onClick={() => handleDelete(attachment.id, attachment.original_filename)}
-                    className={`p-2 hover:bg-red-50 rounded ${
-                      isPendingDeletion ? 'text-orange-600 hover:text-orange-800' : 'text-red-600 hover:text-red-800'
-                    }`}
-                    title={isPendingDeletion ? 'Undo deletion' : 'Delete'}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+              <div key={deliverable.key} className="bg-white border border-gray-200 rounded-md">
+                {renderVersionRow(deliverable, current, true)}
+                {olderVersions.length > 0 && (
+                  <div className="border-t border-gray-100">
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(deliverable.key)}
+                      className="w-full flex items-center px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50"
+                    >
+                      <History className="h-3.5 w-3.5 mr-1" />
+                      {isExpanded ? 'Hide' : 'Show'} {olderVersions.length} other version{olderVersions.length !== 1 ? 's' : ''}
+                    </button>
+                    {isExpanded && (
+                      <div className="divide-y divide-gray-100 bg-gray-50">
+                        {olderVersions.map(version => renderVersionRow(deliverable, version, false))}
+                      </div>
+                    )}
+                  </div>
                 )}
               </div>
-            </div>
-          );
+            );
           })}
         </div>
       )}
+
+      {comparing && (
+        <AttachmentCompareModal
+          deliverableName={comparing.name}
+          versions={comparing.versions}
+          uploaderNames={uploaderNames}
+          onClose={() => setComparing(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,11 +3,12 @@ import { ShoppingCart, X, Trash2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useCart } from '../contexts/CartContext';
 import { getCurrentUser } from '../lib/supabase';
+import { formatPrice } from '../services/pricingService';
 
 const CartDropdown: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const navigate = useNavigate();
-  const { items, removeFromCart, getTotalItems, getTotalPrice, clearCart } = useCart();
+  const { items, removeFromCart, getTotalItems, getTotalPrice, getItemPrice, billingCurrency, clearCart } = useCart();
 
   const totalItems = getTotalItems();
   const totalPrice = getTotalPrice();
@@ -86,7 +87,7 @@ const CartDropdown: React.FC = () => {
                           {item.title}
                         </h4>
                         <p className="text-xs text-gray-500">{item.apparelType}</p>
-                        <p className="text-sm font-semibold text-blue-600">{item.price}</p>
+                        <p className="text-sm font-semibold text-blue-600">{formatPrice(getItemPrice(item), billingCurrency.currency)}</p>
                       </div>
 
 
@@ -110,10 +111,12 @@ const CartDropdown: React.FC = () => {
                 <div className="flex justify-between items-center mb-4">
                   <span className="text-lg font-semibold text-gray-800">Total:</span>
                   <span className="text-lg font-bold text-blue-600">
-                    ${totalPrice.toFixed(2)}
+                    {formatPrice(totalPrice, billingCurrency.currency)}
                   </span>
                 </div>
 
+                <p className="text-xs text-gray-500 mb-4">Have a discount code? Apply it at checkout.</p>
+
                 {/* Action Buttons */}
                 <div className="space-y-2">
                   <button
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, AlertTriangle, CheckCircle } from 'lucide-react';
+import { OrderAttachment } from '../admin/types';
+import { fetchAttachmentContent } from '../lib/attachmentService';
+import { parseEmbroideryFile, checkDesignDimensions, EmbroideryDesign } from '../lib/embroideryParser';
+
+// Machine files carry no thread colors (DST) or only catalog indexes (PES),
+// so each color block is drawn with a distinct preview color instead
+const PREVIEW_COLORS = ['#1d4ed8', '#dc2626', '#16a34a', '#ca8a04', '#9333ea', '#0891b2', '#ea580c', '#db2777', '#4b5563'];
+const CANVAS_SIZE = 360;
+const CANVAS_PADDING = 12;
+
+interface EmbroideryPreviewProps {
+  attachment: OrderAttachment;
+  orderWidth?: number;
+  orderHeight?: number;
+  onClose?: () => void;
+}
+
+function drawDesign(canvas: HTMLCanvasElement, design: EmbroideryDesign) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const { minX, minY, maxX, maxY } = design.bounds;
+  const designWidth = Math.max(1, maxX - minX);
+  const designHeight = Math.max(1, maxY - minY);
+  const scale = Math.min(
+    (canvas.width - CANVAS_PADDING * 2) / designWidth,
+    (canvas.height - CANVAS_PADDING * 2) / designHeight
+  );
+  const offsetX = (canvas.width - designWidth * scale) / 2;
+  const offsetY = (canvas.height - designHeight * scale) / 2;
+  const toCanvasX = (x: number) => offsetX + (x - minX) * scale;
+  const toCanvasY = (y: number) => offsetY + (y - minY) * scale;
+
+  let colorIndex = 0;
+  let penDown = false;
+  context.lineWidth = 1;
+  context.lineJoin = 'round';
+  context.strokeStyle = PREVIEW_COLORS[0];
+  context.beginPath();
+
+  for (const stitch of design.stitches) {
+    if (stitch.type === 'color_change') {
+      context.stroke();
+      colorIndex++;
+      context.strokeStyle = PREVIEW_COLORS[colorIndex % PREVIEW_COLORS.length];
+      context.beginPath();
+      penDown = false;
+      continue;
+    }
+
+    const x = toCanvasX(stitch.x);
+    const y = toCanvasY(stitch.y);
+    if (stitch.type === 'stitch' && penDown) {
+      context.lineTo(x, y);
+    } else {
+      context.moveTo(x, y);
+    }
+    penDown = stitch.type === 'stitch';
+  }
+
+  context.stroke();
+}
+
+export const EmbroideryPreview: React.FC<EmbroideryPreviewProps> = ({
+  attachment,
+  orderWidth,
+  orderHeight,
+  onClose
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [design, setDesign] = useState<EmbroideryDesign | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadDesign = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setDesign(null);
+        const content = await fetchAttachmentContent(attachment.id);
+        const parsed = parseEmbroideryFile(content, attachment.original_filename);
+        if (isMounted) {
+          setDesign(parsed);
+        }
+      } catch (err) {
+        console.error('Error parsing embroidery file:', err);
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : 'Failed to read embroidery file');
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadDesign();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [attachment.id, attachment.original_filename]);
+
+  useEffect(() => {
+    if (design && canvasRef.current) {
+      drawDesign(canvasRef.current, design);
+    }
+  }, [design]);
+
+  const dimensionCheck = design ? checkDesignDimensions(design, orderWidth, orderHeight) : null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="min-w-0">
+          <h4 className="text-sm font-semibold text-gray-900 truncate">{attachment.original_filename}</h4>
+          {design?.label && <p className="text-xs text-gray-500">Label: {design.label}</p>}
+        </div>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors ml-2"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+          <span className="text-gray-600 text-sm">Reading stitch file...</span>
+        </div>
+      ) : error || !design ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-700">{error || 'Failed to read embroidery file'}</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          <canvas
+            ref={canvasRef}
+            width={CANVAS_SIZE}
+            height={CANVAS_SIZE}
+            className="w-full max-w-[360px] aspect-square bg-gray-50 border border-gray-200 rounded"
+          />
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-gray-500">Format</p>
+                <p className="font-medium text-gray-800 uppercase">{design.format}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Stitches</p>
+                <p className="font-medium text-gray-800">{design.stitchCount.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Color Changes</p>
+                <p className="font-medium text-gray-800">{design.colorChanges}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Trims</p>
+                <p className="font-medium text-gray-800">{design.trimCount}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Jumps</p>
+                <p className="font-medium text-gray-800">{design.jumpCount}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Hoop Size</p>
+                <p className="font-medium text-gray-800">
+                  {design.widthInches}" x {design.heightInches}"
+                </p>
+                <p className="text-xs text-gray-500">{design.widthMm} x {design.heightMm} mm</p>
+              </div>
+            </div>
+
+            {dimensionCheck && (
+              dimensionCheck.matches ? (
+                <div className="flex items-start space-x-2 bg-green-50 border border-green-200 rounded-lg p-3">
+                  <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-green-800">Matches the ordered size of {orderWidth}" x {orderHeight}"</p>
+                </div>
+              ) : (
+                <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-yellow-800">
+                    Size mismatch: the order is {orderWidth}" x {orderHeight}" but this file is {design.widthInches}" x {design.heightInches}"
+                    ({dimensionCheck.widthDelta > 0 ? '+' : ''}{dimensionCheck.widthDelta}" W, {dimensionCheck.heightDelta > 0 ? '+' : ''}{dimensionCheck.heightDelta}" H)
+                  </p>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Edit3, MessageSquare, Paperclip, Trash2, Receipt, PlusCircle } from 'lucide-react';
+import { OrderActivity, OrderActivityEventType } from '../admin/types';
+import { activityLogService } from '../services/activityLogService';
+import { getOrderStatusLabel } from '../services/orderStatusService';
+import { formatPrice } from '../services/pricingService';
+
+interface OrderActivityTimelineProps {
+  orderId: string;
+  refreshKey?: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  payment_status: 'Payment status',
+  total_amount: 'Price',
+  assigned_designer_id: 'Designer',
+  assigned_sales_rep_id: 'Sales rep',
+  order_name: 'Order name',
+  category_id: 'Category',
+  custom_width: 'Width',
+  custom_height: 'Height',
+  quantity: 'Quantity',
+  color_count: 'Color count',
+  stitch_count: 'Stitch count',
+  invoice_url: 'Invoice link',
+};
+
+const EVENT_STYLES: Record<OrderActivityEventType, { icon: React.ElementType; color: string }> = {
+  order_created: { icon: PlusCircle, color: 'bg-green-100 text-green-700' },
+  field_changed: { icon: Edit3, color: 'bg-blue-100 text-blue-700' },
+  comment_added: { icon: MessageSquare, color: 'bg-purple-100 text-purple-700' },
+  attachment_uploaded: { icon: Paperclip, color: 'bg-gray-100 text-gray-700' },
+  attachment_deleted: { icon: Trash2, color: 'bg-red-100 text-red-700' },
+  invoice_linked: { icon: Receipt, color: 'bg-yellow-100 text-yellow-800' },
+  invoice_unlinked: { icon: Receipt, color: 'bg-orange-100 text-orange-700' },
+};
+
+const formatDateTime = (value: string) =>
+  `${new Date(value).toLocaleDateString()} ${new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+const formatFieldValue = (field: string, value?: string | null) => {
+  if (value === null || value === undefined || value === '') return 'none';
+  switch (field) {
+    case 'status':
+      return getOrderStatusLabel(value);
+    case 'payment_status':
+      return value.replace('_', ' ');
+    case 'total_amount':
+      return formatPrice(Number(value));
+    case 'custom_width':
+    case 'custom_height':
+      return `${value}"`;
+    default:
+      return value;
+  }
+};
+
+const describeActivity = (entry: OrderActivity): React.ReactNode => {
+  const details = entry.details || {};
+
+  switch (entry.event_type) {
+    case 'order_created':
+      return 'Order placed';
+    case 'field_changed': {
+      const field = entry.field_name || '';
+      return (
+        <>
+          {FIELD_LABELS[field] || field} changed from{' '}
+          <span className="font-medium text-gray-900">{formatFieldValue(field, entry.old_label)}</span> to{' '}
+          <span className="font-medium text-gray-900">{formatFieldValue(field, entry.new_label)}</span>
+        </>
+      );
+    }
+    case 'comment_added':
+      return (
+        <>
+          Added a comment: <span className="italic">“{String(details.content || '')}”</span>
+        </>
+      );
+    case 'attachment_uploaded':
+      return `Uploaded ${details.filename}${details.version ? ` (v${details.version})` : ''}`;
+    case 'attachment_deleted':
+      return `Deleted ${details.filename}${details.version ? ` (v${details.version})` : ''}`;
+    case 'invoice_linked':
+      return `Added to invoice ${details.invoice_title || ''}`.trim();
+    case 'invoice_unlinked':
+      return `Removed from invoice ${details.invoice_title || ''}`.trim();
+    default:
+      return entry.event_type;
+  }
+};
+
+export const OrderActivityTimeline: React.FC<OrderActivityTimelineProps> = ({ orderId, refreshKey }) => {
+  const [activity, setActivity] = useState<OrderActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadActivity = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const data = await activityLogService.getOrderActivity(orderId);
+        if (isMounted) setActivity(data);
+      } catch (err) {
+        console.error('Error fetching order activity:', err);
+        if (isMounted) setError('Failed to load activity');
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadActivity();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orderId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+        <span className="text-gray-600 text-sm">Loading activity...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-4">{error}</p>;
+  }
+
+  if (activity.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-sm text-gray-500">No activity recorded for this order yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3">
+      {activity.map(entry => {
+        const style = EVENT_STYLES[entry.event_type] || EVENT_STYLES.field_changed;
+        const Icon = style.icon;
+
+        return (
+          <li key={entry.id} className="mb-5 ml-6">
+            <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${style.color}`}>
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <p className="text-sm text-gray-700">{describeActivity(entry)}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {entry.actor_name} • {formatDateTime(entry.created_at)}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
-import { X, Calendar, User, Package, FileText, Paperclip, MessageSquare, Edit } from 'lucide-react';
+import { X, Calendar, User, Package, FileText, Paperclip, MessageSquare, Edit, FileCheck } from 'lucide-react';
 import { getCurrentUser, getUserProfile } from '../lib/supabase';
 import { Order } from '../contexts/OrderContext';
 import { OrderComment, OrderAttachment } from '../admin/types';
 import { getOrderComments } from '../admin/api/supabaseHelpers';
 import { AttachmentList } from './AttachmentList';
+import { EmbroideryPreview } from './EmbroideryPreview';
 import { fetchOrderAttachments } from '../lib/attachmentService';
 import { RequestEditModal } from './RequestEditModal';
+import { ProofReviewModal } from './ProofReviewModal';
+import { ProofHistory } from './ProofHistory';
+import { OrderActivityTimeline } from './OrderActivityTimeline';
 import { editCommentsService } from '../services/editCommentsService';
+import { formatPrice } from '../services/pricingService';
 
 interface OrderDetailsModalProps {
   isOpen: boolean;
@@ -31,6 +36,14 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
   const [loadingEditComments, setLoadingEditComments] = React.useState(false);
   const [newEditComment, setNewEditComment] = React.useState('');
   const [submittingEditComment, setSubmittingEditComment] = React.useState(false);
+  const [previewAttachment, setPreviewAttachment] = React.useState<OrderAttachment | null>(null);
+  const [showProofReviewModal, setShowProofReviewModal] = React.useState(false);
+  const [proofRefreshKey, setProofRefreshKey] = React.useState(0);
+  const [activeTab, setActiveTab] = React.useState<'details' | 'activity'>('details');
+
+  React.useEffect(() => {
+    setActiveTab('details');
+  }, [order?.id]);
 
   React.useEffect(() => {
     const checkUser = async () => {
@@ -86,6 +99,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       }
     };
 
+    setPreviewAttachment(null);
+
     if (isOpen) {
       checkUser();
       fetchComments();
@@ -132,6 +147,13 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
     }
   };
 
+  const handleProofDecision = () => {
+    setProofRefreshKey(key => key + 1);
+    if (onOrderUpdate) {
+      onOrderUpdate();
+    }
+  };
+
   if (!isOpen || !order) return null;
 
   const getStatusColor = (status: string) => {
@@ -155,6 +177,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
 
   const isCustomer = currentUser?.role === 'customer';
   const canRequestEdit = isCustomer && order.status === 'completed';
+  const canReviewProof = isCustomer && order.status === 'under_review';
 
   return (
     <>
@@ -188,6 +211,28 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
             </button>
           </div>
 
+          <div className="flex border-b border-gray-200 px-6">
+            {(['details', 'activity'] as const).map(tab => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  activeTab === tab
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab === 'details' ? 'Details' : 'Activity'}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'activity' ? (
+            <div className="p-6">
+              <OrderActivityTimeline orderId={order.id} refreshKey={proofRefreshKey} />
+            </div>
+          ) : (
           <div className="p-6">
             <div className={`grid gap-8 ${currentUser?.role === 'designer' ? 'lg:grid-cols-1' : 'lg:grid-cols-3'}`}>
 
@@ -264,6 +309,28 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                   </div>
                 )}
 
+                {canReviewProof && (
+                  <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h4 className="text-sm font-semibold text-purple-900 mb-1">
+                          Your proof is ready
+                        </h4>
+                        <p className="text-xs text-purple-700">
+                          Approve it to complete the order, or request changes from the designer
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setShowProofReviewModal(true)}
+                        className="ml-4 flex items-center gap-2 px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 transition-colors"
+                      >
+                        <FileCheck className="h-4 w-4" />
+                        Review Proof
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 {order.custom_description && (
                   <div>
                     <h3 className="text-lg font-semibold text-gray-800 mb-3">Design Requirements</h3>
@@ -329,6 +396,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                   </div>
                 )}
 
+                <ProofHistory orderId={order.id} refreshKey={proofRefreshKey} />
+
                 {editComments.length > 0 && (
                   <div className="mb-6">
                     <h3 className="text-lg font-semibold text-gray-800 mb-3">Edit Comments</h3>
@@ -382,7 +451,15 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                     </div>
                   </div>
                 ) : (
-                  <div>
+                  <div className="space-y-4">
+                    {previewAttachment && (
+                      <EmbroideryPreview
+                        attachment={previewAttachment}
+                        orderWidth={order.custom_width}
+                        orderHeight={order.custom_height}
+                        onClose={() => setPreviewAttachment(null)}
+                      />
+                    )}
                     <AttachmentList
                       orderId={order.id}
                       orderNumber={order.order_number}
@@ -397,6 +474,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       }}
                       canUpload={!isCustomer}
                       canDelete={false}
+                      onPreviewEmbroidery={setPreviewAttachment}
+                      canMarkFinal={!isCustomer}
                     />
                   </div>
                 )}
@@ -410,7 +489,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
   <div className="bg-blue-50 rounded-lg p-4">
     <h3 className="text-lg font-semibold text-gray-800 mb-3">Order Total</h3>
     <div className="text-2xl font-bold text-blue-600">
-      ${order.total_amount?.toFixed(2) || '0.00'}
+      {formatPrice(order.total_amount || 0)}
     </div>
   </div>
 
@@ -477,9 +556,20 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       )}
             </div>
           </div>
+          )}
         </div>
       </div>
 
+      {showProofReviewModal && (
+        <ProofReviewModal
+          orderId={order.id}
+          orderNumber={order.order_number}
+          orderName={order.order_name}
+          onClose={() => setShowProofReviewModal(false)}
+          onSuccess={handleProofDecision}
+        />
+      )}
+
       {showRequestEditModal && (
         <RequestEditModal
           orderId={order.id}
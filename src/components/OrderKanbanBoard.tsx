@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Edit3, Loader } from 'lucide-react';
+import { OrderImagePreview } from './OrderImagePreview';
+import { getOrders, updateOrder } from '../admin/api/supabaseHelpers';
+import { AdminOrder, PaginationParams } from '../admin/types';
+import { useOrdersRealtime } from '../shared/hooks/useRealtime';
+import { getStatusColor } from '../shared/utils/statusColors';
+import { getSlaColor } from '../shared/utils/orderTableUtils';
+import {
+  canTransitionOrderStatus,
+  getOrderStatusLabel,
+  validateOrderStatusTransition,
+  OrderStatusActor,
+  OrderStatusValue,
+} from '../services/orderStatusService';
+import { formatTimeUntilDue, getSlaState, SLA_STATE_LABELS } from '../services/turnaroundService';
+import { toast } from '../utils/toast';
+
+const BOARD_STATUSES: OrderStatusValue[] = ['new', 'in_progress', 'under_review', 'completed'];
+
+// Open work is shown in full; the completed column only needs recent history
+const OPEN_ORDERS_LIMIT = 100;
+const COMPLETED_ORDERS_LIMIT = 20;
+
+interface OrderKanbanBoardProps {
+  userId: string;
+  role: OrderStatusActor;
+  // The dashboard's own scope and filters; status and paging are the board's
+  baseParams: Partial<PaginationParams>;
+  onOpenOrder: (order: AdminOrder) => void;
+  onStatusChanged?: () => void;
+  // Bump to reload after the order was changed elsewhere, e.g. in a modal
+  refreshKey?: number;
+}
+
+const OrderKanbanBoard: React.FC<OrderKanbanBoardProps> = ({
+  userId,
+  role,
+  baseParams,
+  onOpenOrder,
+  onStatusChanged,
+  refreshKey = 0,
+}) => {
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draggedOrder, setDraggedOrder] = useState<AdminOrder | null>(null);
+  const [dropTarget, setDropTarget] = useState<OrderStatusValue | null>(null);
+  const [movingOrderId, setMovingOrderId] = useState<string | null>(null);
+
+  const paramsRef = useRef(baseParams);
+  paramsRef.current = baseParams;
+  const paramsKey = JSON.stringify(baseParams);
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const scope: PaginationParams = { ...paramsRef.current, page: 1, limit: OPEN_ORDERS_LIMIT };
+      const [open, completed] = await Promise.all([
+        getOrders({ ...scope, status: ['new', 'in_progress', 'under_review'], sortBy: 'due_at', sortOrder: 'asc' }),
+        getOrders({ ...scope, limit: COMPLETED_ORDERS_LIMIT, status: ['completed'], sortBy: 'completed_at', sortOrder: 'desc' }),
+      ]);
+      setOrders([...open.data, ...completed.data]);
+      setError('');
+    } catch (fetchError) {
+      console.error('Error fetching board orders:', fetchError);
+      setError('Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard, paramsKey, refreshKey]);
+
+  // Realtime rows lack the joined customer and attachment, so reload the board
+  const handleRealtimeChange = useCallback(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  useOrdersRealtime({
+    userId,
+    onOrderInsert: handleRealtimeChange,
+    onOrderUpdate: handleRealtimeChange,
+    onOrderDelete: handleRealtimeChange,
+    enabled: !!userId,
+  });
+
+  const moveOrder = async (order: AdminOrder, status: OrderStatusValue) => {
+    if (order.status === status) return;
+
+    try {
+      validateOrderStatusTransition(order.status, status, role);
+    } catch (validationError) {
+      toast.error(validationError instanceof Error ? validationError.message : 'This move is not allowed');
+      return;
+    }
+
+    const orderNumber = order.order_number || `ORD-${order.id.slice(0, 8)}`;
+    setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, status } : o)));
+    setMovingOrderId(order.id);
+
+    try {
+      await updateOrder(order.id, { status });
+      toast.success(`Order ${orderNumber} moved to ${getOrderStatusLabel(status)}`);
+      onStatusChanged?.();
+      fetchBoard();
+    } catch (updateError) {
+      console.error('Error moving order:', updateError);
+      setOrders(prev => prev.map(o => (o.id === order.id ? order : o)));
+      toast.error(updateError instanceof Error ? updateError.message : 'Failed to update order status');
+    } finally {
+      setMovingOrderId(null);
+    }
+  };
+
+  const canDropOn = (status: OrderStatusValue) =>
+    !!draggedOrder && draggedOrder.status !== status && canTransitionOrderStatus(draggedOrder.status, status, role);
+
+  const handleDrop = (e: React.DragEvent, status: OrderStatusValue) => {
+    e.preventDefault();
+    const order = draggedOrder;
+    setDraggedOrder(null);
+    setDropTarget(null);
+    if (order) moveOrder(order, status);
+  };
+
+  const renderDue = (order: AdminOrder) => {
+    if (!order.due_at) return <span className="text-gray-400">No due date</span>;
+
+    const slaState = getSlaState(order);
+    const label = order.status === 'completed' || !slaState
+      ? new Date(order.due_at).toLocaleDateString()
+      : formatTimeUntilDue(order.due_at);
+
+    return (
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${slaState ? getSlaColor(slaState) : 'bg-gray-100 text-gray-800'}`}
+        title={slaState ? `${SLA_STATE_LABELS[slaState]} • due ${new Date(order.due_at).toLocaleString()}` : undefined}
+      >
+        {label}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader className="h-5 w-5 animate-spin mr-2" />
+        <span>Loading board...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mb-4">
+          <p className="text-sm sm:text-base text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {BOARD_STATUSES.map(status => {
+          const columnOrders = orders.filter(order => order.status === status);
+          const droppable = canDropOn(status);
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!droppable) return;
+                e.preventDefault();
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`flex flex-col rounded-xl border-2 transition-colors ${
+                dropTarget === status
+                  ? 'border-blue-400 bg-blue-50'
+                  : droppable
+                    ? 'border-dashed border-blue-200 bg-gray-50'
+                    : 'border-transparent bg-gray-100'
+              }`}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(status)}`}>
+                  {getOrderStatusLabel(status)}
+                </span>
+                <span className="text-xs font-medium text-gray-500">
+                  {columnOrders.length}
+                  {status === 'completed' && columnOrders.length >= COMPLETED_ORDERS_LIMIT ? ' most recent' : ''}
+                </span>
+              </div>
+
+              <div className="flex-1 space-y-2 px-2 pb-2 min-h-[8rem] max-h-[70vh] overflow-y-auto">
+                {columnOrders.length === 0 && (
+                  <p className="text-xs text-gray-400 text-center py-6">No orders</p>
+                )}
+                {columnOrders.map(order => (
+                  <div
+                    key={order.id}
+                    draggable={movingOrderId !== order.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', order.id);
+                      setDraggedOrder(order);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedOrder(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onOpenOrder(order)}
+                    className={`bg-white rounded-lg border border-gray-200 p-3 shadow-sm hover:shadow-md transition-shadow cursor-grab active:cursor-grabbing ${
+                      movingOrderId === order.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <div className="flex space-x-3">
+                      <OrderImagePreview attachmentId={order.first_attachment_id} alt={order.order_name || 'Order attachment'} />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-mono text-xs text-gray-500">{order.order_number || `ORD-${order.id.slice(0, 8)}`}</p>
+                        <p className="text-sm font-medium text-gray-900 truncate">{order.order_name || 'No Order Name'}</p>
+                        <p className="text-xs text-gray-600 truncate">{order.customer_name}</p>
+                      </div>
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-xs">
+                      {renderDue(order)}
+                      {(order.edits || 0) > 0 && (
+                        <span className="flex items-center space-x-1 text-orange-600" title="Edit requests">
+                          <Edit3 className="h-3 w-3" />
+                          <span>{order.edits} {order.edits === 1 ? 'edit' : 'edits'}</span>
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OrderKanbanBoard;
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Plus, Save, Trash2, CreditCard as Edit, Loader } from 'lucide-react';
+import { OrderTimeEntry } from '../admin/types';
+import {
+  addTimeEntry,
+  deleteTimeEntry,
+  fetchOrderTimeEntries,
+  formatDuration,
+  getTimeEntryMinutes,
+  updateTimeEntry,
+} from '../services/timeTrackingService';
+import { toast } from '../utils/toast';
+
+interface OrderTimeEntriesModalProps {
+  orderId: string;
+  orderNumber: string;
+  // Designers may only change their own entries
+  currentUserId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface EntryDraft {
+  started_at: string;
+  ended_at: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: EntryDraft = { started_at: '', ended_at: '', notes: '' };
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+export function OrderTimeEntriesModal({
+  orderId,
+  orderNumber,
+  currentUserId,
+  onClose,
+  onChanged,
+}: OrderTimeEntriesModalProps) {
+  const [entries, setEntries] = useState<OrderTimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // 'new' for the add form, otherwise the id of the entry being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EntryDraft>(EMPTY_DRAFT);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await fetchOrderTimeEntries(orderId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load time entries');
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + getTimeEntryMinutes(entry), 0);
+
+  const startEditing = (entry: OrderTimeEntry | null) => {
+    if (entry) {
+      setEditingId(entry.id);
+      setDraft({
+        started_at: toLocalInput(entry.started_at),
+        ended_at: entry.ended_at ? toLocalInput(entry.ended_at) : '',
+        notes: entry.notes || '',
+      });
+    } else {
+      const now = new Date();
+      setEditingId('new');
+      setDraft({
+        started_at: toLocalInput(new Date(now.getTime() - 60 * 60000).toISOString()),
+        ended_at: toLocalInput(now.toISOString()),
+        notes: '',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft.started_at || !draft.ended_at) {
+      toast.error('Enter both a start and an end time');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = {
+        started_at: fromLocalInput(draft.started_at),
+        ended_at: fromLocalInput(draft.ended_at),
+        notes: draft.notes,
+      };
+      if (editingId === 'new') {
+        await addTimeEntry(orderId, input);
+        toast.success('Time entry added');
+      } else if (editingId) {
+        await updateTimeEntry(editingId, input);
+        toast.success('Time entry updated');
+      }
+      setEditingId(null);
+      setDraft(EMPTY_DRAFT);
+      await loadEntries();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save time entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: OrderTimeEntry) => {
+    if (!window.confirm(`Delete ${formatDuration(getTimeEntryMinutes(entry))} logged on ${new Date(entry.started_at).toLocaleDateString()}?`)) return;
+
+    try {
+      await deleteTimeEntry(entry.id);
+      toast.success('Time entry deleted');
+      await loadEntries();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete time entry');
+    }
+  };
+
+  const renderForm = () => (
+    <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Started</label>
+          <input
+            type="datetime-local"
+            value={draft.started_at}
+            onChange={(e) => setDraft(prev => ({ ...prev, started_at: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Ended</label>
+          <input
+            type="datetime-local"
+            value={draft.ended_at}
+            onChange={(e) => setDraft(prev => ({ ...prev, ended_at: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+      <input
+        type="text"
+        value={draft.notes}
+        onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+        placeholder="What was worked on (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => {
+            setEditingId(null);
+            setDraft(EMPTY_DRAFT);
+          }}
+          className="btn-secondary text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary text-sm flex items-center space-x-2"
+        >
+          <Save className="h-4 w-4" />
+          <span>Save</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Time Log</h2>
+            <p className="text-sm text-gray-500">
+              Order {orderNumber} • {formatDuration(totalMinutes)} logged
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {editingId === 'new' ? renderForm() : (
+            <button
+              type="button"
+              onClick={() => startEditing(null)}
+              className="btn-secondary text-sm flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Time Manually</span>
+            </button>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader className="h-5 w-5 animate-spin mr-2" />
+              <span>Loading time entries...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No time logged on this order yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {entries.map(entry => (
+                <li key={entry.id} className="py-3">
+                  {editingId === entry.id ? renderForm() : (
+                    <div className="flex items-start justify-between">
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {formatDuration(getTimeEntryMinutes(entry))}
+                          {!entry.ended_at && <span className="ml-2 text-xs font-medium text-green-600">Running</span>}
+                        </p>
+                        <p className="text-gray-600">
+                          {new Date(entry.started_at).toLocaleString()}
+                          {entry.ended_at && ` – ${new Date(entry.ended_at).toLocaleTimeString()}`}
+                          {entry.designer_name && ` • ${entry.designer_name}`}
+                        </p>
+                        {entry.notes && <p className="text-gray-500 mt-1">{entry.notes}</p>}
+                      </div>
+                      {entry.designer_id === currentUserId && entry.ended_at && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => startEditing(entry)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors"
+                            title="Edit Entry"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry)}
+                            className="text-red-600 hover:text-red-900 transition-colors"
+                            title="Delete Entry"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, Send, Paperclip, Loader, Trash2, CheckCircle, Eye, Plus } from 'lucide-react';
 import { getCurrentUser, getUserProfile, getCategories } from '../lib/supabase';
 import { useOrders } from '../contexts/OrderContext';
 import { toast } from '../utils/toast';
 import { uploadAttachment } from '../lib/attachmentService';
+import { calculateQuote, formatPrice } from '../services/pricingService';
+import { estimateOrderArtwork, StitchEstimate } from '../lib/stitchEstimator';
+import { getComplexityColor } from '../shared/utils/statusColors';
+import { turnaroundConfig, TurnaroundTier } from '../config/turnaround.config';
+import { TURNAROUND_TIERS } from '../services/turnaroundService';
 
 interface PlaceOrderModalProps {
   isOpen: boolean;
@@ -20,7 +25,10 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
     orderName: '',
     customWidth: '',
     customHeight: '',
+    quantity: '1',
+    colorCount: '1',
     categoryId: '',
+    turnaroundTier: turnaroundConfig.defaultTier as TurnaroundTier,
     designInstructions: '',
     files: [] as File[]
   });
@@ -29,6 +37,8 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
   const [currentUser, setCurrentUser] = React.useState<any>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [createdOrder, setCreatedOrder] = useState<any>(null);
+  const [artworkEstimate, setArtworkEstimate] = useState<StitchEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
   const { addOrder } = useOrders();
 
   React.useEffect(() => {
@@ -76,6 +86,36 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
     setFormData(prev => ({ ...prev, files: [...prev.files, ...selectedFiles] }));
   };
 
+  // Re-estimate whenever the artwork or the requested size changes
+  useEffect(() => {
+    let cancelled = false;
+    const width = parseFloat(formData.customWidth) || 0;
+    const height = parseFloat(formData.customHeight) || 0;
+
+    setIsEstimating(true);
+    estimateOrderArtwork(formData.files, width, height)
+      .then(estimate => {
+        if (!cancelled) setArtworkEstimate(estimate);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEstimating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.files, formData.customWidth, formData.customHeight]);
+
+  const quote = calculateQuote({
+    categoryName: categories.find(category => category.id === formData.categoryId)?.category_name,
+    width: parseFloat(formData.customWidth) || 0,
+    height: parseFloat(formData.customHeight) || 0,
+    stitchCount: artworkEstimate?.stitchCount,
+    colorCount: parseInt(formData.colorCount, 10) || 1,
+    quantity: parseInt(formData.quantity, 10) || 1,
+    turnaroundTier: formData.turnaroundTier,
+  });
+
   const removeFile = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -111,6 +151,11 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
       return;
     }
 
+    if (!formData.quantity || parseInt(formData.quantity, 10) < 1) {
+      toast.error('Please enter a quantity of at least 1');
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const orderData = {
@@ -120,7 +165,13 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
         category_id: formData.categoryId,
         custom_width: parseFloat(formData.customWidth),
         custom_height: parseFloat(formData.customHeight),
-        total_amount: 0,
+        quantity: quote.quantity,
+        color_count: quote.colorCount,
+        estimated_stitch_count: artworkEstimate?.stitchCount,
+        estimated_color_count: artworkEstimate?.colorCount,
+        complexity_band: artworkEstimate?.complexity,
+        turnaround_tier: formData.turnaroundTier,
+        total_amount: quote.total,
       };
 
       const newOrder = await addOrder(orderData);
@@ -187,7 +238,10 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
       orderName: '',
       customWidth: '',
       customHeight: '',
+      quantity: '1',
+      colorCount: '1',
       categoryId: '',
+      turnaroundTier: turnaroundConfig.defaultTier,
       designInstructions: '',
       files: []
     });
@@ -262,7 +316,10 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
                         orderName: '',
                         customWidth: '',
                         customHeight: '',
+                        quantity: '1',
+                        colorCount: '1',
                        categoryId: '',
+                        turnaroundTier: turnaroundConfig.defaultTier,
                         designInstructions: '',
                         files: []
                       });
@@ -284,7 +341,11 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
               
               <div className="mt-6 text-sm text-gray-500">
                 <p>📧 You'll receive an email confirmation shortly</p>
-                <p>⏱️ Expected completion: 2-3 business days</p>
+                <p>
+                  ⏱️ Expected completion: {createdOrder?.due_at
+                    ? new Date(createdOrder.due_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+                    : turnaroundConfig.tiers[formData.turnaroundTier].description.toLowerCase()}
+                </p>
               </div>
             </div>
           ) : (
@@ -451,6 +512,108 @@ const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose }) =>
                 </div>
               </div>
 
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    name="quantity"
+                    step="1"
+                    min="1"
+                    value={formData.quantity}
+                    onChange={handleInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Number of pieces"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Number of Colors
+                  </label>
+                  <input
+                    type="number"
+                    name="colorCount"
+                    step="1"
+                    min="1"
+                    value={formData.colorCount}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Thread colors"
+                  />
+                </div>
+              </div>
+
+              {/* Turnaround */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Turnaround
+                </label>
+                <div className="grid sm:grid-cols-3 gap-2">
+                  {TURNAROUND_TIERS.map(tier => {
+                    const tierConfig = turnaroundConfig.tiers[tier];
+                    const selected = formData.turnaroundTier === tier;
+                    return (
+                      <button
+                        key={tier}
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, turnaroundTier: tier }))}
+                        className={`text-left border rounded-lg p-3 transition-colors ${
+                          selected ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-gray-300 hover:border-blue-300'
+                        }`}
+                      >
+                        <p className="text-sm font-medium text-gray-900">{tierConfig.label}</p>
+                        <p className="text-xs text-gray-500">{tierConfig.description}</p>
+                        <p className="text-xs text-gray-700 mt-1">
+                          {tierConfig.surchargePercent > 0 ? `+${tierConfig.surchargePercent}%` : 'No surcharge'}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Price Estimate */}
+              {formData.customWidth && formData.customHeight && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700">Estimated Price</h3>
+                      <p className="text-xs text-gray-500 mt-1">
+                        ~{quote.stitchCount.toLocaleString()} stitches
+                        {quote.stitchCountEstimated ? ' (estimated from size)' : ' (estimated from artwork)'}
+                        {' • '}{quote.colorCount} color{quote.colorCount !== 1 && 's'}
+                        {' • '}{formatPrice(quote.unitPrice)} × {quote.quantity}
+                      </p>
+                      {quote.discountPercent > 0 && (
+                        <p className="text-xs text-green-700 mt-1">
+                          Quantity discount: {quote.discountPercent}% off ({formatPrice(quote.discountAmount)} saved)
+                        </p>
+                      )}
+                      {quote.turnaroundSurcharge > 0 && (
+                        <p className="text-xs text-orange-700 mt-1">
+                          {turnaroundConfig.tiers[formData.turnaroundTier].label} turnaround: +{quote.turnaroundSurchargePercent}% ({formatPrice(quote.turnaroundSurcharge)})
+                        </p>
+                      )}
+                      {isEstimating ? (
+                        <p className="text-xs text-gray-500 mt-1">Analyzing artwork...</p>
+                      ) : artworkEstimate && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Artwork ({artworkEstimate.sourceFilename}): {artworkEstimate.colorCount} color{artworkEstimate.colorCount !== 1 && 's'} detected
+                          {' '}
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getComplexityColor(artworkEstimate.complexity)}`}>
+                            {artworkEstimate.complexity}
+                          </span>
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-2xl font-bold text-green-700">{formatPrice(quote.total)}</span>
+                  </div>
+                </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
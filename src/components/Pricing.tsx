@@ -1,11 +1,14 @@
 import React from 'react';
 import { Package, Zap, Crown } from 'lucide-react';
+import { pricingConfig } from '../config/pricing.config';
+import { calculateQuote, formatPrice } from '../services/pricingService';
 
 const Pricing: React.FC = () => {
   const pricingTiers = [
     {
       id: 1,
       title: "Basic Embroidery",
+      sample: { stitchCount: 5000, colorCount: 1 },
       description: "Perfect for simple logos and small designs on single items",
       icon: Package,
       color: "from-blue-500 to-cyan-500",
@@ -19,6 +22,7 @@ const Pricing: React.FC = () => {
     {
       id: 2,
       title: "Premium Embroidery",
+      sample: { stitchCount: 15000, colorCount: 6 },
       description: "Ideal for detailed designs and bulk orders with multiple colors",
       icon: Zap,
       color: "from-green-600 to-emerald-600",
@@ -32,6 +36,7 @@ const Pricing: React.FC = () => {
     {
       id: 3,
       title: "Enterprise Solutions",
+      sample: { stitchCount: 30000, colorCount: 12 },
       description: "Complete branding packages for businesses and large-scale projects",
       icon: Crown,
       color: "from-orange-500 to-amber-600",
@@ -79,7 +84,7 @@ const Pricing: React.FC = () => {
 
                 <div className="mb-4">
                   <div className="text-3xl font-bold text-gray-800">
-                    Starting from $10
+                    Starting from {formatPrice(calculateQuote(tier.sample).unitPrice)}
                   </div>
                   <div className="text-gray-500 text-sm">per item</div>
                 </div>
@@ -107,6 +112,28 @@ const Pricing: React.FC = () => {
             );
           })}
         </div>
+
+        <div className="max-w-6xl mx-auto mt-10 bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800 mb-1 text-center">Volume Discounts</h3>
+          <p className="text-gray-600 text-sm text-center mb-4">
+            Applied automatically to every item in the order.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {pricingConfig.quantityBreaks.map((tier, index) => {
+              const nextTier = pricingConfig.quantityBreaks[index + 1];
+              return (
+                <div key={tier.minQuantity} className="text-center bg-gray-50 rounded-lg p-3">
+                  <div className="text-sm text-gray-500">
+                    {nextTier ? `${tier.minQuantity}–${nextTier.minQuantity - 1}` : `${tier.minQuantity}+`} pcs
+                  </div>
+                  <div className="text-lg font-bold text-gray-800">
+                    {tier.discountPercent > 0 ? `${tier.discountPercent}% off` : 'Base price'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
       </div>
     </section>
   );
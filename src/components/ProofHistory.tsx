@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, MapPin, Download } from 'lucide-react';
+import { OrderProof, ProofStatus } from '../admin/types';
+import { proofService } from '../services/proofService';
+import { downloadAttachment } from '../lib/attachmentService';
+import { toast } from '../utils/toast';
+
+interface ProofHistoryProps {
+  orderId: string;
+  refreshKey?: number;
+}
+
+const getProofStatusColor = (status: ProofStatus) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'changes_requested': return 'bg-orange-100 text-orange-800';
+    default: return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const formatDateTime = (value: string) =>
+  `${new Date(value).toLocaleDateString()} ${new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+export const ProofHistory: React.FC<ProofHistoryProps> = ({ orderId, refreshKey }) => {
+  const [proofs, setProofs] = useState<OrderProof[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadProofs = async () => {
+      try {
+        setLoading(true);
+        const data = await proofService.getProofsByOrder(orderId);
+        if (isMounted) setProofs(data);
+      } catch (error) {
+        console.error('Error fetching proofs:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadProofs();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orderId, refreshKey]);
+
+  const handleDownload = async (proof: OrderProof) => {
+    if (!proof.attachment) return;
+    try {
+      await downloadAttachment(proof.attachment.id, proof.attachment.original_filename);
+    } catch (error) {
+      console.error('Download error:', error);
+      toast.error('Failed to download proof');
+    }
+  };
+
+  if (!loading && proofs.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">Proof History</h3>
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+            <span className="text-gray-600 text-sm">Loading proofs...</span>
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-96 overflow-y-auto">
+            {proofs.map((proof) => (
+              <div key={proof.id} className="bg-gray-50 rounded-lg p-3 border border-gray-100">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-semibold text-gray-800 text-sm">Proof v{proof.version}</span>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getProofStatusColor(proof.status)}`}>
+                      {proof.status.replace('_', ' ')}
+                    </span>
+                  </div>
+                  {proof.attachment && (
+                    <button
+                      type="button"
+                      onClick={() => handleDownload(proof)}
+                      className="p-1 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+                      title="Download Proof"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Submitted by {proof.submitted_by_name} • {formatDateTime(proof.created_at)}
+                </p>
+                {proof.notes && (
+                  <p className="text-sm text-gray-700 mt-2">{proof.notes}</p>
+                )}
+
+                {proof.decided_at && (
+                  <div className="mt-3 border-t border-gray-200 pt-2">
+                    <p className="text-xs text-gray-500">
+                      {proof.status === 'approved' ? 'Approved' : 'Changes requested'} • {formatDateTime(proof.decided_at)}
+                    </p>
+                    {proof.decision_comment && (
+                      <p className="text-sm text-gray-700 mt-1">{proof.decision_comment}</p>
+                    )}
+                  </div>
+                )}
+
+                {proof.comments && proof.comments.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {proof.comments.map((comment, index) => (
+                      <div key={comment.id} className="flex items-start space-x-2 text-sm">
+                        {comment.pin_x != null && comment.pin_y != null ? (
+                          <MapPin className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <MessageSquare className="h-4 w-4 text-blue-600 flex-shrink-0 mt-0.5" />
+                        )}
+                        <p className="text-gray-700">
+                          {comment.pin_x != null && <span className="font-semibold">#{index + 1} </span>}
+                          {comment.content}
+                          <span className="text-xs text-gray-500"> — {comment.author_name}</span>
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import { X, CheckCircle, MessageSquare, MapPin, Download } from 'lucide-react';
+import { toast } from '../utils/toast';
+import { OrderProof } from '../admin/types';
+import { proofService, PinnedComment } from '../services/proofService';
+import { getAttachmentDownloadUrl, downloadAttachment } from '../lib/attachmentService';
+
+interface ProofReviewModalProps {
+  orderId: string;
+  orderNumber: string;
+  orderName: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function ProofReviewModal({
+  orderId,
+  orderNumber,
+  orderName,
+  onClose,
+  onSuccess
+}: ProofReviewModalProps) {
+  const [proof, setProof] = useState<OrderProof | null>(null);
+  const [proofUrl, setProofUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pins, setPins] = useState<PinnedComment[]>([]);
+  const [summary, setSummary] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadProof = async () => {
+      try {
+        setLoading(true);
+        const latest = await proofService.getLatestProof(orderId);
+        if (!isMounted) return;
+        setProof(latest);
+
+        if (latest?.attachment_id && latest.attachment?.mime_type?.startsWith('image/')) {
+          const url = await getAttachmentDownloadUrl(latest.attachment_id);
+          if (isMounted) setProofUrl(url);
+        }
+      } catch (error) {
+        console.error('Error loading proof:', error);
+        toast.error('Failed to load proof');
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadProof();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orderId]);
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pin_x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const pin_y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setPins(prev => [...prev, { content: '', pin_x, pin_y }]);
+  };
+
+  const updatePin = (index: number, content: string) => {
+    setPins(prev => prev.map((pin, i) => (i === index ? { ...pin, content } : pin)));
+  };
+
+  const removePin = (index: number) => {
+    setPins(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleApprove = async () => {
+    if (!proof) return;
+    if (!confirm('Approve this proof? Your order will be marked as completed.')) return;
+
+    setIsSubmitting(true);
+    try {
+      await proofService.approveProof(proof.id, summary);
+      toast.success('Proof approved. Your order is now complete!');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error approving proof:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to approve proof');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRequestChanges = async () => {
+    if (!proof) return;
+
+    const filledPins = pins.filter(pin => pin.content.trim());
+    if (filledPins.length !== pins.length) {
+      toast.error('Please add a comment to every pin or remove it');
+      return;
+    }
+
+    if (!summary.trim() && filledPins.length === 0) {
+      toast.error('Please describe the changes you need');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await proofService.requestProofChanges(proof.id, summary, filledPins);
+      toast.success('Change request sent to the designer');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error requesting proof changes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request changes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isPending = proof?.status === 'pending';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between z-10">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Review Proof{proof ? ` v${proof.version}` : ''}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mb-4">
+            <p className="text-sm text-gray-600 mb-1">
+              Order Number: <span className="font-medium text-gray-900">{orderNumber}</span>
+            </p>
+            <p className="text-sm text-gray-600">
+              Order Name: <span className="font-medium text-gray-900">{orderName}</span>
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+              <span className="text-gray-600 text-sm">Loading proof...</span>
+            </div>
+          ) : !proof ? (
+            <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+              <p className="text-sm text-gray-500">No proof has been submitted for this order yet.</p>
+            </div>
+          ) : (
+            <>
+              {proof.notes && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+                  <p className="text-xs font-semibold text-blue-900 mb-1">Designer notes</p>
+                  <p className="text-sm text-blue-800">{proof.notes}</p>
+                </div>
+              )}
+
+              {proofUrl ? (
+                <div className="mb-4">
+                  {isPending && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      Click anywhere on the proof to pin a comment to that spot.
+                    </p>
+                  )}
+                  <div
+                    className={`relative inline-block w-full border border-gray-200 rounded-lg overflow-hidden ${isPending ? 'cursor-crosshair' : ''}`}
+                    onClick={isPending ? handleImageClick : undefined}
+                  >
+                    <img src={proofUrl} alt={`Proof v${proof.version}`} className="w-full h-auto block select-none" draggable={false} />
+                    {pins.map((pin, index) => (
+                      <span
+                        key={index}
+                        className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center shadow"
+                        style={{ left: `${(pin.pin_x || 0) * 100}%`, top: `${(pin.pin_y || 0) * 100}%` }}
+                      >
+                        {index + 1}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ) : proof.attachment && (
+                <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg mb-4">
+                  <span className="text-sm text-gray-700 truncate">{proof.attachment.original_filename}</span>
+                  <button
+                    type="button"
+                    onClick={() => downloadAttachment(proof.attachment!.id, proof.attachment!.original_filename)}
+                    className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+                    title="Download"
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              {pins.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  {pins.map((pin, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <span className="w-6 h-6 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                        {index + 1}
+                      </span>
+                      <input
+                        type="text"
+                        value={pin.content}
+                        onChange={(e) => updatePin(index, e.target.value)}
+                        placeholder="What should change here?"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        disabled={isSubmitting}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removePin(index)}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-5 w-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isPending ? (
+                <>
+                  <div className="mb-6">
+                    <label htmlFor="proof-summary" className="block text-sm font-medium text-gray-700 mb-2">
+                      Comments
+                    </label>
+                    <textarea
+                      id="proof-summary"
+                      value={summary}
+                      onChange={(e) => setSummary(e.target.value)}
+                      placeholder="Anything else the designer should know..."
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <button
+                      type="button"
+                      onClick={handleRequestChanges}
+                      disabled={isSubmitting}
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-orange-700 bg-white border border-orange-300 rounded-lg hover:bg-orange-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Request Changes{pins.length > 0 && ` (${pins.length} pin${pins.length !== 1 ? 's' : ''})`}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleApprove}
+                      disabled={isSubmitting || pins.length > 0}
+                      title={pins.length > 0 ? 'Remove pinned comments to approve' : undefined}
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve Proof
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center space-x-2 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                  <MapPin className="h-4 w-4 text-gray-500" />
+                  <p className="text-sm text-gray-600">
+                    This proof was {proof.status === 'approved' ? 'approved' : 'sent back for changes'}
+                    {proof.decided_at && ` on ${new Date(proof.decided_at).toLocaleDateString()}`}.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import React, { useState } from 'react';
 import { Send, Paperclip, Loader2 } from 'lucide-react';
 import { getCategories } from '../lib/supabase';
 import { toast } from '../utils/toast';
+import { estimateOrderArtwork } from '../lib/stitchEstimator';
 
 const QuoteForm: React.FC = () => {
   // Form state management
@@ -93,16 +94,26 @@ const QuoteForm: React.FC = () => {
 
       const selectedCategory = categories.find(cat => cat.id === formData.categoryId);
 
+      const artworkEstimate = isQuoteRequest && formData.file
+        ? await estimateOrderArtwork([formData.file], parseFloat(formData.customWidth) || 0, parseFloat(formData.customHeight) || 0)
+        : null;
+
       const emailData = {
         formType: isQuoteRequest ? 'quote' : 'general',
         fullName: formData.fullName,
         email: formData.email,
         phone: `${formData.countryCode} ${formData.phoneNumber}`,
         apparelType: selectedCategory?.category_name,
+        categoryId: isQuoteRequest ? selectedCategory?.id : undefined,
         customWidth: formData.customWidth,
         customHeight: formData.customHeight,
         designInstructions: formData.designInstructions,
         message: formData.message,
+        artworkEstimate: artworkEstimate ? {
+          stitchCount: artworkEstimate.stitchCount,
+          colorCount: artworkEstimate.colorCount,
+          complexity: artworkEstimate.complexity,
+        } : undefined,
         fileAttachment
       };
 
@@ -123,7 +134,9 @@ const QuoteForm: React.FC = () => {
         throw new Error(result.error || 'Failed to send email');
       }
 
-      toast.success('Form submitted successfully');
+      toast.success(result.quoteNumber
+        ? `Quote request ${result.quoteNumber} received. Our team will be in touch soon.`
+        : 'Form submitted successfully');
 
       setFormData({
         fullName: '',
@@ -4,6 +4,7 @@ import { notifyAboutEditRequest } from '../services/notificationService';
 import { supabase } from '../lib/supabase';
 import { toast } from '../utils/toast';
 import { uploadAttachment } from '../lib/attachmentService';
+import { autoAssignDesigner } from '../services/designerAssignmentService';
 
 interface RequestEditModalProps {
   orderId: string;
@@ -105,6 +106,8 @@ export function RequestEditModal({
         throw updateError;
       }
 
+      await autoAssignDesigner(orderId, order?.order_number || orderNumber);
+
       await notifyAboutEditRequest(
         order?.customer_id || user.id,
         order?.order_number || orderId.slice(0, 8),
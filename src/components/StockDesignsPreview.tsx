@@ -11,10 +11,14 @@
 import React from 'react';
 import { Loader } from 'lucide-react';
 import AddToCartButton from './AddToCartButton';
+import { useCart } from '../contexts/CartContext';
+import { formatPrice } from '../services/pricingService';
+import { convertAmount } from '../services/currencyService';
 import { getStockDesigns } from '../lib/supabase';
 import { getImageSrc, getPlaceholderImage } from '../lib/placeholderImages';
 
 const StockDesignsPreview: React.FC = () => {
+  const { billingCurrency } = useCart();
   const [stockDesigns, setStockDesigns] = React.useState<any[]>([]);
   const [loading, setLoading] = React.useState(true);
 
@@ -102,7 +106,7 @@ const StockDesignsPreview: React.FC = () => {
                       {stockDesign.title}
                     </h3>
                     <div className="text-right">
-                      <span className="text-blue-600 font-bold text-xl">${stockDesign.price.toFixed(2)}</span>
+                      <span className="text-blue-600 font-bold text-xl">{formatPrice(convertAmount(stockDesign.price, billingCurrency.rate), billingCurrency.currency)}</span>
                     </div>
                   </div>
 
@@ -114,9 +118,10 @@ const StockDesignsPreview: React.FC = () => {
                     item={{
                       id: stockDesign.id,
                       title: stockDesign.title,
-                      price: `$${stockDesign.price.toFixed(2)}`,
+                      price: stockDesign.price,
                       image: getImageSrc(stockDesign.image_url, 'stock_design'),
-                      apparelType: stockDesign.category?.category_name || 'Uncategorized'
+                      apparelType: stockDesign.category?.category_name || 'Uncategorized',
+                      categoryId: stockDesign.category_id
                     }}
                     className="w-full shadow-lg transform hover:scale-105 mt-auto"
                   />
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { X, Upload, FileIcon } from 'lucide-react';
+import { toast } from '../utils/toast';
+import { proofService } from '../services/proofService';
+
+interface SubmitProofModalProps {
+  orderId: string;
+  orderNumber: string;
+  orderName: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function SubmitProofModal({
+  orderId,
+  orderNumber,
+  orderName,
+  onClose,
+  onSuccess
+}: SubmitProofModalProps) {
+  const [notes, setNotes] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!file) {
+      toast.error('Please attach the proof file');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const proof = await proofService.submitProof({
+        order_id: orderId,
+        order_number: orderNumber,
+        file,
+        notes
+      });
+
+      toast.success(`Proof v${proof.version} sent to the customer`);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error submitting proof:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit proof');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Submit Proof</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="mb-4">
+            <p className="text-sm text-gray-600 mb-1">
+              Order Number: <span className="font-medium text-gray-900">{orderNumber}</span>
+            </p>
+            <p className="text-sm text-gray-600">
+              Order Name: <span className="font-medium text-gray-900">{orderName}</span>
+            </p>
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Proof File
+            </label>
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center hover:border-blue-400 transition-colors">
+              <input
+                type="file"
+                id="proof-upload"
+                accept="image/*,.pdf"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="hidden"
+                disabled={isSubmitting}
+              />
+              <label
+                htmlFor="proof-upload"
+                className="cursor-pointer flex flex-col items-center"
+              >
+                <Upload className="h-8 w-8 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-600">
+                  Click to upload the proof image
+                </span>
+                <span className="text-xs text-gray-500 mt-1">
+                  Images can be annotated by the customer
+                </span>
+              </label>
+            </div>
+
+            {file && (
+              <div className="mt-4 flex items-center justify-between bg-gray-50 p-3 rounded-lg">
+                <div className="flex items-center space-x-3">
+                  <FileIcon className="h-5 w-5 text-gray-400" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{file.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {(file.size / 1024 / 1024).toFixed(2)} MB
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setFile(null)}
+                  className="text-red-600 hover:text-red-800 transition-colors"
+                  disabled={isSubmitting}
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="mb-6">
+            <label htmlFor="proof-notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes for the customer (optional)
+            </label>
+            <textarea
+              id="proof-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Thread colors used, placement notes, anything the customer should check..."
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+            <p className="mt-2 text-xs text-gray-500">
+              Submitting a proof moves the order to Under Review until the customer responds.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Submitting...' : 'Send Proof'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { businessConfig } from './business.config';
+import { parseRateTable } from '../shared/utils/configParsers';
+
+export interface CurrencyConfig {
+  baseCurrency: string;
+  locale: string;
+  exchangeRates: Record<string, number>;
+}
+
+const baseCurrency = businessConfig.pricing.currency.toUpperCase();
+
+export const currencyConfig: CurrencyConfig = {
+  // Order totals and stock design prices are stored in this currency
+  baseCurrency,
+  locale: import.meta.env.VITE_LOCALE || 'en-US',
+  // Units of each billing currency per one unit of the base currency, e.g.
+  // `VITE_EXCHANGE_RATES=GBP:0.79,EUR:0.92`. Only listed currencies can be billed.
+  exchangeRates: {
+    ...parseRateTable(import.meta.env.VITE_EXCHANGE_RATES),
+    [baseCurrency]: 1,
+  },
+};
@@ -0,0 +1,37 @@
+export type OrderStatusValue = 'new' | 'in_progress' | 'under_review' | 'completed' | 'cancelled';
+
+export type OrderStatusActor = 'admin' | 'sales_rep' | 'designer' | 'customer';
+
+export type OrderStatusTransitions = Record<OrderStatusValue, Partial<Record<OrderStatusValue, OrderStatusActor[]>>>;
+
+// from -> to -> roles allowed to make that move. Anything not listed is rejected.
+// The database enforces the same table in order_status_transition_allowed(); change both together.
+export const orderStatusTransitions: OrderStatusTransitions = {
+  new: {
+    // Designers start work on orders assigned to them
+    in_progress: ['admin', 'sales_rep', 'designer'],
+    // Stock designs need no design work and can be fulfilled straight away
+    completed: ['admin', 'sales_rep'],
+    cancelled: ['admin', 'sales_rep'],
+  },
+  in_progress: {
+    new: ['admin', 'sales_rep'],
+    under_review: ['admin', 'sales_rep', 'designer'],
+    completed: ['admin', 'sales_rep'],
+    cancelled: ['admin', 'sales_rep'],
+  },
+  under_review: {
+    // Customers send a proof back for changes or approve it
+    in_progress: ['admin', 'sales_rep', 'designer', 'customer'],
+    completed: ['admin', 'sales_rep', 'customer'],
+    cancelled: ['admin', 'sales_rep'],
+  },
+  completed: {
+    // Customers reopen a completed order by filing an edit request
+    new: ['admin', 'sales_rep', 'customer'],
+    in_progress: ['admin', 'sales_rep'],
+  },
+  cancelled: {
+    new: ['admin', 'sales_rep'],
+  },
+};
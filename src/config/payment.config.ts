@@ -1,4 +1,7 @@
+export type PaymentGatewayId = 'twoCheckout' | 'stripe' | 'paypal';
+
 export interface PaymentGatewayConfig {
+  id: PaymentGatewayId;
   name: string;
   enabled: boolean;
   merchantCode?: string;
@@ -19,6 +22,7 @@ export const paymentConfig: PaymentConfig = {
   defaultGateway: import.meta.env.VITE_DEFAULT_PAYMENT_GATEWAY || 'twoCheckout',
   gateways: {
     twoCheckout: {
+      id: 'twoCheckout',
       name: '2Checkout',
       enabled: import.meta.env.VITE_2CO_ENABLED !== 'false',
       merchantCode: import.meta.env.VITE_2CO_MERCHANT_CODE,
@@ -26,17 +30,19 @@ export const paymentConfig: PaymentConfig = {
       apiUrl: import.meta.env.VITE_2CO_API_URL,
     },
     stripe: {
+      id: 'stripe',
       name: 'Stripe',
       enabled: import.meta.env.VITE_STRIPE_ENABLED === 'true',
     },
     paypal: {
+      id: 'paypal',
       name: 'PayPal',
       enabled: import.meta.env.VITE_PAYPAL_ENABLED === 'true',
     },
   },
 };
 
-export const getActiveGateway = () => {
+export const getActiveGateway = (): PaymentGatewayConfig => {
   const gateway = paymentConfig.gateways[paymentConfig.defaultGateway as keyof typeof paymentConfig.gateways];
   if (gateway && gateway.enabled) {
     return gateway;
@@ -0,0 +1,44 @@
+export interface QuantityBreak {
+  minQuantity: number;
+  discountPercent: number;
+}
+
+export interface PricingConfig {
+  currency: string;
+  ratePer1000Stitches: number;
+  minimumUnitPrice: number;
+  includedColors: number;
+  extraColorPrice: number;
+  stitchesPerSquareInch: number;
+  minimumStitchCount: number;
+  defaultColorCount: number;
+  categoryMultipliers: Record<string, number>;
+  quantityBreaks: QuantityBreak[];
+}
+
+export const pricingConfig: PricingConfig = {
+  currency: import.meta.env.VITE_CURRENCY || 'USD',
+  ratePer1000Stitches: parseFloat(import.meta.env.VITE_PRICING_RATE_PER_1000_STITCHES || '1.5'),
+  minimumUnitPrice: parseFloat(import.meta.env.VITE_PRICING_MINIMUM_UNIT_PRICE || '10'),
+  includedColors: parseInt(import.meta.env.VITE_PRICING_INCLUDED_COLORS || '3', 10),
+  extraColorPrice: parseFloat(import.meta.env.VITE_PRICING_EXTRA_COLOR_PRICE || '0.75'),
+  stitchesPerSquareInch: parseInt(import.meta.env.VITE_PRICING_STITCHES_PER_SQUARE_INCH || '1500', 10),
+  minimumStitchCount: 2000,
+  defaultColorCount: 1,
+  // Keyed by lower-cased category name so the table survives category re-creation
+  categoryMultipliers: {
+    caps: 1.15,
+    hats: 1.15,
+    'jacket back': 1.25,
+    patches: 1.1,
+    '3d puff': 1.3,
+  },
+  // Sorted ascending; the highest matching break wins
+  quantityBreaks: [
+    { minQuantity: 1, discountPercent: 0 },
+    { minQuantity: 12, discountPercent: 5 },
+    { minQuantity: 24, discountPercent: 10 },
+    { minQuantity: 48, discountPercent: 15 },
+    { minQuantity: 144, discountPercent: 20 },
+  ],
+};
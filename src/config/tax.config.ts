@@ -0,0 +1,16 @@
+import { businessConfig } from './business.config';
+import { parseRateTable } from '../shared/utils/configParsers';
+
+export interface TaxConfig {
+  label: string;
+  defaultRate: number;
+  regionRates: Record<string, number>;
+}
+
+export const taxConfig: TaxConfig = {
+  label: import.meta.env.VITE_TAX_LABEL || 'Tax',
+  // Charged to customers whose region has no rule of its own
+  defaultRate: businessConfig.pricing.taxRate || 0,
+  // `VITE_TAX_REGION_RATES=US-CA:7.25,US-NY:8.875,GB:20`; `US-CA` is tried before `US`
+  regionRates: parseRateTable(import.meta.env.VITE_TAX_REGION_RATES),
+};
@@ -0,0 +1,11 @@
+export interface TimeTrackingConfig {
+  // What an hour of designer time costs the business, in the base currency
+  designerHourlyCost: number;
+  // 0 = Sunday, 1 = Monday; weekly totals run from this day
+  weekStartsOn: number;
+}
+
+export const timeTrackingConfig: TimeTrackingConfig = {
+  designerHourlyCost: parseFloat(import.meta.env.VITE_DESIGNER_HOURLY_COST || '30'),
+  weekStartsOn: parseInt(import.meta.env.VITE_TIME_TRACKING_WEEK_STARTS_ON || '1', 10),
+};
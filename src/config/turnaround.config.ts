@@ -0,0 +1,40 @@
+export type TurnaroundTier = 'standard' | 'priority' | 'rush';
+
+export interface TurnaroundTierConfig {
+  label: string;
+  description: string;
+  turnaroundHours: number;
+  surchargePercent: number;
+}
+
+export interface TurnaroundConfig {
+  defaultTier: TurnaroundTier;
+  tiers: Record<TurnaroundTier, TurnaroundTierConfig>;
+  // Open orders due within this many hours are flagged as at risk
+  atRiskHours: number;
+}
+
+export const turnaroundConfig: TurnaroundConfig = {
+  defaultTier: 'standard',
+  tiers: {
+    standard: {
+      label: 'Standard',
+      description: 'Ready in about 3 days',
+      turnaroundHours: parseFloat(import.meta.env.VITE_TURNAROUND_STANDARD_HOURS || '72'),
+      surchargePercent: 0,
+    },
+    priority: {
+      label: 'Priority',
+      description: 'Ready in about 2 days',
+      turnaroundHours: parseFloat(import.meta.env.VITE_TURNAROUND_PRIORITY_HOURS || '48'),
+      surchargePercent: parseFloat(import.meta.env.VITE_TURNAROUND_PRIORITY_SURCHARGE_PERCENT || '15'),
+    },
+    rush: {
+      label: 'Rush',
+      description: 'Ready within 24 hours',
+      turnaroundHours: parseFloat(import.meta.env.VITE_TURNAROUND_RUSH_HOURS || '24'),
+      surchargePercent: parseFloat(import.meta.env.VITE_TURNAROUND_RUSH_SURCHARGE_PERCENT || '35'),
+    },
+  },
+  atRiskHours: parseFloat(import.meta.env.VITE_TURNAROUND_AT_RISK_HOURS || '12'),
+};
@@ -1,11 +1,21 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { getCurrentUser, supabase } from '../lib/supabase';
+import { roundCurrency } from '../services/pricingService';
+import {
+  BillingCurrency,
+  convertAmount,
+  fetchCustomerBillingCurrency,
+  resolveBillingCurrency,
+} from '../services/currencyService';
 
 export interface CartItem {
   id: string;
   title: string;
-  price: string;
+  // In the base currency; shown converted to the customer's billing currency
+  price: number;
   image: string;
   apparelType: string;
+  categoryId?: string | null;
   quantity: number;
 }
 
@@ -16,6 +26,8 @@ interface CartContextType {
   removeFromCart: (id: string) => void;
   clearCart: () => void;
   getTotalItems: () => number;
+  billingCurrency: BillingCurrency;
+  getItemPrice: (item: CartItem) => number;
   getTotalPrice: () => number;
 }
 
@@ -35,6 +47,30 @@ interface CartProviderProps {
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const [items, setItems] = useState<CartItem[]>([]);
+  const [billingCurrency, setBillingCurrency] = useState<BillingCurrency>(resolveBillingCurrency());
+
+  useEffect(() => {
+    const loadBillingCurrency = async () => {
+      try {
+        const user = await getCurrentUser();
+        const currency = user ? await fetchCustomerBillingCurrency(user.id) : null;
+        setBillingCurrency(resolveBillingCurrency(currency));
+      } catch (error) {
+        console.error('Error loading billing currency:', error);
+        setBillingCurrency(resolveBillingCurrency());
+      }
+    };
+
+    loadBillingCurrency();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadBillingCurrency();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
 
   const addToCart = (newItem: Omit<CartItem, 'quantity'>) => {
     setItems(prevItems => {
@@ -73,11 +109,12 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     return items.reduce((total, item) => total + item.quantity, 0);
   };
 
+  const getItemPrice = (item: CartItem) => {
+    return convertAmount(item.price, billingCurrency.rate);
+  };
+
   const getTotalPrice = () => {
-    return items.reduce((total, item) => {
-      const price = parseFloat(item.price.replace('$', ''));
-      return total + (price * item.quantity);
-    }, 0);
+    return roundCurrency(items.reduce((total, item) => total + getItemPrice(item) * item.quantity, 0));
   };
 
   const value: CartContextType = {
@@ -87,6 +124,8 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     removeFromCart,
     clearCart,
     getTotalItems,
+    billingCurrency,
+    getItemPrice,
     getTotalPrice
   };
 
@@ -1,19 +1,12 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 import { getCurrentUser, getUserProfile, supabase } from '../lib/supabase';
 import { CustomerOrder } from '../admin/types';
+import { transitionOrderStatus } from '../services/orderStatusService';
+import { createCustomerOrder, NewOrderData } from '../services/orderService';
 
 interface OrderContextType {
   orders: CustomerOrder[];
-  addOrder: (orderData: {
-    order_type: 'custom' | 'stock_design';
-    order_name: string;
-    stock_design_id?: string;
-    custom_description: string;
-    total_amount: number;
-    category_id?: string;
-    custom_width?: number;
-    custom_height?: number;
-  }, files?: File[]) => Promise<any>;
+  addOrder: (orderData: NewOrderData, files?: File[]) => Promise<any>;
   updateOrderStatus: (orderId: string, status: CustomerOrder['status']) => void;
   assignDesigner: (orderId: string, designerId: string, designerName: string) => void;
   getOrdersByRole: () => CustomerOrder[];
@@ -38,16 +31,7 @@ export const OrderProvider: React.FC<OrderProviderProps> = ({ children }) => {
   const [orders, setOrders] = useState<CustomerOrder[]>([]);
 
   // Add new order
-  const addOrder = async (orderData: {
-    order_type: 'custom' | 'stock_design';
-    order_name: string;
-    stock_design_id?: string;
-    custom_description: string;
-    total_amount: number;
-    category_id?: string;
-    custom_width?: number;
-    custom_height?: number;
-  }, files?: File[]) => {
+  const addOrder = async (orderData: NewOrderData, files?: File[]) => {
     try {
       const user = await getCurrentUser();
       if (!user) return;
@@ -67,51 +51,12 @@ export const OrderProvider: React.FC<OrderProviderProps> = ({ children }) => {
         throw new Error('Failed to fetch customer information');
       }
 
-      // For stock design orders, do not assign sales rep or designer
-      // Only custom orders get sales rep assignment from customer profile
-      const assignedSalesRepId = orderData.order_type === 'stock_design'
-        ? null
-        : customerProfile.assigned_sales_rep_id;
-
-      // Create order without files - files will be uploaded separately via attachmentService
-      const { data: newOrderData, error } = await supabase
-        .from('orders')
-        .insert({
-          customer_id: profile.id,
-          order_type: orderData.order_type,
-          order_name: orderData.order_name,
-          stock_design_id: orderData.stock_design_id || null,
-          custom_description: orderData.custom_description,
-          category_id: orderData.category_id || null,
-          custom_width: orderData.custom_width || null,
-          custom_height: orderData.custom_height || null,
-          assigned_sales_rep_id: assignedSalesRepId,
-          assigned_designer_id: null,
-          total_amount: orderData.total_amount,
-          payment_status: 'unpaid',
-          status: 'new',
-        })
-        .select()
-        .single();
+      const newOrderData = await createCustomerOrder({
+        id: profile.id,
+        full_name: profile.full_name,
+        assigned_sales_rep_id: customerProfile.assigned_sales_rep_id,
+      }, orderData);
 
-      if (error) throw error;
-
-      try {
-        const { notifyAboutNewOrder } = await import('../services/notificationService');
-        const orderNumber = newOrderData.order_number || `ORD-${newOrderData.id.slice(0, 8)}`;
-
-        // For stock design orders, only notify customer and admins (pass null for salesRepId)
-        // For custom orders, notify customer, admins, and assigned sales rep
-        await notifyAboutNewOrder(
-          profile.id,
-          profile.full_name,
-          orderNumber,
-          orderData.order_type,
-          assignedSalesRepId
-        );
-      } catch (notificationError) {
-        console.error('Error creating order notifications:', notificationError);
-      }
       await fetchOrders();
       
       return newOrderData;
@@ -190,6 +135,12 @@ export const OrderProvider: React.FC<OrderProviderProps> = ({ children }) => {
       category_name: order.category?.category_name,
       custom_width: order.custom_width,
       custom_height: order.custom_height,
+      quantity: order.quantity || 1,
+      color_count: order.color_count,
+      stitch_count: order.stitch_count,
+      estimated_stitch_count: order.estimated_stitch_count,
+      estimated_color_count: order.estimated_color_count,
+      complexity_band: order.complexity_band,
       assigned_sales_rep_id: order.assigned_sales_rep_id,
       assigned_designer_id: order.assigned_designer_id,
       assigned_sales_rep_name: order.sales_rep?.full_name,
@@ -209,22 +160,15 @@ export const OrderProvider: React.FC<OrderProviderProps> = ({ children }) => {
   }, []);
 
   const updateOrderStatus = (orderId: string, status: CustomerOrder['status']) => {
-    supabase
-      .from('orders')
-      .update({ status })
-      .eq('id', orderId)
-      .then(() => fetchOrders());
+    transitionOrderStatus(orderId, status)
+      .then(() => fetchOrders())
+      .catch(error => console.error('Error updating order status:', error));
   };
 
   const assignDesigner = (orderId: string, designerId: string) => {
-    supabase
-      .from('orders')
-      .update({
-        assigned_designer_id: designerId,
-        status: 'in_progress'
-      })
-      .eq('id', orderId)
-      .then(() => fetchOrders());
+    transitionOrderStatus(orderId, 'in_progress', { assigned_designer_id: designerId })
+      .then(() => fetchOrders())
+      .catch(error => console.error('Error assigning designer:', error));
   };
 
   const getOrdersByRole = (): CustomerOrder[] => orders;
@@ -1,18 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Eye, CreditCard, Calendar } from 'lucide-react';
+import { FileText, Eye, CreditCard, Calendar, Download, ScrollText } from 'lucide-react';
 import { getCurrentUser } from '../../lib/supabase';
 import InvoiceDetailsModal from '../../admin/components/InvoiceDetailsModal';
+import CustomerStatementModal from '../../admin/components/CustomerStatementModal';
 import DataTable from '../../admin/components/DataTable';
 import FilterBar, { FilterConfig } from '../../admin/components/FilterBar';
 import { getInvoices } from '../../admin/api/supabaseHelpers';
 import { Invoice, PaginationParams } from '../../admin/types';
 import { usePaginatedData } from '../../admin/hooks/useAdminData';
 import { CSVColumn } from '../../shared/utils/csvExport';
+import { downloadInvoicePdf } from '../../services/invoicePdfService';
+import { formatPrice } from '../../services/pricingService';
+import { toast } from '../../utils/toast';
 
 const CustomerInvoicesTab: React.FC = () => {
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+  const [isStatementModalOpen, setIsStatementModalOpen] = useState(false);
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [customerId, setCustomerId] = useState<string | null>(null);
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
   
   // Filter states
   const [filterValues, setFilterValues] = useState<Record<string, string>>({
@@ -80,7 +86,10 @@ const CustomerInvoicesTab: React.FC = () => {
       label: 'Status',
       options: [
         { value: 'paid', label: 'Paid' },
+        { value: 'partially_paid', label: 'Partially Paid' },
         { value: 'unpaid', label: 'Unpaid' },
+        { value: 'refunded', label: 'Refunded' },
+        { value: 'charged_back', label: 'Charged Back' },
         { value: 'cancelled', label: 'Cancelled' },
       ],
     },
@@ -138,6 +147,9 @@ const CustomerInvoicesTab: React.FC = () => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-800';
+      case 'partially_paid': return 'bg-yellow-100 text-yellow-800';
+      case 'refunded': return 'bg-purple-100 text-purple-800';
+      case 'charged_back': return 'bg-orange-100 text-orange-800';
       case 'cancelled': return 'bg-gray-100 text-gray-800';
       default: return 'bg-red-100 text-red-800';
     }
@@ -149,6 +161,18 @@ const CustomerInvoicesTab: React.FC = () => {
     }
   };
 
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    setDownloadingInvoiceId(invoice.id);
+    try {
+      await downloadInvoicePdf(invoice.id);
+    } catch (error) {
+      console.error('Error downloading invoice PDF:', error);
+      toast.error('Failed to download invoice PDF');
+    } finally {
+      setDownloadingInvoiceId(null);
+    }
+  };
+
   const handleViewInvoice = (invoice: Invoice) => {
     setSelectedInvoiceId(invoice.id);
     setIsDetailsModalOpen(true);
@@ -178,7 +202,7 @@ const CustomerInvoicesTab: React.FC = () => {
       sortable: true,
       render: (invoice: Invoice) => (
         <span className="font-semibold text-gray-900">
-          ${invoice.total_amount.toFixed(2)}
+          {formatPrice(invoice.total_amount, invoice.currency)}
         </span>
       ),
     },
@@ -213,13 +237,23 @@ const CustomerInvoicesTab: React.FC = () => {
       key: 'actions',
       label: 'Actions',
       render: (invoice: Invoice) => (
-        <button
-          onClick={() => handleViewInvoice(invoice)}
-          className="text-blue-600 hover:text-blue-900 transition-colors"
-          title="View Invoice"
-        >
-          <Eye className="h-4 w-4" />
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleViewInvoice(invoice)}
+            className="text-blue-600 hover:text-blue-900 transition-colors"
+            title="View Invoice"
+          >
+            <Eye className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDownloadPdf(invoice)}
+            className="text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50"
+            title="Download PDF"
+            disabled={downloadingInvoiceId === invoice.id}
+          >
+            <Download className="h-4 w-4" />
+          </button>
+        </div>
       ),
     },
   ];
@@ -235,7 +269,7 @@ const CustomerInvoicesTab: React.FC = () => {
     {
       key: 'total_amount',
       label: 'Total Amount',
-      format: (invoice) => invoice.total_amount.toFixed(2)
+      format: (invoice) => formatPrice(invoice.total_amount, invoice.currency, 'code')
     },
     {
       key: 'status',
@@ -258,6 +292,14 @@ const CustomerInvoicesTab: React.FC = () => {
             <h2 className="text-xl sm:text-2xl font-bold text-gray-900">My Invoices</h2>
             <p className="text-sm sm:text-base text-gray-600 mt-1">View and manage your invoices</p>
           </div>
+          <button
+            onClick={() => setIsStatementModalOpen(true)}
+            className="btn-primary btn-large px-6 flex items-center space-x-2 disabled:opacity-50"
+            disabled={!customerId}
+          >
+            <ScrollText className="h-5 w-5" />
+            <span>Statement of Account</span>
+          </button>
         </div>
 
         {/* Filter Bar */}
@@ -309,6 +351,13 @@ const CustomerInvoicesTab: React.FC = () => {
           onClose={() => setIsDetailsModalOpen(false)}
           invoiceId={selectedInvoiceId}
         />
+
+        {/* Statement of Account Modal */}
+        <CustomerStatementModal
+          isOpen={isStatementModalOpen}
+          onClose={() => setIsStatementModalOpen(false)}
+          customerId={customerId}
+        />
       </div>
     </div>
   );
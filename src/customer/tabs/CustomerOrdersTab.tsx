@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { ShoppingBag, Plus, Eye, Package, Edit3 } from 'lucide-react';
+import { ShoppingBag, Plus, Eye, Package, Edit3, FileCheck } from 'lucide-react';
 import { getCurrentUser } from '../../lib/supabase';
 import OrderDetailsModal from '../../components/OrderDetailsModal';
 import PlaceOrderModal from '../../components/PlaceOrderModal';
 import { RequestEditModal } from '../../components/RequestEditModal';
+import { ProofReviewModal } from '../../components/ProofReviewModal';
 import DataTable from '../../admin/components/DataTable';
 import FilterBar, { FilterConfig } from '../../admin/components/FilterBar';
 import { getCustomerOrdersPaginated } from '../../admin/api/supabaseHelpers';
@@ -11,6 +12,9 @@ import { AdminOrder, PaginationParams } from '../../admin/types';
 import { usePaginatedData } from '../../admin/hooks/useAdminData';
 import { OrderImagePreview } from '../../components/OrderImagePreview';
 import { CSVColumn } from '../../shared/utils/csvExport';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY } from '../../services/currencyService';
+import { createDueDateColumn } from '../../shared/utils/orderTableUtils';
 
 const CustomerOrdersTab: React.FC = () => {
   const [selectedOrder, setSelectedOrder] = useState<any>(null);
@@ -18,6 +22,7 @@ const CustomerOrdersTab: React.FC = () => {
   const [isPlaceOrderOpen, setIsPlaceOrderOpen] = useState(false);
   const [isRequestEditOpen, setIsRequestEditOpen] = useState(false);
   const [orderToEdit, setOrderToEdit] = useState<AdminOrder | null>(null);
+  const [orderToReview, setOrderToReview] = useState<AdminOrder | null>(null);
   const [customerId, setCustomerId] = useState<string | null>(null);
   
   // Filter states
@@ -225,7 +230,7 @@ const CustomerOrdersTab: React.FC = () => {
       sortable: true,
       render: (order: AdminOrder) => (
         <span className="font-semibold text-gray-900">
-          ${(order.total_amount || 0).toFixed(2)}
+          {formatPrice(order.total_amount || 0)}
         </span>
       ),
     },
@@ -239,6 +244,7 @@ const CustomerOrdersTab: React.FC = () => {
         </span>
       ),
     },
+    createDueDateColumn(),
     {
       key: 'payment_status',
       label: 'Payment',
@@ -267,6 +273,15 @@ const CustomerOrdersTab: React.FC = () => {
           >
             <Eye className="h-4 w-4" />
           </button>
+          {order.status === 'under_review' && (
+            <button
+              onClick={() => setOrderToReview(order)}
+              className="text-purple-600 hover:text-purple-900 transition-colors"
+              title="Review Proof"
+            >
+              <FileCheck className="h-4 w-4" />
+            </button>
+          )}
           {(order.status === 'completed') && (
             <button
               onClick={() => handleRequestEdit(order)}
@@ -293,7 +308,7 @@ const CustomerOrdersTab: React.FC = () => {
     {
       key: 'total_amount',
       label: 'Total Amount',
-      format: (order) => (order.total_amount || 0).toFixed(2)
+      format: (order) => formatPrice(order.total_amount || 0, BASE_CURRENCY, 'code')
     },
     {
       key: 'status',
@@ -422,6 +437,19 @@ const CustomerOrdersTab: React.FC = () => {
             }}
           />
         )}
+
+        {/* Proof Review Modal */}
+        {orderToReview && (
+          <ProofReviewModal
+            orderId={orderToReview.id}
+            orderNumber={orderToReview.order_number || `ORD-${orderToReview.id.slice(0, 8)}`}
+            orderName={orderToReview.order_name || `Order ${orderToReview.order_number}`}
+            onClose={() => setOrderToReview(null)}
+            onSuccess={() => {
+              refetch();
+            }}
+          />
+        )}
       </div>
     </div>
   );
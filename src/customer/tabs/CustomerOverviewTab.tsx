@@ -1,9 +1,15 @@
 import React from 'react';
-import { ShoppingBag, Package, CreditCard } from 'lucide-react';
+import { ShoppingBag, Package, CreditCard, Wallet } from 'lucide-react';
 import { getCurrentUser, supabase } from '../../lib/supabase';
+import { formatPrice } from '../../services/pricingService';
+import { BASE_CURRENCY, fetchCustomerBillingCurrency } from '../../services/currencyService';
+import { CREDIT_ENTRY_KIND_LABELS, fetchCustomerCreditEntries, sumCreditBalance } from '../../services/creditService';
+import { CustomerCreditEntry } from '../../admin/types';
 
 const CustomerOverviewTab: React.FC = () => {
   const [orders, setOrders] = React.useState<any[]>([]);
+  const [creditEntries, setCreditEntries] = React.useState<CustomerCreditEntry[]>([]);
+  const [billingCurrency, setBillingCurrency] = React.useState(BASE_CURRENCY);
   const [loading, setLoading] = React.useState(true);
   
   React.useEffect(() => {
@@ -26,6 +32,13 @@ const CustomerOverviewTab: React.FC = () => {
         if (ordersError) throw ordersError;
 
         setOrders(ordersData || []);
+
+        const [currency, entries] = await Promise.all([
+          fetchCustomerBillingCurrency(user.id),
+          fetchCustomerCreditEntries(user.id),
+        ]);
+        setBillingCurrency(currency);
+        setCreditEntries(entries);
       } catch (error) {
         console.error('Error fetching overview data:', error);
       } finally {
@@ -84,9 +97,15 @@ const CustomerOverviewTab: React.FC = () => {
     },
     { 
       title: 'Total Spent', 
-      value: `$${orders.reduce((sum, order) => sum + (order.total_amount || 0), 0).toFixed(2)}`, 
+      value: formatPrice(orders.reduce((sum, order) => sum + (order.total_amount || 0), 0)), 
       icon: CreditCard, 
       color: 'purple' 
+    },
+    {
+      title: 'Account Credit',
+      value: formatPrice(sumCreditBalance(creditEntries, billingCurrency), billingCurrency),
+      icon: Wallet,
+      color: 'green'
     }
   ];
 
@@ -113,7 +132,7 @@ const CustomerOverviewTab: React.FC = () => {
         </div>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 sm:gap-6">
           {stats.map((stat, index) => {
             const IconComponent = stat.icon;
             const colorClasses = getColorClasses(stat.color);
@@ -135,6 +154,32 @@ const CustomerOverviewTab: React.FC = () => {
           })}
         </div>
 
+        {/* Account Credit */}
+        {creditEntries.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 mt-6 sm:mt-8">
+            <div className="p-4 sm:p-6 border-b border-gray-100">
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900">Account Credit</h3>
+              <p className="text-xs sm:text-sm text-gray-600 mt-1">Applied automatically at checkout when you choose to use it</p>
+            </div>
+            <div className="p-4 sm:p-6 divide-y divide-gray-100">
+              {creditEntries.slice(0, 5).map(entry => (
+                <div key={entry.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {CREDIT_ENTRY_KIND_LABELS[entry.kind]}
+                      {entry.invoice_title && <span className="font-normal text-gray-500"> • {entry.invoice_title}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleDateString()}</p>
+                  </div>
+                  <span className={`text-sm font-semibold ${Number(entry.amount) >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {Number(entry.amount) >= 0 ? '+' : '-'}{formatPrice(Math.abs(Number(entry.amount)), entry.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Orders */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 mt-6 sm:mt-8">
         <div className="p-4 sm:p-6 border-b border-gray-100">
@@ -176,7 +221,7 @@ const CustomerOverviewTab: React.FC = () => {
                   </div>
                   <div className="flex items-center space-x-3 w-full sm:w-auto justify-between sm:justify-end">
                     <div className="text-left sm:text-right">
-                      <p className="text-sm sm:text-base font-semibold text-gray-900">${order.total_amount?.toFixed(2) || '0.00'}</p>
+                      <p className="text-sm sm:text-base font-semibold text-gray-900">{formatPrice(order.total_amount || 0)}</p>
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
                         {order.status.replace('_', ' ')}
                       </span>
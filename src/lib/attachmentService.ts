@@ -12,6 +12,24 @@ export interface OrderAttachment {
   uploaded_by: string;
   uploaded_at: string;
   created_at: string;
+  group_id?: string | null;
+  version?: number;
+  edit_comment_id?: number | null;
+}
+
+export interface AttachmentGroup {
+  id: string;
+  order_id: string;
+  name: string;
+  final_attachment_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UploadAttachmentOptions {
+  groupId?: string;
+  editCommentId?: number | null;
 }
 
 export interface UploadProgress {
@@ -53,7 +71,8 @@ export async function uploadAttachment(
   orderId: string,
   orderNumber: string,
   file: File,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  options: UploadAttachmentOptions = {}
 ): Promise<OrderAttachment> {
   const validation = validateFileSize(file);
   if (!validation.valid) {
@@ -81,19 +100,19 @@ export async function uploadAttachment(
     throw new Error('Failed to upload file');
   }
 
-  const { data: attachment, error: dbError } = await supabase
-    .from('order_attachments')
-    .insert({
-      order_id: orderId,
-      original_filename: file.name,
-      stored_filename: storedFilename,
-      file_size: file.size,
-      mime_type: file.type,
-      storage_path: storagePath,
-      uploaded_by: user.id,
-    })
-    .select()
-    .single();
+  // Without an explicit group, a file re-uploaded under the same name becomes
+  // the next version of that deliverable; otherwise a new deliverable starts.
+  // The database picks the group and version once the file is stored.
+  const { data: attachment, error: dbError } = await supabase.rpc('add_order_attachment_version', {
+    p_order_id: orderId,
+    p_group_id: options.groupId || null,
+    p_original_filename: file.name,
+    p_stored_filename: storedFilename,
+    p_file_size: file.size,
+    p_mime_type: file.type,
+    p_storage_path: storagePath,
+    p_edit_comment_id: options.editCommentId ?? null,
+  });
 
   if (dbError) {
     await supabase.storage.from(STORAGE_BUCKET).remove([storagePath]);
@@ -104,6 +123,49 @@ export async function uploadAttachment(
   return attachment;
 }
 
+export async function fetchAttachmentGroups(orderId: string): Promise<AttachmentGroup[]> {
+  const { data, error } = await supabase
+    .from('attachment_groups')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching attachment groups:', error);
+    throw new Error('Failed to fetch deliverables');
+  }
+
+  return data || [];
+}
+
+export async function markAttachmentFinal(groupId: string, attachmentId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('attachment_groups')
+    .update({ final_attachment_id: attachmentId, updated_at: new Date().toISOString() })
+    .eq('id', groupId);
+
+  if (error) {
+    console.error('Error marking attachment final:', error);
+    throw new Error('Failed to update final version');
+  }
+}
+
+export async function getUploaderNames(userIds: string[]): Promise<Record<string, string>> {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  if (ids.length === 0) return {};
+
+  const [{ data: customers }, { data: employees }] = await Promise.all([
+    supabase.from('customers').select('id, full_name').in('id', ids),
+    supabase.from('employees').select('id, full_name').in('id', ids),
+  ]);
+
+  const names: Record<string, string> = {};
+  [...(customers || []), ...(employees || [])].forEach(person => {
+    names[person.id] = person.full_name;
+  });
+  return names;
+}
+
 export async function getAttachmentDownloadUrl(attachmentId: string): Promise<string> {
   const { data: attachment, error: fetchError } = await supabase
     .from('order_attachments')
@@ -127,6 +189,17 @@ export async function getAttachmentDownloadUrl(attachmentId: string): Promise<st
   return data.signedUrl;
 }
 
+export async function fetchAttachmentContent(attachmentId: string): Promise<ArrayBuffer> {
+  const downloadUrl = await getAttachmentDownloadUrl(attachmentId);
+
+  const response = await fetch(downloadUrl);
+  if (!response.ok) {
+    throw new Error('Failed to fetch attachment content');
+  }
+
+  return response.arrayBuffer();
+}
+
 export async function deleteAttachment(attachmentId: string): Promise<void> {
   const { data: attachment, error: fetchError } = await supabase
     .from('order_attachments')
@@ -170,4 +243,4 @@ export async function downloadAttachment(attachmentId: string, filename: string)
   document.body.removeChild(link);
 }
 
-export { formatFileSize, getFileIcon } from '../shared/utils/fileUtils';
+export { formatFileSize, getFileIcon, isEmbroideryFile } from '../shared/utils/fileUtils';
@@ -0,0 +1,299 @@
+export type EmbroideryFormat = 'dst' | 'pes' | 'exp';
+export type StitchType = 'stitch' | 'jump' | 'trim' | 'color_change';
+
+export interface EmbroideryStitch {
+  x: number;
+  y: number;
+  type: StitchType;
+}
+
+export interface EmbroideryDesign {
+  format: EmbroideryFormat;
+  label: string;
+  stitches: EmbroideryStitch[];
+  stitchCount: number;
+  jumpCount: number;
+  trimCount: number;
+  colorChanges: number;
+  colorCount: number;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  widthMm: number;
+  heightMm: number;
+  widthInches: number;
+  heightInches: number;
+}
+
+export interface DimensionCheck {
+  matches: boolean;
+  widthDelta: number;
+  heightDelta: number;
+}
+
+const MM_PER_INCH = 25.4;
+// Machine files store coordinates in tenths of a millimetre
+const UNITS_PER_MM = 10;
+const DST_HEADER_SIZE = 512;
+// DST has no trim command; digitizers emit a run of jumps instead
+const DST_JUMPS_PER_TRIM = 3;
+const DIMENSION_TOLERANCE_INCHES = 0.2;
+
+export function getEmbroideryFormat(filename: string): EmbroideryFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'dst' || extension === 'pes' || extension === 'exp') {
+    return extension;
+  }
+  return null;
+}
+
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  let text = '';
+  for (let i = start; i < Math.min(start + length, bytes.length); i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function toSigned(value: number, bits: number): number {
+  const limit = 1 << (bits - 1);
+  return value >= limit ? value - (1 << bits) : value;
+}
+
+function parseDst(bytes: Uint8Array): { label: string; stitches: EmbroideryStitch[] } {
+  const labelMatch = readAscii(bytes, 0, 20).match(/LA:(.*?)[\r\n]/);
+  const stitches: EmbroideryStitch[] = [];
+  let x = 0;
+  let y = 0;
+  let pendingJumps = 0;
+
+  for (let offset = DST_HEADER_SIZE; offset + 2 < bytes.length; offset += 3) {
+    const b0 = bytes[offset];
+    const b1 = bytes[offset + 1];
+    const b2 = bytes[offset + 2];
+
+    if ((b2 & 0xF3) === 0xF3) break;
+
+    let dx = 0;
+    let dy = 0;
+    if (b0 & 0x01) dx += 1;
+    if (b0 & 0x02) dx -= 1;
+    if (b0 & 0x04) dx += 9;
+    if (b0 & 0x08) dx -= 9;
+    if (b0 & 0x80) dy += 1;
+    if (b0 & 0x40) dy -= 1;
+    if (b0 & 0x20) dy += 9;
+    if (b0 & 0x10) dy -= 9;
+    if (b1 & 0x01) dx += 3;
+    if (b1 & 0x02) dx -= 3;
+    if (b1 & 0x04) dx += 27;
+    if (b1 & 0x08) dx -= 27;
+    if (b1 & 0x80) dy += 3;
+    if (b1 & 0x40) dy -= 3;
+    if (b1 & 0x20) dy += 27;
+    if (b1 & 0x10) dy -= 27;
+    if (b2 & 0x04) dx += 81;
+    if (b2 & 0x08) dx -= 81;
+    if (b2 & 0x20) dy += 81;
+    if (b2 & 0x10) dy -= 81;
+
+    x += dx;
+    // DST uses a y-up coordinate system
+    y -= dy;
+
+    if ((b2 & 0xC3) === 0xC3) {
+      stitches.push({ x, y, type: 'color_change' });
+      pendingJumps = 0;
+    } else if ((b2 & 0x83) === 0x83) {
+      pendingJumps++;
+      stitches.push({ x, y, type: pendingJumps === DST_JUMPS_PER_TRIM ? 'trim' : 'jump' });
+    } else {
+      stitches.push({ x, y, type: 'stitch' });
+      pendingJumps = 0;
+    }
+  }
+
+  return { label: labelMatch ? labelMatch[1].trim() : '', stitches };
+}
+
+function parseExp(bytes: Uint8Array): EmbroideryStitch[] {
+  const stitches: EmbroideryStitch[] = [];
+  let x = 0;
+  let y = 0;
+  let offset = 0;
+
+  while (offset + 1 < bytes.length) {
+    const b0 = bytes[offset];
+    const b1 = bytes[offset + 1];
+    offset += 2;
+
+    if (b0 !== 0x80) {
+      x += toSigned(b0, 8);
+      y -= toSigned(b1, 8);
+      stitches.push({ x, y, type: 'stitch' });
+      continue;
+    }
+
+    if (offset + 1 >= bytes.length) break;
+    const dx = toSigned(bytes[offset], 8);
+    const dy = toSigned(bytes[offset + 1], 8);
+    offset += 2;
+    x += dx;
+    y -= dy;
+
+    if (b1 === 0x01) {
+      stitches.push({ x, y, type: 'color_change' });
+    } else if (b1 === 0x04) {
+      stitches.push({ x, y, type: 'jump' });
+    } else if (b1 === 0x80) {
+      stitches.push({ x, y, type: 'trim' });
+    } else {
+      stitches.push({ x, y, type: 'stitch' });
+    }
+  }
+
+  return stitches;
+}
+
+/**
+ * PES files wrap a PEC block, which holds the machine stitches. The PES
+ * header only tells us where that block starts.
+ */
+function parsePes(bytes: Uint8Array): { label: string; stitches: EmbroideryStitch[] } {
+  if (readAscii(bytes, 0, 4) !== '#PES') {
+    throw new Error('Not a valid PES file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pecStart = view.getUint32(8, true);
+  if (pecStart + 532 > bytes.length) {
+    throw new Error('PES file is truncated');
+  }
+
+  const label = readAscii(bytes, pecStart + 3, 16).trim();
+  const stitches: EmbroideryStitch[] = [];
+  let x = 0;
+  let y = 0;
+  let offset = pecStart + 532;
+
+  while (offset + 1 < bytes.length) {
+    let val1 = bytes[offset++];
+    let val2 = bytes[offset++];
+
+    if (val1 === 0xFF && val2 === 0x00) break;
+    if (val1 === 0xFE && val2 === 0xB0) {
+      offset++;
+      stitches.push({ x, y, type: 'color_change' });
+      continue;
+    }
+
+    let jump = false;
+    let trim = false;
+    let dx: number;
+    let dy: number;
+
+    if (val1 & 0x80) {
+      if (val1 & 0x20) trim = true;
+      if (val1 & 0x10) jump = true;
+      dx = toSigned(((val1 & 0x0F) << 8) + val2, 12);
+      val2 = bytes[offset++];
+    } else {
+      dx = toSigned(val1, 7);
+    }
+
+    if (val2 & 0x80) {
+      if (val2 & 0x20) trim = true;
+      if (val2 & 0x10) jump = true;
+      val1 = bytes[offset++];
+      dy = toSigned(((val2 & 0x0F) << 8) + val1, 12);
+    } else {
+      dy = toSigned(val2, 7);
+    }
+
+    x += dx;
+    y += dy;
+    stitches.push({ x, y, type: trim ? 'trim' : jump ? 'jump' : 'stitch' });
+  }
+
+  return { label, stitches };
+}
+
+/**
+ * Decodes a Tajima DST, Brother PES or Melco EXP machine file into absolute
+ * stitch positions (0.1mm units, y pointing down) plus the summary figures
+ * shown to the team.
+ */
+export function parseEmbroideryFile(buffer: ArrayBuffer, filename: string): EmbroideryDesign {
+  const format = getEmbroideryFormat(filename);
+  if (!format) {
+    throw new Error(`Unsupported embroidery file: ${filename}`);
+  }
+
+  const bytes = new Uint8Array(buffer);
+  let label = '';
+  let stitches: EmbroideryStitch[];
+
+  if (format === 'dst') {
+    ({ label, stitches } = parseDst(bytes));
+  } else if (format === 'pes') {
+    ({ label, stitches } = parsePes(bytes));
+  } else {
+    stitches = parseExp(bytes);
+  }
+
+  const bounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  let first = true;
+  let stitchCount = 0;
+  let jumpCount = 0;
+  let trimCount = 0;
+  let colorChanges = 0;
+
+  for (const stitch of stitches) {
+    if (stitch.type === 'color_change') colorChanges++;
+    if (stitch.type === 'jump') jumpCount++;
+    if (stitch.type === 'trim') trimCount++;
+    if (stitch.type !== 'stitch') continue;
+
+    stitchCount++;
+    if (first) {
+      bounds.minX = bounds.maxX = stitch.x;
+      bounds.minY = bounds.maxY = stitch.y;
+      first = false;
+    } else {
+      bounds.minX = Math.min(bounds.minX, stitch.x);
+      bounds.maxX = Math.max(bounds.maxX, stitch.x);
+      bounds.minY = Math.min(bounds.minY, stitch.y);
+      bounds.maxY = Math.max(bounds.maxY, stitch.y);
+    }
+  }
+
+  const widthMm = (bounds.maxX - bounds.minX) / UNITS_PER_MM;
+  const heightMm = (bounds.maxY - bounds.minY) / UNITS_PER_MM;
+
+  return {
+    format,
+    label,
+    stitches,
+    stitchCount,
+    jumpCount,
+    trimCount,
+    colorChanges,
+    colorCount: colorChanges + 1,
+    bounds,
+    widthMm: Math.round(widthMm * 10) / 10,
+    heightMm: Math.round(heightMm * 10) / 10,
+    widthInches: Math.round((widthMm / MM_PER_INCH) * 100) / 100,
+    heightInches: Math.round((heightMm / MM_PER_INCH) * 100) / 100,
+  };
+}
+
+export function checkDesignDimensions(design: EmbroideryDesign, width?: number, height?: number): DimensionCheck | null {
+  if (!width || !height) return null;
+
+  const widthDelta = Math.round((design.widthInches - width) * 100) / 100;
+  const heightDelta = Math.round((design.heightInches - height) * 100) / 100;
+
+  return {
+    matches: Math.abs(widthDelta) <= DIMENSION_TOLERANCE_INCHES && Math.abs(heightDelta) <= DIMENSION_TOLERANCE_INCHES,
+    widthDelta,
+    heightDelta,
+  };
+}
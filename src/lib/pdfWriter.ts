@@ -0,0 +1,211 @@
+export type PdfColor = [number, number, number];
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfPage {
+  content: string[];
+  links: Array<{ x: number; y: number; width: number; height: number; url: string }>;
+}
+
+export interface PdfDocument {
+  width: number;
+  height: number;
+  pages: PdfPage[];
+}
+
+// US Letter in points; coordinates start at the bottom-left corner like PDF itself
+const LETTER_WIDTH = 612;
+const LETTER_HEIGHT = 792;
+
+// Glyph widths (1/1000 em) for ASCII 32-126 from the standard Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * The standard fonts only cover Latin-1 without embedding, so text is folded
+ * to plain ASCII: accents are dropped and typographic punctuation replaced.
+ */
+function toPdfSafeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/\u2022/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+export function createPdfDocument(): PdfDocument {
+  return { width: LETTER_WIDTH, height: LETTER_HEIGHT, pages: [] };
+}
+
+export function addPdfPage(doc: PdfDocument): PdfPage {
+  const page: PdfPage = { content: [], links: [] };
+  doc.pages.push(page);
+  return page;
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const safe = toPdfSafeText(text);
+  let total = 0;
+  for (let i = 0; i < safe.length; i++) {
+    total += widths[safe.charCodeAt(i) - 32] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Splits text into lines no wider than maxWidth, breaking on spaces and
+ * hard-breaking words that are longer than a whole line.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  toPdfSafeText(text).split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, size, bold) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+
+    if (current) lines.push(current);
+    current = word;
+
+    while (measureText(current, size, bold) > maxWidth && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && measureText(current.slice(0, cut), size, bold) > maxWidth) cut--;
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  });
+
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+export function drawText(page: PdfPage, text: string, x: number, y: number, style: PdfTextStyle = {}): void {
+  const size = style.size ?? 10;
+  const safe = toPdfSafeText(text);
+  const width = measureText(safe, size, style.bold);
+  const left = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x;
+
+  page.content.push(
+    `BT /${style.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(style.color ?? [0, 0, 0])} rg ` +
+    `${formatNumber(left)} ${formatNumber(y)} Td (${escapePdfString(safe)}) Tj ET`
+  );
+}
+
+export function drawLine(
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  color: PdfColor = [0.8, 0.8, 0.8],
+  lineWidth = 0.75
+): void {
+  page.content.push(
+    `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+  );
+}
+
+export function fillRect(page: PdfPage, x: number, y: number, width: number, height: number, color: PdfColor): void {
+  page.content.push(
+    `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`
+  );
+}
+
+export function addLink(page: PdfPage, x: number, y: number, width: number, height: number, url: string): void {
+  page.links.push({ x, y, width, height, url });
+}
+
+/**
+ * Serializes the document with the two built-in Helvetica faces. Content is
+ * plain ASCII, so string length equals byte length for the xref offsets.
+ */
+export function renderPdf(doc: PdfDocument): Blob {
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = doc.pages.map(page => {
+    const stream = page.content.join('\n');
+    const contentId = addObject(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+
+    const annotationIds = page.links.map(link =>
+      addObject(
+        `<< /Type /Annot /Subtype /Link /Border [0 0 0] ` +
+        `/Rect [${[link.x, link.y, link.x + link.width, link.y + link.height].map(formatNumber).join(' ')}] ` +
+        `/A << /S /URI /URI (${escapePdfString(toPdfSafeText(link.url))}) >> >>`
+      )
+    );
+
+    const annots = annotationIds.length > 0 ? ` /Annots [${annotationIds.map(id => `${id} 0 R`).join(' ')}]` : '';
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${doc.width} ${doc.height}] ` +
+      `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R${annots} >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([output], { type: 'application/pdf' });
+}
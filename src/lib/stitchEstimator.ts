@@ -0,0 +1,149 @@
+export type ComplexityBand = 'simple' | 'moderate' | 'complex';
+
+export interface StitchEstimate {
+  stitchCount: number;
+  colorCount: number;
+  complexity: ComplexityBand;
+  coverage: number;
+  sourceFilename: string;
+}
+
+const ESTIMABLE_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+const ESTIMABLE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.svg'];
+
+const SAMPLE_SIZE = 256;
+const FILL_STITCHES_PER_SQUARE_INCH = 1800;
+const OUTLINE_STITCHES_PER_INCH = 60;
+const STITCHES_PER_COLOR_CHANGE = 50;
+const MIN_COLOR_SHARE = 0.02;
+const MAX_COLORS = 15;
+const BACKGROUND_TOLERANCE = 40;
+
+export function isEstimableArtwork(file: File): boolean {
+  if (ESTIMABLE_TYPES.includes(file.type)) return true;
+  const name = file.name.toLowerCase();
+  return ESTIMABLE_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+export function getComplexityBand(stitchCount: number, colorCount: number): ComplexityBand {
+  if (stitchCount >= 20000 || colorCount >= 8) return 'complex';
+  if (stitchCount < 8000 && colorCount <= 3) return 'simple';
+  return 'moderate';
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Unable to read image ${file.name}`));
+    };
+    image.src = url;
+  });
+}
+
+function colorDistance(data: Uint8ClampedArray, offset: number, rgb: [number, number, number]): number {
+  return Math.abs(data[offset] - rgb[0]) + Math.abs(data[offset + 1] - rgb[1]) + Math.abs(data[offset + 2] - rgb[2]);
+}
+
+/**
+ * Rough digitizing estimate for a raster or SVG artwork file. The image is
+ * sampled down, its background (transparent pixels or the corner color) is
+ * removed, and the remaining coverage is costed as fill stitches scaled to the
+ * requested size, plus outline stitches along edges and tie-ins per color.
+ */
+export async function estimateArtworkStitches(file: File, width: number, height: number): Promise<StitchEstimate> {
+  const image = await loadImage(file);
+  const naturalWidth = image.naturalWidth || SAMPLE_SIZE;
+  const naturalHeight = image.naturalHeight || SAMPLE_SIZE;
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight));
+  const sampleWidth = Math.max(1, Math.round(naturalWidth * scale));
+  const sampleHeight = Math.max(1, Math.round(naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sampleWidth;
+  canvas.height = sampleHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.drawImage(image, 0, 0, sampleWidth, sampleHeight);
+  const { data } = context.getImageData(0, 0, sampleWidth, sampleHeight);
+
+  const background: [number, number, number] = [data[0], data[1], data[2]];
+  const hasOpaqueCorner = data[3] >= 32;
+  const foreground = new Uint8Array(sampleWidth * sampleHeight);
+  const buckets = new Map<number, number>();
+  let covered = 0;
+
+  for (let i = 0; i < foreground.length; i++) {
+    const offset = i * 4;
+    if (data[offset + 3] < 32) continue;
+    if (hasOpaqueCorner && colorDistance(data, offset, background) < BACKGROUND_TOLERANCE) continue;
+
+    foreground[i] = 1;
+    covered++;
+    // 3 bits per channel keeps anti-aliasing from inflating the color count
+    const bucket = ((data[offset] >> 5) << 6) | ((data[offset + 1] >> 5) << 3) | (data[offset + 2] >> 5);
+    buckets.set(bucket, (buckets.get(bucket) || 0) + 1);
+  }
+
+  let edges = 0;
+  for (let y = 0; y < sampleHeight; y++) {
+    for (let x = 0; x < sampleWidth; x++) {
+      const i = y * sampleWidth + x;
+      if (!foreground[i]) continue;
+      if (
+        x === 0 || y === 0 || x === sampleWidth - 1 || y === sampleHeight - 1 ||
+        !foreground[i - 1] || !foreground[i + 1] || !foreground[i - sampleWidth] || !foreground[i + sampleWidth]
+      ) {
+        edges++;
+      }
+    }
+  }
+
+  const colorCount = covered === 0
+    ? 1
+    : Math.min(MAX_COLORS, Math.max(1, Array.from(buckets.values()).filter(count => count / covered >= MIN_COLOR_SHARE).length));
+
+  const coverage = covered / foreground.length;
+  const pixelSize = width > 0 ? width / sampleWidth : 0;
+  const fillStitches = coverage * width * height * FILL_STITCHES_PER_SQUARE_INCH;
+  const outlineStitches = edges * pixelSize * OUTLINE_STITCHES_PER_INCH;
+  const tieInStitches = colorCount * STITCHES_PER_COLOR_CHANGE;
+  const stitchCount = Math.round((fillStitches + outlineStitches + tieInStitches) / 100) * 100;
+
+  return {
+    stitchCount,
+    colorCount,
+    complexity: getComplexityBand(stitchCount, colorCount),
+    coverage: Math.round(coverage * 1000) / 1000,
+    sourceFilename: file.name,
+  };
+}
+
+/**
+ * Estimates every readable artwork file of an order and keeps the most
+ * demanding one, since that is the design the digitizer will be pricing.
+ */
+export async function estimateOrderArtwork(files: File[], width: number, height: number): Promise<StitchEstimate | null> {
+  if (!width || !height || width <= 0 || height <= 0) return null;
+
+  let best: StitchEstimate | null = null;
+  for (const file of files.filter(isEstimableArtwork)) {
+    try {
+      const estimate = await estimateArtworkStitches(file, width, height);
+      if (!best || estimate.stitchCount > best.stitchCount) {
+        best = estimate;
+      }
+    } catch (error) {
+      console.error('Error estimating artwork stitches:', error);
+    }
+  }
+  return best;
+}
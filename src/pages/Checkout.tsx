@@ -10,7 +10,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, ShoppingCart, User, Mail, Phone, Loader, CheckCircle, Eye, Plus, Trash2 } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, User, Mail, Phone, Loader, CheckCircle, Eye, Plus, Trash2, Tag, X, Wallet } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
@@ -19,17 +19,29 @@ import { useOrders } from '../contexts/OrderContext';
 import { getCurrentUser, getUserProfile } from '../lib/supabase';
 import { toast } from '../utils/toast';
 import { createInvoiceWithPayment } from '../services/invoiceService';
+import { calculateTax, getTaxLabel } from '../services/taxService';
+import { formatPrice, roundCurrency } from '../services/pricingService';
+import { convertLineItems } from '../services/currencyService';
+import { calculateDiscount, DiscountResult, fetchDiscountCode, formatDiscountValue, redeemDiscountCode } from '../services/discountService';
+import { fetchCustomerCreditBalance } from '../services/creditService';
+import { DiscountCode } from '../admin/types';
 import { supabase } from '../lib/supabase';
 
 const Checkout: React.FC = () => {
   const navigate = useNavigate();
-  const { items, getTotalPrice, clearCart, removeFromCart } = useCart();
+  const { items, clearCart, removeFromCart, billingCurrency, getItemPrice } = useCart();
   const { addOrder } = useOrders();
   
   const [currentUser, setCurrentUser] = useState<any>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(true);
+  const [discountCodeInput, setDiscountCodeInput] = useState('');
+  const [appliedDiscountCode, setAppliedDiscountCode] = useState<DiscountCode | null>(null);
+  const [discountError, setDiscountError] = useState('');
+  const [applyingDiscount, setApplyingDiscount] = useState(false);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [useCredit, setUseCredit] = useState(false);
 
   useEffect(() => {
     const checkUserAndCart = async () => {
@@ -63,6 +75,81 @@ const Checkout: React.FC = () => {
     checkUserAndCart();
   }, [navigate, items.length]);
 
+  // Credit is held per currency, so only the balance in the billing currency can be spent
+  useEffect(() => {
+    if (!currentUser?.id) {
+      return;
+    }
+
+    fetchCustomerCreditBalance(currentUser.id, billingCurrency.currency)
+      .then(balance => {
+        setCreditBalance(balance);
+        setUseCredit(balance > 0);
+      })
+      .catch(() => {
+        setCreditBalance(0);
+        setUseCredit(false);
+      });
+  }, [currentUser?.id, billingCurrency.currency]);
+
+  const getDiscountableItems = () => items.map(item => ({ id: item.id, categoryId: item.categoryId, price: item.price }));
+
+  // The applied code is re-checked whenever the cart changes; removing items can disqualify it
+  let discount: DiscountResult | null = null;
+  let discountIssue = '';
+  if (appliedDiscountCode) {
+    try {
+      discount = calculateDiscount(appliedDiscountCode, getDiscountableItems());
+    } catch (err) {
+      discountIssue = err instanceof Error ? err.message : 'This discount code no longer applies';
+    }
+  }
+
+  const getItemDiscount = (itemId: string) => discount?.itemDiscounts[itemId] || 0;
+
+  // Base-currency lines after discount; the invoice converts them to the billing currency
+  const getCartLineItems = () => items.map(item => ({
+    name: getItemDiscount(item.id) > 0 ? `${item.title} (${discount?.code.code})` : item.title,
+    price: roundCurrency(item.price - getItemDiscount(item.id)),
+    quantity: 1,
+  }));
+
+  // Logged-in customers are taxed by the region on their profile, in the currency they are billed in
+  const tax = calculateTax(convertLineItems(getCartLineItems(), billingCurrency.rate), currentUser || {});
+  const undiscountedSubtotal = roundCurrency(
+    items.reduce((sum, item) => sum + getItemPrice(item), 0)
+  );
+  const discountDisplayAmount = discount ? roundCurrency(undiscountedSubtotal - tax.subtotal) : 0;
+  const creditApplied = useCredit ? roundCurrency(Math.min(creditBalance, tax.total)) : 0;
+  const amountToPay = roundCurrency(tax.total - creditApplied);
+
+  const handleApplyDiscount = async () => {
+    if (!discountCodeInput.trim()) {
+      return;
+    }
+
+    setApplyingDiscount(true);
+    setDiscountError('');
+
+    try {
+      const code = await fetchDiscountCode(discountCodeInput);
+      // Surfaces minimum spend and eligibility problems before the code is kept
+      calculateDiscount(code, getDiscountableItems());
+      setAppliedDiscountCode(code);
+      setDiscountCodeInput('');
+      toast.success(`Discount code ${code.code} applied`);
+    } catch (err) {
+      setDiscountError(err instanceof Error ? err.message : 'Failed to apply discount code');
+    } finally {
+      setApplyingDiscount(false);
+    }
+  };
+
+  const handleRemoveDiscount = () => {
+    setAppliedDiscountCode(null);
+    setDiscountError('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -76,6 +163,11 @@ const Checkout: React.FC = () => {
       return;
     }
 
+    if (discountIssue) {
+      setError(discountIssue);
+      return;
+    }
+
     setIsSubmitting(true);
     setError('');
 
@@ -86,11 +178,10 @@ const Checkout: React.FC = () => {
       console.log('Cart items:', items.length);
       console.log('Customer:', currentUser.email);
 
-      const totalAmount = getTotalPrice();
-
       console.log('Creating orders...');
       for (const item of items) {
-        const itemPrice = parseFloat(item.price.replace('$', ''));
+        const itemDiscount = getItemDiscount(item.id);
+        const itemPrice = roundCurrency(item.price - itemDiscount);
 
         console.log(`Creating order for: ${item.title}, Price: ${itemPrice}`);
 
@@ -117,6 +208,8 @@ const Checkout: React.FC = () => {
             custom_width: 0,
             custom_height: 0,
             total_amount: itemPrice,
+            discount_code_id: itemDiscount > 0 ? discount?.code.id : null,
+            discount_amount: itemDiscount,
             status: 'new',
             payment_status: 'unpaid',
           })
@@ -138,11 +231,13 @@ const Checkout: React.FC = () => {
 
       console.log(`All ${createdOrderIds.length} orders created successfully`);
 
-      const products = items.map(item => ({
-        name: item.title,
-        price: parseFloat(item.price.replace('$', '')),
-        quantity: 1,
-      }));
+      if (discount) {
+        // Deleting the orders on failure below gives the use back
+        await redeemDiscountCode(discount.code.code, createdOrderIds);
+        console.log(`Discount code ${discount.code.code} redeemed`);
+      }
+
+      const products = getCartLineItems();
 
       console.log('Creating invoice with products:', products);
 
@@ -151,15 +246,23 @@ const Checkout: React.FC = () => {
         invoice_title: `Stock Designs Purchase - ${new Date().toLocaleDateString()}`,
         month_year: new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
         order_ids: createdOrderIds,
-        total_amount: totalAmount,
         customerEmail: currentUser.email,
         customerName: currentUser.full_name,
         products,
+        useCredit: creditApplied > 0,
       };
 
       console.log('Calling createInvoiceWithPayment...');
       const { paymentLink } = await createInvoiceWithPayment(invoiceParams);
 
+      if (!paymentLink) {
+        console.log('=== CHECKOUT PROCESS COMPLETED (paid from account credit) ===');
+        clearCart();
+        toast.success('Orders placed and paid from your account credit!');
+        navigate('/customer/dashboard');
+        return;
+      }
+
       console.log('Payment link generated successfully');
       console.log('=== CHECKOUT PROCESS COMPLETED ===');
 
@@ -275,7 +378,7 @@ const Checkout: React.FC = () => {
                               <div className="flex items-center justify-between mt-2">
                                 <span className="text-sm text-gray-600">Quantity: 1</span>
                                 <span className="font-bold text-blue-600">
-                                  {item.price}
+                                  {formatPrice(getItemPrice(item), billingCurrency.currency)}
                                 </span>
                               </div>
                             </div>
@@ -341,14 +444,113 @@ const Checkout: React.FC = () => {
                       <div className="space-y-3 mb-4">
                         <div className="flex justify-between">
                           <span className="text-gray-600">Items ({items.length})</span>
-                          <span className="font-medium">${getTotalPrice().toFixed(2)}</span>
+                          <span className="font-medium">{formatPrice(undiscountedSubtotal, billingCurrency.currency)}</span>
                         </div>
+                        {discount && (
+                          <div className="flex justify-between text-green-700">
+                            <span>Discount ({discount.code.code})</span>
+                            <span className="font-medium">-{formatPrice(discountDisplayAmount, billingCurrency.currency)}</span>
+                          </div>
+                        )}
+                        {tax.taxAmount > 0 ? (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">{getTaxLabel(tax.rate)}</span>
+                            <span className="font-medium">{formatPrice(tax.taxAmount, billingCurrency.currency)}</span>
+                          </div>
+                        ) : tax.exempt && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Tax</span>
+                            <span className="font-medium">Exempt</span>
+                          </div>
+                        )}
                         
                         <hr className="border-gray-200" />
                         <div className="flex justify-between text-lg font-bold">
                           <span>Total</span>
-                          <span className="text-blue-600">${getTotalPrice().toFixed(2)}</span>
+                          <span className="text-blue-600">{formatPrice(tax.total, billingCurrency.currency)}</span>
                         </div>
+                        {creditApplied > 0 && (
+                          <>
+                            <div className="flex justify-between text-green-700">
+                              <span>Account credit</span>
+                              <span className="font-medium">-{formatPrice(creditApplied, billingCurrency.currency)}</span>
+                            </div>
+                            <div className="flex justify-between font-semibold">
+                              <span>To pay</span>
+                              <span>{formatPrice(amountToPay, billingCurrency.currency)}</span>
+                            </div>
+                          </>
+                        )}
+                      </div>
+
+                      {/* Account Credit */}
+                      {creditBalance > 0 && (
+                        <label className="flex items-center space-x-2 bg-green-50 border border-green-200 rounded-lg p-3 mb-4 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={useCredit}
+                            onChange={(e) => setUseCredit(e.target.checked)}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                          <Wallet className="h-4 w-4 text-green-600" />
+                          <span className="text-sm text-green-800">
+                            Use account credit ({formatPrice(creditBalance, billingCurrency.currency)} available)
+                          </span>
+                        </label>
+                      )}
+
+                      {/* Discount Code */}
+                      <div className="mb-4">
+                        {appliedDiscountCode ? (
+                          <div className={`flex items-center justify-between rounded-lg p-3 border ${
+                            discountIssue ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+                          }`}>
+                            <div className="flex items-center space-x-2">
+                              <Tag className={`h-4 w-4 ${discountIssue ? 'text-red-600' : 'text-green-600'}`} />
+                              <div>
+                                <p className={`text-sm font-semibold ${discountIssue ? 'text-red-800' : 'text-green-800'}`}>
+                                  {appliedDiscountCode.code} ({formatDiscountValue(appliedDiscountCode)} off)
+                                </p>
+                                {discountIssue && <p className="text-xs text-red-700">{discountIssue}</p>}
+                              </div>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={handleRemoveDiscount}
+                              className="p-1 text-gray-500 hover:text-gray-700"
+                              title="Remove discount code"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ) : (
+                          <>
+                            <div className="flex space-x-2">
+                              <input
+                                type="text"
+                                value={discountCodeInput}
+                                onChange={(e) => setDiscountCodeInput(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    handleApplyDiscount();
+                                  }
+                                }}
+                                placeholder="Discount code"
+                                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              <button
+                                type="button"
+                                onClick={handleApplyDiscount}
+                                disabled={applyingDiscount || !discountCodeInput.trim()}
+                                className="btn-secondary px-4 text-sm"
+                              >
+                                {applyingDiscount ? <Loader className="h-4 w-4 animate-spin" /> : 'Apply'}
+                              </button>
+                            </div>
+                            {discountError && <p className="text-xs text-red-600 mt-1">{discountError}</p>}
+                          </>
+                        )}
                       </div>
 
                       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Palette, Clock, Briefcase, Edit3 } from 'lucide-react';
+import { Palette, Clock, Briefcase, Edit3, FileCheck, LayoutList, KanbanSquare, Play, Square, Timer, ArrowRightCircle } from 'lucide-react';
 import { useAuth } from '../shared/hooks/useAuth';
 import { useDashboardStats } from '../shared/hooks/useDashboardStats';
 import DashboardLayout from '../shared/components/DashboardLayout';
@@ -7,23 +7,41 @@ import LoadingSpinner from '../shared/components/LoadingSpinner';
 import StatCard from '../shared/components/StatCard';
 import OrderDetailsModal from '../components/OrderDetailsModal';
 import EditOrderModal from '../admin/components/EditOrderModal';
+import OrderKanbanBoard from '../components/OrderKanbanBoard';
+import { SubmitProofModal } from '../components/SubmitProofModal';
+import { OrderTimeEntriesModal } from '../components/OrderTimeEntriesModal';
 import FilterBar, { FilterConfig } from '../admin/components/FilterBar';
 import DataTable from '../admin/components/DataTable';
 import { usePaginatedData } from '../admin/hooks/useAdminData';
 import { getOrders } from '../admin/api/supabaseHelpers';
-import { AdminOrder, PaginationParams } from '../admin/types';
+import { AdminOrder, OrderTimeEntry, PaginationParams } from '../admin/types';
 import { ORDER_STATUS_OPTIONS, DEFAULT_PAGINATION_PARAMS } from '../shared/constants/orderConstants';
 import { editRequestService, EditRequest } from '../services/editRequestService';
+import { transitionOrderStatus } from '../services/orderStatusService';
 import { supabase } from '../lib/supabase';
+import { toast } from '../utils/toast';
+import {
+  fetchOrderTimeTotals,
+  fetchRunningTimer,
+  formatDuration,
+  getTimeEntryMinutes,
+  startTimer,
+  stopTimer,
+} from '../services/timeTrackingService';
 import {
   createImageColumn,
   createOrderNumberColumn,
   createOrderNameColumn,
   createStatusColumn,
+  createComplexityColumn,
+  createDueDateColumn,
   createDateColumn,
   createActionsColumn,
 } from '../shared/utils/orderTableUtils';
 
+// Assigned orders stay new until the designer starts them, so both make up the queue
+const DESIGNER_QUEUE_STATUSES = ['new', 'in_progress'];
+
 const DesignerDashboard: React.FC = () => {
   const { user, loading: authLoading } = useAuth({ requiredRole: 'designer' });
   const { stats, refetch: refetchStats } = useDashboardStats('designer', user?.id);
@@ -32,8 +50,11 @@ const DesignerDashboard: React.FC = () => {
     getOrders,
     {
       ...DEFAULT_PAGINATION_PARAMS,
+      // Designers work through their queue by due date
+      sortBy: 'due_at',
+      sortOrder: 'asc',
       assignedDesignerId: user?.id || undefined,
-      status: ['in_progress'],
+      status: DESIGNER_QUEUE_STATUSES,
     },
     { skipInitialFetch: !user?.id }
   );
@@ -42,11 +63,19 @@ const DesignerDashboard: React.FC = () => {
   const [isOrderDetailsOpen, setIsOrderDetailsOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [orderToEdit, setOrderToEdit] = useState<AdminOrder | null>(null);
+  const [orderForProof, setOrderForProof] = useState<AdminOrder | null>(null);
   const [editRequests, setEditRequests] = useState<(EditRequest & { order?: AdminOrder })[]>([]);
   const [loadingEditRequests, setLoadingEditRequests] = useState(false);
+  const [ordersView, setOrdersView] = useState<'table' | 'board'>('table');
+  const [boardRefreshKey, setBoardRefreshKey] = useState(0);
+  const [runningTimer, setRunningTimer] = useState<OrderTimeEntry | null>(null);
+  const [orderTimeTotals, setOrderTimeTotals] = useState<Record<string, number>>({});
+  const [timeLogOrder, setTimeLogOrder] = useState<AdminOrder | null>(null);
+  const [timerNow, setTimerNow] = useState(() => new Date());
+  const [togglingTimer, setTogglingTimer] = useState(false);
 
   const [filterValues, setFilterValues] = useState<Record<string, string | string[]>>({
-    status: ['in_progress'],
+    status: DESIGNER_QUEUE_STATUSES,
     dateFrom: '',
     dateTo: '',
     customer: '',
@@ -54,14 +83,16 @@ const DesignerDashboard: React.FC = () => {
 
   const [initialParams] = useState<PaginationParams>({
     ...DEFAULT_PAGINATION_PARAMS,
-    status: ['in_progress'],
+    sortBy: 'due_at',
+    sortOrder: 'asc',
+    status: DESIGNER_QUEUE_STATUSES,
   });
 
   useEffect(() => {
     if (user?.id && !params.assignedDesignerId) {
       updateParams({
         assignedDesignerId: user.id,
-        status: ['in_progress']
+        status: DESIGNER_QUEUE_STATUSES
       });
     }
   }, [user?.id, params.assignedDesignerId, updateParams]);
@@ -100,6 +131,35 @@ const DesignerDashboard: React.FC = () => {
     }
   }, [user?.id]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchRunningTimer()
+      .then(setRunningTimer)
+      .catch(error => console.error('Error fetching running timer:', error));
+  }, [user?.id]);
+
+  const loadOrderTimeTotals = (orderIds: string[]) => {
+    fetchOrderTimeTotals(orderIds)
+      .then(setOrderTimeTotals)
+      .catch(error => console.error('Error fetching order time totals:', error));
+  };
+
+  const visibleOrderIds = orders.data.map(order => order.id).join(',');
+
+  useEffect(() => {
+    loadOrderTimeTotals(visibleOrderIds ? visibleOrderIds.split(',') : []);
+  }, [visibleOrderIds]);
+
+  // Keep the running timer's elapsed time current
+  useEffect(() => {
+    if (!runningTimer) return;
+
+    setTimerNow(new Date());
+    const interval = window.setInterval(() => setTimerNow(new Date()), 30000);
+    return () => window.clearInterval(interval);
+  }, [runningTimer]);
+
   if (authLoading) {
     return <LoadingSpinner message="Loading dashboard..." />;
   }
@@ -135,6 +195,9 @@ const DesignerDashboard: React.FC = () => {
     },
   ];
 
+  // The board always shows every status as its own column
+  const boardFilterConfigs = filterConfigs.filter(filter => filter.key !== 'status');
+
   const handleParamsChange = (newParams: Partial<PaginationParams>) => {
     updateParams(newParams);
   };
@@ -178,7 +241,7 @@ const DesignerDashboard: React.FC = () => {
 
   const handleClearFilters = () => {
     setFilterValues({
-      status: ['in_progress'],
+      status: DESIGNER_QUEUE_STATUSES,
       dateFrom: '',
       dateTo: '',
       customer: '',
@@ -186,7 +249,7 @@ const DesignerDashboard: React.FC = () => {
     const resetParams: PaginationParams = {
       ...initialParams,
       assignedDesignerId: user?.id,
-      status: ['in_progress'],
+      status: DESIGNER_QUEUE_STATUSES,
       customerSearch: undefined,
       dateFrom: undefined,
       dateTo: undefined,
@@ -204,13 +267,96 @@ const DesignerDashboard: React.FC = () => {
     setIsOrderDetailsOpen(true);
   };
 
+  const handleStartOrder = async (order: AdminOrder) => {
+    try {
+      await transitionOrderStatus(order.id, 'in_progress');
+      toast.success(`Started work on ${order.order_number}`);
+      refetch();
+      setBoardRefreshKey(key => key + 1);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start the order');
+    }
+  };
+
+  const handleToggleTimer = async (order: AdminOrder) => {
+    setTogglingTimer(true);
+    try {
+      if (runningTimer?.order_id === order.id) {
+        await stopTimer(runningTimer.id);
+        setRunningTimer(null);
+        toast.success(`Timer stopped for ${order.order_number}`);
+      } else {
+        setRunningTimer(await startTimer(order.id));
+        toast.success(`Timing ${order.order_number}`);
+      }
+      loadOrderTimeTotals(orders.data.map(o => o.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update the timer');
+    } finally {
+      setTogglingTimer(false);
+    }
+  };
+
+  const getLoggedMinutes = (order: AdminOrder) =>
+    (orderTimeTotals[order.id] || 0)
+    + (runningTimer?.order_id === order.id ? getTimeEntryMinutes(runningTimer, timerNow) : 0);
+
   const columns = [
     createImageColumn(),
     createOrderNumberColumn(),
     createOrderNameColumn(),
     createStatusColumn(),
+    createComplexityColumn(),
+    createDueDateColumn(),
+    {
+      key: 'time_logged',
+      label: 'Time',
+      render: (order: AdminOrder) => {
+        const minutes = getLoggedMinutes(order);
+        return (
+          <button
+            onClick={() => setTimeLogOrder(order)}
+            className={`text-sm hover:underline ${runningTimer?.order_id === order.id ? 'text-green-600 font-medium' : minutes > 0 ? 'text-gray-900' : 'text-gray-400'}`}
+            title="View Time Log"
+          >
+            {minutes > 0 || runningTimer?.order_id === order.id ? formatDuration(minutes) : '—'}
+          </button>
+        );
+      },
+    },
     createDateColumn(),
-    createActionsColumn(handleEditOrder, handleViewOrder),
+    createActionsColumn(handleEditOrder, handleViewOrder, (order) => (
+      <>
+        {order.status === 'new' && (
+          <button
+            onClick={() => handleStartOrder(order)}
+            className="text-green-600 hover:text-green-900 transition-colors"
+            title="Start Work"
+          >
+            <ArrowRightCircle className="h-4 w-4" />
+          </button>
+        )}
+        {(order.status === 'new' || order.status === 'in_progress' || order.status === 'under_review') && (
+          <button
+            onClick={() => handleToggleTimer(order)}
+            disabled={togglingTimer}
+            className={`transition-colors ${runningTimer?.order_id === order.id ? 'text-red-600 hover:text-red-900' : 'text-gray-600 hover:text-gray-900'}`}
+            title={runningTimer?.order_id === order.id ? 'Stop Timer' : 'Start Timer'}
+          >
+            {runningTimer?.order_id === order.id ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+        )}
+        {order.status === 'in_progress' && (
+          <button
+            onClick={() => setOrderForProof(order)}
+            className="text-purple-600 hover:text-purple-900 transition-colors"
+            title="Submit Proof"
+          >
+            <FileCheck className="h-4 w-4" />
+          </button>
+        )}
+      </>
+    )),
   ];
 
   return (
@@ -241,6 +387,41 @@ const DesignerDashboard: React.FC = () => {
         ))}
         </div>
 
+        {runningTimer && (
+          <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-green-50 border border-green-200 rounded-xl p-4">
+            <div className="flex items-center space-x-3">
+              <div className="bg-green-100 p-2 rounded-lg">
+                <Timer className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-green-900">
+                  Timing {runningTimer.order_number || 'an order'} • {formatDuration(getTimeEntryMinutes(runningTimer, timerNow))}
+                </p>
+                <p className="text-xs text-green-700">Started {new Date(runningTimer.started_at).toLocaleTimeString()}</p>
+              </div>
+            </div>
+            <button
+              onClick={async () => {
+                setTogglingTimer(true);
+                try {
+                  await stopTimer(runningTimer.id);
+                  setRunningTimer(null);
+                  loadOrderTimeTotals(orders.data.map(o => o.id));
+                } catch (error) {
+                  toast.error(error instanceof Error ? error.message : 'Failed to stop the timer');
+                } finally {
+                  setTogglingTimer(false);
+                }
+              }}
+              disabled={togglingTimer}
+              className="btn-danger text-sm flex items-center space-x-2"
+            >
+              <Square className="h-4 w-4" />
+              <span>Stop Timer</span>
+            </button>
+          </div>
+        )}
+
         {editRequests.length > 0 && (
           <div className="mb-6 sm:mb-8">
             <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Pending Edit Requests</h3>
@@ -267,13 +448,27 @@ const DesignerDashboard: React.FC = () => {
               <h3 className="text-xl sm:text-2xl font-bold text-gray-900">My Assigned Orders</h3>
               <p className="text-sm sm:text-base text-gray-600 mt-1">Manage your design projects and orders</p>
             </div>
+            <div className="flex rounded-lg border border-gray-200 bg-white p-1">
+              {([['table', 'Table', LayoutList], ['board', 'Board', KanbanSquare]] as const).map(([view, label, Icon]) => (
+                <button
+                  key={view}
+                  onClick={() => setOrdersView(view)}
+                  className={`flex items-center space-x-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    ordersView === view ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
           </div>
 
         <FilterBar
           searchValue={params.search || ''}
           onSearchChange={handleSearch}
           searchPlaceholder="Search by order number..."
-          filters={filterConfigs}
+          filters={ordersView === 'board' ? boardFilterConfigs : filterConfigs}
           filterValues={filterValues}
           onFilterChange={handleFilterChange}
           onClearFilters={handleClearFilters}
@@ -287,13 +482,33 @@ const DesignerDashboard: React.FC = () => {
             </div>
           )}
 
-          <DataTable
-            data={orders}
-            columns={columns}
-            onParamsChange={handleParamsChange}
-            currentParams={params}
-            loading={ordersLoading}
-          />
+          {ordersView === 'board' && user ? (
+            <OrderKanbanBoard
+              userId={user.id}
+              role="designer"
+              baseParams={{
+                assignedDesignerId: user.id,
+                search: params.search,
+                customerSearch: params.customerSearch,
+                dateFrom: params.dateFrom,
+                dateTo: params.dateTo,
+              }}
+              onOpenOrder={handleEditOrder}
+              onStatusChanged={() => {
+                refetch();
+                refetchStats();
+              }}
+              refreshKey={boardRefreshKey}
+            />
+          ) : (
+            <DataTable
+              data={orders}
+              columns={columns}
+              onParamsChange={handleParamsChange}
+              currentParams={params}
+              loading={ordersLoading}
+            />
+          )}
         </div>
       </div>
 
@@ -312,8 +527,32 @@ const DesignerDashboard: React.FC = () => {
           setIsEditModalOpen(false);
           refetch();
           refetchStats();
+          setBoardRefreshKey(key => key + 1);
         }}
       />
+
+      {timeLogOrder && user && (
+        <OrderTimeEntriesModal
+          orderId={timeLogOrder.id}
+          orderNumber={timeLogOrder.order_number || `ORD-${timeLogOrder.id.slice(0, 8)}`}
+          currentUserId={user.id}
+          onClose={() => setTimeLogOrder(null)}
+          onChanged={() => loadOrderTimeTotals(orders.data.map(o => o.id))}
+        />
+      )}
+
+      {orderForProof && (
+        <SubmitProofModal
+          orderId={orderForProof.id}
+          orderNumber={orderForProof.order_number || `ORD-${orderForProof.id.slice(0, 8)}`}
+          orderName={orderForProof.order_name || `Order ${orderForProof.order_number}`}
+          onClose={() => setOrderForProof(null)}
+          onSuccess={() => {
+            refetch();
+            refetchStats();
+          }}
+        />
+      )}
     </DashboardLayout>
   );
 };
@@ -4,6 +4,7 @@ import { CheckCircle, Loader, Package } from 'lucide-react';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import { supabase } from '../lib/supabase';
+import { capturePayPalOrder } from '../services/invoiceService';
 
 const PaymentSuccess: React.FC = () => {
   const navigate = useNavigate();
@@ -15,8 +16,20 @@ const PaymentSuccess: React.FC = () => {
   useEffect(() => {
     const verifyPayment = async () => {
       try {
-        const merchantOrderId = searchParams.get('merchant-order-id');
-        const refNo = searchParams.get('refno');
+        let merchantOrderId = searchParams.get('merchant-order-id');
+
+        // PayPal returns the approved order as ?token=...&PayerID=... and expects us to capture it
+        const paypalOrderId = searchParams.get('token');
+        if (!merchantOrderId && paypalOrderId && searchParams.get('PayerID')) {
+          try {
+            const capture = await capturePayPalOrder(paypalOrderId);
+            merchantOrderId = capture.invoiceId;
+          } catch (captureError) {
+            console.error('Error capturing PayPal payment:', captureError);
+            navigate('/payment/failure');
+            return;
+          }
+        }
 
         if (!merchantOrderId) {
           setLoading(false);
@@ -24,6 +37,7 @@ const PaymentSuccess: React.FC = () => {
         }
 
         setInvoiceId(merchantOrderId);
+        const invoiceIdToCheck = merchantOrderId;
 
         let attempts = 0;
         const maxAttempts = 10;
@@ -32,7 +46,7 @@ const PaymentSuccess: React.FC = () => {
           const { data: invoice, error } = await supabase
             .from('invoices')
             .select('*, orders!inner(order_number)')
-            .eq('id', merchantOrderId)
+            .eq('id', invoiceIdToCheck)
             .single();
 
           if (error) {
@@ -66,7 +80,7 @@ const PaymentSuccess: React.FC = () => {
     };
 
     verifyPayment();
-  }, [searchParams]);
+  }, [searchParams, navigate]);
 
   const handleGoToDashboard = () => {
     navigate('/customer/dashboard');
@@ -14,7 +14,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Users, ShoppingBag, DollarSign, LogOut, Bell, Phone, Mail, TrendingUp, Target, Eye, UserPlus, CreditCard as Edit, Clock, Package, CircleUser as UserCircle, Home } from 'lucide-react';
+import { Users, ShoppingBag, DollarSign, LogOut, Bell, Phone, Mail, TrendingUp, Target, Eye, UserPlus, CreditCard as Edit, Clock, Package, CircleUser as UserCircle, Home, FileQuestion, LayoutList, KanbanSquare } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import NotificationDropdown from '../components/NotificationDropdown';
 import { signOut, getCurrentUser, getUserProfile } from '../lib/supabase';
@@ -24,11 +24,15 @@ import { getSalesRepDashboardStats, updateOrder, getSalesReps, getDesigners } fr
 import { AdminOrder, AdminUser } from '../admin/types';
 import OrderDetailsModal from '../components/OrderDetailsModal';
 import EditOrderModal from '../admin/components/EditOrderModal';
+import OrderKanbanBoard from '../components/OrderKanbanBoard';
 import FilterBar, { FilterConfig } from '../admin/components/FilterBar';
 import DataTable from '../admin/components/DataTable';
 import { usePaginatedData } from '../admin/hooks/useAdminData';
 import { getOrders } from '../admin/api/supabaseHelpers';
+import { createComplexityColumn, createDueDateColumn } from '../shared/utils/orderTableUtils';
 import { PaginationParams } from '../admin/types';
+import { formatPrice } from '../services/pricingService';
+import QuotesTab from '../admin/tabs/QuotesTab';
 
 const SalesRepDashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -63,6 +67,9 @@ const SalesRepDashboard: React.FC = () => {
   const [isOrderDetailsOpen, setIsOrderDetailsOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [orderToEdit, setOrderToEdit] = useState<AdminOrder | null>(null);
+  const [activeSection, setActiveSection] = useState<'orders' | 'quotes'>('orders');
+  const [ordersView, setOrdersView] = useState<'table' | 'board'>('table');
+  const [boardRefreshKey, setBoardRefreshKey] = useState(0);
   
   // Filter states with default status for sales rep
   const [filterValues, setFilterValues] = useState<Record<string, string | string[]>>({
@@ -205,6 +212,9 @@ const SalesRepDashboard: React.FC = () => {
     },
   ];
 
+  // The board always shows every status as its own column
+  const boardFilterConfigs = filterConfigs.filter(filter => filter.key !== 'status');
+
   const handleParamsChange = (newParams: Partial<PaginationParams>) => {
     updateParams(newParams);
   };
@@ -305,7 +315,7 @@ const SalesRepDashboard: React.FC = () => {
       key: 'total_amount',
       label: 'Total',
       sortable: true,
-      render: (order: AdminOrder) => `$${(order.total_amount || 0).toFixed(2)}`,
+      render: (order: AdminOrder) => formatPrice(order.total_amount || 0),
     },
     {
       key: 'status',
@@ -317,6 +327,8 @@ const SalesRepDashboard: React.FC = () => {
         </span>
       ),
     },
+    createComplexityColumn(),
+    createDueDateColumn(),
     {
       key: 'assigned_designer_name',
       label: 'Assigned Designer',
@@ -436,45 +448,101 @@ const SalesRepDashboard: React.FC = () => {
           })}
         </div>
 
+        {/* Section Switcher */}
+        <div className="flex space-x-2 mb-4 sm:mb-6 border-b border-gray-200">
+          {([['orders', 'Orders', ShoppingBag], ['quotes', 'Quotes', FileQuestion]] as const).map(([section, label, Icon]) => (
+            <button
+              key={section}
+              onClick={() => setActiveSection(section)}
+              className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeSection === section
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+
+        {activeSection === 'quotes' && user && <QuotesTab salesRepId={user.id} />}
+
         {/* Orders Management Section */}
-        <div className="space-y-4 sm:space-y-6">
-          {/* Header */}
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0">
-            <div>
-              <h3 className="text-xl sm:text-2xl font-bold text-gray-900">Customer Orders</h3>
-              <p className="text-sm sm:text-base text-gray-600 mt-1">Manage orders from your assigned customers</p>
+        {activeSection === 'orders' && (
+          <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0">
+              <div>
+                <h3 className="text-xl sm:text-2xl font-bold text-gray-900">Customer Orders</h3>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">Manage orders from your assigned customers</p>
+              </div>
+              <div className="flex rounded-lg border border-gray-200 bg-white p-1">
+                {([['table', 'Table', LayoutList], ['board', 'Board', KanbanSquare]] as const).map(([view, label, Icon]) => (
+                  <button
+                    key={view}
+                    onClick={() => setOrdersView(view)}
+                    className={`flex items-center space-x-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      ordersView === view ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4" />
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Filter Bar */}
-          <FilterBar
-            searchValue={params.search || ''}
-            onSearchChange={handleSearch}
-            searchPlaceholder="Search by order number..."
-            filters={filterConfigs}
-            filterValues={filterValues}
-            onFilterChange={handleFilterChange}
-            onClearFilters={handleClearFilters}
-            resultCount={orders.total}
-            loading={ordersLoading}
-          />
-
-          {/* Error Display */}
-          {ordersError && (
-            <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6">
-              <p className="text-sm sm:text-base text-red-700">{ordersError}</p>
-            </div>
-          )}
-
-          {/* Orders Table */}
-          <DataTable
-            data={orders}
-            columns={columns}
-            onParamsChange={handleParamsChange}
-            currentParams={params}
-            loading={ordersLoading}
-          />
-        </div>
+            {/* Filter Bar */}
+            <FilterBar
+              searchValue={params.search || ''}
+              onSearchChange={handleSearch}
+              searchPlaceholder="Search by order number..."
+              filters={ordersView === 'board' ? boardFilterConfigs : filterConfigs}
+              filterValues={filterValues}
+              onFilterChange={handleFilterChange}
+              onClearFilters={handleClearFilters}
+              resultCount={orders.total}
+              loading={ordersLoading}
+            />
+
+            {/* Error Display */}
+            {ordersError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6">
+                <p className="text-sm sm:text-base text-red-700">{ordersError}</p>
+              </div>
+            )}
+
+            {/* Orders Board or Table */}
+            {ordersView === 'board' && user ? (
+              <OrderKanbanBoard
+                userId={user.id}
+                role="sales_rep"
+                baseParams={{
+                  salesRepId: user.id,
+                  search: params.search,
+                  customerSearch: params.customerSearch,
+                  dateFrom: params.dateFrom,
+                  dateTo: params.dateTo,
+                }}
+                onOpenOrder={handleEditOrder}
+                onStatusChanged={() => {
+                  refetch();
+                  getSalesRepDashboardStats(user.id).then(setDashboardStats);
+                }}
+                refreshKey={boardRefreshKey}
+              />
+            ) : (
+              <DataTable
+                data={orders}
+                columns={columns}
+                onParamsChange={handleParamsChange}
+                currentParams={params}
+                loading={ordersLoading}
+              />
+            )}
+          </div>
+        )}
       </main>
 
       {/* Order Details Modal */}
@@ -497,6 +565,7 @@ const SalesRepDashboard: React.FC = () => {
           if (user) {
             getSalesRepDashboardStats(user.id).then(setDashboardStats);
           }
+          setBoardRefreshKey(key => key + 1);
         }}
       />
     </div>
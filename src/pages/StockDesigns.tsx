@@ -13,6 +13,9 @@ import React, { useState, useEffect } from 'react';
 import { Search, Filter, Loader } from 'lucide-react';
 import Navbar from '../components/Navbar';
 import AddToCartButton from '../components/AddToCartButton';
+import { useCart } from '../contexts/CartContext';
+import { formatPrice } from '../services/pricingService';
+import { convertAmount } from '../services/currencyService';
 import { getStockDesigns, getCategories } from '../lib/supabase';
 import { getImageSrc, getPlaceholderImage } from '../lib/placeholderImages';
 
@@ -20,6 +23,7 @@ interface StockDesign {
   id: string;
   title: string;
   description: string;
+  category_id: string | null;
   category: { category_name: string } | null;
   price: number;
   image_url: string;
@@ -32,6 +36,7 @@ interface Category {
 }
 
 const StockDesigns: React.FC = () => {
+  const { billingCurrency } = useCart();
   const [stockDesigns, setStockDesigns] = useState<StockDesign[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
@@ -186,7 +191,7 @@ const StockDesigns: React.FC = () => {
                     </h3>
                     <div className="text-right">
                       <span className="text-blue-600 font-bold text-xl">
-                        ${stockDesign.price.toFixed(2)}
+                        {formatPrice(convertAmount(stockDesign.price, billingCurrency.rate), billingCurrency.currency)}
                       </span>
                     </div>
                   </div>
@@ -203,9 +208,10 @@ const StockDesigns: React.FC = () => {
                     item={{
                       id: stockDesign.id,
                       title: stockDesign.title,
-                      price: `$${stockDesign.price.toFixed(2)}`,
+                      price: stockDesign.price,
                       image: getImageSrc(stockDesign.image_url, 'stock_design'),
                       apparelType: stockDesign.category?.category_name || 'Uncategorized',
+                      categoryId: stockDesign.category_id,
                     }}
                     className="w-full shadow-lg transform hover:scale-105 mt-auto"
                   />
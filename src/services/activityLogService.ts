@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import { OrderActivity } from '../admin/types';
+
+const PERSON_FIELDS = ['assigned_designer_id', 'assigned_sales_rep_id'];
+
+async function getPeopleNames(ids: string[]): Promise<Record<string, string>> {
+  if (ids.length === 0) return {};
+
+  const [{ data: customers }, { data: employees }] = await Promise.all([
+    supabase.from('customers').select('id, full_name').in('id', ids),
+    supabase.from('employees').select('id, full_name').in('id', ids),
+  ]);
+
+  const names: Record<string, string> = {};
+  [...(customers || []), ...(employees || [])].forEach(person => {
+    names[person.id] = person.full_name;
+  });
+  return names;
+}
+
+async function getCategoryNames(ids: string[]): Promise<Record<string, string>> {
+  if (ids.length === 0) return {};
+
+  const { data } = await supabase
+    .from('categories')
+    .select('id, category_name')
+    .in('id', ids);
+
+  const names: Record<string, string> = {};
+  (data || []).forEach(category => {
+    names[category.id] = category.category_name;
+  });
+  return names;
+}
+
+export const activityLogService = {
+  /**
+   * Returns the order's activity, newest first, with actor names and
+   * readable labels for designer, sales rep and category changes.
+   */
+  async getOrderActivity(orderId: string): Promise<OrderActivity[]> {
+    const { data, error } = await supabase
+      .from('order_activity')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching order activity:', error);
+      throw error;
+    }
+
+    const entries = (data || []) as OrderActivity[];
+
+    const personIds = new Set<string>();
+    const categoryIds = new Set<string>();
+    entries.forEach(entry => {
+      if (entry.actor_id) personIds.add(entry.actor_id);
+      const target = entry.field_name && PERSON_FIELDS.includes(entry.field_name)
+        ? personIds
+        : entry.field_name === 'category_id' ? categoryIds : null;
+      if (target) {
+        if (entry.old_value) target.add(entry.old_value);
+        if (entry.new_value) target.add(entry.new_value);
+      }
+    });
+
+    let people: Record<string, string> = {};
+    let categories: Record<string, string> = {};
+    try {
+      [people, categories] = await Promise.all([
+        getPeopleNames(Array.from(personIds)),
+        getCategoryNames(Array.from(categoryIds)),
+      ]);
+    } catch (err) {
+      console.error('Error resolving activity names:', err);
+    }
+
+    return entries.map(entry => {
+      const lookup = entry.field_name && PERSON_FIELDS.includes(entry.field_name)
+        ? people
+        : entry.field_name === 'category_id' ? categories : null;
+
+      return {
+        ...entry,
+        actor_name: entry.actor_id ? people[entry.actor_id] || 'Unknown User' : 'System',
+        old_label: lookup && entry.old_value ? lookup[entry.old_value] || entry.old_value : entry.old_value,
+        new_label: lookup && entry.new_value ? lookup[entry.new_value] || entry.new_value : entry.new_value,
+      };
+    });
+  }
+};
@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import { CustomerCreditEntry, CustomerCreditKind } from '../admin/types';
+import { roundCurrency } from './pricingService';
+
+export const CREDIT_ENTRY_KIND_LABELS: Record<CustomerCreditKind, string> = {
+  top_up: 'Top-up',
+  consumption: 'Applied to Invoice',
+  adjustment: 'Adjustment',
+};
+
+export interface AddCreditParams {
+  customer_id: string;
+  kind: Extract<CustomerCreditKind, 'top_up' | 'adjustment'>;
+  // Signed for adjustments; top-ups must be positive
+  amount: number;
+  currency: string;
+  reference?: string;
+  notes?: string;
+}
+
+/**
+ * Balance for one currency from ledger entries; credit in other currencies is
+ * never converted, it simply does not count.
+ */
+export function sumCreditBalance(entries: Pick<CustomerCreditEntry, 'amount' | 'currency'>[], currency: string): number {
+  return roundCurrency(entries
+    .filter(entry => entry.currency === currency.toUpperCase())
+    .reduce((sum, entry) => sum + Number(entry.amount), 0));
+}
+
+export async function fetchCustomerCreditEntries(customerId: string): Promise<CustomerCreditEntry[]> {
+  const { data, error } = await supabase
+    .from('customer_credit_entries')
+    .select('*, invoice:invoices(invoice_title)')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching account credit:', error);
+    throw new Error('Failed to load account credit');
+  }
+
+  return (data || []).map((entry: CustomerCreditEntry & { invoice?: { invoice_title: string } | null }) => ({
+    ...entry,
+    invoice_title: entry.invoice?.invoice_title || null,
+  }));
+}
+
+export async function fetchCustomerCreditBalance(customerId: string, currency: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_customer_credit_balance', {
+    p_customer_id: customerId,
+    p_currency: currency,
+  });
+
+  if (error) {
+    console.error('Error fetching account credit balance:', error);
+    throw new Error('Failed to load account credit balance');
+  }
+
+  return roundCurrency(Number(data) || 0);
+}
+
+/**
+ * Adds a top-up or manual adjustment. The database refuses entries that would
+ * leave the balance below zero.
+ */
+export async function addCustomerCredit(params: AddCreditParams): Promise<CustomerCreditEntry> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const amount = roundCurrency(params.amount);
+  if (!amount) {
+    throw new Error('Amount cannot be 0');
+  }
+  if (params.kind === 'top_up' && amount < 0) {
+    throw new Error('Top-ups must be greater than 0; use an adjustment to reduce credit');
+  }
+
+  const { data, error } = await supabase
+    .from('customer_credit_entries')
+    .insert({
+      customer_id: params.customer_id,
+      kind: params.kind,
+      amount,
+      currency: params.currency.toUpperCase(),
+      reference: params.reference?.trim() || null,
+      notes: params.notes?.trim() || null,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding account credit:', error);
+    throw new Error(error.message || 'Failed to add account credit');
+  }
+
+  return data as CustomerCreditEntry;
+}
+
+/**
+ * Pays part of an invoice from the customer's credit in the invoice currency.
+ * The consumption entry and the matching invoice payment are written together,
+ * so the invoice status follows as with any other payment.
+ */
+export async function applyCustomerCredit(invoiceId: string, amount: number): Promise<string> {
+  const { data, error } = await supabase.rpc('apply_customer_credit', {
+    p_invoice_id: invoiceId,
+    p_amount: roundCurrency(amount),
+  });
+
+  if (error) {
+    console.error('Error applying account credit:', error);
+    throw new Error(error.message || 'Failed to apply account credit');
+  }
+
+  return data as string;
+}
@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import { currencyConfig } from '../config/currency.config';
+import { InvoiceLineItem, roundCurrency } from './pricingService';
+
+export interface BillingCurrency {
+  currency: string;
+  rate: number;
+}
+
+export const BASE_CURRENCY = currencyConfig.baseCurrency;
+
+/**
+ * Currencies customers can be billed in: the base currency first, then every
+ * currency with a configured exchange rate.
+ */
+export function getBillingCurrencies(): string[] {
+  return Object.keys(currencyConfig.exchangeRates)
+    .sort((a, b) => (a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b)));
+}
+
+/**
+ * Units of `currency` per unit of the base currency. Throws for currencies
+ * without a configured rate, so nothing is ever billed at a guessed rate.
+ */
+export function getExchangeRate(currency: string): number {
+  const rate = currencyConfig.exchangeRates[currency.toUpperCase()];
+  if (!rate) {
+    throw new Error(`No exchange rate is configured for ${currency}`);
+  }
+  return rate;
+}
+
+/**
+ * The currency prices are shown in for a customer. Falls back to the base
+ * currency when theirs has no configured rate.
+ */
+export function resolveBillingCurrency(currency?: string | null): BillingCurrency {
+  const code = (currency || BASE_CURRENCY).toUpperCase();
+  const rate = currencyConfig.exchangeRates[code];
+  return rate ? { currency: code, rate } : { currency: BASE_CURRENCY, rate: 1 };
+}
+
+export function convertAmount(amount: number, rate: number): number {
+  return roundCurrency(amount * rate);
+}
+
+/**
+ * Converts base-currency line items at the given rate. Unit prices are
+ * converted, so quantity × price still adds up on gateway checkouts.
+ */
+export function convertLineItems(lines: InvoiceLineItem[], rate: number): InvoiceLineItem[] {
+  if (rate === 1) {
+    return lines;
+  }
+  return lines.map(line => ({ ...line, price: convertAmount(line.price, rate) }));
+}
+
+export async function fetchCustomerBillingCurrency(customerId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('billing_currency')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching customer billing currency:', error);
+    throw new Error('Failed to load customer billing currency');
+  }
+
+  return data?.billing_currency || BASE_CURRENCY;
+}
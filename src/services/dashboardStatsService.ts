@@ -9,15 +9,44 @@ export interface DashboardStats {
   newOrdersCount?: number;
   underReviewOrdersCount?: number;
   inProgressOrdersCount?: number;
+  slaBreachedOrders?: number;
+  lateCompletionsThisMonth?: number;
+}
+
+export interface SlaStats {
+  slaBreachedOrders: number;
+  lateCompletionsThisMonth: number;
+}
+
+/**
+ * SLA counts come from their own function so the dashboard stats function is
+ * left as it is. They fall back to zero rather than failing the dashboard.
+ */
+export async function getSlaStats(): Promise<SlaStats> {
+  const { data, error } = await supabase.rpc('calculate_sla_stats');
+
+  if (error) {
+    console.error('Error fetching SLA stats:', error);
+  }
+
+  return {
+    slaBreachedOrders: data?.slaBreachedOrders ?? 0,
+    lateCompletionsThisMonth: data?.lateCompletionsThisMonth ?? 0,
+  };
 }
 
 export async function getAdminDashboardStats(): Promise<DashboardStats> {
   try {
-    const { data, error } = await supabase.rpc('calculate_dashboard_stats');
+    const [{ data, error }, slaStats] = await Promise.all([
+      supabase.rpc('calculate_dashboard_stats'),
+      getSlaStats(),
+    ]);
 
     if (error) throw error;
 
-    return data || {
+    if (data) return { ...data, ...slaStats };
+
+    return {
       totalOrdersThisMonth: 0,
       newCustomersThisMonth: 0,
       totalRevenueThisMonth: 0,
@@ -25,6 +54,8 @@ export async function getAdminDashboardStats(): Promise<DashboardStats> {
       activeStockDesigns: 0,
       newOrdersCount: 0,
       underReviewOrdersCount: 0,
+      slaBreachedOrders: 0,
+      lateCompletionsThisMonth: 0,
     };
   } catch (error) {
     console.error('Error fetching admin stats:', error);
@@ -36,6 +67,8 @@ export async function getAdminDashboardStats(): Promise<DashboardStats> {
       activeStockDesigns: 0,
       newOrdersCount: 0,
       underReviewOrdersCount: 0,
+      slaBreachedOrders: 0,
+      lateCompletionsThisMonth: 0,
     };
   }
 }
@@ -0,0 +1,69 @@
+import { supabase } from '../lib/supabase';
+import { AdminUser, DesignerCandidate } from '../admin/types';
+import { notifyDesignerAboutAssignment } from './notificationService';
+
+export function isDesignerOutOfOffice(
+  designer: Pick<AdminUser, 'out_of_office_from' | 'out_of_office_until'>,
+  on: Date = new Date()
+): boolean {
+  if (!designer.out_of_office_from) return false;
+
+  // Out-of-office dates are whole local days, inclusive at both ends
+  const day = `${on.getFullYear()}-${String(on.getMonth() + 1).padStart(2, '0')}-${String(on.getDate()).padStart(2, '0')}`;
+  return designer.out_of_office_from <= day && (!designer.out_of_office_until || designer.out_of_office_until >= day);
+}
+
+export function canAutoAssign(candidate: DesignerCandidate): boolean {
+  return !candidate.out_of_office && candidate.auto_assign_enabled;
+}
+
+/**
+ * Short reason list shown next to a designer when choosing who gets an order,
+ * e.g. "3 open · skill match".
+ */
+export function describeDesignerCandidate(candidate: DesignerCandidate): string {
+  const reasons = [`${candidate.open_orders} open`];
+  if (candidate.is_previous_designer) reasons.push('original designer');
+  if (candidate.skill_match) reasons.push('skill match');
+  if (candidate.out_of_office) reasons.push('out of office');
+  else if (!candidate.auto_assign_enabled) reasons.push('manual only');
+  return reasons.join(' · ');
+}
+
+/**
+ * Every active designer ranked for the order, best first. Designers who
+ * cannot be auto-assigned are listed last so a rep can still pick them.
+ */
+export async function getDesignerCandidates(orderId: string): Promise<DesignerCandidate[]> {
+  const { data, error } = await supabase.rpc('get_designer_assignment_candidates', {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    console.error('Error fetching designer candidates:', error);
+    throw new Error('Failed to rank designers for this order');
+  }
+
+  return (data || []) as DesignerCandidate[];
+}
+
+/**
+ * Puts the best available designer on a custom order and lets them know.
+ * Assignment never blocks the action that triggered it, so failures are
+ * logged and the order is left for a rep to assign by hand.
+ */
+export async function autoAssignDesigner(orderId: string, orderNumber: string): Promise<string | null> {
+  const { data: designerId, error } = await supabase.rpc('auto_assign_designer', {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    console.error('Error auto-assigning designer:', error);
+    return null;
+  }
+
+  if (!designerId) return null;
+
+  await notifyDesignerAboutAssignment(designerId, orderNumber);
+  return designerId;
+}
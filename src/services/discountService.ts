@@ -0,0 +1,112 @@
+import { supabase } from '../lib/supabase';
+import { DiscountCode } from '../admin/types';
+import { formatPrice, roundCurrency } from './pricingService';
+
+export interface DiscountableItem {
+  id: string;
+  categoryId?: string | null;
+  price: number;
+}
+
+export interface DiscountResult {
+  code: DiscountCode;
+  subtotal: number;
+  discountAmount: number;
+  // Amount taken off each eligible item, keyed by item id
+  itemDiscounts: Record<string, number>;
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function formatDiscountValue(code: Pick<DiscountCode, 'discount_type' | 'discount_value'>): string {
+  return code.discount_type === 'percentage'
+    ? `${parseFloat(Number(code.discount_value).toFixed(2))}%`
+    : formatPrice(Number(code.discount_value));
+}
+
+function isEligible(code: DiscountCode, item: DiscountableItem): boolean {
+  if (code.stock_design_id && code.stock_design_id !== item.id) {
+    return false;
+  }
+  if (code.category_id && code.category_id !== item.categoryId) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Works out what a code takes off each item. Percentages apply per item; a
+ * fixed amount is capped at the eligible subtotal and split across the eligible
+ * items by price, with the rounding remainder on the last one so the parts add
+ * up to the whole. Throws when the cart does not qualify.
+ */
+export function calculateDiscount(code: DiscountCode, items: DiscountableItem[]): DiscountResult {
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.price, 0));
+  if (subtotal < Number(code.minimum_spend)) {
+    throw new Error(`Spend at least ${formatPrice(Number(code.minimum_spend))} to use this discount code`);
+  }
+
+  const eligible = items.filter(item => isEligible(code, item) && item.price > 0);
+  if (eligible.length === 0) {
+    throw new Error('This discount code does not apply to any item in your cart');
+  }
+
+  const itemDiscounts: Record<string, number> = {};
+  const value = Number(code.discount_value);
+
+  if (code.discount_type === 'percentage') {
+    eligible.forEach(item => {
+      itemDiscounts[item.id] = roundCurrency(item.price * Math.min(value, 100) / 100);
+    });
+  } else {
+    const eligibleSubtotal = roundCurrency(eligible.reduce((sum, item) => sum + item.price, 0));
+    const totalDiscount = roundCurrency(Math.min(value, eligibleSubtotal));
+    let allocated = 0;
+    eligible.forEach((item, index) => {
+      const share = index === eligible.length - 1
+        ? roundCurrency(totalDiscount - allocated)
+        : roundCurrency(totalDiscount * item.price / eligibleSubtotal);
+      itemDiscounts[item.id] = Math.min(share, item.price);
+      allocated = roundCurrency(allocated + itemDiscounts[item.id]);
+    });
+  }
+
+  const discountAmount = roundCurrency(Object.values(itemDiscounts).reduce((sum, amount) => sum + amount, 0));
+
+  return { code, subtotal, discountAmount, itemDiscounts };
+}
+
+/**
+ * Looks up a code for the signed-in customer. The database raises the reason a
+ * code cannot be used (expired, used up, ...), which is passed on as is.
+ */
+export async function fetchDiscountCode(code: string): Promise<DiscountCode> {
+  const { data, error } = await supabase.rpc('get_discount_code', { p_code: normalizeDiscountCode(code) });
+
+  if (error) {
+    console.error('Error fetching discount code:', error);
+    throw new Error(error.message || 'Failed to check discount code');
+  }
+
+  return data as DiscountCode;
+}
+
+/**
+ * Records the use of a code for the orders a checkout created. Limits are
+ * checked again with the code locked; deleting the orders gives the use back.
+ */
+export async function redeemDiscountCode(code: string, orderIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_discount_code', {
+    p_code: normalizeDiscountCode(code),
+    p_order_ids: orderIds,
+  });
+
+  if (error) {
+    console.error('Error redeeming discount code:', error);
+    throw new Error(error.message || 'Failed to apply discount code');
+  }
+
+  return data as string;
+}
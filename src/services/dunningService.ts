@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import { DunningStep, InvoiceReminder } from '../admin/types';
+import { autoAssignDesigner } from './designerAssignmentService';
+
+export type DunningStepInput = Pick<DunningStep, 'days_after' | 'escalate_to_sales_rep' | 'hold_customer' | 'is_active'>;
+
+export interface ReminderRunResult {
+  invoiceId: string;
+  daysAfter: number;
+  emailed: boolean;
+  escalatedTo: string | null;
+  customerHeld: boolean;
+}
+
+export async function fetchDunningSteps(): Promise<DunningStep[]> {
+  const { data, error } = await supabase
+    .from('dunning_steps')
+    .select('*')
+    .order('days_after', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching reminder schedule:', error);
+    throw new Error('Failed to load reminder schedule');
+  }
+
+  return data || [];
+}
+
+export async function saveDunningStep(step: DunningStepInput, id?: string): Promise<DunningStep> {
+  if (!Number.isInteger(step.days_after) || step.days_after <= 0) {
+    throw new Error('Days after must be a whole number greater than 0');
+  }
+
+  const query = id
+    ? supabase.from('dunning_steps').update({ ...step, updated_at: new Date().toISOString() }).eq('id', id)
+    : supabase.from('dunning_steps').insert(step);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving reminder step:', error);
+    if (error.code === '23505') {
+      throw new Error(`There is already a reminder ${step.days_after} days after the invoice`);
+    }
+    throw new Error('Failed to save reminder step');
+  }
+
+  return data as DunningStep;
+}
+
+export async function deleteDunningStep(id: string): Promise<void> {
+  const { error } = await supabase.from('dunning_steps').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting reminder step:', error);
+    throw new Error('Failed to delete reminder step');
+  }
+}
+
+/**
+ * Runs the reminder job now instead of waiting for the daily schedule. Steps
+ * already sent are never sent again, so this is safe to repeat.
+ */
+export async function sendDueInvoiceReminders(): Promise<ReminderRunResult[]> {
+  const { data, error } = await supabase.functions.invoke('send-invoice-reminders', { body: {} });
+
+  if (error || !data) {
+    console.error('Error sending invoice reminders:', error || data);
+    throw new Error(`Failed to send invoice reminders: ${error?.message || data?.error || 'Unknown error'}`);
+  }
+
+  return data.sent || [];
+}
+
+export async function fetchInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]> {
+  const { data, error } = await supabase
+    .from('invoice_reminders')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching invoice reminders:', error);
+    throw new Error('Failed to load invoice reminders');
+  }
+
+  return data || [];
+}
+
+export async function setInvoiceDunningPaused(invoiceId: string, paused: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ dunning_paused: paused })
+    .eq('id', invoiceId);
+
+  if (error) {
+    console.error('Error updating invoice reminders:', error);
+    throw new Error(paused ? 'Failed to pause reminders' : 'Failed to resume reminders');
+  }
+}
+
+/**
+ * Lets work start on an order placed while its customer was on hold. The
+ * database records who approved it and refuses anyone but an admin. Held
+ * orders skip automatic designer assignment, so it runs here instead.
+ */
+export async function approveHeldOrder(orderId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('orders')
+    .update({ requires_approval: false })
+    .eq('id', orderId)
+    .select('order_number')
+    .single();
+
+  if (error) {
+    console.error('Error approving order:', error);
+    throw new Error(error.message || 'Failed to approve order');
+  }
+
+  await autoAssignDesigner(orderId, data.order_number);
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { transitionOrderStatus, validateOrderStatusTransition } from './orderStatusService';
+import { autoAssignDesigner } from './designerAssignmentService';
 
 export interface EditRequest {
   id: string;
@@ -35,7 +37,7 @@ export const editRequestService = {
 
     const { data: order, error: orderFetchError } = await supabase
       .from('orders')
-      .select('status, edits')
+      .select('status, edits, order_number')
       .eq('id', data.order_id)
       .maybeSingle();
 
@@ -51,6 +53,9 @@ export const editRequestService = {
       throw new Error('Edit requests are only allowed for completed orders');
     }
 
+    // Check the reopen before anything is written, so a refused one leaves no request behind
+    validateOrderStatusTransition(order.status, 'new', 'customer');
+
     const { data: editRequest, error: insertError } = await supabase
       .from('edit_comments')
       .insert({
@@ -65,18 +70,20 @@ export const editRequestService = {
     if (insertError) throw insertError;
 
     const currentEdits = order.edits || 0;
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({
-        status: 'new',
-        edits: currentEdits + 1
-      })
-      .eq('id', data.order_id);
-
-    if (updateError) {
-      console.error('Error updating order status and edits:', updateError);
-      throw new Error('Failed to update order status');
+    try {
+      await transitionOrderStatus(data.order_id, 'new', { edits: currentEdits + 1 });
+    } catch (transitionError) {
+      const { error: rollbackError } = await supabase
+        .from('edit_comments')
+        .delete()
+        .eq('id', editRequest.id);
+
+      if (rollbackError) {
+        console.error('Error removing edit request after failed reopen:', rollbackError);
+      }
+      throw transitionError;
     }
+    await autoAssignDesigner(data.order_id, order.order_number);
 
     const { error: commentError } = await supabase
       .from('edit_comments')
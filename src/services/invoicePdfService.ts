@@ -0,0 +1,373 @@
+import { supabase } from '../lib/supabase';
+import { AdminOrder, Invoice, InvoiceCreditNote, InvoicePayment } from '../admin/types';
+import { getInvoiceById, getOrdersByIds } from '../admin/api/supabaseHelpers';
+import { businessConfig } from '../config/business.config';
+import { sanitizeFilename } from '../shared/utils/fileUtils';
+import { STORAGE_BUCKETS } from '../shared/config/storageConfig';
+import { buildInvoiceLineItem, formatPrice, roundCurrency } from './pricingService';
+import { getTaxLabel } from './taxService';
+import { convertLineItems } from './currencyService';
+import {
+  CREDIT_NOTE_KIND_LABELS,
+  fetchInvoiceCreditNotes,
+  fetchInvoicePayments,
+  getInvoiceBalance,
+  PAYMENT_METHOD_LABELS,
+} from './paymentService';
+import {
+  PdfColor,
+  PdfDocument,
+  PdfPage,
+  addLink,
+  addPdfPage,
+  createPdfDocument,
+  drawLine,
+  drawText,
+  fillRect,
+  renderPdf,
+  wrapText,
+} from '../lib/pdfWriter';
+
+export interface InvoicePdfData {
+  invoice: Invoice;
+  orders: AdminOrder[];
+  payments: InvoicePayment[];
+  creditNotes: InvoiceCreditNote[];
+}
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 60;
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+const MUTED_COLOR: PdfColor = [0.42, 0.45, 0.5];
+const ACCENT_COLOR: PdfColor = [0.15, 0.39, 0.92];
+const HEADER_FILL: PdfColor = [0.95, 0.96, 0.97];
+
+// Right edges of the numeric columns in the line item table
+const QTY_RIGHT = 390;
+const UNIT_RIGHT = 475;
+const AMOUNT_RIGHT = 562;
+const DESCRIPTION_WIDTH = 290;
+
+const STATUS_COLORS: Record<Invoice['status'], PdfColor> = {
+  draft: [0.42, 0.45, 0.5],
+  paid: [0.09, 0.5, 0.24],
+  partially_paid: [0.15, 0.39, 0.92],
+  unpaid: [0.8, 0.45, 0.05],
+  refunded: [0.49, 0.23, 0.93],
+  charged_back: [0.92, 0.35, 0.05],
+  cancelled: [0.86, 0.15, 0.15],
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatStatus = (status: string) =>
+  status.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * The standard PDF fonts only cover ASCII, so currencies whose symbol falls
+ * outside it (e.g. "£", "€") are written with their code instead.
+ */
+export function formatPdfPrice(amount: number, currency?: string): string {
+  const asAscii = (value: string) => value.replace(/[\u00a0\u202f]/g, ' ');
+  const formatted = asAscii(formatPrice(amount, currency));
+  return /^[\x20-\x7e]*$/.test(formatted) ? formatted : asAscii(formatPrice(amount, currency, 'code'));
+}
+
+export function getInvoiceNumber(invoice: Pick<Invoice, 'id'>): string {
+  return `INV-${invoice.id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
+
+export function getInvoicePdfPath(invoice: Pick<Invoice, 'id' | 'customer_id'>): string {
+  return `${invoice.customer_id}/${invoice.id}.pdf`;
+}
+
+export function getInvoicePdfFilename(invoice: Pick<Invoice, 'id' | 'invoice_title'>): string {
+  return sanitizeFilename(`${getInvoiceNumber(invoice)} ${invoice.invoice_title}.pdf`);
+}
+
+function drawPageHeader(page: PdfPage, doc: PdfDocument, data: InvoicePdfData): number {
+  const { invoice } = data;
+  const right = doc.width - MARGIN;
+  let y = doc.height - MARGIN - 10;
+
+  drawText(page, businessConfig.businessName, MARGIN, y, { size: 18, bold: true, color: ACCENT_COLOR });
+  drawText(page, 'INVOICE', right, y, { size: 20, bold: true, color: TEXT_COLOR, align: 'right' });
+
+  y -= 16;
+  drawText(page, businessConfig.tagline, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, getInvoiceNumber(invoice), right, y, { size: 10, bold: true, color: TEXT_COLOR, align: 'right' });
+
+  y -= 13;
+  drawText(page, businessConfig.contact.address, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, `Issued ${formatDate(invoice.created_at)}`, right, y, { size: 9, color: MUTED_COLOR, align: 'right' });
+
+  y -= 12;
+  drawText(page, `${businessConfig.contact.email}  |  ${businessConfig.contact.phone}`, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, `Period ${invoice.month_year}`, right, y, { size: 9, color: MUTED_COLOR, align: 'right' });
+
+  y -= 14;
+  drawLine(page, MARGIN, y, right, y);
+  return y - 22;
+}
+
+function drawTableHeader(page: PdfPage, y: number, right: number): number {
+  fillRect(page, MARGIN, y - 6, right - MARGIN, 20, HEADER_FILL);
+  const style = { size: 9, bold: true, color: MUTED_COLOR };
+  drawText(page, 'DESCRIPTION', MARGIN + 8, y, style);
+  drawText(page, 'QTY', QTY_RIGHT, y, { ...style, align: 'right' });
+  drawText(page, 'UNIT PRICE', UNIT_RIGHT, y, { ...style, align: 'right' });
+  drawText(page, 'AMOUNT', AMOUNT_RIGHT - 8, y, { ...style, align: 'right' });
+  return y - 24;
+}
+
+function drawFooters(doc: PdfDocument): void {
+  const right = doc.width - MARGIN;
+  doc.pages.forEach((page, index) => {
+    const y = MARGIN - 10;
+    drawLine(page, MARGIN, y + 16, right, y + 16);
+    drawText(page, `Thank you for your business. Questions? ${businessConfig.contact.email}`, MARGIN, y, { size: 8, color: MUTED_COLOR });
+    drawText(page, `Page ${index + 1} of ${doc.pages.length}`, right, y, { size: 8, color: MUTED_COLOR, align: 'right' });
+  });
+}
+
+/**
+ * Lays out the invoice: business header, bill-to block, one line per order,
+ * totals, the payment ledger and, while a balance remains, the pay link.
+ */
+export function buildInvoicePdf(data: InvoicePdfData): Blob {
+  const { invoice, orders, payments, creditNotes } = data;
+  const doc = createPdfDocument();
+  const right = doc.width - MARGIN;
+
+  let page = addPdfPage(doc);
+  let y = drawPageHeader(page, doc, data);
+
+  const ensureSpace = (needed: number, repeatTableHeader = false) => {
+    if (y - needed >= MARGIN + FOOTER_HEIGHT) return;
+    page = addPdfPage(doc);
+    y = drawPageHeader(page, doc, data);
+    if (repeatTableHeader) y = drawTableHeader(page, y, right);
+  };
+
+  // Bill to and status
+  drawText(page, 'BILL TO', MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+  drawText(page, 'STATUS', right, y, { size: 8, bold: true, color: MUTED_COLOR, align: 'right' });
+  y -= 14;
+  drawText(page, invoice.customer_name || 'Customer', MARGIN, y, { size: 11, bold: true, color: TEXT_COLOR });
+  drawText(page, formatStatus(invoice.status).toUpperCase(), right, y, {
+    size: 11,
+    bold: true,
+    color: STATUS_COLORS[invoice.status] || TEXT_COLOR,
+    align: 'right',
+  });
+  [invoice.customer_company_name, invoice.customer_email].filter(Boolean).forEach(line => {
+    y -= 13;
+    drawText(page, line as string, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  });
+  y -= 14;
+  drawText(page, invoice.invoice_title, MARGIN, y, { size: 10, color: TEXT_COLOR });
+  y -= 28;
+
+  // Line items
+  y = drawTableHeader(page, y, right);
+
+  let subtotal = 0;
+  orders.forEach(order => {
+    // Orders are priced in the base currency; the invoice keeps its own rate
+    const item = convertLineItems([buildInvoiceLineItem(order)], invoice.exchange_rate || 1)[0];
+    const amount = roundCurrency(item.price * item.quantity);
+    subtotal += amount;
+
+    const nameLines = wrapText(item.name, DESCRIPTION_WIDTH, 10);
+    const details = [`Order #${order.order_number}`, order.category_name, order.stock_design_title]
+      .filter(Boolean)
+      .join('  |  ');
+    ensureSpace(nameLines.length * 13 + 22, true);
+
+    drawText(page, item.quantity.toString(), QTY_RIGHT, y, { size: 10, color: TEXT_COLOR, align: 'right' });
+    drawText(page, formatPdfPrice(item.price, invoice.currency), UNIT_RIGHT, y, { size: 10, color: TEXT_COLOR, align: 'right' });
+    drawText(page, formatPdfPrice(amount, invoice.currency), AMOUNT_RIGHT - 8, y, { size: 10, color: TEXT_COLOR, align: 'right' });
+    nameLines.forEach(line => {
+      drawText(page, line, MARGIN + 8, y, { size: 10, color: TEXT_COLOR });
+      y -= 13;
+    });
+    drawText(page, details, MARGIN + 8, y, { size: 8, color: MUTED_COLOR });
+    y -= 10;
+    drawLine(page, MARGIN, y, right, y, [0.9, 0.9, 0.9], 0.5);
+    y -= 16;
+  });
+
+  // Totals. The subtotal and tax stored when the invoice was issued are what
+  // the gateways charged, so they win over the current order amounts.
+  const total = roundCurrency(invoice.total_amount);
+  subtotal = roundCurrency(invoice.subtotal ?? subtotal);
+  const tax = Math.max(0, roundCurrency(invoice.tax_amount ?? total - subtotal));
+  const { amountPaid, amountCredited, amountChargedBack, balanceDue } = getInvoiceBalance(total, payments, creditNotes);
+
+  const totalRows: Array<[string, string, boolean]> = [
+    ['Subtotal', formatPdfPrice(subtotal, invoice.currency), false],
+    [getTaxLabel(invoice.tax_rate || 0), formatPdfPrice(tax, invoice.currency), false],
+    ['Total', formatPdfPrice(total, invoice.currency), true],
+    ...(amountCredited > 0 ? [['Refunded', `-${formatPdfPrice(amountCredited, invoice.currency)}`, false] as [string, string, boolean]] : []),
+    ...(amountChargedBack > 0 ? [['Charged Back', formatPdfPrice(amountChargedBack, invoice.currency), false] as [string, string, boolean]] : []),
+    ['Paid', formatPdfPrice(amountPaid, invoice.currency), false],
+    ['Balance Due', formatPdfPrice(balanceDue, invoice.currency), true],
+  ];
+
+  ensureSpace(totalRows.length * 18 + 10);
+  totalRows.forEach(([label, value, bold]) => {
+    drawText(page, label, UNIT_RIGHT, y, { size: 10, bold, color: bold ? TEXT_COLOR : MUTED_COLOR, align: 'right' });
+    drawText(page, value, AMOUNT_RIGHT - 8, y, { size: 10, bold, color: TEXT_COLOR, align: 'right' });
+    y -= 18;
+  });
+  y -= 10;
+
+  // Payments received
+  if (payments.length > 0) {
+    ensureSpace(40);
+    drawText(page, 'PAYMENTS RECEIVED', MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+    y -= 16;
+
+    payments.forEach(payment => {
+      ensureSpace(16);
+      const method = PAYMENT_METHOD_LABELS[payment.method] || payment.method;
+      drawText(page, formatDate(payment.paid_at), MARGIN, y, { size: 9, color: TEXT_COLOR });
+      drawText(page, payment.reference ? `${method} (${payment.reference})` : method, MARGIN + 90, y, { size: 9, color: TEXT_COLOR });
+      drawText(page, formatPdfPrice(Number(payment.amount), invoice.currency), AMOUNT_RIGHT - 8, y, { size: 9, color: TEXT_COLOR, align: 'right' });
+      y -= 14;
+    });
+    y -= 10;
+  }
+
+  // Credit notes
+  if (creditNotes.length > 0) {
+    ensureSpace(40);
+    drawText(page, 'CREDIT NOTES', MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+    y -= 16;
+
+    creditNotes.forEach(note => {
+      ensureSpace(16);
+      const method = PAYMENT_METHOD_LABELS[note.method] || note.method;
+      const label = `${CREDIT_NOTE_KIND_LABELS[note.kind]} via ${method}${note.reference ? ` (${note.reference})` : ''}`;
+      drawText(page, formatDate(note.issued_at), MARGIN, y, { size: 9, color: TEXT_COLOR });
+      drawText(page, label, MARGIN + 90, y, { size: 9, color: TEXT_COLOR });
+      drawText(page, `-${formatPdfPrice(Number(note.amount), invoice.currency)}`, AMOUNT_RIGHT - 8, y, { size: 9, color: TEXT_COLOR, align: 'right' });
+      y -= 14;
+    });
+    y -= 10;
+  }
+
+  // Pay link while money is still owed
+  if (invoice.payment_link && balanceDue > 0 && invoice.status !== 'cancelled') {
+    const linkLines = wrapText(invoice.payment_link, right - MARGIN, 8);
+    ensureSpace(linkLines.length * 11 + 30);
+
+    drawText(page, 'PAY ONLINE', MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+    y -= 15;
+    drawText(page, `Pay the balance of ${formatPdfPrice(balanceDue, invoice.currency)} securely online:`, MARGIN, y, { size: 10, color: TEXT_COLOR });
+    y -= 13;
+
+    const linkTop = y + 9;
+    linkLines.forEach(line => {
+      drawText(page, line, MARGIN, y, { size: 8, color: ACCENT_COLOR });
+      y -= 11;
+    });
+    addLink(page, MARGIN, y + 8, right - MARGIN, linkTop - (y + 8), invoice.payment_link);
+  }
+
+  drawFooters(doc);
+  return renderPdf(doc);
+}
+
+export async function loadInvoicePdfData(invoiceId: string): Promise<InvoicePdfData> {
+  const invoice = await getInvoiceById(invoiceId);
+  const [orders, payments, creditNotes] = await Promise.all([
+    getOrdersByIds(invoice.order_ids || []),
+    fetchInvoicePayments(invoice.id),
+    fetchInvoiceCreditNotes(invoice.id),
+  ]);
+
+  return {
+    invoice,
+    orders: [...orders].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    payments,
+    creditNotes,
+  };
+}
+
+/**
+ * Uploads the PDF to storage and points the invoice's orders at it through
+ * `invoice_url`. Returns the storage path.
+ */
+export async function storeInvoicePdf(invoice: Invoice, pdf: Blob): Promise<string> {
+  const path = getInvoicePdfPath(invoice);
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKETS.INVOICE_PDFS)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    console.error('Error uploading invoice PDF:', uploadError);
+    throw new Error('Failed to store invoice PDF');
+  }
+
+  if (invoice.order_ids && invoice.order_ids.length > 0) {
+    const { error: ordersError } = await supabase
+      .from('orders')
+      .update({ invoice_url: path })
+      .in('id', invoice.order_ids);
+
+    if (ordersError) {
+      console.error('Error linking invoice PDF to orders:', ordersError);
+      throw new Error('Failed to link invoice PDF to orders');
+    }
+  }
+
+  return path;
+}
+
+export async function getInvoicePdfUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.INVOICE_PDFS)
+    .createSignedUrl(path, 60 * 60);
+
+  if (error || !data) {
+    console.error('Error creating invoice PDF URL:', error);
+    throw new Error('Failed to get invoice PDF link');
+  }
+
+  return data.signedUrl;
+}
+
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Renders the invoice as it stands now and saves it in the browser. With
+ * `store`, the fresh copy also replaces the stored PDF the orders link to.
+ */
+export async function downloadInvoicePdf(invoiceId: string, options: { store?: boolean } = {}): Promise<void> {
+  const data = await loadInvoicePdfData(invoiceId);
+  const pdf = buildInvoicePdf(data);
+
+  if (options.store) {
+    try {
+      await storeInvoicePdf(data.invoice, pdf);
+    } catch (error) {
+      // The download itself should not fail because the stored copy could not be refreshed
+      console.error('Error storing invoice PDF:', error);
+    }
+  }
+
+  saveBlob(pdf, getInvoicePdfFilename(data.invoice));
+}
@@ -1,4 +1,10 @@
 import { supabase } from '../lib/supabase';
+import { getActiveGateway, PaymentGatewayId } from '../config/payment.config';
+import { getInvoiceById, getOrdersByIds } from '../admin/api/supabaseHelpers';
+import { buildInvoiceLineItem, roundCurrency } from './pricingService';
+import { calculateTax, fetchCustomerTaxProfile, withTaxLineItem } from './taxService';
+import { BASE_CURRENCY, convertLineItems, fetchCustomerBillingCurrency, getExchangeRate } from './currencyService';
+import { applyCustomerCredit, fetchCustomerCreditBalance } from './creditService';
 
 export interface CreateInvoiceParams {
   customer_id: string;
@@ -8,14 +14,237 @@ export interface CreateInvoiceParams {
   total_amount: number;
 }
 
-export interface CreateInvoiceWithPaymentParams extends CreateInvoiceParams {
+/**
+ * Products are priced in the base currency. The total is not passed in: it is
+ * the products in the customer's billing currency plus the tax due for their region.
+ */
+export interface CreateInvoiceWithPaymentParams extends Omit<CreateInvoiceParams, 'total_amount'> {
   customerEmail: string;
   customerName: string;
-  products: Array<{
-    name: string;
-    price: number;
-    quantity: number;
-  }>;
+  products: PaymentLinkProduct[];
+  // Settle what the customer's account credit covers before charging the rest
+  useCredit?: boolean;
+}
+
+export interface PaymentLinkProduct {
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PaymentLinkResult {
+  checkoutUrl: string;
+  gateway: PaymentGatewayId;
+  sessionId: string | null;
+}
+
+/**
+ * Creates a checkout link for an invoice through the active payment gateway
+ * and stores it on the invoice.
+ */
+export async function createPaymentLink(
+  invoiceId: string,
+  products: PaymentLinkProduct[],
+  returnUrl: string,
+  cancelUrl: string,
+  currency: string = BASE_CURRENCY
+): Promise<PaymentLinkResult> {
+  const gateway = getActiveGateway();
+
+  const { data: paymentData, error: paymentError } = await supabase.functions.invoke(
+    'create-payment-link',
+    {
+      body: {
+        invoiceId,
+        products,
+        returnUrl,
+        cancelUrl,
+        currency,
+        gateway: gateway.id,
+      },
+    }
+  );
+
+  if (paymentError) {
+    console.error('Payment URL generation error:', paymentError);
+    throw new Error(`Failed to generate payment URL: ${paymentError.message}`);
+  }
+
+  if (!paymentData || !paymentData.checkoutUrl) {
+    throw new Error('Invalid response from payment URL generator');
+  }
+
+  const { error: updateError } = await supabase
+    .from('invoices')
+    .update({
+      payment_link: paymentData.checkoutUrl,
+      payment_gateway: gateway.id,
+      gateway_session_id: paymentData.sessionId || null,
+    })
+    .eq('id', invoiceId);
+
+  if (updateError) {
+    console.error('Failed to update invoice with payment link:', updateError);
+    throw new Error('Failed to update invoice with payment link');
+  }
+
+  return {
+    checkoutUrl: paymentData.checkoutUrl,
+    gateway: gateway.id,
+    sessionId: paymentData.sessionId || null,
+  };
+}
+
+/**
+ * Captures a PayPal order the buyer approved and returns the invoice it pays.
+ * Safe to call again for an order that was already captured.
+ */
+export async function capturePayPalOrder(orderId: string): Promise<{ invoiceId: string; status: 'completed' | 'pending' | 'already_recorded' }> {
+  const { data, error } = await supabase.functions.invoke('capture-paypal-order', {
+    body: { orderId },
+  });
+
+  if (error || !data?.invoiceId) {
+    console.error('PayPal capture error:', error || data);
+    throw new Error(`Failed to capture PayPal payment: ${error?.message || data?.error || 'Unknown error'}`);
+  }
+
+  return data;
+}
+
+export interface IssuedInvoice {
+  // Null when account credit paid the whole invoice
+  paymentLink: string | null;
+  creditApplied: number;
+}
+
+interface InvoicePricing {
+  currency: string;
+  lines: PaymentLinkProduct[];
+  columns: {
+    currency: string;
+    exchange_rate: number;
+    subtotal: number;
+    tax_amount: number;
+    tax_rate: number;
+    tax_region: string | null;
+    total_amount: number;
+  };
+}
+
+/**
+ * Converts base-currency products into the customer's billing currency at
+ * today's rate and adds the tax due for their region. `lines` include the tax
+ * line and are what the gateway charges.
+ */
+async function priceInvoice(customerId: string, products: PaymentLinkProduct[]): Promise<InvoicePricing> {
+  const [currency, taxProfile] = await Promise.all([
+    fetchCustomerBillingCurrency(customerId),
+    fetchCustomerTaxProfile(customerId),
+  ]);
+  const exchangeRate = getExchangeRate(currency);
+  const lines = convertLineItems(products, exchangeRate);
+  const tax = calculateTax(lines, taxProfile);
+
+  return {
+    currency,
+    lines: withTaxLineItem(lines, tax),
+    columns: {
+      currency,
+      exchange_rate: exchangeRate,
+      subtotal: tax.subtotal,
+      tax_amount: tax.taxAmount,
+      tax_rate: tax.rate,
+      tax_region: tax.region,
+      total_amount: tax.total,
+    },
+  };
+}
+
+/**
+ * Creates the payment link for a freshly issued invoice, tells the customer,
+ * moves its orders to pending payment and stores the PDF. With `useCredit` the
+ * customer's account credit pays what it can first and the link only charges
+ * the remainder. Callers undo the invoice itself when this throws.
+ */
+async function issueInvoice(
+  invoiceId: string,
+  customerId: string,
+  invoiceTitle: string,
+  orderIds: string[],
+  pricing: InvoicePricing,
+  useCredit = false
+): Promise<IssuedInvoice> {
+  const baseUrl = window.location.origin;
+  // PayPal orders are captured when the buyer lands back on the success page
+  const returnUrl = `${baseUrl}/payment/success`;
+  const cancelUrl = `${baseUrl}/payment/failure`;
+
+  const total = pricing.columns.total_amount;
+  const creditApplied = useCredit
+    ? roundCurrency(Math.min(await fetchCustomerCreditBalance(customerId, pricing.currency), total))
+    : 0;
+  const remaining = roundCurrency(total - creditApplied);
+
+  let paymentLink: string | null = null;
+  if (remaining > 0) {
+    const lines = creditApplied > 0
+      ? [{ name: `${invoiceTitle} (balance after account credit)`, price: remaining, quantity: 1 }]
+      : pricing.lines;
+    ({ checkoutUrl: paymentLink } = await createPaymentLink(invoiceId, lines, returnUrl, cancelUrl, pricing.currency));
+  }
+
+  try {
+    const { notifyAboutInvoiceCreation } = await import('./notificationService');
+    await notifyAboutInvoiceCreation(customerId, invoiceTitle);
+  } catch (notificationError) {
+    console.error('Error creating invoice notifications:', notificationError);
+  }
+
+  const { error: ordersError } = await supabase
+    .from('orders')
+    .update({
+      invoice_id: invoiceId,
+      payment_status: 'pending_payment'
+    })
+    .in('id', orderIds);
+
+  if (ordersError) {
+    console.error('Orders update error:', ordersError);
+    throw new Error(`Failed to link orders to invoice: ${ordersError.message}`);
+  }
+
+  // Applied once the orders are linked, so the payment moves them on from pending_payment
+  if (creditApplied > 0) {
+    try {
+      await applyCustomerCredit(invoiceId, creditApplied);
+    } catch (creditError) {
+      await supabase
+        .from('orders')
+        .update({ invoice_id: null, payment_status: 'unpaid' })
+        .in('id', orderIds);
+      throw creditError;
+    }
+
+    if (remaining <= 0) {
+      try {
+        const { notifyAboutInvoiceStatusChange } = await import('./notificationService');
+        await notifyAboutInvoiceStatusChange(customerId, invoiceTitle, 'paid');
+      } catch (notificationError) {
+        console.error('Error creating invoice notifications:', notificationError);
+      }
+    }
+  }
+
+  try {
+    const { buildInvoicePdf, loadInvoicePdfData, storeInvoicePdf } = await import('./invoicePdfService');
+    const pdfData = await loadInvoicePdfData(invoiceId);
+    await storeInvoicePdf(pdfData.invoice, buildInvoicePdf(pdfData));
+  } catch (pdfError) {
+    console.error('Error storing invoice PDF:', pdfError);
+  }
+
+  return { paymentLink, creditApplied };
 }
 
 export async function createInvoiceWithPayment(params: CreateInvoiceWithPaymentParams) {
@@ -24,19 +253,15 @@ export async function createInvoiceWithPayment(params: CreateInvoiceWithPaymentP
     invoice_title,
     month_year,
     order_ids,
-    total_amount,
-    customerEmail,
-    customerName,
-    products
+    products,
+    useCredit
   } = params;
 
   if (!products || products.length === 0) {
     throw new Error('At least one product is required for payment');
   }
 
-  const baseUrl = window.location.origin;
-  const returnUrl = `${baseUrl}/customer-dashboard`;
-  const cancelUrl = `${baseUrl}/customer-dashboard`;
+  const pricing = await priceInvoice(customer_id, products);
 
   const { data: invoice, error: invoiceError } = await supabase
     .from('invoices')
@@ -45,7 +270,7 @@ export async function createInvoiceWithPayment(params: CreateInvoiceWithPaymentP
       invoice_title,
       month_year,
       order_ids,
-      total_amount,
+      ...pricing.columns,
       status: 'unpaid',
     })
     .select()
@@ -57,69 +282,81 @@ export async function createInvoiceWithPayment(params: CreateInvoiceWithPaymentP
   }
 
   try {
-    const { data: paymentData, error: paymentError } = await supabase.functions.invoke(
-      'generate-2co-payment-url',
-      {
-        body: {
-          invoiceId: invoice.id,
-          products,
-          returnUrl,
-          cancelUrl,
-          currency: 'USD',
-        },
-      }
-    );
+    const issued = await issueInvoice(invoice.id, customer_id, invoice_title, order_ids, pricing, useCredit);
+    return { invoice, ...issued };
+  } catch (error) {
+    console.error('Error during invoice payment setup:', error);
 
-    if (paymentError) {
-      console.error('Payment URL generation error:', paymentError);
-      throw new Error(`Failed to generate payment URL: ${paymentError.message}`);
-    }
+    await supabase
+      .from('invoices')
+      .delete()
+      .eq('id', invoice.id);
 
-    if (!paymentData || !paymentData.checkoutUrl) {
-      throw new Error('Invalid response from payment URL generator');
-    }
+    throw error;
+  }
+}
 
-    const paymentLink = paymentData.checkoutUrl;
+/**
+ * Issues a draft from the monthly invoice run. Orders that were invoiced or
+ * paid since the draft was generated are dropped and the total is recalculated
+ * from the remaining orders, in the customer's currency and with tax, before
+ * the payment link is created.
+ */
+export async function approveDraftInvoice(invoiceId: string) {
+  const invoice = await getInvoiceById(invoiceId);
 
-    const { error: updateError } = await supabase
-      .from('invoices')
-      .update({ payment_link: paymentLink })
-      .eq('id', invoice.id);
+  if (invoice.status !== 'draft') {
+    throw new Error('Only draft invoices can be approved');
+  }
 
-    if (updateError) {
-      console.error('Failed to update invoice with payment link:', updateError);
-      throw new Error('Failed to update invoice with payment link');
-    }
+  const { data: billable, error: billableError } = await supabase
+    .from('orders')
+    .select('id')
+    .in('id', invoice.order_ids || [])
+    .eq('payment_status', 'unpaid')
+    .is('invoice_id', null);
 
-    try {
-      const { notifyAboutInvoiceCreation } = await import('./notificationService');
-      await notifyAboutInvoiceCreation(customer_id, invoice_title);
-    } catch (notificationError) {
-      console.error('Error creating invoice notifications:', notificationError);
-    }
+  if (billableError) {
+    console.error('Error checking draft orders:', billableError);
+    throw new Error('Failed to load the orders on this draft');
+  }
 
-    const { data: updatedOrders, error: ordersError } = await supabase
-      .from('orders')
-      .update({
-        invoice_id: invoice.id,
-        payment_status: 'pending_payment'
-      })
-      .in('id', order_ids)
-      .select();
-
-    if (ordersError) {
-      console.error('Orders update error:', ordersError);
-      throw new Error(`Failed to link orders to invoice: ${ordersError.message}`);
-    }
+  const orders = await getOrdersByIds((billable || []).map(order => order.id));
+  if (orders.length === 0) {
+    throw new Error('None of the orders on this draft are still awaiting an invoice');
+  }
+
+  const orderIds = orders.map(order => order.id);
+  const pricing = await priceInvoice(invoice.customer_id, orders.map(buildInvoiceLineItem));
 
-    return { invoice, paymentLink };
+  // The status guard keeps two admins from approving the same draft twice
+  const { data: approved, error: approveError } = await supabase
+    .from('invoices')
+    .update({
+      order_ids: orderIds,
+      ...pricing.columns,
+      status: 'unpaid',
+    })
+    .eq('id', invoiceId)
+    .eq('status', 'draft')
+    .select()
+    .maybeSingle();
+
+  if (approveError || !approved) {
+    console.error('Error approving draft invoice:', approveError);
+    throw new Error('Failed to approve invoice: it may already have been approved');
+  }
+
+  try {
+    const issued = await issueInvoice(invoiceId, invoice.customer_id, invoice.invoice_title, orderIds, pricing);
+    return { invoice: approved, ...issued };
   } catch (error) {
     console.error('Error during invoice payment setup:', error);
 
     await supabase
       .from('invoices')
-      .delete()
-      .eq('id', invoice.id);
+      .update({ status: 'draft', payment_link: null, payment_gateway: null, gateway_session_id: null })
+      .eq('id', invoiceId);
 
     throw error;
   }
@@ -292,6 +292,64 @@ export async function notifyAboutEditRequest(
   }
 }
 
+export async function notifyAboutProofSubmission(
+  customerId: string,
+  orderNumber: string,
+  version: number,
+  salesRepId?: string
+): Promise<void> {
+  try {
+    const notifications: Array<{ userId: string; type: NotificationType; message: string }> = [];
+
+    notifications.push({
+      userId: customerId,
+      type: 'order',
+      message: `Proof v${version} for order ${orderNumber} is ready for your approval.`,
+    });
+
+    if (salesRepId) {
+      notifications.push({
+        userId: salesRepId,
+        type: 'order',
+        message: `Proof v${version} for order ${orderNumber} has been sent to the customer.`,
+      });
+    }
+
+    await createBatchNotifications(notifications);
+  } catch (error) {
+    console.error('Error notifying about proof submission:', error);
+  }
+}
+
+export async function notifyAboutProofDecision(
+  orderNumber: string,
+  version: number,
+  approved: boolean,
+  designerId?: string,
+  salesRepId?: string
+): Promise<void> {
+  try {
+    const notifications: Array<{ userId: string; type: NotificationType; message: string }> = [];
+    const message = approved
+      ? `The customer approved proof v${version} for order ${orderNumber}.`
+      : `The customer requested changes to proof v${version} for order ${orderNumber}.`;
+
+    if (designerId) {
+      notifications.push({ userId: designerId, type: 'order', message });
+    }
+
+    if (salesRepId) {
+      notifications.push({ userId: salesRepId, type: 'order', message });
+    }
+
+    if (notifications.length > 0) {
+      await createBatchNotifications(notifications);
+    }
+  } catch (error) {
+    console.error('Error notifying about proof decision:', error);
+  }
+}
+
 export async function notifySalesRepAboutAssignment(
   salesRepId: string,
   customerName: string
@@ -307,34 +365,56 @@ export async function notifySalesRepAboutAssignment(
   }
 }
 
+export type InvoiceStatusChange = 'paid' | 'cancelled' | 'refunded' | 'partially_refunded' | 'charged_back' | 'reversed';
+
+const INVOICE_STATUS_MESSAGES: Record<InvoiceStatusChange, { customer: (title: string) => string; admin: (title: string) => string }> = {
+  paid: {
+    customer: title => `Your invoice "${title}" has been marked as paid. Thank you!`,
+    admin: title => `Invoice "${title}" has been marked as paid.`,
+  },
+  cancelled: {
+    customer: title => `Your invoice "${title}" has been cancelled.`,
+    admin: title => `Invoice "${title}" has been cancelled.`,
+  },
+  refunded: {
+    customer: title => `Your invoice "${title}" has been refunded.`,
+    admin: title => `Invoice "${title}" has been refunded in full.`,
+  },
+  partially_refunded: {
+    customer: title => `A partial refund has been issued for your invoice "${title}".`,
+    admin: title => `Invoice "${title}" has been partially refunded.`,
+  },
+  charged_back: {
+    customer: title => `The payment for your invoice "${title}" was disputed and charged back.`,
+    admin: title => `A chargeback was received for invoice "${title}".`,
+  },
+  reversed: {
+    customer: title => `The payment for your invoice "${title}" has been reversed.`,
+    admin: title => `The payment for invoice "${title}" has been reversed.`,
+  },
+};
+
 export async function notifyAboutInvoiceStatusChange(
   customerId: string,
   invoiceTitle: string,
-  newStatus: 'paid' | 'cancelled'
+  newStatus: InvoiceStatusChange
 ): Promise<void> {
   try {
     const notifications: Array<{ userId: string; type: NotificationType; message: string }> = [];
-
-    const customerMessage = newStatus === 'paid'
-      ? `Your invoice "${invoiceTitle}" has been marked as paid. Thank you!`
-      : `Your invoice "${invoiceTitle}" has been cancelled.`;
+    const messages = INVOICE_STATUS_MESSAGES[newStatus];
 
     notifications.push({
       userId: customerId,
       type: 'invoice',
-      message: customerMessage,
+      message: messages.customer(invoiceTitle),
     });
 
     const admins = await getAllAdmins();
-    const adminMessage = newStatus === 'paid'
-      ? `Invoice "${invoiceTitle}" has been marked as paid.`
-      : `Invoice "${invoiceTitle}" has been cancelled.`;
-
     admins.forEach(admin => {
       notifications.push({
         userId: admin.id,
         type: 'invoice',
-        message: adminMessage,
+        message: messages.admin(invoiceTitle),
       });
     });
 
@@ -343,3 +423,20 @@ export async function notifyAboutInvoiceStatusChange(
     console.error('Error notifying about invoice status change:', error);
   }
 }
+
+export async function notifyAboutPaymentReceived(
+  customerId: string,
+  invoiceTitle: string,
+  amount: string,
+  balanceDue: string
+): Promise<void> {
+  try {
+    await createNotification(
+      customerId,
+      'invoice',
+      `We received your payment of ${amount} for invoice "${invoiceTitle}". Remaining balance: ${balanceDue}.`
+    );
+  } catch (error) {
+    console.error('Error notifying about payment:', error);
+  }
+}
@@ -1,5 +1,8 @@
 import { supabase } from '../lib/supabase';
 import type { AdminOrder } from '../admin/types';
+import type { TurnaroundTier } from '../config/turnaround.config';
+import { getTurnaroundDueDate, getTurnaroundTier } from './turnaroundService';
+import { autoAssignDesigner } from './designerAssignmentService';
 
 export interface OrderTransformData {
   id: string;
@@ -125,3 +128,101 @@ export async function enrichOrdersWithAttachments(
     first_attachment_id: attachmentsMap[order.id],
   }));
 }
+
+export interface NewOrderData {
+  order_type: 'custom' | 'stock_design';
+  order_name: string;
+  stock_design_id?: string;
+  custom_description: string;
+  total_amount: number;
+  category_id?: string;
+  custom_width?: number;
+  custom_height?: number;
+  quantity?: number;
+  color_count?: number;
+  stitch_count?: number;
+  estimated_stitch_count?: number;
+  estimated_color_count?: number;
+  complexity_band?: 'simple' | 'moderate' | 'complex';
+  turnaround_tier?: TurnaroundTier;
+}
+
+export interface OrderCustomer {
+  id: string;
+  full_name: string;
+  assigned_sales_rep_id?: string | null;
+}
+
+/**
+ * Creates an order for a customer and sends the new order notifications.
+ * Checkout and converted quotes both go through here; files are uploaded
+ * afterwards with the attachment service.
+ */
+export async function createCustomerOrder(customer: OrderCustomer, orderData: NewOrderData) {
+  // For stock design orders, do not assign sales rep or designer
+  // Only custom orders get sales rep assignment from customer profile
+  const assignedSalesRepId = orderData.order_type === 'stock_design'
+    ? null
+    : customer.assigned_sales_rep_id || null;
+
+  // Stock designs are delivered as they are, so only custom work is due
+  const turnaroundTier = getTurnaroundTier(orderData.turnaround_tier);
+  const dueAt = orderData.order_type === 'stock_design' ? null : getTurnaroundDueDate(turnaroundTier);
+
+  const { data: newOrderData, error } = await supabase
+    .from('orders')
+    .insert({
+      customer_id: customer.id,
+      order_type: orderData.order_type,
+      order_name: orderData.order_name,
+      stock_design_id: orderData.stock_design_id || null,
+      custom_description: orderData.custom_description,
+      category_id: orderData.category_id || null,
+      custom_width: orderData.custom_width || null,
+      custom_height: orderData.custom_height || null,
+      quantity: orderData.quantity || 1,
+      color_count: orderData.color_count || null,
+      stitch_count: orderData.stitch_count || null,
+      estimated_stitch_count: orderData.estimated_stitch_count ?? null,
+      estimated_color_count: orderData.estimated_color_count || null,
+      complexity_band: orderData.complexity_band || null,
+      turnaround_tier: turnaroundTier,
+      due_at: dueAt,
+      assigned_sales_rep_id: assignedSalesRepId,
+      assigned_designer_id: null,
+      total_amount: orderData.total_amount,
+      payment_status: 'unpaid',
+      status: 'new',
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const orderNumber = newOrderData.order_number || `ORD-${newOrderData.id.slice(0, 8)}`;
+
+  try {
+    const { notifyAboutNewOrder } = await import('./notificationService');
+
+    // For stock design orders, only notify customer and admins (pass null for salesRepId)
+    // For custom orders, notify customer, admins, and assigned sales rep
+    await notifyAboutNewOrder(
+      customer.id,
+      customer.full_name,
+      orderNumber,
+      orderData.order_type,
+      assignedSalesRepId || undefined
+    );
+  } catch (notificationError) {
+    console.error('Error creating order notifications:', notificationError);
+  }
+
+  if (orderData.order_type === 'custom') {
+    const designerId = await autoAssignDesigner(newOrderData.id, orderNumber);
+    if (designerId) {
+      return { ...newOrderData, assigned_designer_id: designerId, designer_auto_assigned: true };
+    }
+  }
+
+  return newOrderData;
+}
@@ -0,0 +1,140 @@
+import { supabase, getCurrentUser, getUserProfile } from '../lib/supabase';
+import {
+  orderStatusTransitions,
+  OrderStatusActor,
+  OrderStatusValue
+} from '../config/orderStatus.config';
+import { ORDER_STATUS_OPTIONS } from '../shared/constants/orderConstants';
+import { notifyAboutOrderStatusChange } from './notificationService';
+
+export type { OrderStatusActor, OrderStatusValue };
+
+export interface OrderStatusOption {
+  value: OrderStatusValue;
+  label: string;
+}
+
+const ROLE_LABELS: Record<OrderStatusActor, string> = {
+  admin: 'Administrators',
+  sales_rep: 'Sales representatives',
+  designer: 'Designers',
+  customer: 'Customers',
+};
+
+export function getOrderStatusLabel(status: string): string {
+  return ORDER_STATUS_OPTIONS.find(option => option.value === status)?.label || status;
+}
+
+export function canTransitionOrderStatus(
+  from: OrderStatusValue,
+  to: OrderStatusValue,
+  role: OrderStatusActor
+): boolean {
+  if (from === to) return true;
+  return orderStatusTransitions[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Statuses the given role may pick for an order currently in `from`,
+ * including the current status so a form can keep it selected.
+ */
+export function getAllowedOrderStatuses(from: OrderStatusValue, role: OrderStatusActor): OrderStatusValue[] {
+  return ORDER_STATUS_OPTIONS
+    .map(option => option.value)
+    .filter(status => canTransitionOrderStatus(from, status, role));
+}
+
+export function getOrderStatusOptions(from: OrderStatusValue, role: OrderStatusActor): OrderStatusOption[] {
+  const allowed = getAllowedOrderStatuses(from, role);
+  return ORDER_STATUS_OPTIONS
+    .filter(option => allowed.includes(option.value))
+    .map(option => ({ value: option.value, label: option.label }));
+}
+
+export function validateOrderStatusTransition(
+  from: OrderStatusValue,
+  to: OrderStatusValue,
+  role: OrderStatusActor
+): void {
+  if (!orderStatusTransitions[to]) {
+    throw new Error(`Unknown order status "${to}"`);
+  }
+
+  if (canTransitionOrderStatus(from, to, role)) return;
+
+  const fromLabel = getOrderStatusLabel(from);
+  const toLabel = getOrderStatusLabel(to);
+  const allowedRoles = orderStatusTransitions[from]?.[to];
+
+  if (!allowedRoles || allowedRoles.length === 0) {
+    throw new Error(`Orders cannot move from "${fromLabel}" to "${toLabel}"`);
+  }
+
+  throw new Error(`${ROLE_LABELS[role] || 'You'} cannot move an order from "${fromLabel}" to "${toLabel}"`);
+}
+
+async function getCurrentActorRole(): Promise<OrderStatusActor> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const profile = await getUserProfile(user.id);
+  if (!profile) {
+    throw new Error('User profile not found');
+  }
+
+  // getUserProfile tags customer profiles with role 'customer' at runtime
+  return ('role' in profile ? profile.role : 'customer') as OrderStatusActor;
+}
+
+/**
+ * Moves an order to a new status after checking the transition table for
+ * the signed-in user's role, then sends the status change notifications.
+ * `updates` are written in the same update as the status.
+ */
+export async function transitionOrderStatus(
+  orderId: string,
+  to: OrderStatusValue,
+  updates: Record<string, unknown> = {}
+): Promise<void> {
+  const role = await getCurrentActorRole();
+
+  const { data: order, error: fetchError } = await supabase
+    .from('orders')
+    .select('id, order_number, order_type, status, customer_id, assigned_sales_rep_id, assigned_designer_id')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error('Failed to fetch order details');
+  }
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  validateOrderStatusTransition(order.status, to, role);
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({ ...updates, status: to })
+    .eq('id', orderId);
+
+  if (updateError) {
+    console.error('Error updating order status:', updateError);
+    throw new Error('Failed to update order status');
+  }
+
+  if (order.status !== to) {
+    await notifyAboutOrderStatusChange(
+      order.id,
+      order.order_number,
+      to,
+      order.customer_id,
+      order.order_type as 'custom' | 'stock_design',
+      (updates.assigned_sales_rep_id as string | undefined) || order.assigned_sales_rep_id || undefined,
+      (updates.assigned_designer_id as string | undefined) || order.assigned_designer_id || undefined
+    );
+  }
+}
@@ -0,0 +1,280 @@
+import { supabase } from '../lib/supabase';
+import { CreditNoteKind, InvoiceCreditNote, InvoicePayment, InvoicePaymentMethod, PaymentWebhookEventStatus } from '../admin/types';
+import { formatPrice, roundCurrency } from './pricingService';
+import { notifyAboutInvoiceStatusChange, notifyAboutPaymentReceived } from './notificationService';
+
+export const PAYMENT_METHOD_LABELS: Record<InvoicePaymentMethod, string> = {
+  '2checkout': '2Checkout',
+  stripe: 'Stripe',
+  paypal: 'PayPal',
+  account_credit: 'Account Credit',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  check: 'Check',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+// Methods an admin can record by hand; gateway payments arrive via webhooks
+export const OFFLINE_PAYMENT_METHODS: InvoicePaymentMethod[] = ['bank_transfer', 'check', 'cash', 'card', 'other'];
+
+export const CREDIT_NOTE_KIND_LABELS: Record<CreditNoteKind, string> = {
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+  reversal: 'Reversed Payment',
+};
+
+export interface InvoiceBalance {
+  // Money received and kept, after refunds and chargebacks
+  amountPaid: number;
+  // Refunds and reversals, which also lower what the customer owes
+  amountCredited: number;
+  amountChargedBack: number;
+  balanceDue: number;
+}
+
+export interface RecordPaymentParams {
+  invoice_id: string;
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string;
+  paid_at?: string;
+  notes?: string;
+}
+
+export interface IssueRefundParams {
+  invoice_id: string;
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string;
+  reason?: string;
+}
+
+/**
+ * Mirrors refresh_invoice_payment_status: refunds and reversals credit the
+ * invoice, while a chargeback leaves the amount owed again.
+ */
+export function getInvoiceBalance(
+  totalAmount: number,
+  payments: InvoicePayment[],
+  creditNotes: InvoiceCreditNote[] = []
+): InvoiceBalance {
+  const received = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const amountCredited = roundCurrency(creditNotes
+    .filter(note => note.kind !== 'chargeback')
+    .reduce((sum, note) => sum + Number(note.amount), 0));
+  const amountChargedBack = roundCurrency(creditNotes
+    .filter(note => note.kind === 'chargeback')
+    .reduce((sum, note) => sum + Number(note.amount), 0));
+  const amountPaid = roundCurrency(received - amountCredited - amountChargedBack);
+
+  return {
+    amountPaid,
+    amountCredited,
+    amountChargedBack,
+    balanceDue: Math.max(0, roundCurrency(totalAmount - amountCredited - amountPaid)),
+  };
+}
+
+export async function fetchInvoicePayments(invoiceId: string): Promise<InvoicePayment[]> {
+  const { data, error } = await supabase
+    .from('invoice_payments')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('paid_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching invoice payments:', error);
+    throw new Error('Failed to fetch payments');
+  }
+
+  return (data || []) as InvoicePayment[];
+}
+
+export async function fetchInvoiceCreditNotes(invoiceId: string): Promise<InvoiceCreditNote[]> {
+  const { data, error } = await supabase
+    .from('invoice_credit_notes')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('issued_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching invoice credit notes:', error);
+    throw new Error('Failed to fetch credit notes');
+  }
+
+  return (data || []) as InvoiceCreditNote[];
+}
+
+/**
+ * Adds a payment to the invoice ledger. The invoice status and the payment
+ * status of its orders are recalculated by the database from the ledger.
+ */
+export async function recordInvoicePayment(params: RecordPaymentParams): Promise<InvoicePayment> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const amount = roundCurrency(params.amount);
+  if (!amount || amount <= 0) {
+    throw new Error('Payment amount must be greater than 0');
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, customer_id, invoice_title, total_amount, currency, status')
+    .eq('id', params.invoice_id)
+    .maybeSingle();
+
+  if (invoiceError || !invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (invoice.status === 'cancelled') {
+    throw new Error('Payments cannot be recorded on a cancelled invoice');
+  }
+
+  if (invoice.status === 'draft') {
+    throw new Error('Approve the draft invoice before recording payments');
+  }
+
+  if (invoice.status === 'refunded') {
+    throw new Error('Payments cannot be recorded on a refunded invoice');
+  }
+
+  const [payments, creditNotes] = await Promise.all([
+    fetchInvoicePayments(invoice.id),
+    fetchInvoiceCreditNotes(invoice.id),
+  ]);
+  const { balanceDue } = getInvoiceBalance(invoice.total_amount, payments, creditNotes);
+  if (amount > balanceDue + 0.005) {
+    throw new Error(`Payment exceeds the outstanding balance of ${formatPrice(balanceDue, invoice.currency)}`);
+  }
+
+  const { data: payment, error } = await supabase
+    .from('invoice_payments')
+    .insert({
+      invoice_id: invoice.id,
+      amount,
+      method: params.method,
+      reference: params.reference?.trim() || null,
+      paid_at: params.paid_at || new Date().toISOString(),
+      notes: params.notes?.trim() || null,
+      recorded_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error recording payment:', error);
+    if (error.code === '23505') {
+      throw new Error('A payment with this reference has already been recorded');
+    }
+    throw new Error('Failed to record payment');
+  }
+
+  const remaining = roundCurrency(balanceDue - amount);
+  if (remaining <= 0) {
+    await notifyAboutInvoiceStatusChange(invoice.customer_id, invoice.invoice_title, 'paid');
+  } else {
+    await notifyAboutPaymentReceived(invoice.customer_id, invoice.invoice_title, formatPrice(amount, invoice.currency), formatPrice(remaining, invoice.currency));
+  }
+
+  return payment as InvoicePayment;
+}
+
+/**
+ * Issues a full or partial refund credit note. This records money already
+ * returned to the customer; it does not move money through a gateway.
+ */
+export async function issueRefundCredit(params: IssueRefundParams): Promise<InvoiceCreditNote> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const amount = roundCurrency(params.amount);
+  if (!amount || amount <= 0) {
+    throw new Error('Refund amount must be greater than 0');
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, customer_id, invoice_title, total_amount, currency, status')
+    .eq('id', params.invoice_id)
+    .maybeSingle();
+
+  if (invoiceError || !invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+    throw new Error('Only issued invoices can be refunded');
+  }
+
+  const [payments, creditNotes] = await Promise.all([
+    fetchInvoicePayments(invoice.id),
+    fetchInvoiceCreditNotes(invoice.id),
+  ]);
+  const { amountPaid } = getInvoiceBalance(invoice.total_amount, payments, creditNotes);
+
+  if (amount > amountPaid + 0.005) {
+    throw new Error(`Refund exceeds the ${formatPrice(amountPaid, invoice.currency)} paid on this invoice`);
+  }
+
+  const { data: creditNote, error } = await supabase
+    .from('invoice_credit_notes')
+    .insert({
+      invoice_id: invoice.id,
+      kind: 'refund',
+      amount,
+      method: params.method,
+      reference: params.reference?.trim() || null,
+      reason: params.reason?.trim() || null,
+      issued_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error issuing refund credit:', error);
+    if (error.code === '23505') {
+      throw new Error('A refund with this reference has already been recorded');
+    }
+    throw new Error('Failed to issue refund');
+  }
+
+  const { data: updated } = await supabase
+    .from('invoices')
+    .select('status')
+    .eq('id', invoice.id)
+    .maybeSingle();
+
+  await notifyAboutInvoiceStatusChange(
+    invoice.customer_id,
+    invoice.invoice_title,
+    updated?.status === 'refunded' ? 'refunded' : 'partially_refunded'
+  );
+
+  return creditNote as InvoiceCreditNote;
+}
+
+/**
+ * Runs a stored gateway notification through its processor again. Only events
+ * that failed or never finished can be replayed; the ledger dedupe still applies.
+ */
+export async function replayWebhookEvent(eventId: string): Promise<{ status: PaymentWebhookEventStatus; message: string }> {
+  const { data, error } = await supabase.functions.invoke('replay-webhook-event', {
+    body: { eventId },
+  });
+
+  if (error || !data?.status) {
+    console.error('Webhook replay error:', error || data);
+    throw new Error(`Failed to replay webhook event: ${error?.message || data?.error || 'Unknown error'}`);
+  }
+
+  return data;
+}
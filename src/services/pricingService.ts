@@ -0,0 +1,183 @@
+import { pricingConfig } from '../config/pricing.config';
+import { currencyConfig } from '../config/currency.config';
+import type { AdminOrder } from '../admin/types';
+import { getTurnaroundSurchargePercent } from './turnaroundService';
+
+export interface QuoteInput {
+  categoryName?: string;
+  width?: number;
+  height?: number;
+  stitchCount?: number | null;
+  colorCount?: number | null;
+  quantity?: number;
+  turnaroundTier?: string | null;
+}
+
+export interface PriceQuote {
+  stitchCount: number;
+  stitchCountEstimated: boolean;
+  colorCount: number;
+  quantity: number;
+  categoryMultiplier: number;
+  discountPercent: number;
+  baseUnitPrice: number;
+  unitPrice: number;
+  subtotal: number;
+  discountAmount: number;
+  turnaroundSurchargePercent: number;
+  turnaroundSurcharge: number;
+  total: number;
+}
+
+export interface InvoiceLineItem {
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+const priceFormatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Formats an amount in the given currency (the base currency by default) for
+ * the configured locale. `code` spells out e.g. "GBP" instead of the symbol.
+ */
+export function formatPrice(
+  amount: number,
+  currency: string = currencyConfig.baseCurrency,
+  currencyDisplay: 'symbol' | 'code' = 'symbol'
+): string {
+  const key = `${currency}:${currencyDisplay}`;
+  let formatter = priceFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(currencyConfig.locale, { style: 'currency', currency, currencyDisplay });
+    priceFormatters.set(key, formatter);
+  }
+  return formatter.format(roundCurrency(amount));
+}
+
+export function estimateStitchCount(width?: number, height?: number): number {
+  const area = (width || 0) * (height || 0);
+  const estimate = Math.round(area * pricingConfig.stitchesPerSquareInch);
+  return Math.max(estimate, pricingConfig.minimumStitchCount);
+}
+
+export function getCategoryMultiplier(categoryName?: string): number {
+  if (!categoryName) return 1;
+  return pricingConfig.categoryMultipliers[categoryName.trim().toLowerCase()] ?? 1;
+}
+
+export function getQuantityDiscountPercent(quantity: number): number {
+  let discount = 0;
+  for (const tier of pricingConfig.quantityBreaks) {
+    if (quantity >= tier.minQuantity) {
+      discount = tier.discountPercent;
+    }
+  }
+  return discount;
+}
+
+/**
+ * Computes the price of an embroidery job. The unit price is driven by stitch
+ * count (estimated from the design area when unknown), extra thread colors and
+ * the category multiplier, then discounted by the matching quantity break.
+ * Faster turnaround tiers add their surcharge on the discounted price.
+ */
+export function calculateQuote(input: QuoteInput): PriceQuote {
+  const quantity = Math.max(1, Math.floor(input.quantity || 1));
+  const colorCount = Math.max(1, Math.floor(input.colorCount || pricingConfig.defaultColorCount));
+  const stitchCountEstimated = !input.stitchCount || input.stitchCount <= 0;
+  const stitchCount = stitchCountEstimated
+    ? estimateStitchCount(input.width, input.height)
+    : Math.round(input.stitchCount as number);
+
+  const categoryMultiplier = getCategoryMultiplier(input.categoryName);
+  const discountPercent = getQuantityDiscountPercent(quantity);
+
+  const stitchPrice = (stitchCount / 1000) * pricingConfig.ratePer1000Stitches;
+  const extraColors = Math.max(0, colorCount - pricingConfig.includedColors);
+  const colorPrice = extraColors * pricingConfig.extraColorPrice;
+
+  const baseUnitPrice = roundCurrency(
+    Math.max(stitchPrice + colorPrice, pricingConfig.minimumUnitPrice) * categoryMultiplier
+  );
+  const unitPrice = roundCurrency(baseUnitPrice * (1 - discountPercent / 100));
+  const subtotal = roundCurrency(baseUnitPrice * quantity);
+  const discountedTotal = roundCurrency(unitPrice * quantity);
+  const turnaroundSurchargePercent = getTurnaroundSurchargePercent(input.turnaroundTier);
+  const turnaroundSurcharge = roundCurrency(discountedTotal * turnaroundSurchargePercent / 100);
+
+  return {
+    stitchCount,
+    stitchCountEstimated,
+    colorCount,
+    quantity,
+    categoryMultiplier,
+    discountPercent,
+    baseUnitPrice,
+    unitPrice,
+    subtotal,
+    discountAmount: roundCurrency(subtotal - discountedTotal),
+    turnaroundSurchargePercent,
+    turnaroundSurcharge,
+    total: roundCurrency(discountedTotal + turnaroundSurcharge),
+  };
+}
+
+/**
+ * Confirmed stitch and color counts win; otherwise the artwork estimate taken at
+ * upload is used before falling back to the size-based estimate.
+ */
+export function calculateOrderQuote(order: Pick<AdminOrder,
+  'category_name' | 'custom_width' | 'custom_height' | 'stitch_count' | 'color_count' | 'quantity' |
+  'estimated_stitch_count' | 'estimated_color_count' | 'turnaround_tier'
+>): PriceQuote {
+  return calculateQuote({
+    categoryName: order.category_name,
+    width: order.custom_width,
+    height: order.custom_height,
+    stitchCount: order.stitch_count || order.estimated_stitch_count,
+    colorCount: order.color_count || order.estimated_color_count,
+    quantity: order.quantity,
+    turnaroundTier: order.turnaround_tier,
+  });
+}
+
+/**
+ * Orders keep the amount the customer was quoted (or an admin override). Legacy
+ * custom orders were saved with a zero amount, so those fall back to the engine.
+ */
+export function getBillableAmount(order: AdminOrder): number {
+  if (order.total_amount && order.total_amount > 0) {
+    return order.total_amount;
+  }
+  if (order.order_type === 'stock_design') {
+    return 0;
+  }
+  return calculateOrderQuote(order).total;
+}
+
+export function isQuotedAmount(order: AdminOrder): boolean {
+  return !(order.total_amount && order.total_amount > 0) && order.order_type !== 'stock_design';
+}
+
+/**
+ * Builds the payment gateway line for an order. The amount is split into unit
+ * price and quantity only when that split reproduces the billed total exactly,
+ * so the gateway total always matches the invoice total.
+ */
+export function buildInvoiceLineItem(order: AdminOrder): InvoiceLineItem {
+  const name = (order.order_name && order.order_name.trim()) || `Order ${order.order_number}`;
+  const amount = getBillableAmount(order);
+  const quantity = order.quantity && order.quantity > 1 ? order.quantity : 1;
+  const unitPrice = roundCurrency(amount / quantity);
+
+  if (quantity > 1 && roundCurrency(unitPrice * quantity) === roundCurrency(amount)) {
+    return { name, price: unitPrice, quantity };
+  }
+
+  return { name, price: roundCurrency(amount), quantity: 1 };
+}
@@ -0,0 +1,272 @@
+import { supabase } from '../lib/supabase';
+import { uploadAttachment } from '../lib/attachmentService';
+import { OrderProof, ProofComment } from '../admin/types';
+import {
+  notifyAboutProofSubmission,
+  notifyAboutProofDecision,
+  notifyAboutOrderStatusChange
+} from './notificationService';
+import { transitionOrderStatus } from './orderStatusService';
+
+export interface SubmitProofData {
+  order_id: string;
+  order_number: string;
+  file: File;
+  notes?: string;
+}
+
+export interface PinnedComment {
+  content: string;
+  pin_x?: number | null;
+  pin_y?: number | null;
+}
+
+async function getAuthorName(userId: string): Promise<string> {
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (customer) return customer.full_name;
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return employee?.full_name || 'Unknown User';
+}
+
+async function getOrderForProof(orderId: string) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, order_number, order_type, status, customer_id, assigned_sales_rep_id, assigned_designer_id')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error('Failed to fetch order details');
+  }
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  return order;
+}
+
+async function getPendingProof(proofId: string) {
+  const { data: proof, error } = await supabase
+    .from('order_proofs')
+    .select('*')
+    .eq('id', proofId)
+    .maybeSingle();
+
+  if (error || !proof) {
+    throw new Error('Proof not found');
+  }
+
+  if (proof.status !== 'pending') {
+    throw new Error('A decision has already been recorded for this proof');
+  }
+
+  return proof;
+}
+
+/**
+ * Records the customer's decision and moves the order in one database call,
+ * then sends the order status notifications transitionOrderStatus would.
+ */
+async function decideProof(proofId: string, approved: boolean, comment?: string) {
+  const proof = await getPendingProof(proofId);
+  const order = await getOrderForProof(proof.order_id);
+
+  const { error } = await supabase.rpc('decide_proof', {
+    p_proof_id: proofId,
+    p_approved: approved,
+    p_comment: comment?.trim() || null
+  });
+
+  if (error) {
+    console.error('Error recording proof decision:', error);
+    throw new Error(error.message || 'Failed to record proof decision');
+  }
+
+  await notifyAboutOrderStatusChange(
+    order.id,
+    order.order_number,
+    approved ? 'completed' : 'in_progress',
+    order.customer_id,
+    order.order_type as 'custom' | 'stock_design',
+    order.assigned_sales_rep_id || undefined,
+    order.assigned_designer_id || undefined
+  );
+
+  await notifyAboutProofDecision(
+    order.order_number,
+    proof.version,
+    approved,
+    order.assigned_designer_id || undefined,
+    order.assigned_sales_rep_id || undefined
+  );
+}
+
+export const proofService = {
+  async getProofsByOrder(orderId: string): Promise<OrderProof[]> {
+    const { data, error } = await supabase
+      .from('order_proofs')
+      .select(`
+        *,
+        attachment:order_attachments(*),
+        comments:proof_comments(*)
+      `)
+      .eq('order_id', orderId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching proofs:', error);
+      throw error;
+    }
+
+    const authorNames = new Map<string, string>();
+    const resolveName = async (userId: string) => {
+      if (!authorNames.has(userId)) {
+        try {
+          authorNames.set(userId, await getAuthorName(userId));
+        } catch (err) {
+          console.error('Error fetching author name:', err);
+          authorNames.set(userId, 'Unknown User');
+        }
+      }
+      return authorNames.get(userId) as string;
+    };
+
+    return Promise.all(
+      ((data || []) as OrderProof[]).map(async proof => ({
+        ...proof,
+        submitted_by_name: await resolveName(proof.submitted_by),
+        comments: await Promise.all(
+          (proof.comments || [])
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+            .map(async comment => ({ ...comment, author_name: await resolveName(comment.author_id) }))
+        ),
+      }))
+    );
+  },
+
+  async getLatestProof(orderId: string): Promise<OrderProof | null> {
+    const proofs = await this.getProofsByOrder(orderId);
+    return proofs[0] || null;
+  },
+
+  async submitProof(data: SubmitProofData): Promise<OrderProof> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const order = await getOrderForProof(data.order_id);
+
+    if (order.status !== 'in_progress' && order.status !== 'under_review') {
+      throw new Error('Proofs can only be submitted for orders in progress or under review');
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('order_proofs')
+      .select('version, status')
+      .eq('order_id', data.order_id)
+      .order('version', { ascending: false });
+
+    if (existingError) throw existingError;
+
+    if ((existing || []).some(proof => proof.status === 'pending')) {
+      throw new Error('A proof for this order is still awaiting the customer\'s decision');
+    }
+
+    const version = (existing?.[0]?.version || 0) + 1;
+    const attachment = await uploadAttachment(data.order_id, data.order_number, data.file);
+
+    const { data: proof, error: insertError } = await supabase
+      .from('order_proofs')
+      .insert({
+        order_id: data.order_id,
+        attachment_id: attachment.id,
+        version,
+        notes: data.notes?.trim() || null,
+        status: 'pending',
+        submitted_by: user.id
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    await transitionOrderStatus(data.order_id, 'under_review');
+
+    await notifyAboutProofSubmission(order.customer_id, order.order_number, version, order.assigned_sales_rep_id || undefined);
+
+    return proof;
+  },
+
+  async approveProof(proofId: string, comment?: string): Promise<void> {
+    await decideProof(proofId, true, comment);
+  },
+
+  async requestProofChanges(proofId: string, summary: string, pinnedComments: PinnedComment[] = []): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!summary.trim() && pinnedComments.length === 0) {
+      throw new Error('Please describe the changes you need');
+    }
+
+    await getPendingProof(proofId);
+
+    if (pinnedComments.length > 0) {
+      const { error: commentsError } = await supabase
+        .from('proof_comments')
+        .insert(
+          pinnedComments.map(comment => ({
+            proof_id: proofId,
+            author_id: user.id,
+            content: comment.content.trim(),
+            pin_x: comment.pin_x ?? null,
+            pin_y: comment.pin_y ?? null
+          }))
+        );
+
+      if (commentsError) throw commentsError;
+    }
+
+    await decideProof(proofId, false, summary);
+  },
+
+  async addProofComment(proofId: string, comment: PinnedComment): Promise<ProofComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('proof_comments')
+      .insert({
+        proof_id: proofId,
+        author_id: user.id,
+        content: comment.content.trim(),
+        pin_x: comment.pin_x ?? null,
+        pin_y: comment.pin_y ?? null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+};
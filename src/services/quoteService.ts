@@ -0,0 +1,227 @@
+import { supabase } from '../lib/supabase';
+import { uploadAttachment } from '../lib/attachmentService';
+import { Quote, QuoteStage } from '../admin/types';
+import { createCustomerOrder } from './orderService';
+import { roundCurrency } from './pricingService';
+
+const QUOTE_ATTACHMENTS_BUCKET = 'quote-attachments';
+
+export const QUOTE_STAGE_LABELS: Record<QuoteStage, string> = {
+  new: 'New',
+  priced: 'Priced',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+/**
+ * Where a quote can go next. Accepted quotes have become orders and declined
+ * ones are closed; an expired quote can be re-priced and sent again.
+ */
+export const QUOTE_STAGE_TRANSITIONS: Record<QuoteStage, QuoteStage[]> = {
+  new: ['priced', 'declined'],
+  priced: ['sent', 'declined'],
+  sent: ['accepted', 'declined', 'expired', 'priced'],
+  expired: ['priced', 'declined'],
+  accepted: [],
+  declined: [],
+};
+
+export interface QuoteUpdate {
+  quoted_price?: number | null;
+  valid_until?: string | null;
+  notes?: string | null;
+  assigned_sales_rep_id?: string | null;
+}
+
+export function isQuotePastValidity(quote: Pick<Quote, 'stage' | 'valid_until'>): boolean {
+  if (quote.stage !== 'sent' || !quote.valid_until) return false;
+  return new Date(`${quote.valid_until}T23:59:59.999`) < new Date();
+}
+
+export async function updateQuote(quoteId: string, changes: QuoteUpdate): Promise<Quote> {
+  if (changes.quoted_price !== undefined && changes.quoted_price !== null) {
+    if (!Number.isFinite(changes.quoted_price) || changes.quoted_price < 0) {
+      throw new Error('Quoted price must be 0 or more');
+    }
+    changes = { ...changes, quoted_price: roundCurrency(changes.quoted_price) };
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .update(changes)
+    .eq('id', quoteId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating quote:', error);
+    throw new Error('Failed to update quote');
+  }
+
+  return data as Quote;
+}
+
+/**
+ * Moves a quote along the pipeline. Accepting goes through `acceptQuote`
+ * instead, because it also creates the order.
+ */
+export async function setQuoteStage(quote: Quote, stage: Exclude<QuoteStage, 'accepted'>): Promise<Quote> {
+  if (!QUOTE_STAGE_TRANSITIONS[quote.stage].includes(stage)) {
+    throw new Error(`A ${QUOTE_STAGE_LABELS[quote.stage].toLowerCase()} quote cannot be marked ${QUOTE_STAGE_LABELS[stage].toLowerCase()}`);
+  }
+
+  if ((stage === 'priced' || stage === 'sent') && (quote.quoted_price === null || quote.quoted_price === undefined)) {
+    throw new Error('Set a price before moving the quote on');
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ stage })
+    .eq('id', quote.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating quote stage:', error);
+    throw new Error('Failed to update quote stage');
+  }
+
+  return data as Quote;
+}
+
+export async function getQuoteAttachmentUrl(quote: Pick<Quote, 'attachment_path'>): Promise<string> {
+  if (!quote.attachment_path) {
+    throw new Error('This quote has no attachment');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(QUOTE_ATTACHMENTS_BUCKET)
+    .createSignedUrl(quote.attachment_path, 60 * 60);
+
+  if (error || !data) {
+    console.error('Error creating quote attachment URL:', error);
+    throw new Error('Failed to get attachment link');
+  }
+
+  return data.signedUrl;
+}
+
+export interface QuoteCustomer {
+  id: string;
+  full_name: string;
+  email: string;
+  assigned_sales_rep_id: string | null;
+}
+
+// Quote emails come from the public contact form; escape them so ilike
+// matches the address exactly, ignoring case, and never as a pattern
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * The customer account an accepted quote would be ordered on, so the rep can
+ * check it before converting.
+ */
+export async function findQuoteCustomer(quote: Quote): Promise<QuoteCustomer | null> {
+  const query = supabase
+    .from('customers')
+    .select('id, full_name, email, assigned_sales_rep_id');
+
+  const { data, error } = quote.customer_id
+    ? await query.eq('id', quote.customer_id).maybeSingle()
+    : await query.ilike('email', escapeLikePattern(quote.email.trim())).limit(1).maybeSingle();
+
+  if (error) {
+    console.error('Error fetching quote customer:', error);
+    throw new Error('Failed to look up the customer for this quote');
+  }
+
+  return data as QuoteCustomer | null;
+}
+
+/**
+ * Turns an accepted quote into a custom order for the customer account with
+ * the quote's email, through the same path as checkout. The quote's file is
+ * copied onto the order and the quote keeps a link to it. The rep passes the
+ * customer they confirmed from `findQuoteCustomer`.
+ */
+export async function acceptQuote(quote: Quote, confirmedCustomerId: string): Promise<{ quote: Quote; orderNumber: string }> {
+  if (!QUOTE_STAGE_TRANSITIONS[quote.stage].includes('accepted')) {
+    throw new Error('Only a sent quote can be accepted');
+  }
+
+  if (quote.quoted_price === null || quote.quoted_price === undefined) {
+    throw new Error('Set a price before accepting the quote');
+  }
+
+  if (isQuotePastValidity(quote)) {
+    throw new Error('This quote is past its valid date. Re-price and send it again first.');
+  }
+
+  const customer = await findQuoteCustomer(quote);
+  if (!customer) {
+    throw new Error(`No customer account uses ${quote.email}. Ask the customer to sign up, then accept the quote again.`);
+  }
+
+  if (customer.id !== confirmedCustomerId) {
+    throw new Error('The customer for this quote has changed. Review it and accept again.');
+  }
+
+  const newOrder = await createCustomerOrder(
+    {
+      id: customer.id,
+      full_name: customer.full_name,
+      // The rep who won the quote keeps the order
+      assigned_sales_rep_id: quote.assigned_sales_rep_id || customer.assigned_sales_rep_id,
+    },
+    {
+      order_type: 'custom',
+      order_name: `Quote ${quote.quote_number}`,
+      custom_description: quote.design_instructions || '',
+      category_id: quote.category_id || undefined,
+      custom_width: quote.custom_width || undefined,
+      custom_height: quote.custom_height || undefined,
+      estimated_stitch_count: quote.estimated_stitch_count ?? undefined,
+      estimated_color_count: quote.estimated_color_count || undefined,
+      complexity_band: quote.complexity_band || undefined,
+      total_amount: Number(quote.quoted_price),
+    }
+  );
+
+  const orderNumber = newOrder.order_number || `ORD-${newOrder.id.slice(0, 8)}`;
+
+  if (quote.attachment_path && quote.attachment_name) {
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from(QUOTE_ATTACHMENTS_BUCKET)
+        .download(quote.attachment_path);
+
+      if (downloadError || !blob) throw downloadError || new Error('Empty attachment');
+
+      const file = new File([blob], quote.attachment_name, {
+        type: quote.attachment_mime_type || blob.type || 'application/octet-stream',
+      });
+      await uploadAttachment(newOrder.id, orderNumber, file);
+    } catch (attachmentError) {
+      // The order stands; the file can still be downloaded from the quote
+      console.error('Error copying quote attachment to order:', attachmentError);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ stage: 'accepted', order_id: newOrder.id, customer_id: customer.id })
+    .eq('id', quote.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error marking quote accepted:', error);
+    throw new Error(`Order ${orderNumber} was created, but the quote could not be marked accepted`);
+  }
+
+  return { quote: data as Quote, orderNumber };
+}
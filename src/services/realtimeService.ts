@@ -0,0 +1,94 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+type Row = Record<string, unknown>;
+
+export interface RealtimeHandlers {
+  onInsert?: (row: Row) => void;
+  onUpdate?: (row: Row) => void;
+  onDelete?: (row: Row) => void;
+}
+
+const channels = new Map<string, RealtimeChannel>();
+
+/**
+ * One channel per name, so subscribing again replaces the old handlers
+ * instead of delivering every change twice. Row level security still decides
+ * which rows reach the client.
+ */
+function subscribeToTable(channelName: string, table: string, handlers: RealtimeHandlers, filter?: string): void {
+  unsubscribe(channelName);
+
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+      (payload: RealtimePostgresChangesPayload<Row>) => {
+        switch (payload.eventType) {
+          case 'INSERT':
+            handlers.onInsert?.(payload.new);
+            break;
+          case 'UPDATE':
+            handlers.onUpdate?.(payload.new);
+            break;
+          case 'DELETE':
+            handlers.onDelete?.(payload.old);
+            break;
+        }
+      }
+    )
+    .subscribe();
+
+  channels.set(channelName, channel);
+}
+
+function unsubscribe(channelName: string): void {
+  const channel = channels.get(channelName);
+  if (!channel) return;
+
+  supabase.removeChannel(channel).catch(error => {
+    console.error(`Error leaving realtime channel ${channelName}:`, error);
+  });
+  channels.delete(channelName);
+}
+
+export function subscribeToOrders(userId: string, handlers: RealtimeHandlers): void {
+  subscribeToTable(`orders:${userId}`, 'orders', handlers);
+}
+
+export function unsubscribeFromOrders(userId: string): void {
+  unsubscribe(`orders:${userId}`);
+}
+
+export function subscribeToNotifications(userId: string, handlers: RealtimeHandlers): void {
+  subscribeToTable(`notifications:${userId}`, 'notifications', handlers, `user_id=eq.${userId}`);
+}
+
+export function unsubscribeFromNotifications(userId: string): void {
+  unsubscribe(`notifications:${userId}`);
+}
+
+export function subscribeToOrderComments(orderId: string, handlers: RealtimeHandlers): void {
+  subscribeToTable(`order_comments:${orderId}`, 'order_comments', handlers, `order_id=eq.${orderId}`);
+}
+
+export function unsubscribeFromOrderComments(orderId: string): void {
+  unsubscribe(`order_comments:${orderId}`);
+}
+
+export function subscribeToCustomers(handlers: RealtimeHandlers): void {
+  subscribeToTable('customers', 'customers', handlers);
+}
+
+export function unsubscribeFromCustomers(): void {
+  unsubscribe('customers');
+}
+
+export function subscribeToStockDesigns(handlers: RealtimeHandlers): void {
+  subscribeToTable('stock_designs', 'stock_designs', handlers);
+}
+
+export function unsubscribeFromStockDesigns(): void {
+  unsubscribe('stock_designs');
+}
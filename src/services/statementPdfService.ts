@@ -0,0 +1,207 @@
+import { businessConfig } from '../config/business.config';
+import { formatPdfPrice, saveBlob } from './invoicePdfService';
+import {
+  AGING_BUCKET_LABELS,
+  CustomerStatement,
+  getStatementFilename,
+  STATEMENT_ENTRY_LABELS,
+} from './statementService';
+import {
+  PdfColor,
+  PdfDocument,
+  PdfPage,
+  addPdfPage,
+  createPdfDocument,
+  drawLine,
+  drawText,
+  fillRect,
+  renderPdf,
+  wrapText,
+} from '../lib/pdfWriter';
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 60;
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+const MUTED_COLOR: PdfColor = [0.42, 0.45, 0.5];
+const ACCENT_COLOR: PdfColor = [0.15, 0.39, 0.92];
+const HEADER_FILL: PdfColor = [0.95, 0.96, 0.97];
+const OVERDUE_COLOR: PdfColor = [0.8, 0.45, 0.05];
+
+// Left edges of the text columns and right edges of the amounts in the ledger
+const REFERENCE_LEFT = 112;
+const DESCRIPTION_LEFT = 186;
+const DESCRIPTION_WIDTH = 150;
+const DEBIT_RIGHT = 410;
+const CREDIT_RIGHT = 482;
+const BALANCE_RIGHT = 554;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Period bounds are plain dates, which Date would read as UTC midnight
+const formatPeriodDate = (value: string) => formatDate(`${value}T00:00:00`);
+
+function drawPageHeader(page: PdfPage, doc: PdfDocument, statement: CustomerStatement): number {
+  const right = doc.width - MARGIN;
+  let y = doc.height - MARGIN - 10;
+
+  drawText(page, businessConfig.businessName, MARGIN, y, { size: 18, bold: true, color: ACCENT_COLOR });
+  drawText(page, 'STATEMENT', right, y, { size: 20, bold: true, color: TEXT_COLOR, align: 'right' });
+
+  y -= 16;
+  drawText(page, businessConfig.tagline, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, `${formatPeriodDate(statement.from)} - ${formatPeriodDate(statement.to)}`, right, y, {
+    size: 10,
+    bold: true,
+    color: TEXT_COLOR,
+    align: 'right',
+  });
+
+  y -= 13;
+  drawText(page, businessConfig.contact.address, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, `Currency ${statement.currency}`, right, y, { size: 9, color: MUTED_COLOR, align: 'right' });
+
+  y -= 12;
+  drawText(page, `${businessConfig.contact.email}  |  ${businessConfig.contact.phone}`, MARGIN, y, { size: 9, color: MUTED_COLOR });
+
+  y -= 14;
+  drawLine(page, MARGIN, y, right, y);
+  return y - 22;
+}
+
+function drawTableHeader(page: PdfPage, y: number, right: number): number {
+  fillRect(page, MARGIN, y - 6, right - MARGIN, 20, HEADER_FILL);
+  const style = { size: 8, bold: true, color: MUTED_COLOR };
+  drawText(page, 'DATE', MARGIN + 6, y, style);
+  drawText(page, 'REFERENCE', REFERENCE_LEFT, y, style);
+  drawText(page, 'DESCRIPTION', DESCRIPTION_LEFT, y, style);
+  drawText(page, 'DEBIT', DEBIT_RIGHT, y, { ...style, align: 'right' });
+  drawText(page, 'CREDIT', CREDIT_RIGHT, y, { ...style, align: 'right' });
+  drawText(page, 'BALANCE', BALANCE_RIGHT, y, { ...style, align: 'right' });
+  return y - 22;
+}
+
+function drawFooters(doc: PdfDocument): void {
+  const right = doc.width - MARGIN;
+  doc.pages.forEach((page, index) => {
+    const y = MARGIN - 10;
+    drawLine(page, MARGIN, y + 16, right, y + 16);
+    drawText(page, `Questions about your account? ${businessConfig.contact.email}`, MARGIN, y, { size: 8, color: MUTED_COLOR });
+    drawText(page, `Page ${index + 1} of ${doc.pages.length}`, right, y, { size: 8, color: MUTED_COLOR, align: 'right' });
+  });
+}
+
+/**
+ * Lays out the statement: header, account block, opening balance, one row
+ * per ledger entry with a running balance, closing balance and aging.
+ */
+export function buildStatementPdf(statement: CustomerStatement): Blob {
+  const { currency } = statement;
+  const doc = createPdfDocument();
+  const right = doc.width - MARGIN;
+
+  let page = addPdfPage(doc);
+  let y = drawPageHeader(page, doc, statement);
+
+  const ensureSpace = (needed: number, repeatTableHeader = false) => {
+    if (y - needed >= MARGIN + FOOTER_HEIGHT) return;
+    page = addPdfPage(doc);
+    y = drawPageHeader(page, doc, statement);
+    if (repeatTableHeader) y = drawTableHeader(page, y, right);
+  };
+
+  // Account and amount due
+  drawText(page, 'ACCOUNT', MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+  drawText(page, 'BALANCE DUE', right, y, { size: 8, bold: true, color: MUTED_COLOR, align: 'right' });
+  y -= 14;
+  drawText(page, statement.customer.full_name, MARGIN, y, { size: 11, bold: true, color: TEXT_COLOR });
+  drawText(page, formatPdfPrice(statement.closingBalance, currency), right, y, {
+    size: 14,
+    bold: true,
+    color: statement.closingBalance > 0 ? OVERDUE_COLOR : TEXT_COLOR,
+    align: 'right',
+  });
+  [statement.customer.company_name, statement.customer.email].filter(Boolean).forEach(line => {
+    y -= 13;
+    drawText(page, line as string, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  });
+  y -= 30;
+
+  // Ledger
+  y = drawTableHeader(page, y, right);
+
+  const drawBalanceRow = (label: string, balance: number) => {
+    ensureSpace(20, true);
+    drawText(page, label, DESCRIPTION_LEFT, y, { size: 9, bold: true, color: TEXT_COLOR });
+    drawText(page, formatPdfPrice(balance, currency), BALANCE_RIGHT, y, { size: 9, bold: true, color: TEXT_COLOR, align: 'right' });
+    y -= 10;
+    drawLine(page, MARGIN, y, right, y, [0.9, 0.9, 0.9], 0.5);
+    y -= 14;
+  };
+
+  drawBalanceRow(`Opening balance at ${formatPeriodDate(statement.from)}`, statement.openingBalance);
+
+  statement.entries.forEach(entry => {
+    const descriptionLines = wrapText(entry.description, DESCRIPTION_WIDTH, 8);
+    ensureSpace(descriptionLines.length * 11 + 20, true);
+
+    drawText(page, formatDate(entry.date), MARGIN + 6, y, { size: 8, color: TEXT_COLOR });
+    drawText(page, entry.reference, REFERENCE_LEFT, y, { size: 8, color: TEXT_COLOR });
+    if (entry.debit) {
+      drawText(page, formatPdfPrice(entry.debit, currency), DEBIT_RIGHT, y, { size: 8, color: TEXT_COLOR, align: 'right' });
+    }
+    if (entry.credit) {
+      drawText(page, formatPdfPrice(entry.credit, currency), CREDIT_RIGHT, y, { size: 8, color: TEXT_COLOR, align: 'right' });
+    }
+    drawText(page, formatPdfPrice(entry.balance, currency), BALANCE_RIGHT, y, { size: 8, color: TEXT_COLOR, align: 'right' });
+
+    drawText(page, STATEMENT_ENTRY_LABELS[entry.type].toUpperCase(), DESCRIPTION_LEFT, y, { size: 7, bold: true, color: MUTED_COLOR });
+    y -= 11;
+    descriptionLines.forEach(line => {
+      drawText(page, line, DESCRIPTION_LEFT, y, { size: 8, color: TEXT_COLOR });
+      y -= 11;
+    });
+    drawLine(page, MARGIN, y + 4, right, y + 4, [0.9, 0.9, 0.9], 0.5);
+    y -= 10;
+  });
+
+  if (statement.entries.length === 0) {
+    ensureSpace(20, true);
+    drawText(page, 'No activity in this period', DESCRIPTION_LEFT, y, { size: 9, color: MUTED_COLOR });
+    y -= 20;
+  }
+
+  ensureSpace(40, true);
+  drawText(page, 'Period totals', DESCRIPTION_LEFT, y, { size: 9, color: MUTED_COLOR });
+  drawText(page, formatPdfPrice(statement.totalDebits, currency), DEBIT_RIGHT, y, { size: 9, color: MUTED_COLOR, align: 'right' });
+  drawText(page, formatPdfPrice(statement.totalCredits, currency), CREDIT_RIGHT, y, { size: 9, color: MUTED_COLOR, align: 'right' });
+  y -= 18;
+  drawBalanceRow(`Closing balance at ${formatPeriodDate(statement.to)}`, statement.closingBalance);
+  y -= 10;
+
+  // Aging, one box per bucket
+  ensureSpace(70);
+  drawText(page, `AGING AT ${formatPeriodDate(statement.to).toUpperCase()}`, MARGIN, y, { size: 8, bold: true, color: MUTED_COLOR });
+  y -= 12;
+
+  const boxWidth = (right - MARGIN) / (AGING_BUCKET_LABELS.length + 1);
+  [...AGING_BUCKET_LABELS, ['total', 'Total Outstanding'] as const].forEach(([key, label], index) => {
+    const x = MARGIN + index * boxWidth;
+    const value = statement.aging[key];
+    fillRect(page, x + 2, y - 34, boxWidth - 4, 38, HEADER_FILL);
+    drawText(page, label, x + boxWidth / 2, y - 10, { size: 8, color: MUTED_COLOR, align: 'center' });
+    drawText(page, formatPdfPrice(value, currency), x + boxWidth / 2, y - 26, {
+      size: 10,
+      bold: true,
+      color: key !== 'current' && key !== 'total' && value > 0 ? OVERDUE_COLOR : TEXT_COLOR,
+      align: 'center',
+    });
+  });
+
+  drawFooters(doc);
+  return renderPdf(doc);
+}
+
+export function downloadStatementPdf(statement: CustomerStatement): void {
+  saveBlob(buildStatementPdf(statement), getStatementFilename(statement, 'pdf'));
+}
@@ -0,0 +1,310 @@
+import { supabase } from '../lib/supabase';
+import { Invoice, InvoiceCreditNote, InvoicePayment } from '../admin/types';
+import { CSVColumn, downloadCSV, formatDateForFilename, generateCSV } from '../shared/utils/csvExport';
+import { sanitizeFilename } from '../shared/utils/fileUtils';
+import { formatPrice, roundCurrency } from './pricingService';
+import { BASE_CURRENCY } from './currencyService';
+import { getInvoiceBalance, PAYMENT_METHOD_LABELS, CREDIT_NOTE_KIND_LABELS } from './paymentService';
+import { getInvoiceNumber } from './invoicePdfService';
+
+export type StatementEntryType = 'invoice' | 'payment' | 'refund' | 'chargeback';
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  // Raises what the customer owes
+  debit: number;
+  // Lowers what the customer owes
+  credit: number;
+  balance: number;
+}
+
+export interface AgingBreakdown {
+  current: number;
+  days30: number;
+  days60: number;
+  days90Plus: number;
+  total: number;
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: string;
+    full_name: string;
+    email: string;
+    company_name?: string | null;
+  };
+  currency: string;
+  // Every currency the customer has been invoiced in, for switching statements
+  currencies: string[];
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  aging: AgingBreakdown;
+}
+
+export interface StatementPeriod {
+  from: string;
+  to: string;
+  currency?: string;
+}
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryType, string> = {
+  invoice: 'Invoice',
+  payment: 'Payment',
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+};
+
+export const AGING_BUCKET_LABELS: Array<[Exclude<keyof AgingBreakdown, 'total'>, string]> = [
+  ['current', 'Current'],
+  ['days30', '30 Days'],
+  ['days60', '60 Days'],
+  ['days90Plus', '90+ Days'],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StatementInvoice = Invoice & {
+  payments: InvoicePayment[];
+  credit_notes: InvoiceCreditNote[];
+};
+
+// Period bounds are calendar dates; the end date counts in full
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+export function getDefaultStatementPeriod(): StatementPeriod {
+  const today = new Date();
+  return {
+    from: formatDateForFilename(new Date(today.getFullYear(), 0, 1)),
+    to: formatDateForFilename(today),
+  };
+}
+
+/**
+ * Buckets what was still owed on each invoice at `asOf` by how long the
+ * invoice had been open: under 30 days is current, then 30, 60 and 90+.
+ */
+export function getAgingBreakdown(invoices: StatementInvoice[], asOf: number): AgingBreakdown {
+  const aging: AgingBreakdown = { current: 0, days30: 0, days60: 0, days90Plus: 0, total: 0 };
+
+  invoices.forEach(invoice => {
+    const issuedAt = new Date(invoice.created_at).getTime();
+    if (issuedAt > asOf) return;
+
+    const { balanceDue } = getInvoiceBalance(
+      Number(invoice.total_amount),
+      invoice.payments.filter(payment => new Date(payment.paid_at).getTime() <= asOf),
+      invoice.credit_notes.filter(note => new Date(note.issued_at).getTime() <= asOf)
+    );
+    if (balanceDue <= 0) return;
+
+    const age = Math.floor((asOf - issuedAt) / DAY_MS);
+    if (age >= 90) aging.days90Plus += balanceDue;
+    else if (age >= 60) aging.days60 += balanceDue;
+    else if (age >= 30) aging.days30 += balanceDue;
+    else aging.current += balanceDue;
+  });
+
+  aging.current = roundCurrency(aging.current);
+  aging.days30 = roundCurrency(aging.days30);
+  aging.days60 = roundCurrency(aging.days60);
+  aging.days90Plus = roundCurrency(aging.days90Plus);
+  aging.total = roundCurrency(aging.current + aging.days30 + aging.days60 + aging.days90Plus);
+  return aging;
+}
+
+/**
+ * Turns invoices and their payment ledgers into dated debits and credits.
+ * A refund credits the invoice and hands the money back, so it shows on both
+ * sides and leaves the balance unchanged; a chargeback takes a payment back.
+ */
+function buildLedger(invoices: StatementInvoice[], orderNumbers: Map<string, string>): Omit<StatementEntry, 'balance'>[] {
+  const entries: Omit<StatementEntry, 'balance'>[] = [];
+
+  invoices.forEach(invoice => {
+    const reference = getInvoiceNumber(invoice);
+    const numbers = (invoice.order_ids || []).map(id => orderNumbers.get(id)).filter(Boolean);
+    const orderSummary = numbers.length > 0
+      ? ` (${numbers.length} order${numbers.length === 1 ? '' : 's'}: #${numbers.join(', #')})`
+      : '';
+
+    entries.push({
+      date: invoice.created_at,
+      type: 'invoice',
+      reference,
+      description: `${invoice.invoice_title}${orderSummary}`,
+      debit: roundCurrency(Number(invoice.total_amount)),
+      credit: 0,
+    });
+
+    invoice.payments.forEach(payment => {
+      const method = PAYMENT_METHOD_LABELS[payment.method] || payment.method;
+      entries.push({
+        date: payment.paid_at,
+        type: 'payment',
+        reference,
+        description: payment.reference ? `${method} (${payment.reference})` : method,
+        debit: 0,
+        credit: roundCurrency(Number(payment.amount)),
+      });
+    });
+
+    invoice.credit_notes.forEach(note => {
+      const amount = roundCurrency(Number(note.amount));
+      const isChargeback = note.kind === 'chargeback';
+      entries.push({
+        date: note.issued_at,
+        type: isChargeback ? 'chargeback' : 'refund',
+        reference,
+        description: `${CREDIT_NOTE_KIND_LABELS[note.kind]}${note.reason ? `: ${note.reason}` : ''}`,
+        debit: amount,
+        credit: isChargeback ? 0 : amount,
+      });
+    });
+  });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export async function fetchCustomerStatement(customerId: string, period: StatementPeriod): Promise<CustomerStatement> {
+  if (!period.from || !period.to || period.from > period.to) {
+    throw new Error('Choose a start date on or before the end date');
+  }
+
+  const { data: customer, error: customerError } = await supabase
+    .from('customers')
+    .select('id, full_name, email, company_name, billing_currency')
+    .eq('id', customerId)
+    .single();
+
+  if (customerError || !customer) {
+    console.error('Error fetching statement customer:', customerError);
+    throw new Error('Failed to load customer for statement');
+  }
+
+  // Drafts were never issued and cancelled invoices are not owed
+  const { data: invoiceData, error: invoicesError } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      payments:invoice_payments(*),
+      credit_notes:invoice_credit_notes(*)
+    `)
+    .eq('customer_id', customerId)
+    .not('status', 'in', '(draft,cancelled)')
+    .lte('created_at', new Date(endOfDay(period.to)).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (invoicesError) {
+    console.error('Error fetching statement invoices:', invoicesError);
+    throw new Error('Failed to load invoices for statement');
+  }
+
+  const allInvoices = (invoiceData || []) as StatementInvoice[];
+  const currencies = Array.from(new Set(allInvoices.map(invoice => invoice.currency || BASE_CURRENCY)));
+  const currency = period.currency
+    || (currencies.includes(customer.billing_currency) ? customer.billing_currency : currencies[0])
+    || customer.billing_currency
+    || BASE_CURRENCY;
+  const invoices = allInvoices.filter(invoice => (invoice.currency || BASE_CURRENCY) === currency);
+
+  const orderIds = invoices.flatMap(invoice => invoice.order_ids || []);
+  const orderNumbers = new Map<string, string>();
+  if (orderIds.length > 0) {
+    const { data: orders, error: ordersError } = await supabase
+      .from('orders')
+      .select('id, order_number')
+      .in('id', orderIds);
+
+    if (ordersError) {
+      // Order numbers only enrich the descriptions
+      console.error('Error fetching statement orders:', ordersError);
+    }
+    (orders || []).forEach((order: { id: string; order_number: string }) => orderNumbers.set(order.id, order.order_number));
+  }
+
+  const from = startOfDay(period.from);
+  const to = endOfDay(period.to);
+  let openingBalance = 0;
+  const entries: StatementEntry[] = [];
+
+  buildLedger(invoices, orderNumbers).forEach(entry => {
+    const time = new Date(entry.date).getTime();
+    if (time < from) {
+      openingBalance = roundCurrency(openingBalance + entry.debit - entry.credit);
+    } else if (time <= to) {
+      const previous = entries.length > 0 ? entries[entries.length - 1].balance : openingBalance;
+      entries.push({ ...entry, balance: roundCurrency(previous + entry.debit - entry.credit) });
+    }
+  });
+
+  const totalDebits = roundCurrency(entries.reduce((sum, entry) => sum + entry.debit, 0));
+  const totalCredits = roundCurrency(entries.reduce((sum, entry) => sum + entry.credit, 0));
+
+  return {
+    customer: {
+      id: customer.id,
+      full_name: customer.full_name,
+      email: customer.email,
+      company_name: customer.company_name,
+    },
+    currency,
+    currencies: currencies.length > 0 ? currencies : [currency],
+    from: period.from,
+    to: period.to,
+    openingBalance,
+    entries,
+    totalDebits,
+    totalCredits,
+    closingBalance: roundCurrency(openingBalance + totalDebits - totalCredits),
+    aging: getAgingBreakdown(invoices, to),
+  };
+}
+
+export function getStatementFilename(statement: CustomerStatement, extension: 'pdf' | 'csv'): string {
+  return sanitizeFilename(`Statement ${statement.customer.full_name} ${statement.from} to ${statement.to}.${extension}`);
+}
+
+/**
+ * The CSV carries the ledger rows framed by opening and closing balance rows,
+ * followed by the aging breakdown, so it reads the same as the PDF.
+ */
+export function downloadStatementCsv(statement: CustomerStatement): void {
+  const amount = (value: number) => (value ? formatPrice(value, statement.currency, 'code') : '');
+  const columns: CSVColumn<StatementEntry>[] = [
+    { key: 'date', label: 'Date', format: (entry) => (entry.date ? new Date(entry.date).toLocaleDateString() : '') },
+    { key: 'type', label: 'Type', format: (entry) => (entry.date ? STATEMENT_ENTRY_LABELS[entry.type] : '') },
+    { key: 'reference', label: 'Reference' },
+    { key: 'description', label: 'Description' },
+    { key: 'debit', label: 'Debit', format: (entry) => amount(entry.debit) },
+    { key: 'credit', label: 'Credit', format: (entry) => amount(entry.credit) },
+    { key: 'balance', label: 'Balance', format: (entry) => formatPrice(entry.balance, statement.currency, 'code') },
+  ];
+
+  const summaryRow = (description: string, balance: number): StatementEntry => ({
+    date: '',
+    type: 'invoice',
+    reference: '',
+    description,
+    debit: 0,
+    credit: 0,
+    balance,
+  });
+
+  const rows = [
+    summaryRow(`Opening balance at ${statement.from}`, statement.openingBalance),
+    ...statement.entries,
+    summaryRow(`Closing balance at ${statement.to}`, statement.closingBalance),
+    ...AGING_BUCKET_LABELS.map(([key, label]) => summaryRow(`Aging: ${label}`, statement.aging[key])),
+  ];
+
+  downloadCSV(generateCSV(rows, columns), getStatementFilename(statement, 'csv'));
+}
@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import { taxConfig } from '../config/tax.config';
+import { InvoiceLineItem, roundCurrency } from './pricingService';
+
+export interface CustomerTaxProfile {
+  tax_region?: string | null;
+  tax_exempt?: boolean | null;
+}
+
+export interface TaxedLineItem extends InvoiceLineItem {
+  tax: number;
+}
+
+export interface TaxBreakdown {
+  region: string | null;
+  rate: number;
+  exempt: boolean;
+  lines: TaxedLineItem[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+export function normalizeTaxRegion(region?: string | null): string | null {
+  const normalized = (region || '').trim().toUpperCase();
+  return normalized || null;
+}
+
+/**
+ * Resolves the percentage charged to a customer: exempt customers pay none,
+ * otherwise the most specific region rule wins (`US-CA`, then `US`), then the
+ * business-wide rate.
+ */
+export function getTaxRate(profile: CustomerTaxProfile): number {
+  if (profile.tax_exempt) {
+    return 0;
+  }
+
+  const region = normalizeTaxRegion(profile.tax_region);
+  if (region) {
+    if (region in taxConfig.regionRates) {
+      return taxConfig.regionRates[region];
+    }
+    const country = region.split('-')[0];
+    if (country in taxConfig.regionRates) {
+      return taxConfig.regionRates[country];
+    }
+  }
+
+  return taxConfig.defaultRate;
+}
+
+/**
+ * Taxes each line at the given rate. Tax is rounded per line so the invoice,
+ * the PDF and the gateway line items always add up to the same total.
+ */
+export function applyTaxRate(lines: InvoiceLineItem[], rate: number, region: string | null = null): TaxBreakdown {
+  const taxedLines = lines.map(line => ({
+    ...line,
+    tax: roundCurrency(line.price * line.quantity * rate / 100),
+  }));
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  const taxAmount = roundCurrency(taxedLines.reduce((sum, line) => sum + line.tax, 0));
+
+  return {
+    region,
+    rate,
+    exempt: false,
+    lines: taxedLines,
+    subtotal,
+    taxAmount,
+    total: roundCurrency(subtotal + taxAmount),
+  };
+}
+
+export function calculateTax(lines: InvoiceLineItem[], profile: CustomerTaxProfile): TaxBreakdown {
+  return {
+    ...applyTaxRate(lines, getTaxRate(profile), normalizeTaxRegion(profile.tax_region)),
+    exempt: !!profile.tax_exempt,
+  };
+}
+
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat(rate.toFixed(3))}%`;
+}
+
+export function getTaxLabel(rate: number): string {
+  return `${taxConfig.label} (${formatTaxRate(rate)})`;
+}
+
+/**
+ * The tax as its own product for payment gateways, which charge the sum of the
+ * line items. Nothing is added when no tax is due.
+ */
+export function buildTaxLineItem(tax: Pick<TaxBreakdown, 'rate' | 'taxAmount'>): InvoiceLineItem | null {
+  if (!tax.taxAmount || tax.taxAmount <= 0) {
+    return null;
+  }
+  return { name: getTaxLabel(tax.rate), price: roundCurrency(tax.taxAmount), quantity: 1 };
+}
+
+export function withTaxLineItem(lines: InvoiceLineItem[], tax: Pick<TaxBreakdown, 'rate' | 'taxAmount'>): InvoiceLineItem[] {
+  const taxLine = buildTaxLineItem(tax);
+  return taxLine ? [...lines, taxLine] : lines;
+}
+
+export async function fetchCustomerTaxProfile(customerId: string): Promise<CustomerTaxProfile> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('tax_region, tax_exempt')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching customer tax profile:', error);
+    throw new Error('Failed to load customer tax settings');
+  }
+
+  return data || {};
+}
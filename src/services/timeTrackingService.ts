@@ -0,0 +1,333 @@
+import { supabase } from '../lib/supabase';
+import { OrderTimeEntry } from '../admin/types';
+import { timeTrackingConfig } from '../config/timeTracking.config';
+import { roundCurrency } from './pricingService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface TimeEntryInput {
+  started_at: string;
+  ended_at: string;
+  notes?: string | null;
+}
+
+export interface DesignerWeeklyTime {
+  designer_id: string;
+  designer_name: string;
+  minutes: number;
+  order_count: number;
+}
+
+export interface OrderTimeCost {
+  order_id: string;
+  order_number: string;
+  order_name: string | null;
+  total_amount: number;
+  // All time logged on the order, not just the selected week
+  minutes: number;
+  cost: number;
+  margin: number;
+}
+
+export interface TimeTrackingOverview {
+  weekStart: Date;
+  designers: DesignerWeeklyTime[];
+  orders: OrderTimeCost[];
+}
+
+type TimeEntryRow = OrderTimeEntry & {
+  designer?: { full_name: string } | null;
+  order?: { order_number: string; order_name?: string | null; total_amount?: number } | null;
+};
+
+/**
+ * Running timers count up to now, so totals that include them move while
+ * the page is open.
+ */
+export function getTimeEntryMinutes(entry: Pick<OrderTimeEntry, 'started_at' | 'ended_at'>, now: Date = new Date()): number {
+  const end = entry.ended_at ? new Date(entry.ended_at) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(entry.started_at).getTime()) / MINUTE_MS));
+}
+
+export function sumMinutesByOrder(entries: Pick<OrderTimeEntry, 'order_id' | 'started_at' | 'ended_at'>[], now: Date = new Date()): Record<string, number> {
+  return entries.reduce<Record<string, number>>((totals, entry) => {
+    totals[entry.order_id] = (totals[entry.order_id] || 0) + getTimeEntryMinutes(entry, now);
+    return totals;
+  }, {});
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return `${hours}h ${String(rest).padStart(2, '0')}m`;
+}
+
+export function getDesignerTimeCost(minutes: number): number {
+  return roundCurrency((minutes / 60) * timeTrackingConfig.designerHourlyCost);
+}
+
+export function getWeekStart(date: Date = new Date()): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (start.getDay() - timeTrackingConfig.weekStartsOn + 7) % 7;
+  start.setDate(start.getDate() - offset);
+  return start;
+}
+
+function validateTimeEntry(input: TimeEntryInput): void {
+  const start = new Date(input.started_at);
+  const end = new Date(input.ended_at);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Enter a valid start and end time');
+  }
+  if (end <= start) {
+    throw new Error('The end time must be after the start time');
+  }
+  if (end.getTime() > Date.now() + MINUTE_MS) {
+    throw new Error('Time cannot be logged in the future');
+  }
+}
+
+function mapTimeEntry(row: TimeEntryRow): OrderTimeEntry {
+  const { designer, order, ...entry } = row;
+  return {
+    ...entry,
+    designer_name: designer?.full_name,
+    order_number: order?.order_number,
+  };
+}
+
+async function getCurrentDesignerId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  return user.id;
+}
+
+export async function fetchOrderTimeEntries(orderId: string): Promise<OrderTimeEntry[]> {
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .select('*, designer:employees(full_name)')
+    .eq('order_id', orderId)
+    .order('started_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching time entries:', error);
+    throw new Error('Failed to load time entries');
+  }
+
+  return (data || []).map(mapTimeEntry);
+}
+
+/**
+ * Finished time per order. Running timers are left out so a caller showing a
+ * live timer can add its elapsed time without counting it twice.
+ */
+export async function fetchOrderTimeTotals(orderIds: string[]): Promise<Record<string, number>> {
+  if (orderIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .select('order_id, started_at, ended_at')
+    .in('order_id', orderIds)
+    .not('ended_at', 'is', null);
+
+  if (error) {
+    console.error('Error fetching order time totals:', error);
+    throw new Error('Failed to load logged time');
+  }
+
+  return sumMinutesByOrder(data || []);
+}
+
+export async function fetchRunningTimer(): Promise<OrderTimeEntry | null> {
+  const designerId = await getCurrentDesignerId();
+
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .select('*, order:orders(order_number)')
+    .eq('designer_id', designerId)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching running timer:', error);
+    throw new Error('Failed to load your running timer');
+  }
+
+  return data ? mapTimeEntry(data) : null;
+}
+
+export async function stopTimer(entryId: string): Promise<OrderTimeEntry> {
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('id', entryId)
+    .is('ended_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error stopping timer:', error);
+    throw new Error('Failed to stop the timer');
+  }
+
+  return data as OrderTimeEntry;
+}
+
+/**
+ * A designer times one order at a time, so starting a timer stops whichever
+ * one is already running.
+ */
+export async function startTimer(orderId: string): Promise<OrderTimeEntry> {
+  const designerId = await getCurrentDesignerId();
+
+  const running = await fetchRunningTimer();
+  if (running) {
+    if (running.order_id === orderId) return running;
+    await stopTimer(running.id);
+  }
+
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .insert({ order_id: orderId, designer_id: designerId, started_at: new Date().toISOString() })
+    .select('*, order:orders(order_number)')
+    .single();
+
+  if (error) {
+    console.error('Error starting timer:', error);
+    throw new Error('Failed to start the timer');
+  }
+
+  return mapTimeEntry(data);
+}
+
+export async function addTimeEntry(orderId: string, input: TimeEntryInput): Promise<OrderTimeEntry> {
+  validateTimeEntry(input);
+  const designerId = await getCurrentDesignerId();
+
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .insert({
+      order_id: orderId,
+      designer_id: designerId,
+      started_at: input.started_at,
+      ended_at: input.ended_at,
+      notes: input.notes?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding time entry:', error);
+    throw new Error('Failed to add time entry');
+  }
+
+  return data as OrderTimeEntry;
+}
+
+export async function updateTimeEntry(entryId: string, input: TimeEntryInput): Promise<OrderTimeEntry> {
+  validateTimeEntry(input);
+
+  const { data, error } = await supabase
+    .from('order_time_entries')
+    .update({
+      started_at: input.started_at,
+      ended_at: input.ended_at,
+      notes: input.notes?.trim() || null,
+    })
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating time entry:', error);
+    throw new Error('Failed to update time entry');
+  }
+
+  return data as OrderTimeEntry;
+}
+
+export async function deleteTimeEntry(entryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('order_time_entries')
+    .delete()
+    .eq('id', entryId);
+
+  if (error) {
+    console.error('Error deleting time entry:', error);
+    throw new Error('Failed to delete time entry');
+  }
+}
+
+/**
+ * Weekly hours per designer and cost against revenue for every order worked
+ * on that week. Entries count towards the week they started in; running
+ * timers count once they are stopped.
+ */
+export async function fetchTimeTrackingOverview(weekStart: Date): Promise<TimeTrackingOverview> {
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+  const { data: weekEntries, error } = await supabase
+    .from('order_time_entries')
+    .select('*, designer:employees(full_name), order:orders(order_number, order_name, total_amount)')
+    .gte('started_at', weekStart.toISOString())
+    .lt('started_at', weekEnd.toISOString())
+    .not('ended_at', 'is', null);
+
+  if (error) {
+    console.error('Error fetching time tracking overview:', error);
+    throw new Error('Failed to load designer time');
+  }
+
+  const rows = (weekEntries || []) as TimeEntryRow[];
+
+  const designers = new Map<string, DesignerWeeklyTime & { orders: Set<string> }>();
+  rows.forEach(row => {
+    const current = designers.get(row.designer_id) || {
+      designer_id: row.designer_id,
+      designer_name: row.designer?.full_name || 'Unknown designer',
+      minutes: 0,
+      order_count: 0,
+      orders: new Set<string>(),
+    };
+    current.minutes += getTimeEntryMinutes(row);
+    current.orders.add(row.order_id);
+    designers.set(row.designer_id, current);
+  });
+
+  const orderDetails = new Map<string, NonNullable<TimeEntryRow['order']>>();
+  rows.forEach(row => {
+    if (row.order) orderDetails.set(row.order_id, row.order);
+  });
+
+  const totals = await fetchOrderTimeTotals(Array.from(orderDetails.keys()));
+
+  const orders: OrderTimeCost[] = Array.from(orderDetails.entries()).map(([orderId, order]) => {
+    const minutes = totals[orderId] || 0;
+    const cost = getDesignerTimeCost(minutes);
+    const totalAmount = Number(order.total_amount) || 0;
+    return {
+      order_id: orderId,
+      order_number: order.order_number,
+      order_name: order.order_name || null,
+      total_amount: totalAmount,
+      minutes,
+      cost,
+      margin: roundCurrency(totalAmount - cost),
+    };
+  });
+
+  return {
+    weekStart,
+    designers: Array.from(designers.values())
+      .map(({ orders: orderIds, ...designer }) => ({ ...designer, order_count: orderIds.size }))
+      .sort((a, b) => b.minutes - a.minutes),
+    orders: orders.sort((a, b) => a.margin - b.margin),
+  };
+}
@@ -0,0 +1,64 @@
+import { turnaroundConfig, TurnaroundTier } from '../config/turnaround.config';
+import type { AdminOrder } from '../admin/types';
+
+export type SlaState = 'on_track' | 'at_risk' | 'overdue' | 'met' | 'late';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const TURNAROUND_TIERS = Object.keys(turnaroundConfig.tiers) as TurnaroundTier[];
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  overdue: 'Overdue',
+  met: 'On time',
+  late: 'Completed late',
+};
+
+export function getTurnaroundTier(tier?: string | null): TurnaroundTier {
+  return tier && tier in turnaroundConfig.tiers ? (tier as TurnaroundTier) : turnaroundConfig.defaultTier;
+}
+
+export function getTurnaroundSurchargePercent(tier?: string | null): number {
+  return turnaroundConfig.tiers[getTurnaroundTier(tier)].surchargePercent;
+}
+
+/**
+ * The due date is counted from when the order was placed, so changing the
+ * tier of an existing order moves its due date relative to `created_at`.
+ */
+export function getTurnaroundDueDate(tier: string | null | undefined, placedAt: Date | string = new Date()): string {
+  const hours = turnaroundConfig.tiers[getTurnaroundTier(tier)].turnaroundHours;
+  return new Date(new Date(placedAt).getTime() + hours * HOUR_MS).toISOString();
+}
+
+/**
+ * Where an order stands against its due date. Open orders are overdue once
+ * past it and at risk inside the configured window; finished orders are
+ * judged on when they were completed. Cancelled and undated orders have none.
+ */
+export function getSlaState(
+  order: Pick<AdminOrder, 'status' | 'due_at' | 'completed_at'>,
+  now: Date = new Date()
+): SlaState | null {
+  if (!order.due_at || order.status === 'cancelled') return null;
+
+  const dueAt = new Date(order.due_at).getTime();
+
+  if (order.status === 'completed') {
+    if (!order.completed_at) return null;
+    return new Date(order.completed_at).getTime() > dueAt ? 'late' : 'met';
+  }
+
+  const remaining = dueAt - now.getTime();
+  if (remaining < 0) return 'overdue';
+  if (remaining <= turnaroundConfig.atRiskHours * HOUR_MS) return 'at_risk';
+  return 'on_track';
+}
+
+export function formatTimeUntilDue(dueAt: string, now: Date = new Date()): string {
+  const diff = new Date(dueAt).getTime() - now.getTime();
+  const hours = Math.round(Math.abs(diff) / HOUR_MS);
+  const span = hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`;
+  return diff < 0 ? `${span} overdue` : `due in ${span}`;
+}
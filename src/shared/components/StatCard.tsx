@@ -1,6 +1,6 @@
 import React from 'react';
 import { LucideIcon } from 'lucide-react';
-import { getStatCardColorClasses } from './StatusBadge';
+import { getStatCardColorClasses } from '../utils/statusColors';
 
 interface StatCardProps {
   title: string;
@@ -1,6 +1,7 @@
 export const STORAGE_BUCKETS = {
   ORDER_ATTACHMENTS: 'order-attachments',
   STOCK_DESIGN_IMAGES: 'stock-design-images',
+  INVOICE_PDFS: 'invoice-pdfs',
 } as const;
 
 export const MAX_FILE_SIZE_MB = 20;
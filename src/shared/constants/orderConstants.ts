@@ -10,6 +10,8 @@ export const PAYMENT_STATUS_OPTIONS = [
   { value: 'paid', label: 'Paid' },
   { value: 'unpaid', label: 'Unpaid' },
   { value: 'partially_paid', label: 'Partially Paid' },
+  { value: 'refunded', label: 'Refunded' },
+  { value: 'charged_back', label: 'Charged Back' },
 ] as const;
 
 export const DEFAULT_PAGINATION_PARAMS = {
@@ -0,0 +1,16 @@
+/**
+ * Parses a comma-separated list of key:number pairs from an environment
+ * variable, e.g. `US-CA:7.25,GB:20`. Keys are upper-cased; malformed or
+ * negative entries are skipped.
+ */
+export function parseRateTable(value?: string): Record<string, number> {
+  const rates: Record<string, number> = {};
+  (value || '').split(',').forEach(entry => {
+    const [key, rate] = entry.split(':').map(part => part.trim());
+    const parsedRate = parseFloat(rate);
+    if (key && !isNaN(parsedRate) && parsedRate >= 0) {
+      rates[key.toUpperCase()] = parsedRate;
+    }
+  });
+  return rates;
+}
@@ -37,7 +37,14 @@ export function validateFileSize(file: File, maxSizeMB: number = 20): { valid: b
   return { valid: true };
 }
 
-export function getFileIcon(mimeType: string): string {
+const EMBROIDERY_EXTENSIONS = ['.dst', '.pes', '.exp'];
+
+export function isEmbroideryFile(filename: string): boolean {
+  return EMBROIDERY_EXTENSIONS.includes(getFileExtension(filename).toLowerCase());
+}
+
+export function getFileIcon(mimeType: string, filename?: string): string {
+  if (filename && isEmbroideryFile(filename)) return '🧵';
   if (mimeType.startsWith('image/')) return '🖼️';
   if (mimeType.startsWith('video/')) return '🎥';
   if (mimeType.startsWith('audio/')) return '🎵';
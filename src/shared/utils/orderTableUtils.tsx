@@ -1,8 +1,11 @@
 import React from 'react';
 import { Eye, CreditCard as Edit } from 'lucide-react';
 import { AdminOrder } from '../../admin/types';
-import { getStatusColor } from '../components/StatusBadge';
+import { getStatusColor, getComplexityColor } from './statusColors';
 import { OrderImagePreview } from '../../components/OrderImagePreview';
+import { formatPrice } from '../../services/pricingService';
+import { formatTimeUntilDue, getSlaState, SlaState, SLA_STATE_LABELS } from '../../services/turnaroundService';
+import { turnaroundConfig } from '../../config/turnaround.config';
 
 export const createImageColumn = () => ({
   key: 'image',
@@ -36,7 +39,7 @@ export const createTotalAmountColumn = () => ({
   key: 'total_amount',
   label: 'Total',
   sortable: true,
-  render: (order: AdminOrder) => `$${(order.total_amount || 0).toFixed(2)}`,
+  render: (order: AdminOrder) => formatPrice(order.total_amount || 0),
 });
 
 export const createStatusColumn = () => ({
@@ -50,6 +53,76 @@ export const createStatusColumn = () => ({
   ),
 });
 
+export const createComplexityColumn = () => ({
+  key: 'estimated_stitch_count',
+  label: 'Complexity',
+  sortable: true,
+  render: (order: AdminOrder) => order.complexity_band ? (
+    <div className="flex flex-col">
+      <span className={`inline-flex items-center w-fit px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getComplexityColor(order.complexity_band)}`}>
+        {order.complexity_band}
+      </span>
+      {order.estimated_stitch_count != null && (
+        <span className="text-xs text-gray-500 mt-1">
+          ~{order.estimated_stitch_count.toLocaleString()} st • {order.estimated_color_count || 1} col
+        </span>
+      )}
+    </div>
+  ) : (
+    <span className="text-sm text-gray-400">—</span>
+  ),
+});
+
+export const getSlaColor = (state: SlaState): string => {
+  switch (state) {
+    case 'on_track':
+    case 'met':
+      return 'bg-green-100 text-green-800';
+    case 'at_risk':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'overdue':
+    case 'late':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const createDueDateColumn = () => ({
+  key: 'due_at',
+  label: 'Due',
+  sortable: true,
+  render: (order: AdminOrder) => {
+    if (!order.due_at) {
+      return <span className="text-sm text-gray-400">—</span>;
+    }
+
+    // Only the states someone needs to act on get a badge
+    const slaState = getSlaState(order);
+    const flagged = slaState === 'overdue' || slaState === 'at_risk' || slaState === 'late';
+    const tier = order.turnaround_tier && order.turnaround_tier !== turnaroundConfig.defaultTier
+      ? turnaroundConfig.tiers[order.turnaround_tier].label
+      : null;
+
+    return (
+      <div className="flex flex-col">
+        <span className="text-sm text-gray-900">
+          {new Date(order.due_at).toLocaleDateString()}
+          {tier && <span className="ml-1 text-xs font-semibold uppercase text-orange-600">{tier}</span>}
+        </span>
+        {flagged && slaState && (
+          <span
+            className={`inline-flex items-center w-fit mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${getSlaColor(slaState)}`}
+            title={slaState !== 'late' ? formatTimeUntilDue(order.due_at) : undefined}
+          >
+            {SLA_STATE_LABELS[slaState]}
+          </span>
+        )}
+      </div>
+    );
+  },
+});
+
 export const createDesignerColumn = () => ({
   key: 'assigned_designer_name',
   label: 'Assigned Designer',
@@ -69,7 +142,8 @@ export const createDateColumn = () => ({
 
 export const createActionsColumn = (
   onEdit: (order: AdminOrder) => void,
-  onView: (order: AdminOrder) => void
+  onView: (order: AdminOrder) => void,
+  renderExtraActions?: (order: AdminOrder) => React.ReactNode
 ) => ({
   key: 'actions',
   label: 'Actions',
@@ -89,6 +163,7 @@ export const createActionsColumn = (
       >
         <Eye className="h-4 w-4" />
       </button>
+      {renderExtraActions?.(order)}
     </div>
   ),
 });
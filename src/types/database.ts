@@ -9,6 +9,10 @@ export interface Database {
           phone: string | null;
           role: 'admin' | 'sales_rep' | 'designer';
           status: 'active' | 'disabled';
+          skill_category_ids: string[];
+          out_of_office_from: string | null;
+          out_of_office_until: string | null;
+          auto_assign_enabled: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -24,6 +28,13 @@ export interface Database {
           status: 'active' | 'disabled';
           assigned_sales_rep_id: string | null;
           company_name: string | null;
+          tax_region: string | null;
+          tax_exempt: boolean;
+          tax_exemption_id: string | null;
+          billing_currency: string;
+          on_hold: boolean;
+          on_hold_reason: string | null;
+          on_hold_since: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -49,9 +60,24 @@ export interface Database {
           payment_status: 'paid' | 'unpaid' | 'cancelled' | 'pending_payment';
           custom_width: number;
           custom_height: number;
+          quantity: number;
+          color_count: number | null;
+          stitch_count: number | null;
+          estimated_stitch_count: number | null;
+          estimated_color_count: number | null;
+          complexity_band: 'simple' | 'moderate' | 'complex' | null;
           category_id: string;
           edits: number;
           invoice_id: string | null;
+          discount_code_id: string | null;
+          discount_amount: number;
+          requires_approval: boolean;
+          approved_by: string | null;
+          approved_at: string | null;
+          turnaround_tier: 'standard' | 'priority' | 'rush';
+          due_at: string | null;
+          completed_at: string | null;
+          designer_auto_assigned: boolean;
         };
         Insert: Omit<Database['public']['Tables']['orders']['Row'], 'id' | 'created_at' | 'updated_at' | 'order_number'>;
         Update: Partial<Database['public']['Tables']['orders']['Insert']>;
@@ -92,13 +118,28 @@ export interface Database {
           month_year: string;
           payment_link: string | null;
           order_ids: string[];
+          subtotal: number;
+          tax_amount: number;
+          tax_rate: number;
+          tax_region: string | null;
           total_amount: number;
-          status: 'paid' | 'unpaid' | 'cancelled';
+          currency: string;
+          exchange_rate: number;
+          status: 'draft' | 'paid' | 'unpaid' | 'partially_paid' | 'refunded' | 'charged_back' | 'cancelled';
+          source: 'manual' | 'monthly';
           created_at: string;
           updated_at: string;
           tco_reference_number: string | null;
           tco_order_id: string | null;
           tco_payment_method: string | null;
+          paypal_order_id: string | null;
+          paypal_capture_id: string | null;
+          paypal_payer_id: string | null;
+          payment_gateway: 'twoCheckout' | 'stripe' | 'paypal' | null;
+          gateway_session_id: string | null;
+          dunning_paused: boolean;
+          last_reminder_at: string | null;
+          last_reminder_days: number | null;
         };
         Insert: Omit<Database['public']['Tables']['invoices']['Row'], 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['invoices']['Insert']>;
@@ -153,6 +194,36 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['edit_comments']['Row'], 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['edit_comments']['Insert']>;
       };
+      order_proofs: {
+        Row: {
+          id: string;
+          order_id: string;
+          attachment_id: string | null;
+          version: number;
+          notes: string | null;
+          status: 'pending' | 'approved' | 'changes_requested';
+          submitted_by: string;
+          decided_by: string | null;
+          decided_at: string | null;
+          decision_comment: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['order_proofs']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['order_proofs']['Insert']>;
+      };
+      proof_comments: {
+        Row: {
+          id: string;
+          proof_id: string;
+          author_id: string;
+          content: string;
+          pin_x: number | null;
+          pin_y: number | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['proof_comments']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['proof_comments']['Insert']>;
+      };
       order_attachments: {
         Row: {
           id: string;
@@ -165,10 +236,182 @@ export interface Database {
           uploaded_by: string;
           uploaded_at: string;
           created_at: string;
+          group_id: string | null;
+          version: number;
+          edit_comment_id: number | null;
         };
         Insert: Omit<Database['public']['Tables']['order_attachments']['Row'], 'id' | 'created_at'>;
         Update: Partial<Database['public']['Tables']['order_attachments']['Insert']>;
       };
+      attachment_groups: {
+        Row: {
+          id: string;
+          order_id: string;
+          name: string;
+          final_attachment_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['attachment_groups']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['attachment_groups']['Insert']>;
+      };
+      invoice_payments: {
+        Row: {
+          id: string;
+          invoice_id: string;
+          amount: number;
+          method: '2checkout' | 'stripe' | 'paypal' | 'account_credit' | 'card' | 'bank_transfer' | 'check' | 'cash' | 'other';
+          reference: string | null;
+          paid_at: string;
+          notes: string | null;
+          recorded_by: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['invoice_payments']['Row'], 'id' | 'created_at' | 'paid_at'> & { paid_at?: string };
+        Update: Partial<Database['public']['Tables']['invoice_payments']['Insert']>;
+      };
+      invoice_credit_notes: {
+        Row: {
+          id: string;
+          invoice_id: string;
+          kind: 'refund' | 'chargeback' | 'reversal';
+          amount: number;
+          method: '2checkout' | 'stripe' | 'paypal' | 'card' | 'bank_transfer' | 'check' | 'cash' | 'other';
+          reference: string | null;
+          reason: string | null;
+          issued_at: string;
+          issued_by: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['invoice_credit_notes']['Row'], 'id' | 'created_at' | 'issued_at'> & { issued_at?: string };
+        Update: Partial<Database['public']['Tables']['invoice_credit_notes']['Insert']>;
+      };
+      order_activity: {
+        Row: {
+          id: string;
+          order_id: string;
+          actor_id: string | null;
+          event_type: 'order_created' | 'field_changed' | 'comment_added' | 'attachment_uploaded' | 'attachment_deleted' | 'invoice_linked' | 'invoice_unlinked';
+          field_name: string | null;
+          old_value: string | null;
+          new_value: string | null;
+          details: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['order_activity']['Row'], 'id' | 'created_at'>;
+        Update: never;
+      };
+      discount_codes: {
+        Row: {
+          id: string;
+          code: string;
+          description: string | null;
+          discount_type: 'percentage' | 'fixed';
+          discount_value: number;
+          category_id: string | null;
+          stock_design_id: string | null;
+          minimum_spend: number;
+          expires_at: string | null;
+          max_redemptions: number | null;
+          max_redemptions_per_customer: number | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['discount_codes']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['discount_codes']['Insert']>;
+      };
+      discount_redemptions: {
+        Row: {
+          id: string;
+          discount_code_id: string;
+          customer_id: string;
+          order_ids: string[];
+          subtotal: number;
+          discount_amount: number;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      customer_credit_entries: {
+        Row: {
+          id: string;
+          customer_id: string;
+          kind: 'top_up' | 'consumption' | 'adjustment';
+          amount: number;
+          currency: string;
+          invoice_id: string | null;
+          reference: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['customer_credit_entries']['Row'], 'id' | 'created_at'>;
+        Update: never;
+      };
+      dunning_steps: {
+        Row: {
+          id: string;
+          days_after: number;
+          escalate_to_sales_rep: boolean;
+          hold_customer: boolean;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['dunning_steps']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['dunning_steps']['Insert']>;
+      };
+      invoice_reminders: {
+        Row: {
+          id: string;
+          invoice_id: string;
+          days_after: number;
+          emailed: boolean;
+          email_error: string | null;
+          escalated_to: string | null;
+          customer_held: boolean;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      quotes: {
+        Row: {
+          id: string;
+          quote_number: string;
+          full_name: string;
+          email: string;
+          phone: string | null;
+          category_id: string | null;
+          custom_width: number | null;
+          custom_height: number | null;
+          design_instructions: string | null;
+          estimated_stitch_count: number | null;
+          estimated_color_count: number | null;
+          complexity_band: 'simple' | 'moderate' | 'complex' | null;
+          attachment_name: string | null;
+          attachment_path: string | null;
+          attachment_mime_type: string | null;
+          attachment_size: number | null;
+          customer_id: string | null;
+          assigned_sales_rep_id: string | null;
+          stage: 'new' | 'priced' | 'sent' | 'accepted' | 'declined' | 'expired';
+          quoted_price: number | null;
+          valid_until: string | null;
+          notes: string | null;
+          order_id: string | null;
+          stage_changed_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: never;
+        Update: Partial<Pick<Database['public']['Tables']['quotes']['Row'],
+          'customer_id' | 'assigned_sales_rep_id' | 'stage' | 'quoted_price' | 'valid_until' | 'notes' | 'order_id'>>;
+      };
     };
     Views: {
       orders_with_details: {
@@ -204,6 +447,8 @@ export interface Database {
           activeStockDesigns: number;
           newOrdersCount: number;
           underReviewOrdersCount: number;
+          slaBreachedOrders: number;
+          lateCompletionsThisMonth: number;
         };
       };
       calculate_sales_rep_stats: {
@@ -222,6 +467,23 @@ export interface Database {
           inProgressOrdersCount: number;
         };
       };
+      get_designer_assignment_candidates: {
+        Args: { p_order_id: string };
+        Returns: {
+          designer_id: string;
+          full_name: string;
+          open_orders: number;
+          skill_match: boolean;
+          out_of_office: boolean;
+          auto_assign_enabled: boolean;
+          is_previous_designer: boolean;
+          score: number;
+        }[];
+      };
+      auto_assign_designer: {
+        Args: { p_order_id: string };
+        Returns: string | null;
+      };
       generate_order_number: {
         Args: Record<string, never>;
         Returns: string;
@@ -0,0 +1,85 @@
+// Plain SMTP over implicit TLS, the same conversation send-contact-email has
+// with the mail server, with the account taken from the environment.
+
+const SMTP_HOST = Deno.env.get("SMTP_HOST") || "mail.absstitch.com";
+const SMTP_PORT = Number(Deno.env.get("SMTP_PORT") || "465");
+const SMTP_USERNAME = Deno.env.get("SMTP_USERNAME") || "";
+const SMTP_PASSWORD = Deno.env.get("SMTP_PASSWORD") || "";
+const SMTP_FROM = Deno.env.get("SMTP_FROM") || SMTP_USERNAME;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export function isEmailConfigured(): boolean {
+  return Boolean(SMTP_USERNAME && SMTP_PASSWORD && SMTP_FROM);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function buildMessage(message: EmailMessage): string {
+  // Lines starting with a dot would end the DATA section early
+  const body = message.html.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+
+  return [
+    `From: ${SMTP_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!isEmailConfigured()) {
+    throw new Error("SMTP credentials not configured");
+  }
+
+  const conn = await Deno.connect({ hostname: SMTP_HOST, port: SMTP_PORT, transport: "tcp" });
+  const tlsConn = await Deno.startTls(conn, { hostname: SMTP_HOST });
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  async function readResponse(): Promise<string> {
+    const buffer = new Uint8Array(1024);
+    const n = await tlsConn.read(buffer);
+    if (n === null) throw new Error("Connection closed");
+    return decoder.decode(buffer.subarray(0, n));
+  }
+
+  async function sendCommand(command: string, expectedCode: string): Promise<string> {
+    await tlsConn.write(encoder.encode(command + "\r\n"));
+    const response = await readResponse();
+    if (!response.startsWith(expectedCode)) {
+      throw new Error(`SMTP server rejected the message: ${response.trim()}`);
+    }
+    return response;
+  }
+
+  try {
+    await readResponse();
+    await sendCommand(`EHLO ${SMTP_HOST}`, "250");
+    await sendCommand("AUTH LOGIN", "334");
+    await sendCommand(btoa(SMTP_USERNAME), "334");
+    await sendCommand(btoa(SMTP_PASSWORD), "235");
+    await sendCommand(`MAIL FROM:<${SMTP_FROM}>`, "250");
+    await sendCommand(`RCPT TO:<${message.to}>`, "250");
+    await sendCommand("DATA", "354");
+    await sendCommand(buildMessage(message) + "\r\n.", "250");
+    await sendCommand("QUIT", "221");
+  } finally {
+    tlsConn.close();
+  }
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+
+// Server-side counterparts of src/services/notificationService.ts for webhooks,
+// which run with the service role instead of a signed-in user.
+
+export type InvoiceStatusChange = "paid" | "cancelled" | "refunded" | "partially_refunded" | "charged_back" | "reversed";
+
+const INVOICE_STATUS_MESSAGES: Record<InvoiceStatusChange, { customer: (title: string) => string; admin: (title: string) => string }> = {
+  paid: {
+    customer: (title) => `Your invoice "${title}" has been marked as paid. Thank you!`,
+    admin: (title) => `Invoice "${title}" has been marked as paid.`,
+  },
+  cancelled: {
+    customer: (title) => `Your invoice "${title}" has been cancelled.`,
+    admin: (title) => `Invoice "${title}" has been cancelled.`,
+  },
+  refunded: {
+    customer: (title) => `Your invoice "${title}" has been refunded.`,
+    admin: (title) => `Invoice "${title}" has been refunded in full.`,
+  },
+  partially_refunded: {
+    customer: (title) => `A partial refund has been issued for your invoice "${title}".`,
+    admin: (title) => `Invoice "${title}" has been partially refunded.`,
+  },
+  charged_back: {
+    customer: (title) => `The payment for your invoice "${title}" was disputed and charged back.`,
+    admin: (title) => `A chargeback was received for invoice "${title}".`,
+  },
+  reversed: {
+    customer: (title) => `The payment for your invoice "${title}" has been reversed.`,
+    admin: (title) => `The payment for invoice "${title}" has been reversed.`,
+  },
+};
+
+export async function notifyAboutInvoiceStatusChange(
+  supabase: SupabaseClient,
+  customerId: string,
+  invoiceTitle: string,
+  newStatus: InvoiceStatusChange
+): Promise<void> {
+  try {
+    const messages = INVOICE_STATUS_MESSAGES[newStatus];
+
+    const { data: admins } = await supabase
+      .from("employees")
+      .select("id")
+      .eq("role", "admin")
+      .eq("status", "active");
+
+    const notifications = [
+      { user_id: customerId, type: "invoice", message: messages.customer(invoiceTitle) },
+      ...(admins || []).map((admin: { id: string }) => ({
+        user_id: admin.id,
+        type: "invoice",
+        message: messages.admin(invoiceTitle),
+      })),
+    ];
+
+    const { error } = await supabase.from("notifications").insert(notifications);
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error notifying about invoice status change:", error);
+  }
+}
@@ -0,0 +1,90 @@
+export type PaymentGatewayId = "twoCheckout" | "stripe" | "paypal";
+
+// Ledger methods written by gateway webhooks (see invoice_payments.method)
+export type GatewayPaymentMethod = "2checkout" | "stripe" | "paypal";
+
+export interface Product {
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PaymentLinkParams {
+  invoiceId: string;
+  products: Product[];
+  currency: string;
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+export interface PaymentLink {
+  url: string;
+  // Gateway-side id of the checkout (e.g. a Stripe Checkout Session), if it has one
+  sessionId: string | null;
+}
+
+/**
+ * A webhook delivery as received, before any parsing. Gateways sign the raw
+ * body, so it has to be kept verbatim for verification.
+ */
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Headers;
+}
+
+/**
+ * A gateway notification normalized to what the invoice ledger needs.
+ */
+export interface PaymentEvent {
+  invoiceId: string | null;
+  amount: number;
+  currency: string;
+  // Unique per payment within the gateway; makes redelivered webhooks harmless
+  reference: string;
+  successful: boolean;
+  method: GatewayPaymentMethod;
+  notes: string | null;
+  // Gateway-specific invoice columns to store alongside the payment
+  invoiceUpdates: Record<string, unknown>;
+}
+
+export type CreditNoteKind = "refund" | "chargeback" | "reversal";
+
+/**
+ * Money going back to the customer: a refund, a chargeback or a reversed
+ * payment, normalized to what the credit notes ledger needs.
+ */
+export interface CreditEvent {
+  invoiceId: string | null;
+  kind: CreditNoteKind;
+  // Null when the gateway does not say how much, which credits everything still held
+  amount: number | null;
+  currency: string;
+  reference: string;
+  method: GatewayPaymentMethod;
+  reason: string | null;
+}
+
+export interface PaymentGateway {
+  id: PaymentGatewayId;
+  name: string;
+  createPaymentLink(params: PaymentLinkParams): Promise<PaymentLink>;
+  verifyWebhook(request: WebhookRequest): Promise<boolean>;
+  /**
+   * Returns null for notifications that do not describe a payment, which
+   * webhook handlers acknowledge without recording anything.
+   */
+  parseEvent(request: WebhookRequest): Promise<PaymentEvent | null>;
+}
+
+export function validatePaymentLinkParams(params: PaymentLinkParams): void {
+  if (!params.products || params.products.length === 0) {
+    throw new Error("At least one product is required");
+  }
+
+  params.products.forEach((product) => {
+    if (!product.name || !product.name.trim()) {
+      throw new Error("Product must have a name");
+    }
+  });
+}
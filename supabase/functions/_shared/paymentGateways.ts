@@ -0,0 +1,252 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import type { CreditEvent, PaymentEvent, PaymentGateway, PaymentGatewayId } from "./paymentGateway.ts";
+import { twoCheckoutGateway } from "./twoCheckoutHelpers.ts";
+import { stripeGateway } from "./stripeHelpers.ts";
+import { paypalGateway } from "./paypalHelpers.ts";
+
+const PAYMENT_GATEWAYS: Record<PaymentGatewayId, PaymentGateway> = {
+  twoCheckout: twoCheckoutGateway,
+  stripe: stripeGateway,
+  paypal: paypalGateway,
+};
+
+export function getPaymentGateway(id: string | undefined | null): PaymentGateway {
+  const gateway = PAYMENT_GATEWAYS[(id || "twoCheckout") as PaymentGatewayId];
+  if (!gateway) {
+    throw new Error(`Unsupported payment gateway: ${id}`);
+  }
+  return gateway;
+}
+
+export type RecordPaymentOutcome =
+  | { result: "recorded"; invoiceStatus: string | null }
+  | { result: "duplicate" }
+  | { result: "invoice_not_found" }
+  | { result: "currency_mismatch" }
+  | { result: "invalid_amount" };
+
+export type RecordCreditOutcome =
+  | {
+      result: "recorded";
+      invoiceStatus: string | null;
+      amount: number;
+      invoice: { id: string; customer_id: string; invoice_title: string };
+    }
+  | { result: "duplicate" }
+  | { result: "invoice_not_found" }
+  | { result: "currency_mismatch" }
+  | { result: "nothing_to_credit" };
+
+async function copyStockDesignFiles(supabase: SupabaseClient, orderId: string) {
+  try {
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('order_number, stock_design_id, stock_designs(attachment_url, attachment_filename)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order || !order.stock_design_id) {
+      console.log('Not a stock design order or order not found:', orderId);
+      return;
+    }
+
+    const attachmentUrl = order.stock_designs?.attachment_url;
+    const attachmentFilename = order.stock_designs?.attachment_filename;
+
+    if (!attachmentUrl || !attachmentFilename) {
+      console.log('No attachment found for stock design:', orderId);
+      return;
+    }
+
+    const sourcePath = attachmentUrl;
+    const targetPath = `orders/${order.order_number}/${attachmentFilename}`;
+
+    const { data: sourceFile, error: downloadError } = await supabase.storage
+      .from('stock-design-files')
+      .download(sourcePath);
+
+    if (downloadError) {
+      console.error('Error downloading source file:', downloadError);
+      throw downloadError;
+    }
+
+    const { error: uploadError } = await supabase.storage
+      .from('order-attachments')
+      .upload(targetPath, sourceFile, {
+        contentType: 'application/zip',
+        upsert: true
+      });
+
+    if (uploadError) {
+      console.error('Error uploading to order-attachments:', uploadError);
+      throw uploadError;
+    }
+
+    const { error: attachmentError } = await supabase
+      .from('order_attachments')
+      .insert({
+        order_id: orderId,
+        filename: attachmentFilename,
+        file_path: targetPath,
+        file_size: sourceFile.size,
+        uploaded_by: null
+      });
+
+    if (attachmentError) {
+      console.error('Error creating attachment record:', attachmentError);
+    }
+
+    console.log('Successfully copied file for order:', orderId);
+  } catch (error) {
+    console.error('Error in copyStockDesignFiles:', error);
+  }
+}
+
+// Invoices issued before billing currencies existed have no currency column value
+function currencyMatches(eventCurrency: string, invoiceCurrency: string | null): boolean {
+  return eventCurrency.toUpperCase() === (invoiceCurrency || "USD").toUpperCase();
+}
+
+/**
+ * Applies a verified, successful gateway payment to its invoice: adds it to
+ * the payments ledger (which derives the invoice status through a database
+ * trigger), stores the gateway's invoice columns and releases stock design
+ * files once the invoice is settled in full.
+ */
+export async function recordGatewayPayment(
+  supabase: SupabaseClient,
+  event: PaymentEvent
+): Promise<RecordPaymentOutcome> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, order_ids, currency')
+    .eq('id', event.invoiceId)
+    .maybeSingle();
+
+  if (invoiceError || !invoice) {
+    console.error('Invoice not found:', event.invoiceId);
+    return { result: "invoice_not_found" };
+  }
+
+  if (!currencyMatches(event.currency, invoice.currency)) {
+    console.error('Payment currency does not match invoice:', event.currency, invoice.currency);
+    return { result: "currency_mismatch" };
+  }
+
+  // Deposits and balances arrive as separate payments, so any positive amount is accepted
+  if (!(event.amount > 0)) {
+    console.error('Invalid payment amount:', event.amount);
+    return { result: "invalid_amount" };
+  }
+
+  const { error: paymentError } = await supabase
+    .from('invoice_payments')
+    .insert({
+      invoice_id: invoice.id,
+      amount: event.amount,
+      method: event.method,
+      reference: event.reference,
+      notes: event.notes,
+    });
+
+  if (paymentError) {
+    // Unique violation: this reference was already recorded by an earlier delivery
+    if (paymentError.code === '23505') {
+      console.log('Payment already recorded:', event.reference);
+      return { result: "duplicate" };
+    }
+    console.error('Error recording payment:', paymentError);
+    throw paymentError;
+  }
+
+  const { data: updatedInvoice, error: updateError } = await supabase
+    .from('invoices')
+    .update(event.invoiceUpdates)
+    .eq('id', invoice.id)
+    .select('status')
+    .single();
+
+  if (updateError) {
+    console.error('Error updating invoice:', updateError);
+    throw updateError;
+  }
+
+  // Stock design files are only released once the invoice is settled in full
+  if (updatedInvoice?.status === 'paid') {
+    for (const orderId of invoice.order_ids || []) {
+      await copyStockDesignFiles(supabase, orderId);
+    }
+  }
+
+  return { result: "recorded", invoiceStatus: updatedInvoice?.status ?? null };
+}
+
+/**
+ * Adds a verified refund, chargeback or reversal to the credit notes ledger.
+ * The credit is capped at what the invoice still holds, and the database
+ * trigger moves the invoice and its orders to the matching status.
+ */
+export async function recordGatewayCredit(
+  supabase: SupabaseClient,
+  event: CreditEvent
+): Promise<RecordCreditOutcome> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, customer_id, invoice_title, currency')
+    .eq('id', event.invoiceId)
+    .maybeSingle();
+
+  if (invoiceError || !invoice) {
+    console.error('Invoice not found:', event.invoiceId);
+    return { result: "invoice_not_found" };
+  }
+
+  if (!currencyMatches(event.currency, invoice.currency)) {
+    console.error('Credit currency does not match invoice:', event.currency, invoice.currency);
+    return { result: "currency_mismatch" };
+  }
+
+  const [{ data: payments }, { data: credits }] = await Promise.all([
+    supabase.from('invoice_payments').select('amount').eq('invoice_id', invoice.id),
+    supabase.from('invoice_credit_notes').select('amount').eq('invoice_id', invoice.id),
+  ]);
+
+  const sum = (rows: Array<{ amount: number }> | null) =>
+    (rows || []).reduce((total, row) => total + Number(row.amount), 0);
+  const heldAmount = Math.round((sum(payments) - sum(credits)) * 100) / 100;
+  const amount = Math.min(event.amount ?? heldAmount, heldAmount);
+
+  if (!(amount > 0)) {
+    console.log('Nothing left to credit on invoice:', invoice.id);
+    return { result: "nothing_to_credit" };
+  }
+
+  const { error: creditError } = await supabase
+    .from('invoice_credit_notes')
+    .insert({
+      invoice_id: invoice.id,
+      kind: event.kind,
+      amount,
+      method: event.method,
+      reference: event.reference,
+      reason: event.reason,
+    });
+
+  if (creditError) {
+    // Unique violation: this reference was already credited by an earlier delivery
+    if (creditError.code === '23505') {
+      console.log('Credit already recorded:', event.reference);
+      return { result: "duplicate" };
+    }
+    console.error('Error recording credit note:', creditError);
+    throw creditError;
+  }
+
+  const { data: updatedInvoice } = await supabase
+    .from('invoices')
+    .select('status')
+    .eq('id', invoice.id)
+    .single();
+
+  return { result: "recorded", invoiceStatus: updatedInvoice?.status ?? null, amount, invoice };
+}
@@ -0,0 +1,301 @@
+import type {
+  PaymentEvent,
+  PaymentGateway,
+  PaymentLinkParams,
+  WebhookRequest,
+} from "./paymentGateway.ts";
+import { validatePaymentLinkParams } from "./paymentGateway.ts";
+
+const PAYPAL_CLIENT_ID = Deno.env.get("PAYPAL_CLIENT_ID") || "";
+const PAYPAL_CLIENT_SECRET = Deno.env.get("PAYPAL_CLIENT_SECRET") || "";
+const PAYPAL_WEBHOOK_ID = Deno.env.get("PAYPAL_WEBHOOK_ID") || "";
+// Use https://api-m.sandbox.paypal.com while testing
+const PAYPAL_API_BASE = (Deno.env.get("PAYPAL_API_BASE") || "https://api-m.paypal.com").replace(/\/+$/, "");
+
+// PayPal rejects decimals for these currencies
+const ZERO_DECIMAL_CURRENCIES = ["HUF", "JPY", "TWD"];
+
+interface PayPalLink {
+  href: string;
+  rel: string;
+}
+
+interface PayPalCapture {
+  id: string;
+  status: string;
+  amount?: { currency_code: string; value: string };
+  custom_id?: string;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+}
+
+interface PayPalApiError {
+  message?: string;
+  details?: Array<{ issue?: string }>;
+}
+
+export interface PayPalOrder {
+  id: string;
+  status: string;
+  links?: PayPalLink[];
+  payer?: { payer_id?: string };
+  purchase_units?: Array<{
+    reference_id?: string;
+    custom_id?: string;
+    payments?: { captures?: PayPalCapture[] };
+  }>;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency)
+    ? Math.round(amount).toString()
+    : amount.toFixed(2);
+}
+
+async function getAccessToken(): Promise<string> {
+  if (!PAYPAL_CLIENT_ID || !PAYPAL_CLIENT_SECRET) {
+    throw new Error("PayPal credentials not configured");
+  }
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v1/oauth2/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${btoa(`${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: "grant_type=client_credentials",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || !data.access_token) {
+    console.error("PayPal authentication error:", data);
+    throw new Error("Failed to authenticate with PayPal");
+  }
+
+  return data.access_token;
+}
+
+async function paypalRequest<T>(
+  path: string,
+  method: "GET" | "POST",
+  body?: unknown
+): Promise<{ ok: boolean; status: number; data: T & PayPalApiError }> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const text = await response.text();
+  return { ok: response.ok, status: response.status, data: text ? JSON.parse(text) : {} };
+}
+
+function describePayPalError(data: PayPalApiError, fallback: string): string {
+  const issue = data?.details?.[0]?.issue;
+  return data?.message ? `${data.message}${issue ? ` (${issue})` : ""}` : fallback;
+}
+
+/**
+ * Creates a PayPal order for an invoice and returns the buyer approval link.
+ * Amounts are built in minor units so the item total always matches the sum
+ * of the line items, which PayPal validates.
+ */
+export async function createPayPalOrder(params: PaymentLinkParams): Promise<{ id: string; approveUrl: string }> {
+  validatePaymentLinkParams(params);
+
+  const currency = params.currency.toUpperCase();
+  const factor = ZERO_DECIMAL_CURRENCIES.includes(currency) ? 1 : 100;
+
+  const items = params.products.map((product) => ({
+    name: product.name.trim().slice(0, 127),
+    quantity: product.quantity.toString(),
+    unit_amount: {
+      currency_code: currency,
+      value: formatAmount(product.price, currency),
+    },
+  }));
+
+  const totalMinor = params.products.reduce(
+    (sum, product) => sum + Math.round(product.price * factor) * product.quantity,
+    0
+  );
+  const total = formatAmount(totalMinor / factor, currency);
+
+  const { ok, status, data: order } = await paypalRequest<PayPalOrder>("/v2/checkout/orders", "POST", {
+    intent: "CAPTURE",
+    purchase_units: [
+      {
+        reference_id: params.invoiceId,
+        custom_id: params.invoiceId,
+        amount: {
+          currency_code: currency,
+          value: total,
+          breakdown: {
+            item_total: { currency_code: currency, value: total },
+          },
+        },
+        items,
+      },
+    ],
+    payment_source: {
+      paypal: {
+        experience_context: {
+          return_url: params.returnUrl,
+          cancel_url: params.cancelUrl,
+          user_action: "PAY_NOW",
+          shipping_preference: "NO_SHIPPING",
+        },
+      },
+    },
+  });
+
+  if (!ok) {
+    console.error("PayPal order creation error:", order);
+    throw new Error(describePayPalError(order, `PayPal request failed with status ${status}`));
+  }
+
+  const approveUrl = order.links?.find((link) => link.rel === "payer-action" || link.rel === "approve")?.href;
+
+  if (!order.id || !approveUrl) {
+    throw new Error("Invalid response from PayPal");
+  }
+
+  return { id: order.id, approveUrl };
+}
+
+/**
+ * Captures an approved order. Capturing twice (return page and webhook racing)
+ * is answered with the already-captured order instead of an error.
+ */
+export async function capturePayPalOrder(orderId: string): Promise<PayPalOrder> {
+  const capture = await paypalRequest<PayPalOrder>(`/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`, "POST", {});
+
+  if (capture.ok) {
+    return capture.data;
+  }
+
+  if (capture.data?.details?.[0]?.issue === "ORDER_ALREADY_CAPTURED") {
+    const existing = await paypalRequest<PayPalOrder>(`/v2/checkout/orders/${encodeURIComponent(orderId)}`, "GET");
+    if (existing.ok) {
+      return existing.data;
+    }
+  }
+
+  console.error("PayPal capture error:", capture.data);
+  throw new Error(describePayPalError(capture.data, "Failed to capture PayPal payment"));
+}
+
+function captureToPaymentEvent(
+  capture: PayPalCapture,
+  invoiceId: string | null,
+  orderId: string | null,
+  payerId: string | null
+): PaymentEvent {
+  const invoiceUpdates: Record<string, unknown> = { paypal_capture_id: capture.id };
+  if (orderId) invoiceUpdates.paypal_order_id = orderId;
+  if (payerId) invoiceUpdates.paypal_payer_id = payerId;
+
+  return {
+    invoiceId,
+    amount: parseFloat(capture.amount?.value || "0"),
+    currency: capture.amount?.currency_code || "USD",
+    reference: capture.id,
+    successful: capture.status === "COMPLETED",
+    method: "paypal",
+    notes: orderId ? `PayPal order ${orderId}` : null,
+    invoiceUpdates,
+  };
+}
+
+/**
+ * Reads the capture out of a captured order. Returns null when the order
+ * holds no capture yet.
+ */
+export function orderToPaymentEvent(order: PayPalOrder): PaymentEvent | null {
+  const unit = order.purchase_units?.[0];
+  const capture = unit?.payments?.captures?.[0];
+
+  if (!unit || !capture) {
+    return null;
+  }
+
+  return captureToPaymentEvent(
+    capture,
+    capture.custom_id || unit.custom_id || unit.reference_id || null,
+    order.id,
+    order.payer?.payer_id || null
+  );
+}
+
+/**
+ * PayPal signs webhooks with a certificate chain, so verification is delegated
+ * to PayPal's verify-webhook-signature endpoint.
+ */
+export async function verifyPayPalWebhook(request: WebhookRequest): Promise<boolean> {
+  if (!PAYPAL_WEBHOOK_ID) {
+    console.error("PAYPAL_WEBHOOK_ID not configured");
+    return false;
+  }
+
+  const headers = request.headers;
+  const transmissionId = headers.get("paypal-transmission-id");
+  const transmissionSig = headers.get("paypal-transmission-sig");
+
+  if (!transmissionId || !transmissionSig) {
+    return false;
+  }
+
+  try {
+    const { ok, data } = await paypalRequest<{ verification_status?: string }>("/v1/notifications/verify-webhook-signature", "POST", {
+      auth_algo: headers.get("paypal-auth-algo"),
+      cert_url: headers.get("paypal-cert-url"),
+      transmission_id: transmissionId,
+      transmission_sig: transmissionSig,
+      transmission_time: headers.get("paypal-transmission-time"),
+      webhook_id: PAYPAL_WEBHOOK_ID,
+      webhook_event: JSON.parse(request.rawBody),
+    });
+
+    return ok && data.verification_status === "SUCCESS";
+  } catch (error) {
+    console.error("Error verifying PayPal webhook:", error);
+    return false;
+  }
+}
+
+export const paypalGateway: PaymentGateway = {
+  id: "paypal",
+  name: "PayPal",
+
+  async createPaymentLink(params) {
+    const order = await createPayPalOrder(params);
+    return { url: order.approveUrl, sessionId: order.id };
+  },
+
+  verifyWebhook(request) {
+    return verifyPayPalWebhook(request);
+  },
+
+  parseEvent(request): Promise<PaymentEvent | null> {
+    const event = JSON.parse(request.rawBody);
+
+    if (event?.event_type !== "PAYMENT.CAPTURE.COMPLETED" || !event.resource) {
+      return Promise.resolve(null);
+    }
+
+    const capture = event.resource as PayPalCapture;
+    return Promise.resolve(
+      captureToPaymentEvent(
+        capture,
+        capture.custom_id || null,
+        capture.supplementary_data?.related_ids?.order_id || null,
+        null
+      )
+    );
+  },
+};
@@ -0,0 +1,184 @@
+import CryptoJS from "npm:crypto-js@4.2.0";
+import type {
+  PaymentEvent,
+  PaymentGateway,
+  PaymentLinkParams,
+} from "./paymentGateway.ts";
+import { validatePaymentLinkParams } from "./paymentGateway.ts";
+
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY") || "";
+const STRIPE_WEBHOOK_SECRET = Deno.env.get("STRIPE_WEBHOOK_SECRET") || "";
+// Point at a local stripe-mock (e.g. http://localhost:12111) to exercise checkout without real charges
+const STRIPE_API_BASE = (Deno.env.get("STRIPE_API_BASE") || "https://api.stripe.com").replace(/\/+$/, "");
+
+// Maximum age of a signed webhook before it is treated as a replay
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Stripe amounts are in the currency's smallest unit, except for these
+const ZERO_DECIMAL_CURRENCIES = ["bif", "clp", "djf", "gnf", "jpy", "kmf", "krw", "mga", "pyg", "rwf", "ugx", "vnd", "vuv", "xaf", "xof", "xpf"];
+
+const PAID_SESSION_EVENTS = ["checkout.session.completed", "checkout.session.async_payment_succeeded"];
+
+function toMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+function fromMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? amount : amount / 100;
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Builds the form body for a Checkout Session. Stripe's API takes nested
+ * parameters in bracket notation rather than JSON.
+ */
+export function buildCheckoutSessionBody(params: PaymentLinkParams): URLSearchParams {
+  const currency = params.currency.toLowerCase();
+  const body = new URLSearchParams();
+
+  body.append("mode", "payment");
+  body.append("success_url", params.returnUrl);
+  body.append("cancel_url", params.cancelUrl);
+  body.append("client_reference_id", params.invoiceId);
+  body.append("metadata[invoice_id]", params.invoiceId);
+  body.append("payment_intent_data[metadata][invoice_id]", params.invoiceId);
+
+  params.products.forEach((product, index) => {
+    const prefix = `line_items[${index}]`;
+    body.append(`${prefix}[price_data][currency]`, currency);
+    body.append(`${prefix}[price_data][product_data][name]`, product.name.trim());
+    body.append(`${prefix}[price_data][unit_amount]`, toMinorUnits(product.price, currency).toString());
+    body.append(`${prefix}[quantity]`, product.quantity.toString());
+  });
+
+  return body;
+}
+
+export async function createCheckoutSession(
+  params: PaymentLinkParams,
+  secretKey: string,
+  apiBase: string = STRIPE_API_BASE
+): Promise<{ id: string; url: string }> {
+  if (!secretKey) {
+    throw new Error("Stripe credentials not configured");
+  }
+
+  validatePaymentLinkParams(params);
+
+  const response = await fetch(`${apiBase}/v1/checkout/sessions`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: buildCheckoutSessionBody(params).toString(),
+  });
+
+  const session = await response.json();
+
+  if (!response.ok) {
+    console.error("Stripe API error:", session);
+    throw new Error(session?.error?.message || `Stripe request failed with status ${response.status}`);
+  }
+
+  if (!session.id || !session.url) {
+    throw new Error("Invalid response from Stripe");
+  }
+
+  return { id: session.id, url: session.url };
+}
+
+/**
+ * Checks a Stripe-Signature header ("t=<timestamp>,v1=<hmac>,...") against the
+ * raw request body. The signed payload is "<timestamp>.<body>", HMAC-SHA256
+ * with the endpoint's signing secret.
+ */
+export function verifyStripeSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  webhookSecret: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!signatureHeader || !webhookSecret) {
+    return false;
+  }
+
+  let timestamp = "";
+  const signatures: string[] = [];
+
+  signatureHeader.split(",").forEach((part) => {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") timestamp = value;
+    if (key === "v1" && value) signatures.push(value);
+  });
+
+  const timestampSeconds = parseInt(timestamp, 10);
+  if (!timestampSeconds || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(nowSeconds - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    console.warn("Stripe signature timestamp outside tolerance:", timestamp);
+    return false;
+  }
+
+  const expected = CryptoJS.HmacSHA256(`${timestamp}.${rawBody}`, webhookSecret).toString();
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+}
+
+export const stripeGateway: PaymentGateway = {
+  id: "stripe",
+  name: "Stripe",
+
+  async createPaymentLink(params) {
+    const session = await createCheckoutSession(params, STRIPE_SECRET_KEY);
+    return { url: session.url, sessionId: session.id };
+  },
+
+  verifyWebhook(request) {
+    return Promise.resolve(
+      verifyStripeSignature(request.rawBody, request.headers.get("stripe-signature"), STRIPE_WEBHOOK_SECRET)
+    );
+  },
+
+  parseEvent(request): Promise<PaymentEvent | null> {
+    const event = JSON.parse(request.rawBody);
+
+    if (!PAID_SESSION_EVENTS.includes(event?.type)) {
+      return Promise.resolve(null);
+    }
+
+    const session = event.data?.object || {};
+    const currency = (session.currency || "usd").toUpperCase();
+    const paymentIntent = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    return Promise.resolve({
+      invoiceId: session.client_reference_id || session.metadata?.invoice_id || null,
+      amount: fromMinorUnits(Number(session.amount_total || 0), currency),
+      currency,
+      reference: paymentIntent || session.id,
+      // Delayed methods (bank debits) complete with "unpaid" and succeed in a later event
+      successful: session.payment_status === "paid",
+      method: "stripe",
+      notes: `Stripe Checkout ${session.id}`,
+      invoiceUpdates: {
+        gateway_session_id: session.id,
+      },
+    });
+  },
+};
@@ -1,18 +1,29 @@
 import CryptoJS from "npm:crypto-js@4.2.0";
+import type {
+  CreditEvent,
+  CreditNoteKind,
+  PaymentEvent,
+  PaymentGateway,
+  PaymentLinkParams,
+  WebhookRequest,
+} from "./paymentGateway.ts";
 
-export interface Product {
-  name: string;
-  price: number;
-  quantity: number;
-}
+export type { PaymentLinkParams, Product } from "./paymentGateway.ts";
 
-export interface PaymentLinkParams {
-  invoiceId: string;
-  products: Product[];
-  currency: string;
-  returnUrl: string;
-  cancelUrl: string;
-}
+const TCO_SELLER_ID = Deno.env.get("TCO_SELLER_ID") || "";
+const TCO_SECRET_WORD = Deno.env.get("TCO_SECRET_WORD") || "";
+const TCO_INS_SECRET_WORD = Deno.env.get("TCO_INS_SECRET_WORD") || "";
+
+const SUCCESS_STATUSES = ["COMPLETE", "AUTHRECEIVED", "PAYMENT_AUTHORIZED"];
+
+const CREDIT_STATUSES: Record<string, CreditNoteKind> = {
+  REFUND: "refund",
+  CHARGEBACK: "chargeback",
+  REVERSED: "reversal",
+};
+
+// Chargebacks can also arrive on an otherwise complete order through these resolutions
+const OPEN_CHARGEBACK_RESOLUTIONS = ["OPEN", "LOST"];
 
 /**
  * Generates a 2Checkout ConvertPlus payment link with proper HMAC-SHA256 signature
@@ -160,4 +171,120 @@ export function verifyINSSignature(
     console.error("Error verifying INS signature:", error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Reads an INS notification body, which 2Checkout sends form-encoded but
+ * which may also arrive as JSON or multipart during dashboard tests.
+ */
+export async function parseINSPayload(request: WebhookRequest): Promise<Record<string, string>> {
+  const contentType = request.headers.get("content-type") || "";
+  const payload: Record<string, string> = {};
+
+  if (!request.rawBody) {
+    return payload;
+  }
+
+  if (contentType.includes("application/json")) {
+    return JSON.parse(request.rawBody);
+  }
+
+  if (contentType.includes("multipart/form-data")) {
+    const formData = await new Response(request.rawBody, { headers: request.headers }).formData();
+    for (const [key, value] of formData.entries()) {
+      payload[key] = value.toString();
+    }
+    return payload;
+  }
+
+  const params = new URLSearchParams(request.rawBody);
+  for (const [key, value] of params.entries()) {
+    payload[key] = value;
+  }
+  return payload;
+}
+
+/**
+ * 2Checkout reuses the order's REFNO for every refund on it, so a second
+ * partial refund would look like a repeat of the first. The amount tells
+ * them apart. IPN_DATE is not used because every redelivery gets a new one,
+ * which would credit a retried notification twice. Two partial refunds of
+ * the same amount on one order still share a reference.
+ */
+export function getINSCreditReference(payload: Record<string, string>): string {
+  const amount = parseFloat(payload.REFUND_AMOUNT || payload.CHARGEBACK_AMOUNT || "");
+  return amount > 0 ? `${payload.REFNO}:${amount.toFixed(2)}` : payload.REFNO;
+}
+
+/**
+ * Reads a REFUND, CHARGEBACK or REVERSED notification. Returns null for every
+ * other order status, including successful payments.
+ */
+export function parseINSCreditEvent(payload: Record<string, string>): CreditEvent | null {
+  if (!payload.REFNO) {
+    return null;
+  }
+
+  const status = (payload.ORDERSTATUS || "").toUpperCase();
+  const resolution = (payload.CHARGEBACK_RESOLUTION || "").toUpperCase();
+  const kind = CREDIT_STATUSES[status] ||
+    (OPEN_CHARGEBACK_RESOLUTIONS.includes(resolution) ? "chargeback" : null);
+
+  if (!kind) {
+    return null;
+  }
+
+  // Partial refunds carry their own amount; otherwise the whole order went back
+  const amount = parseFloat(payload.REFUND_AMOUNT || payload.CHARGEBACK_AMOUNT || "");
+  const reason = payload.CHARGEBACK_REASON_CODE || payload.REFUND_REASON || null;
+
+  return {
+    invoiceId: payload["merchant-order-id"] || payload.MERCHANT_ORDER_ID || null,
+    kind,
+    amount: amount > 0 ? amount : null,
+    currency: payload.CURRENCY || "USD",
+    reference: getINSCreditReference(payload),
+    method: "2checkout",
+    reason,
+  };
+}
+
+export const twoCheckoutGateway: PaymentGateway = {
+  id: "twoCheckout",
+  name: "2Checkout",
+
+  createPaymentLink(params) {
+    const { url, debugInfo } = generatePaymentLink(params, TCO_SELLER_ID, TCO_SECRET_WORD);
+    console.log("2Checkout payment URL generated:", JSON.stringify(debugInfo, null, 2));
+    return Promise.resolve({ url, sessionId: null });
+  },
+
+  async verifyWebhook(request) {
+    return verifyINSSignature(await parseINSPayload(request), TCO_INS_SECRET_WORD);
+  },
+
+  async parseEvent(request): Promise<PaymentEvent | null> {
+    const payload = await parseINSPayload(request);
+
+    if (!payload.REFNO) {
+      return null;
+    }
+
+    const paymentMethod = payload.PAYMENTMETHOD || null;
+
+    return {
+      invoiceId: payload["merchant-order-id"] || payload.MERCHANT_ORDER_ID || null,
+      amount: parseFloat(payload.PAYMENTAMOUNT || "0"),
+      currency: payload.CURRENCY || "USD",
+      reference: payload.REFNO,
+      successful: SUCCESS_STATUSES.includes((payload.ORDERSTATUS || "").toUpperCase()),
+      method: "2checkout",
+      notes: paymentMethod ? `Paid via ${paymentMethod}` : null,
+      invoiceUpdates: {
+        tco_reference_number: payload.REFNO,
+        tco_order_id: payload.ORDERNO,
+        tco_payment_method: paymentMethod,
+      },
+    };
+  },
+};
@@ -0,0 +1,157 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { jsonResponse } from "./corsHeaders.ts";
+import type { PaymentGatewayId, WebhookRequest } from "./paymentGateway.ts";
+
+export type WebhookEventStatus = "received" | "processing" | "processed" | "ignored" | "failed" | "rejected";
+
+/**
+ * How a gateway notification affected the ledger. Failures answer the gateway
+ * with a non-2xx status so it delivers the notification again later.
+ */
+export interface WebhookOutcome {
+  status: "processed" | "ignored" | "failed";
+  message: string;
+  invoiceId?: string | null;
+  httpStatus?: number;
+}
+
+/**
+ * What makes a notification unique within its gateway, read from the payload
+ * before anything is processed.
+ */
+export interface WebhookEventIdentity {
+  key: string;
+  type: string;
+  reference: string | null;
+  invoiceId: string | null;
+}
+
+export interface StoredWebhookEvent {
+  id: string;
+  gateway: PaymentGatewayId;
+  event_key: string | null;
+  status: WebhookEventStatus;
+  raw_payload: string;
+  content_type: string | null;
+  signature_valid: boolean;
+  attempts: number;
+  deliveries: number;
+}
+
+const STORED_EVENT_COLUMNS = "id, gateway, event_key, status, raw_payload, content_type, signature_valid, attempts, deliveries";
+
+/**
+ * Persists an inbound notification. A redelivery of an event that is already
+ * stored returns the existing row with `isNew: false` instead of a new one.
+ */
+export async function storeWebhookEvent(
+  supabase: SupabaseClient,
+  gateway: PaymentGatewayId,
+  request: WebhookRequest,
+  signatureValid: boolean,
+  identity: WebhookEventIdentity | null
+): Promise<{ event: StoredWebhookEvent; isNew: boolean }> {
+  const { data: event, error } = await supabase
+    .from("payment_webhook_events")
+    .insert({
+      gateway,
+      event_key: signatureValid ? identity?.key ?? null : null,
+      event_type: identity?.type ?? null,
+      reference: identity?.reference ?? null,
+      raw_payload: request.rawBody,
+      content_type: request.headers.get("content-type"),
+      signature_valid: signatureValid,
+      status: signatureValid ? "received" : "rejected",
+      error: signatureValid ? null : "Signature verification failed",
+    })
+    .select(STORED_EVENT_COLUMNS)
+    .single();
+
+  if (!error) {
+    return { event: event as StoredWebhookEvent, isNew: true };
+  }
+
+  if (error.code !== "23505" || !identity) {
+    console.error("Error storing webhook event:", error);
+    throw error;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("payment_webhook_events")
+    .select(STORED_EVENT_COLUMNS)
+    .eq("gateway", gateway)
+    .eq("event_key", identity.key)
+    .eq("signature_valid", true)
+    .single();
+
+  if (existingError || !existing) {
+    console.error("Error loading stored webhook event:", existingError);
+    throw existingError || new Error("Stored webhook event not found");
+  }
+
+  await supabase
+    .from("payment_webhook_events")
+    .update({ deliveries: existing.deliveries + 1 })
+    .eq("id", existing.id);
+
+  return { event: existing as StoredWebhookEvent, isNew: false };
+}
+
+/**
+ * Runs a stored event through its processor and records the result. The
+ * event is claimed first, so a redelivery racing the original (or a replay
+ * racing either) is answered without touching the ledger a second time.
+ */
+export async function processWebhookEvent(
+  supabase: SupabaseClient,
+  event: StoredWebhookEvent,
+  process: () => Promise<WebhookOutcome>,
+  claimable: WebhookEventStatus[] = ["received", "failed"]
+): Promise<WebhookOutcome> {
+  const { data: claimed } = await supabase
+    .from("payment_webhook_events")
+    .update({ status: "processing", attempts: event.attempts + 1 })
+    .eq("id", event.id)
+    .in("status", claimable)
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return { status: "ignored", message: "Already processed" };
+  }
+
+  let outcome: WebhookOutcome;
+  try {
+    outcome = await process();
+  } catch (error) {
+    console.error("Error processing webhook event:", event.id, error);
+    outcome = {
+      status: "failed",
+      message: error instanceof Error ? error.message : "Internal server error",
+      httpStatus: 500,
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from("payment_webhook_events")
+    .update({
+      status: outcome.status,
+      error: outcome.status === "failed" ? outcome.message : null,
+      processed_at: new Date().toISOString(),
+      ...(outcome.invoiceId ? { invoice_id: outcome.invoiceId } : {}),
+    })
+    .eq("id", event.id);
+
+  if (updateError) {
+    console.error("Error updating webhook event:", event.id, updateError);
+  }
+
+  return outcome;
+}
+
+export function webhookOutcomeResponse(outcome: WebhookOutcome): Response {
+  if (outcome.status === "failed") {
+    return jsonResponse({ error: outcome.message }, outcome.httpStatus ?? 500);
+  }
+  return jsonResponse({ received: true, message: outcome.message }, outcome.httpStatus ?? 200);
+}
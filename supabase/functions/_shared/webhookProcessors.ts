@@ -0,0 +1,223 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import type { CreditEvent, PaymentEvent, PaymentGatewayId, WebhookRequest } from "./paymentGateway.ts";
+import type { WebhookEventIdentity, WebhookOutcome } from "./webhookEvents.ts";
+import { recordGatewayCredit, recordGatewayPayment } from "./paymentGateways.ts";
+import { notifyAboutInvoiceStatusChange, type InvoiceStatusChange } from "./notificationHelpers.ts";
+import { parseINSCreditEvent, parseINSPayload, twoCheckoutGateway } from "./twoCheckoutHelpers.ts";
+import { stripeGateway } from "./stripeHelpers.ts";
+import { capturePayPalOrder, orderToPaymentEvent, paypalGateway } from "./paypalHelpers.ts";
+
+/**
+ * Per-gateway handling of a verified notification. Kept apart from the HTTP
+ * handlers so a stored event can be replayed exactly as it was first processed.
+ */
+export interface WebhookProcessor {
+  identify(request: WebhookRequest): Promise<WebhookEventIdentity | null>;
+  process(supabase: SupabaseClient, request: WebhookRequest): Promise<WebhookOutcome>;
+}
+
+async function applyPayment(supabase: SupabaseClient, event: PaymentEvent): Promise<WebhookOutcome> {
+  const outcome = await recordGatewayPayment(supabase, event);
+
+  switch (outcome.result) {
+    case "invoice_not_found":
+      return { status: "failed", message: "Invoice not found", httpStatus: 404 };
+    case "currency_mismatch":
+      // Retrying cannot fix it; keep the event for an admin to look at
+      return { status: "failed", message: "Payment currency does not match the invoice", invoiceId: event.invoiceId, httpStatus: 200 };
+    case "invalid_amount":
+      return { status: "failed", message: "Invalid payment amount", invoiceId: event.invoiceId, httpStatus: 400 };
+    case "duplicate":
+      return { status: "ignored", message: "Already processed", invoiceId: event.invoiceId };
+    default:
+      console.log(`${event.method} payment processed for invoice:`, event.invoiceId, "status:", outcome.invoiceStatus);
+      return { status: "processed", message: "Payment recorded", invoiceId: event.invoiceId };
+  }
+}
+
+/**
+ * Records a refund, chargeback or reversal as a credit note and tells the
+ * customer and admins about the new invoice state.
+ */
+async function applyCredit(supabase: SupabaseClient, credit: CreditEvent): Promise<WebhookOutcome> {
+  const outcome = await recordGatewayCredit(supabase, credit);
+
+  switch (outcome.result) {
+    case "invoice_not_found":
+      return { status: "failed", message: "Invoice not found", httpStatus: 404 };
+    case "currency_mismatch":
+      return { status: "failed", message: "Credit currency does not match the invoice", invoiceId: credit.invoiceId, httpStatus: 200 };
+    case "duplicate":
+      return { status: "ignored", message: "Already processed", invoiceId: credit.invoiceId };
+    case "nothing_to_credit":
+      // Usually the refund overtook the payment notification; the gateway retries it
+      return { status: "failed", message: "No payment recorded yet to credit", invoiceId: credit.invoiceId, httpStatus: 409 };
+  }
+
+  const change: InvoiceStatusChange = credit.kind === "refund"
+    ? (outcome.invoiceStatus === "refunded" ? "refunded" : "partially_refunded")
+    : credit.kind === "chargeback" ? "charged_back" : "reversed";
+
+  await notifyAboutInvoiceStatusChange(supabase, outcome.invoice.customer_id, outcome.invoice.invoice_title, change);
+
+  console.log(`${credit.kind} of ${outcome.amount} recorded for invoice:`, credit.invoiceId, "status:", outcome.invoiceStatus);
+  return { status: "processed", message: `${credit.kind} recorded`, invoiceId: credit.invoiceId };
+}
+
+async function findInvoiceByTcoReference(supabase: SupabaseClient, reference: string): Promise<{ id: string; status: string } | null> {
+  const { data } = await supabase
+    .from("invoices")
+    .select("id, status")
+    .eq("tco_reference_number", reference)
+    .maybeSingle();
+  return data;
+}
+
+const twoCheckoutProcessor: WebhookProcessor = {
+  async identify(request) {
+    const payload = await parseINSPayload(request);
+    if (!payload.REFNO) {
+      return null;
+    }
+
+    // Chargebacks can be reported on an order whose status is still COMPLETE
+    const resolution = (payload.CHARGEBACK_RESOLUTION || "").toUpperCase();
+    const type = (
+      payload.MESSAGE_TYPE ||
+      (resolution && resolution !== "NONE" ? `CHARGEBACK_${resolution}` : payload.ORDERSTATUS) ||
+      "UNKNOWN"
+    ).toUpperCase();
+
+    // Each refund on an order is its own event, not a repeat of the first
+    const credit = parseINSCreditEvent(payload);
+
+    return {
+      key: `${credit ? credit.reference : payload.REFNO}:${type}`,
+      type,
+      reference: payload.REFNO,
+      invoiceId: payload["merchant-order-id"] || payload.MERCHANT_ORDER_ID || null,
+    };
+  },
+
+  async process(supabase, request) {
+    const payload = await parseINSPayload(request);
+    const credit = parseINSCreditEvent(payload);
+
+    if (credit) {
+      if (!credit.invoiceId) {
+        credit.invoiceId = (await findInvoiceByTcoReference(supabase, payload.REFNO))?.id ?? null;
+      }
+      if (!credit.invoiceId) {
+        return { status: "failed", message: "Invoice ID not found", httpStatus: 400 };
+      }
+      return applyCredit(supabase, credit);
+    }
+
+    const event = await twoCheckoutGateway.parseEvent(request);
+
+    if (!event) {
+      return { status: "failed", message: "Missing reference number", httpStatus: 400 };
+    }
+
+    const existingInvoice = await findInvoiceByTcoReference(supabase, event.reference);
+
+    if (existingInvoice && existingInvoice.status === "paid") {
+      return { status: "ignored", message: "Already processed", invoiceId: existingInvoice.id };
+    }
+
+    if (!event.invoiceId && existingInvoice) {
+      event.invoiceId = existingInvoice.id;
+    }
+
+    if (!event.invoiceId) {
+      return { status: "failed", message: "Invoice ID not found", httpStatus: 400 };
+    }
+
+    if (!event.successful) {
+      return { status: "ignored", message: "Order status does not settle a payment", invoiceId: event.invoiceId };
+    }
+
+    return applyPayment(supabase, event);
+  },
+};
+
+const stripeProcessor: WebhookProcessor = {
+  identify(request) {
+    const event = JSON.parse(request.rawBody);
+    if (!event?.id) {
+      return Promise.resolve(null);
+    }
+
+    const session = event.data?.object || {};
+    return Promise.resolve({
+      key: event.id,
+      type: event.type || "unknown",
+      reference: session.id || null,
+      invoiceId: session.client_reference_id || session.metadata?.invoice_id || null,
+    });
+  },
+
+  async process(supabase, request) {
+    const event = await stripeGateway.parseEvent(request);
+
+    // Stripe only needs a 2xx for events we do not act on
+    if (!event) {
+      return { status: "ignored", message: "Event type not handled" };
+    }
+
+    if (!event.successful) {
+      return { status: "ignored", message: "Checkout completed without payment yet", invoiceId: event.invoiceId };
+    }
+
+    if (!event.invoiceId) {
+      return { status: "failed", message: "Invoice ID not found", httpStatus: 400 };
+    }
+
+    return applyPayment(supabase, event);
+  },
+};
+
+const paypalProcessor: WebhookProcessor = {
+  identify(request) {
+    const notification = JSON.parse(request.rawBody);
+    if (!notification?.id) {
+      return Promise.resolve(null);
+    }
+
+    const resource = notification.resource || {};
+    return Promise.resolve({
+      key: notification.id,
+      type: notification.event_type || "unknown",
+      reference: resource.id || null,
+      invoiceId: resource.custom_id || resource.purchase_units?.[0]?.custom_id || null,
+    });
+  },
+
+  async process(supabase, request) {
+    const notification = JSON.parse(request.rawBody);
+    let event: PaymentEvent | null;
+
+    // Buyers who close the window before returning to the site still get their approved order captured
+    if (notification.event_type === "CHECKOUT.ORDER.APPROVED" && notification.resource?.id) {
+      event = orderToPaymentEvent(await capturePayPalOrder(notification.resource.id));
+    } else {
+      event = await paypalGateway.parseEvent(request);
+    }
+
+    if (!event || !event.successful) {
+      return { status: "ignored", message: "Event type not handled" };
+    }
+
+    if (!event.invoiceId) {
+      return { status: "failed", message: "Invoice ID not found", httpStatus: 400 };
+    }
+
+    return applyPayment(supabase, event);
+  },
+};
+
+export const WEBHOOK_PROCESSORS: Record<PaymentGatewayId, WebhookProcessor> = {
+  twoCheckout: twoCheckoutProcessor,
+  stripe: stripeProcessor,
+  paypal: paypalProcessor,
+};
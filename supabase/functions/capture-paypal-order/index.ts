@@ -0,0 +1,77 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { handleCorsPreFlight, errorResponse, jsonResponse } from "../_shared/corsHeaders.ts";
+import { capturePayPalOrder, orderToPaymentEvent } from "../_shared/paypalHelpers.ts";
+import { recordGatewayPayment } from "../_shared/paymentGateways.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+interface RequestPayload {
+  orderId: string;
+}
+
+/**
+ * Called by the payment success page when PayPal sends the buyer back with an
+ * approved order. Capturing only moves money for an order the buyer already
+ * approved, so the caller does not need to be signed in.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return handleCorsPreFlight();
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    const payload: RequestPayload = await req.json();
+
+    if (!payload.orderId) {
+      return errorResponse("orderId is required");
+    }
+
+    const order = await capturePayPalOrder(payload.orderId);
+    const event = orderToPaymentEvent(order);
+
+    if (!event || !event.invoiceId) {
+      console.error("Captured PayPal order has no invoice:", payload.orderId);
+      return errorResponse("Invoice ID not found");
+    }
+
+    // Pending captures (e.g. eCheck) are recorded later by the PAYMENT.CAPTURE.COMPLETED webhook
+    if (!event.successful) {
+      return jsonResponse({ invoiceId: event.invoiceId, status: "pending" });
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const outcome = await recordGatewayPayment(supabase, event);
+
+    if (outcome.result === "invoice_not_found") {
+      return errorResponse("Invoice not found", 404);
+    }
+
+    if (outcome.result === "invalid_amount") {
+      return errorResponse("Invalid payment amount");
+    }
+
+    // The money was captured but cannot be put against the invoice; an admin has to look at it
+    if (outcome.result === "currency_mismatch") {
+      console.error("PayPal capture currency does not match invoice:", event.invoiceId, event.currency);
+      return errorResponse("Payment currency does not match the invoice", 422);
+    }
+
+    // The webhook, or an earlier call for the same order, got there first
+    if (outcome.result === "duplicate") {
+      return jsonResponse({ invoiceId: event.invoiceId, status: "already_recorded" });
+    }
+
+    console.log("PayPal payment captured for invoice:", event.invoiceId);
+
+    return jsonResponse({ invoiceId: event.invoiceId, status: "completed" });
+  } catch (error) {
+    console.error("Error capturing PayPal order:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
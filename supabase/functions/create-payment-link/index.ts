@@ -0,0 +1,78 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { handleCorsPreFlight, errorResponse, jsonResponse } from "../_shared/corsHeaders.ts";
+import { authenticateRequest } from "../_shared/authHelpers.ts";
+import { getPaymentGateway } from "../_shared/paymentGateways.ts";
+import type { Product } from "../_shared/paymentGateway.ts";
+
+interface RequestPayload {
+  invoiceId: string;
+  products: Product[];
+  returnUrl: string;
+  cancelUrl: string;
+  currency?: string;
+  gateway?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return handleCorsPreFlight();
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    const { supabaseClient, user, error: authError } = await authenticateRequest(req);
+    if (authError || !user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const payload: RequestPayload = await req.json();
+
+    if (!payload.invoiceId) {
+      return errorResponse("invoiceId is required");
+    }
+
+    if (!payload.products || payload.products.length === 0) {
+      return errorResponse("At least one product is required");
+    }
+
+    if (!payload.returnUrl || !payload.cancelUrl) {
+      return errorResponse("returnUrl and cancelUrl are required");
+    }
+
+    // The invoice was issued in the customer's billing currency; charge in that
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from("invoices")
+      .select("currency")
+      .eq("id", payload.invoiceId)
+      .maybeSingle();
+
+    if (invoiceError || !invoice) {
+      return errorResponse("Invoice not found", 404);
+    }
+
+    let gateway;
+    try {
+      gateway = getPaymentGateway(payload.gateway);
+    } catch (error) {
+      return errorResponse(error instanceof Error ? error.message : "Unsupported payment gateway");
+    }
+
+    const { url, sessionId } = await gateway.createPaymentLink({
+      invoiceId: payload.invoiceId,
+      products: payload.products,
+      currency: invoice.currency || payload.currency || "USD",
+      returnUrl: payload.returnUrl,
+      cancelUrl: payload.cancelUrl,
+    });
+
+    console.log(`${gateway.name} payment link created for invoice:`, payload.invoiceId);
+
+    return jsonResponse({ checkoutUrl: url, gateway: gateway.id, sessionId });
+  } catch (error) {
+    console.error("Error creating payment link:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
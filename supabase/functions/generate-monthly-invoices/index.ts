@@ -0,0 +1,214 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { handleCorsPreFlight, errorResponse, jsonResponse } from "../_shared/corsHeaders.ts";
+import { authenticateRequest, requireAdmin } from "../_shared/authHelpers.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+interface RequestPayload {
+  // Billing month as YYYY-MM; defaults to the previous calendar month (UTC)
+  month?: string;
+}
+
+interface BillableOrder {
+  id: string;
+  customer_id: string;
+  total_amount: number | null;
+}
+
+interface BillingPeriod {
+  start: Date;
+  end: Date;
+  monthYear: string;
+}
+
+function getBillingPeriod(month?: string): BillingPeriod {
+  let year: number;
+  let monthIndex: number;
+
+  if (month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      throw new Error("month must be formatted as YYYY-MM");
+    }
+    year = Number(match[1]);
+    monthIndex = Number(match[2]) - 1;
+  } else {
+    const now = new Date();
+    year = now.getUTCFullYear();
+    monthIndex = now.getUTCMonth() - 1;
+  }
+
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+
+  return {
+    start,
+    end,
+    // Same label the admin invoice generator stores, e.g. "September 2026"
+    monthYear: start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }),
+  };
+}
+
+/**
+ * The scheduler calls with the service role key; admins can also trigger a
+ * run by hand from the dashboard.
+ */
+async function isAuthorized(req: Request): Promise<boolean> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token && token === SUPABASE_SERVICE_ROLE_KEY) {
+    return true;
+  }
+
+  const { supabaseClient, user, error } = await authenticateRequest(req);
+  if (error || !user) {
+    return false;
+  }
+
+  const { isAdmin } = await requireAdmin(supabaseClient, user.id);
+  return isAdmin;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return handleCorsPreFlight();
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    if (!(await isAuthorized(req))) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const text = await req.text();
+    const payload: RequestPayload = text ? JSON.parse(text) : {};
+
+    let period: BillingPeriod;
+    try {
+      period = getBillingPeriod(payload.month);
+    } catch (error) {
+      return errorResponse(error instanceof Error ? error.message : "Invalid month");
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: orders, error: ordersError } = await supabase
+      .from("orders")
+      .select("id, customer_id, total_amount")
+      .eq("status", "completed")
+      .eq("payment_status", "unpaid")
+      .is("invoice_id", null)
+      // No lower bound: an order placed in an earlier month but completed later,
+      // or missed by an earlier run, is billed now. invoice_id stops double billing.
+      .lt("completed_at", period.end.toISOString())
+      .order("completed_at", { ascending: true });
+
+    if (ordersError) {
+      console.error("Error fetching billable orders:", ordersError);
+      return errorResponse("Failed to fetch orders", 500);
+    }
+
+    // Drafts do not link their orders yet, so their order_ids are excluded explicitly
+    const { data: drafts, error: draftsError } = await supabase
+      .from("invoices")
+      .select("order_ids")
+      .eq("status", "draft");
+
+    if (draftsError) {
+      console.error("Error fetching draft invoices:", draftsError);
+      return errorResponse("Failed to fetch draft invoices", 500);
+    }
+
+    const draftedOrderIds = new Set<string>(
+      (drafts || []).flatMap((draft: { order_ids: string[] | null }) => draft.order_ids || [])
+    );
+
+    const ordersByCustomer = new Map<string, BillableOrder[]>();
+    ((orders || []) as BillableOrder[])
+      .filter((order) => !draftedOrderIds.has(order.id))
+      .forEach((order) => {
+        const customerOrders = ordersByCustomer.get(order.customer_id) || [];
+        customerOrders.push(order);
+        ordersByCustomer.set(order.customer_id, customerOrders);
+      });
+
+    const created: Array<{ invoiceId: string; customerId: string; orderCount: number; totalAmount: number }> = [];
+    const skipped: string[] = [];
+
+    for (const [customerId, customerOrders] of ordersByCustomer) {
+      // Quoted custom orders without a stored amount are priced again, and tax is
+      // added for the customer's region, when the draft is approved
+      const totalAmount = Math.round(
+        customerOrders.reduce((sum, order) => sum + (order.total_amount || 0), 0) * 100
+      ) / 100;
+
+      const { data: invoice, error: insertError } = await supabase
+        .from("invoices")
+        .insert({
+          customer_id: customerId,
+          invoice_title: `Monthly invoice - ${period.monthYear}`,
+          month_year: period.monthYear,
+          order_ids: customerOrders.map((order) => order.id),
+          subtotal: totalAmount,
+          total_amount: totalAmount,
+          status: "draft",
+          source: "monthly",
+        })
+        .select("id")
+        .single();
+
+      if (insertError) {
+        // The unique (customer_id, month_year) index makes reruns a no-op
+        if (insertError.code === "23505") {
+          skipped.push(customerId);
+          continue;
+        }
+        console.error("Error creating monthly invoice for customer:", customerId, insertError);
+        return errorResponse("Failed to create monthly invoices", 500);
+      }
+
+      created.push({
+        invoiceId: invoice.id,
+        customerId,
+        orderCount: customerOrders.length,
+        totalAmount,
+      });
+    }
+
+    if (created.length > 0) {
+      const { data: admins } = await supabase
+        .from("employees")
+        .select("id")
+        .eq("role", "admin")
+        .eq("status", "active");
+
+      if (admins && admins.length > 0) {
+        const message = `${created.length} draft invoice${created.length === 1 ? "" : "s"} for ${period.monthYear} ` +
+          `${created.length === 1 ? "is" : "are"} ready for review.`;
+
+        const { error: notificationError } = await supabase
+          .from("notifications")
+          .insert(admins.map((admin: { id: string }) => ({ user_id: admin.id, type: "invoice", message })));
+
+        if (notificationError) {
+          console.error("Error notifying admins about monthly invoices:", notificationError);
+        }
+      }
+    }
+
+    console.log(`Monthly invoices for ${period.monthYear}: ${created.length} created, ${skipped.length} already existed`);
+
+    return jsonResponse({
+      monthYear: period.monthYear,
+      created,
+      skippedCustomerIds: skipped,
+    });
+  } catch (error) {
+    console.error("Error generating monthly invoices:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
@@ -1,77 +1,15 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
 import { corsHeaders } from "../_shared/corsHeaders.ts";
-import { verifyINSSignature } from "../_shared/twoCheckoutHelpers.ts";
+import { parseINSPayload, twoCheckoutGateway } from "../_shared/twoCheckoutHelpers.ts";
+import { processWebhookEvent, storeWebhookEvent, webhookOutcomeResponse } from "../_shared/webhookEvents.ts";
+import { WEBHOOK_PROCESSORS } from "../_shared/webhookProcessors.ts";
+import type { WebhookRequest } from "../_shared/paymentGateway.ts";
 
 const INS_SECRET_WORD = Deno.env.get("TCO_INS_SECRET_WORD") || "";
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
 
-async function copyStockDesignFiles(supabase: any, orderId: string) {
-  try {
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('order_number, stock_design_id, stock_designs(attachment_url, attachment_filename)')
-      .eq('id', orderId)
-      .single();
-
-    if (orderError || !order || !order.stock_design_id) {
-      console.log('Not a stock design order or order not found:', orderId);
-      return;
-    }
-
-    const attachmentUrl = order.stock_designs?.attachment_url;
-    const attachmentFilename = order.stock_designs?.attachment_filename;
-
-    if (!attachmentUrl || !attachmentFilename) {
-      console.log('No attachment found for stock design:', orderId);
-      return;
-    }
-
-    const sourcePath = attachmentUrl;
-    const targetPath = `orders/${order.order_number}/${attachmentFilename}`;
-
-    const { data: sourceFile, error: downloadError } = await supabase.storage
-      .from('stock-design-files')
-      .download(sourcePath);
-
-    if (downloadError) {
-      console.error('Error downloading source file:', downloadError);
-      throw downloadError;
-    }
-
-    const { error: uploadError } = await supabase.storage
-      .from('order-attachments')
-      .upload(targetPath, sourceFile, {
-        contentType: 'application/zip',
-        upsert: true
-      });
-
-    if (uploadError) {
-      console.error('Error uploading to order-attachments:', uploadError);
-      throw uploadError;
-    }
-
-    const { data: attachmentData, error: attachmentError } = await supabase
-      .from('order_attachments')
-      .insert({
-        order_id: orderId,
-        filename: attachmentFilename,
-        file_path: targetPath,
-        file_size: sourceFile.size,
-        uploaded_by: null
-      });
-
-    if (attachmentError) {
-      console.error('Error creating attachment record:', attachmentError);
-    }
-
-    console.log('Successfully copied file for order:', orderId);
-  } catch (error) {
-    console.error('Error in copyStockDesignFiles:', error);
-  }
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -104,26 +42,11 @@ Deno.serve(async (req: Request) => {
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    const contentType = req.headers.get('content-type') || '';
-    let payload: Record<string, string> = {};
-
-    if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
-      const formData = await req.formData();
-      for (const [key, value] of formData.entries()) {
-        payload[key] = value.toString();
-      }
-    } else if (contentType.includes('application/json')) {
-      const jsonData = await req.json();
-      payload = jsonData;
-    } else {
-      const text = await req.text();
-      if (text) {
-        const params = new URLSearchParams(text);
-        for (const [key, value] of params.entries()) {
-          payload[key] = value;
-        }
-      }
-    }
+    const webhookRequest: WebhookRequest = {
+      rawBody: await req.text(),
+      headers: req.headers,
+    };
+    const payload = await parseINSPayload(webhookRequest);
 
     console.log('Received webhook payload keys:', Object.keys(payload));
     console.log('Full payload:', JSON.stringify(payload, null, 2));
@@ -165,7 +88,18 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    if (!verifyINSSignature(payload, INS_SECRET_WORD)) {
+    // Every notification is stored before processing so duplicates are caught and failures can be replayed
+    const processor = WEBHOOK_PROCESSORS.twoCheckout;
+    const signatureValid = await twoCheckoutGateway.verifyWebhook(webhookRequest);
+    const { event: storedEvent } = await storeWebhookEvent(
+      supabase,
+      'twoCheckout',
+      webhookRequest,
+      signatureValid,
+      await processor.identify(webhookRequest)
+    );
+
+    if (!signatureValid) {
       console.error('Invalid webhook signature');
       return new Response(
         JSON.stringify({ message: 'Signature verification failed' }),
@@ -179,123 +113,10 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const refNo = payload.REFNO;
-    const orderNo = payload.ORDERNO;
-    const orderStatus = payload.ORDERSTATUS;
-    const paymentAmount = parseFloat(payload.PAYMENTAMOUNT || '0');
-    const paymentMethod = payload.PAYMENTMETHOD;
-    const merchantOrderId = payload['merchant-order-id'] || payload.MERCHANT_ORDER_ID;
-
-    const { data: existingInvoice } = await supabase
-      .from('invoices')
-      .select('id, status')
-      .eq('tco_reference_number', refNo)
-      .single();
-
-    if (existingInvoice && existingInvoice.status === 'paid') {
-      console.log('Invoice already processed:', refNo);
-      return new Response(
-        JSON.stringify({ message: 'Already processed' }),
-        {
-          status: 200,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
-
-    let invoiceId = merchantOrderId;
-
-    if (!invoiceId && existingInvoice) {
-      invoiceId = existingInvoice.id;
-    }
-
-    if (!invoiceId) {
-      console.error('No invoice ID found');
-      return new Response(
-        JSON.stringify({ error: 'Invoice ID not found' }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
-
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .select('total_amount, order_ids')
-      .eq('id', invoiceId)
-      .single();
+    const outcome = await processWebhookEvent(supabase, storedEvent, () => processor.process(supabase, webhookRequest));
+    console.log('Webhook event', storedEvent.id, outcome.status + ':', outcome.message);
 
-    if (invoiceError || !invoice) {
-      console.error('Invoice not found:', invoiceId);
-      return new Response(
-        JSON.stringify({ error: 'Invoice not found' }),
-        {
-          status: 404,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
-
-    if (Math.abs(paymentAmount - invoice.total_amount) > 0.01) {
-      console.error('Payment amount mismatch');
-      return new Response(
-        JSON.stringify({ error: 'Amount mismatch' }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
-
-    const successStatuses = ['COMPLETE', 'AUTHRECEIVED', 'PAYMENT_AUTHORIZED'];
-    const isPaymentSuccessful = successStatuses.includes(orderStatus.toUpperCase());
-
-    if (isPaymentSuccessful) {
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({
-          status: 'paid',
-          tco_reference_number: refNo,
-          tco_order_id: orderNo,
-          tco_payment_method: paymentMethod,
-        })
-        .eq('id', invoiceId);
-
-      if (updateError) {
-        console.error('Error updating invoice:', updateError);
-        throw updateError;
-      }
-
-      for (const orderId of invoice.order_ids) {
-        await copyStockDesignFiles(supabase, orderId);
-      }
-
-      console.log('Payment processed successfully for invoice:', invoiceId);
-    }
-
-    return new Response(
-      JSON.stringify({ message: 'Webhook processed successfully' }),
-      {
-        status: 200,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        }
-      }
-    );
+    return webhookOutcomeResponse(outcome);
   } catch (error) {
     console.error('Error processing webhook:', error);
     return new Response(
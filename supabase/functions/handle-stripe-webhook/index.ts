@@ -0,0 +1,49 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { errorResponse } from "../_shared/corsHeaders.ts";
+import { stripeGateway } from "../_shared/stripeHelpers.ts";
+import { processWebhookEvent, storeWebhookEvent, webhookOutcomeResponse } from "../_shared/webhookEvents.ts";
+import { WEBHOOK_PROCESSORS } from "../_shared/webhookProcessors.ts";
+import type { WebhookRequest } from "../_shared/paymentGateway.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  try {
+    // The signature covers the exact bytes Stripe sent, so the body is read as text before parsing
+    const webhookRequest: WebhookRequest = {
+      rawBody: await req.text(),
+      headers: req.headers,
+    };
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const processor = WEBHOOK_PROCESSORS.stripe;
+    const signatureValid = await stripeGateway.verifyWebhook(webhookRequest);
+
+    const { event: storedEvent } = await storeWebhookEvent(
+      supabase,
+      "stripe",
+      webhookRequest,
+      signatureValid,
+      signatureValid ? await processor.identify(webhookRequest) : null
+    );
+
+    if (!signatureValid) {
+      console.error("Invalid Stripe webhook signature");
+      return errorResponse("Signature verification failed", 400);
+    }
+
+    const outcome = await processWebhookEvent(supabase, storedEvent, () => processor.process(supabase, webhookRequest));
+    console.log("Stripe webhook event", storedEvent.id, `${outcome.status}:`, outcome.message);
+
+    return webhookOutcomeResponse(outcome);
+  } catch (error) {
+    console.error("Error processing Stripe webhook:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
@@ -148,6 +148,8 @@ Deno.serve(async (req: Request) => {
       const file = formData.get('file') as File;
       const orderId = formData.get('orderId') as string;
       const orderNumber = formData.get('orderNumber') as string;
+      const groupId = formData.get('groupId') as string | null;
+      const editCommentId = formData.get('editCommentId') as string | null;
 
       if (!file || !orderId || !orderNumber) {
         return errorResponse('Missing file, orderId, or orderNumber', 400);
@@ -178,19 +180,17 @@ Deno.serve(async (req: Request) => {
         file.type
       );
 
-      const { data: attachment, error: dbError } = await supabaseClient
-        .from('order_attachments')
-        .insert({
-          order_id: orderId,
-          original_filename: file.name,
-          stored_filename: storedFilename,
-          file_size: file.size,
-          mime_type: file.type,
-          storage_path: storagePath,
-          uploaded_by: user.id,
-        })
-        .select()
-        .single();
+      // The deliverable and version are settled only once the file is stored
+      const { data: attachment, error: dbError } = await supabaseClient.rpc('add_order_attachment_version', {
+        p_order_id: orderId,
+        p_group_id: groupId || null,
+        p_original_filename: file.name,
+        p_stored_filename: storedFilename,
+        p_file_size: file.size,
+        p_mime_type: file.type,
+        p_storage_path: storagePath,
+        p_edit_comment_id: editCommentId ? parseInt(editCommentId, 10) : null,
+      });
 
       if (dbError) {
         await deleteFromSupabaseStorage(supabaseClient, STORAGE_BUCKETS.ORDER_ATTACHMENTS, storagePath);
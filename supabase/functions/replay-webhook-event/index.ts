@@ -0,0 +1,92 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { handleCorsPreFlight, errorResponse, jsonResponse } from "../_shared/corsHeaders.ts";
+import { authenticateRequest, requireAdmin } from "../_shared/authHelpers.ts";
+import { processWebhookEvent, type StoredWebhookEvent } from "../_shared/webhookEvents.ts";
+import { WEBHOOK_PROCESSORS } from "../_shared/webhookProcessors.ts";
+import type { WebhookRequest } from "../_shared/paymentGateway.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+interface RequestPayload {
+  eventId: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return handleCorsPreFlight();
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    const { supabaseClient, user, error: authError } = await authenticateRequest(req);
+    if (authError || !user) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const { isAdmin, error: roleError } = await requireAdmin(supabaseClient, user.id);
+    if (!isAdmin) {
+      return errorResponse(roleError || "Admin access required", 403);
+    }
+
+    const payload: RequestPayload = await req.json();
+    if (!payload.eventId) {
+      return errorResponse("eventId is required");
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: event, error: eventError } = await supabase
+      .from("payment_webhook_events")
+      .select("id, gateway, event_key, status, raw_payload, content_type, signature_valid, attempts, deliveries")
+      .eq("id", payload.eventId)
+      .maybeSingle();
+
+    if (eventError || !event) {
+      return errorResponse("Webhook event not found", 404);
+    }
+
+    // The signature was checked on arrival; forged deliveries are never replayed
+    if (!event.signature_valid) {
+      return errorResponse("Events that failed signature verification cannot be replayed");
+    }
+
+    if (event.status === "processed" || event.status === "ignored") {
+      return errorResponse("Only failed or unfinished events can be replayed");
+    }
+
+    const processor = WEBHOOK_PROCESSORS[(event as StoredWebhookEvent).gateway];
+    if (!processor) {
+      return errorResponse(`Unsupported payment gateway: ${event.gateway}`);
+    }
+
+    const webhookRequest: WebhookRequest = {
+      rawBody: event.raw_payload,
+      headers: new Headers(event.content_type ? { "content-type": event.content_type } : {}),
+    };
+
+    await supabase
+      .from("payment_webhook_events")
+      .update({ last_replayed_at: new Date().toISOString(), replayed_by: user.id })
+      .eq("id", event.id);
+
+    // Events stuck in received or processing (e.g. the function timed out) can be replayed too
+    const outcome = await processWebhookEvent(
+      supabase,
+      event as StoredWebhookEvent,
+      () => processor.process(supabase, webhookRequest),
+      ["received", "processing", "failed"]
+    );
+
+    console.log("Webhook event replayed:", event.id, `${outcome.status}:`, outcome.message);
+
+    return jsonResponse({ eventId: event.id, status: outcome.status, message: outcome.message });
+  } catch (error) {
+    console.error("Error replaying webhook event:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
@@ -1,16 +1,29 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
 import { handleCorsPreFlight, errorResponse, jsonResponse } from '../_shared/corsHeaders.ts';
 
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const QUOTE_ATTACHMENTS_BUCKET = 'quote-attachments';
+const OPEN_QUOTE_STAGES = ['new', 'priced', 'sent'];
+
 interface EmailRequest {
   formType: 'quote' | 'general';
   fullName: string;
   email: string;
   phone: string;
   apparelType?: string;
+  categoryId?: string;
   customWidth?: string;
   customHeight?: string;
   designInstructions?: string;
   message?: string;
+  artworkEstimate?: {
+    stitchCount: number;
+    colorCount: number;
+    complexity: string;
+  };
   fileAttachment?: {
     name: string;
     content: string;
@@ -18,6 +31,11 @@ interface EmailRequest {
   };
 }
 
+interface SavedQuote {
+  id: string;
+  quote_number: string;
+}
+
 function generateUniqueNumber(): string {
   const timestamp = Date.now();
   const random = Math.floor(Math.random() * 1000);
@@ -86,6 +104,15 @@ function createEmailBody(data: EmailRequest, uniqueNumber: string): string {
       `;
     }
     
+    if (data.artworkEstimate) {
+      emailBody += `
+      <div class="field">
+        <div class="label">Artwork Estimate:</div>
+        <div class="value">~${data.artworkEstimate.stitchCount.toLocaleString()} stitches, ${data.artworkEstimate.colorCount} color(s), ${data.artworkEstimate.complexity} complexity</div>
+      </div>
+      `;
+    }
+    
     if (data.designInstructions) {
       emailBody += `
       <div class="field">
@@ -144,8 +171,139 @@ function createEmailWithAttachment(boundary: string, from: string, to: string, s
   return email;
 }
 
-async function sendEmail(emailData: EmailRequest): Promise<void> {
-  const uniqueNumber = generateUniqueNumber();
+function toNumber(value?: string): number | null {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// The email comes from a public form; escape it so ilike only matches it
+// exactly, ignoring case, and never as a pattern
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * Existing customers stay with their own sales rep. New contacts go to the
+ * active rep with the fewest open quotes, so leads are spread evenly.
+ */
+async function pickSalesRep(
+  supabase: SupabaseClient,
+  email: string
+): Promise<{ customerId: string | null; salesRepId: string | null }> {
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('id, assigned_sales_rep_id')
+    .ilike('email', escapeLikePattern(email.trim()))
+    .limit(1)
+    .maybeSingle();
+
+  if (customer?.assigned_sales_rep_id) {
+    return { customerId: customer.id, salesRepId: customer.assigned_sales_rep_id };
+  }
+
+  const { data: reps } = await supabase
+    .from('employees')
+    .select('id')
+    .eq('role', 'sales_rep')
+    .eq('status', 'active');
+
+  if (!reps || reps.length === 0) {
+    return { customerId: customer?.id || null, salesRepId: null };
+  }
+
+  const { data: openQuotes } = await supabase
+    .from('quotes')
+    .select('assigned_sales_rep_id')
+    .in('stage', OPEN_QUOTE_STAGES)
+    .in('assigned_sales_rep_id', reps.map((rep: { id: string }) => rep.id));
+
+  const load = new Map<string, number>(reps.map((rep: { id: string }) => [rep.id, 0]));
+  (openQuotes || []).forEach((quote: { assigned_sales_rep_id: string }) => {
+    load.set(quote.assigned_sales_rep_id, (load.get(quote.assigned_sales_rep_id) || 0) + 1);
+  });
+
+  const [salesRepId] = [...load.entries()].sort((a, b) => a[1] - b[1])[0];
+  return { customerId: customer?.id || null, salesRepId };
+}
+
+async function saveQuote(supabase: SupabaseClient, data: EmailRequest): Promise<SavedQuote> {
+  const { customerId, salesRepId } = await pickSalesRep(supabase, data.email);
+
+  const { data: quote, error } = await supabase
+    .from('quotes')
+    .insert({
+      full_name: data.fullName,
+      email: data.email,
+      phone: data.phone,
+      category_id: data.categoryId || null,
+      custom_width: toNumber(data.customWidth),
+      custom_height: toNumber(data.customHeight),
+      design_instructions: data.designInstructions || null,
+      estimated_stitch_count: data.artworkEstimate?.stitchCount ?? null,
+      estimated_color_count: data.artworkEstimate?.colorCount ?? null,
+      complexity_band: data.artworkEstimate?.complexity || null,
+      customer_id: customerId,
+      assigned_sales_rep_id: salesRepId,
+    })
+    .select('id, quote_number')
+    .single();
+
+  if (error || !quote) {
+    throw new Error(`Failed to save quote: ${error?.message || 'Unknown error'}`);
+  }
+
+  if (data.fileAttachment) {
+    const attachment = data.fileAttachment;
+    const path = `${quote.id}/${attachment.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+    const bytes = Uint8Array.from(atob(attachment.content), (char) => char.charCodeAt(0));
+
+    const { error: uploadError } = await supabase.storage
+      .from(QUOTE_ATTACHMENTS_BUCKET)
+      .upload(path, bytes, { contentType: attachment.mimeType, upsert: true });
+
+    if (uploadError) {
+      // The file still goes out with the email
+      console.error('Error storing quote attachment:', quote.quote_number, uploadError);
+    } else {
+      await supabase
+        .from('quotes')
+        .update({
+          attachment_name: attachment.name,
+          attachment_path: path,
+          attachment_mime_type: attachment.mimeType,
+          attachment_size: bytes.length,
+        })
+        .eq('id', quote.id);
+    }
+  }
+
+  let recipients = salesRepId ? [salesRepId] : [];
+  if (recipients.length === 0) {
+    const { data: admins } = await supabase
+      .from('employees')
+      .select('id')
+      .eq('role', 'admin')
+      .eq('status', 'active');
+    recipients = (admins || []).map((admin: { id: string }) => admin.id);
+  }
+
+  if (recipients.length > 0) {
+    const { error: notificationError } = await supabase.from('notifications').insert(
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: 'order',
+        message: `New quote request ${quote.quote_number} from ${data.fullName}${salesRepId ? ' has been assigned to you' : ' needs a sales rep'}.`,
+      }))
+    );
+    if (notificationError) {
+      console.error('Error creating quote notifications:', notificationError);
+    }
+  }
+
+  return quote as SavedQuote;
+}
+
+async function sendEmail(emailData: EmailRequest, uniqueNumber: string = generateUniqueNumber()): Promise<void> {
   const subject = emailData.formType === 'quote' 
     ? `Quote Request - ${uniqueNumber}`
     : `General Enquiry - ${uniqueNumber}`;
@@ -227,9 +385,19 @@ Deno.serve(async (req: Request) => {
       return errorResponse("Missing required fields", 400);
     }
 
-    await sendEmail(emailData);
+    let quote: SavedQuote | null = null;
+    if (emailData.formType === 'quote') {
+      try {
+        quote = await saveQuote(createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY), emailData);
+      } catch (error) {
+        // The email below still reaches the team, so the request is not lost
+        console.error('Error saving quote:', error);
+      }
+    }
+
+    await sendEmail(emailData, quote?.quote_number);
 
-    return jsonResponse({ success: true, message: "Email sent successfully" });
+    return jsonResponse({ success: true, message: "Email sent successfully", quoteNumber: quote?.quote_number });
   } catch (error) {
     console.error('Error:', error);
     return errorResponse(error.message || "Failed to send email", 500);
@@ -0,0 +1,296 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { handleCorsPreFlight, errorResponse, jsonResponse } from "../_shared/corsHeaders.ts";
+import { authenticateRequest, requireAdmin } from "../_shared/authHelpers.ts";
+import { escapeHtml, isEmailConfigured, sendEmail } from "../_shared/emailHelpers.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DunningStep {
+  id: string;
+  days_after: number;
+  escalate_to_sales_rep: boolean;
+  hold_customer: boolean;
+}
+
+interface OverdueInvoice {
+  id: string;
+  customer_id: string;
+  invoice_title: string;
+  total_amount: number;
+  currency: string | null;
+  payment_link: string | null;
+  created_at: string;
+  last_reminder_days: number | null;
+  customer: {
+    full_name: string;
+    email: string;
+    on_hold: boolean;
+    assigned_sales_rep_id: string | null;
+  } | null;
+  payments: Array<{ amount: number }>;
+  credit_notes: Array<{ kind: string; amount: number }>;
+}
+
+interface ReminderResult {
+  invoiceId: string;
+  daysAfter: number;
+  emailed: boolean;
+  escalatedTo: string | null;
+  customerHeld: boolean;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// Same rule as getInvoiceBalance: refunds lower what is owed, chargebacks reopen it
+function getBalanceDue(invoice: OverdueInvoice): number {
+  const paid = invoice.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const chargedBack = invoice.credit_notes
+    .filter((note) => note.kind === "chargeback")
+    .reduce((sum, note) => sum + Number(note.amount), 0);
+  return Math.max(0, Math.round((Number(invoice.total_amount) - paid + chargedBack) * 100) / 100);
+}
+
+function createReminderEmail(invoice: OverdueInvoice, balance: string, daysOverdue: number): string {
+  const name = escapeHtml(invoice.customer?.full_name || "there");
+  const title = escapeHtml(invoice.invoice_title);
+  const paymentLink = invoice.payment_link ? escapeHtml(invoice.payment_link) : null;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+    .content { background-color: #f9fafb; padding: 20px; margin-top: 20px; }
+    .button { display: inline-block; background-color: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; }
+    .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Payment Reminder</h1>
+    </div>
+    <div class="content">
+      <p>Hi ${name},</p>
+      <p>Your invoice <strong>${title}</strong> was issued ${daysOverdue} days ago and still has <strong>${escapeHtml(balance)}</strong> outstanding.</p>
+      ${paymentLink
+        ? `<p style="text-align: center; margin: 30px 0;"><a class="button" href="${paymentLink}">Pay Now</a></p>
+      <p>If the button does not work, copy this link into your browser:<br>${paymentLink}</p>`
+        : `<p>Please sign in to your dashboard to pay this invoice.</p>`}
+      <p>If you have already paid, please ignore this reminder.</p>
+    </div>
+    <div class="footer">
+      <p>This reminder was sent automatically by ABS Stitch.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * The scheduler calls with the service role key; admins can also trigger a
+ * run by hand from the dashboard.
+ */
+async function isAuthorized(req: Request): Promise<boolean> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token && token === SUPABASE_SERVICE_ROLE_KEY) {
+    return true;
+  }
+
+  const { supabaseClient, user, error } = await authenticateRequest(req);
+  if (error || !user) {
+    return false;
+  }
+
+  const { isAdmin } = await requireAdmin(supabaseClient, user.id);
+  return isAdmin;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return handleCorsPreFlight();
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    if (!(await isAuthorized(req))) {
+      return errorResponse("Unauthorized", 401);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: steps, error: stepsError } = await supabase
+      .from("dunning_steps")
+      .select("id, days_after, escalate_to_sales_rep, hold_customer")
+      .eq("is_active", true)
+      .order("days_after", { ascending: true });
+
+    if (stepsError) {
+      console.error("Error fetching dunning steps:", stepsError);
+      return errorResponse("Failed to fetch reminder schedule", 500);
+    }
+
+    if (!steps || steps.length === 0) {
+      return jsonResponse({ sent: [], message: "No active reminder steps" });
+    }
+
+    const firstStepCutoff = new Date(Date.now() - (steps[0] as DunningStep).days_after * DAY_MS);
+
+    const { data: invoices, error: invoicesError } = await supabase
+      .from("invoices")
+      .select(`
+        id, customer_id, invoice_title, total_amount, currency, payment_link, created_at, last_reminder_days,
+        customer:customers(full_name, email, on_hold, assigned_sales_rep_id),
+        payments:invoice_payments(amount),
+        credit_notes:invoice_credit_notes(kind, amount)
+      `)
+      .in("status", ["unpaid", "partially_paid", "charged_back"])
+      .eq("dunning_paused", false)
+      .lte("created_at", firstStepCutoff.toISOString());
+
+    if (invoicesError) {
+      console.error("Error fetching overdue invoices:", invoicesError);
+      return errorResponse("Failed to fetch overdue invoices", 500);
+    }
+
+    const { data: admins } = await supabase
+      .from("employees")
+      .select("id")
+      .eq("role", "admin")
+      .eq("status", "active");
+    const adminIds = (admins || []).map((admin: { id: string }) => admin.id);
+
+    const emailConfigured = isEmailConfigured();
+    const sent: ReminderResult[] = [];
+
+    for (const invoice of (invoices || []) as unknown as OverdueInvoice[]) {
+      const daysOverdue = Math.floor((Date.now() - new Date(invoice.created_at).getTime()) / DAY_MS);
+
+      // Only the latest step that is due and has not been sent yet
+      const step = (steps as DunningStep[])
+        .filter((candidate) => candidate.days_after <= daysOverdue && candidate.days_after > (invoice.last_reminder_days || 0))
+        .pop();
+
+      const balanceDue = getBalanceDue(invoice);
+      if (!step || balanceDue <= 0 || !invoice.customer) {
+        continue;
+      }
+
+      // The unique (invoice_id, days_after) index stops overlapping runs sending a step twice
+      const { data: reminder, error: reminderError } = await supabase
+        .from("invoice_reminders")
+        .insert({ invoice_id: invoice.id, days_after: step.days_after })
+        .select("id")
+        .single();
+
+      if (reminderError) {
+        if (reminderError.code !== "23505") {
+          console.error("Error recording invoice reminder:", invoice.id, reminderError);
+        }
+        continue;
+      }
+
+      const currency = invoice.currency || "USD";
+      const balance = formatAmount(balanceDue, currency);
+      const notifications: Array<{ user_id: string; type: string; message: string }> = [{
+        user_id: invoice.customer_id,
+        type: "invoice",
+        message: `Reminder: your invoice "${invoice.invoice_title}" has ${balance} outstanding. Please pay it from your invoices page.`,
+      }];
+
+      let emailed = false;
+      let emailError: string | null = null;
+      if (emailConfigured && invoice.customer.email) {
+        try {
+          await sendEmail({
+            to: invoice.customer.email,
+            subject: `Payment reminder: ${invoice.invoice_title}`,
+            html: createReminderEmail(invoice, balance, daysOverdue),
+          });
+          emailed = true;
+        } catch (error) {
+          emailError = error instanceof Error ? error.message : "Failed to send email";
+          console.error("Error emailing invoice reminder:", invoice.id, error);
+        }
+      } else {
+        emailError = emailConfigured ? "Customer has no email address" : "SMTP credentials not configured";
+      }
+
+      let escalatedTo: string | null = null;
+      if (step.escalate_to_sales_rep) {
+        const recipients = invoice.customer.assigned_sales_rep_id ? [invoice.customer.assigned_sales_rep_id] : adminIds;
+        escalatedTo = invoice.customer.assigned_sales_rep_id;
+        recipients.forEach((userId) => notifications.push({
+          user_id: userId,
+          type: "invoice",
+          message: `Invoice "${invoice.invoice_title}" for ${invoice.customer!.full_name} is ${daysOverdue} days old with ${balance} unpaid. Please follow up.`,
+        }));
+      }
+
+      let customerHeld = false;
+      if (step.hold_customer && !invoice.customer.on_hold) {
+        const { error: holdError } = await supabase
+          .from("customers")
+          .update({
+            on_hold: true,
+            on_hold_reason: `Unpaid invoice "${invoice.invoice_title}"`,
+            on_hold_since: new Date().toISOString(),
+          })
+          .eq("id", invoice.customer_id);
+
+        if (holdError) {
+          console.error("Error putting customer on hold:", invoice.customer_id, holdError);
+        } else {
+          customerHeld = true;
+          invoice.customer.on_hold = true;
+          adminIds.forEach((userId) => notifications.push({
+            user_id: userId,
+            type: "invoice",
+            message: `${invoice.customer!.full_name} has been put on hold for unpaid invoice "${invoice.invoice_title}". New orders need approval.`,
+          }));
+        }
+      }
+
+      const { error: notificationError } = await supabase.from("notifications").insert(notifications);
+      if (notificationError) {
+        console.error("Error creating reminder notifications:", invoice.id, notificationError);
+      }
+
+      await supabase
+        .from("invoice_reminders")
+        .update({ emailed, email_error: emailError, escalated_to: escalatedTo, customer_held: customerHeld })
+        .eq("id", reminder.id);
+
+      await supabase
+        .from("invoices")
+        .update({ last_reminder_at: new Date().toISOString(), last_reminder_days: step.days_after })
+        .eq("id", invoice.id);
+
+      sent.push({ invoiceId: invoice.id, daysAfter: step.days_after, emailed, escalatedTo, customerHeld });
+    }
+
+    console.log(`Invoice reminders: ${sent.length} sent`);
+
+    return jsonResponse({ sent });
+  } catch (error) {
+    console.error("Error sending invoice reminders:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+});
@@ -0,0 +1,53 @@
+/*
+  # Add Pricing Inputs to Orders
+
+  ## Overview
+  Custom orders are now priced by the tiered pricing engine on the client
+  (`src/services/pricingService.ts`). The engine needs the job parameters that
+  drive the price, so they are stored alongside the order and can be re-quoted
+  when an admin generates an invoice.
+
+  ## Changes Made
+
+  ### 1. Orders Table - New Columns
+  - `quantity` (integer, default 1) - number of pieces to embroider, drives quantity breaks
+  - `color_count` (integer, nullable) - number of thread colors in the design
+  - `stitch_count` (integer, nullable) - confirmed stitch count, set once the design is digitized
+
+  ## Important Notes
+  - Existing orders are backfilled with a quantity of 1
+  - `stitch_count` stays NULL until known; the engine estimates it from the design size meanwhile
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'quantity'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN quantity integer NOT NULL DEFAULT 1;
+    ALTER TABLE orders ADD CONSTRAINT orders_quantity_positive CHECK (quantity > 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'color_count'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN color_count integer;
+    ALTER TABLE orders ADD CONSTRAINT orders_color_count_positive CHECK (color_count IS NULL OR color_count > 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'stitch_count'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN stitch_count integer;
+    ALTER TABLE orders ADD CONSTRAINT orders_stitch_count_non_negative CHECK (stitch_count IS NULL OR stitch_count >= 0);
+  END IF;
+END $$;
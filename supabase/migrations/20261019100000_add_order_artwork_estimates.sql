@@ -0,0 +1,53 @@
+/*
+  # Add Artwork Estimates to Orders
+
+  ## Overview
+  When a customer uploads PNG/JPG/SVG artwork, the browser estimates how much
+  digitizing work the design needs (`src/lib/stitchEstimator.ts`). The estimate
+  is stored on the order so sales reps can price the job and designers can
+  triage it before opening the files.
+
+  ## Changes Made
+
+  ### 1. Orders Table - New Columns
+  - `estimated_stitch_count` (integer, nullable) - stitch count estimated from the artwork and requested size
+  - `estimated_color_count` (integer, nullable) - thread colors detected in the artwork
+  - `complexity_band` (text, nullable) - 'simple', 'moderate' or 'complex'
+
+  ## Important Notes
+  - The estimate is separate from `stitch_count`, which holds the digitized (confirmed) value
+  - Orders without readable artwork keep NULL estimates
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'estimated_stitch_count'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN estimated_stitch_count integer;
+    ALTER TABLE orders ADD CONSTRAINT orders_estimated_stitch_count_non_negative CHECK (estimated_stitch_count IS NULL OR estimated_stitch_count >= 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'estimated_color_count'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN estimated_color_count integer;
+    ALTER TABLE orders ADD CONSTRAINT orders_estimated_color_count_positive CHECK (estimated_color_count IS NULL OR estimated_color_count > 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'complexity_band'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN complexity_band text;
+    ALTER TABLE orders ADD CONSTRAINT orders_complexity_band_check CHECK (complexity_band IS NULL OR complexity_band IN ('simple', 'moderate', 'complex'));
+  END IF;
+END $$;
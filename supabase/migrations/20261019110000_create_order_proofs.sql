@@ -0,0 +1,164 @@
+/*
+  # Create Design Proof Approval Tables
+
+  ## Overview
+  Designers submit proof versions for custom orders under review. The customer
+  approves a proof (which completes the order) or requests changes, optionally
+  pinning comments to points on the proof image.
+
+  ## Changes Made
+
+  ### 1. New Table: order_proofs
+  - `id` (uuid, primary key)
+  - `order_id` (uuid) - order the proof belongs to
+  - `attachment_id` (uuid) - proof file stored in order_attachments
+  - `version` (integer) - proof number within the order, starting at 1
+  - `notes` (text) - designer notes shown to the customer
+  - `status` (text) - 'pending', 'approved' or 'changes_requested'
+  - `submitted_by` (uuid) - designer who submitted the proof
+  - `decided_by` / `decided_at` - customer decision audit fields
+  - `decision_comment` (text) - customer summary attached to the decision
+
+  ### 2. New Table: proof_comments
+  - `id` (uuid, primary key)
+  - `proof_id` (uuid) - proof being discussed
+  - `author_id` (uuid) - customer or employee who wrote the comment
+  - `content` (text)
+  - `pin_x` / `pin_y` (numeric, nullable) - pin position as a 0-1 fraction of the proof image
+
+  ### 3. Functions
+  - `decide_proof(p_proof_id, p_approved, p_comment)` records the customer's
+    decision on a pending proof and, in the same transaction, completes the
+    order (approved) or sends it back to in progress (changes requested).
+    Returns the updated proof.
+
+  ## Security
+  - RLS enabled on both tables
+  - Employees can read and write all proofs
+  - Customers can read proofs of their own orders and comment on them
+  - Customers have no UPDATE access to proofs; they record decisions through
+    `decide_proof()`, which only touches the decision fields of a pending proof
+
+  ## Important Notes
+  - Versions are unique per order
+  - Deleting an order removes its proofs and comments
+*/
+
+CREATE TABLE IF NOT EXISTS order_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  attachment_id uuid REFERENCES order_attachments(id) ON DELETE SET NULL,
+  version integer NOT NULL CHECK (version > 0),
+  notes text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'changes_requested')),
+  submitted_by uuid NOT NULL,
+  decided_by uuid,
+  decided_at timestamptz,
+  decision_comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (order_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS proof_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proof_id uuid NOT NULL REFERENCES order_proofs(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL,
+  content text NOT NULL,
+  pin_x numeric CHECK (pin_x IS NULL OR (pin_x >= 0 AND pin_x <= 1)),
+  pin_y numeric CHECK (pin_y IS NULL OR (pin_y >= 0 AND pin_y <= 1)),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_proofs_order_id ON order_proofs(order_id);
+CREATE INDEX IF NOT EXISTS idx_proof_comments_proof_id ON proof_comments(proof_id);
+
+ALTER TABLE order_proofs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE proof_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can manage proofs" ON order_proofs;
+CREATE POLICY "Employees can manage proofs"
+  ON order_proofs FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can view proofs of own orders" ON order_proofs;
+CREATE POLICY "Customers can view proofs of own orders"
+  ON order_proofs FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = order_proofs.order_id AND orders.customer_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Employees can manage proof comments" ON proof_comments;
+CREATE POLICY "Employees can manage proof comments"
+  ON proof_comments FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can view comments on own proofs" ON proof_comments;
+CREATE POLICY "Customers can view comments on own proofs"
+  ON proof_comments FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM order_proofs
+    JOIN orders ON orders.id = order_proofs.order_id
+    WHERE order_proofs.id = proof_comments.proof_id AND orders.customer_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Customers can comment on own proofs" ON proof_comments;
+CREATE POLICY "Customers can comment on own proofs"
+  ON proof_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM order_proofs
+      JOIN orders ON orders.id = order_proofs.order_id
+      WHERE order_proofs.id = proof_comments.proof_id AND orders.customer_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION decide_proof(p_proof_id uuid, p_approved boolean, p_comment text DEFAULT NULL)
+RETURNS order_proofs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proof order_proofs;
+  v_order orders;
+BEGIN
+  SELECT * INTO v_proof FROM order_proofs WHERE id = p_proof_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proof not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_proof.order_id FOR UPDATE;
+
+  IF v_order.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the customer who placed the order can decide on its proofs';
+  END IF;
+
+  IF v_proof.status <> 'pending' THEN
+    RAISE EXCEPTION 'A decision has already been recorded for this proof';
+  END IF;
+
+  IF v_order.status <> 'under_review' THEN
+    RAISE EXCEPTION 'Proofs can only be decided while the order is under review';
+  END IF;
+
+  UPDATE order_proofs
+  SET status = CASE WHEN p_approved THEN 'approved' ELSE 'changes_requested' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_comment = NULLIF(btrim(p_comment), '')
+  WHERE id = p_proof_id
+  RETURNING * INTO v_proof;
+
+  UPDATE orders
+  SET status = CASE WHEN p_approved THEN 'completed' ELSE 'in_progress' END
+  WHERE id = v_order.id;
+
+  RETURN v_proof;
+END;
+$$;
@@ -0,0 +1,223 @@
+/*
+  # Versioned Order Attachments
+
+  ## Overview
+  Every upload used to be a standalone file, so after a few edit rounds it was
+  unclear which DST/PES was current. Attachments are now grouped into logical
+  deliverables, each holding numbered versions. One version per deliverable
+  can be marked as final.
+
+  ## Changes Made
+
+  ### 1. New Table: attachment_groups
+  - `id` (uuid, primary key)
+  - `order_id` (uuid) - order the deliverable belongs to
+  - `name` (text) - deliverable name, defaults to the first uploaded filename
+  - `final_attachment_id` (uuid, nullable) - version marked as final
+  - `created_by` (uuid)
+  - `created_at` / `updated_at`
+
+  ### 2. Order Attachments - New Columns
+  - `group_id` (uuid) - deliverable this file is a version of
+  - `version` (integer, default 1) - version number within the deliverable
+  - `edit_comment_id` (bigint, nullable) - edit request (edit_comments row) this version answers
+
+  ### 3. Functions
+  - `add_order_attachment_version(...)` files an uploaded file under its
+    deliverable in one transaction: it finds the deliverable with the same
+    filename (ignoring case) or creates it, takes the next version number
+    while holding a lock on the deliverable, and inserts the attachment
+
+  ## Security
+  - RLS enabled on attachment_groups, mirroring order_attachments: employees
+    manage all deliverables, customers can read the deliverables of their orders
+  - `add_order_attachment_version` is SECURITY DEFINER so customers can add
+    versions to deliverables they cannot update; it only accepts admins, the
+    order's designer, the customer's sales rep and the customer
+
+  ## Important Notes
+  - Existing attachments are backfilled into one deliverable each, as version 1
+  - Versions are unique per deliverable
+*/
+
+CREATE TABLE IF NOT EXISTS attachment_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  final_attachment_id uuid,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_groups_order_id ON attachment_groups(order_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_attachments' AND column_name = 'group_id'
+  ) THEN
+    ALTER TABLE order_attachments ADD COLUMN group_id uuid REFERENCES attachment_groups(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_attachments' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE order_attachments ADD COLUMN version integer NOT NULL DEFAULT 1;
+    ALTER TABLE order_attachments ADD CONSTRAINT order_attachments_version_positive CHECK (version > 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_attachments' AND column_name = 'edit_comment_id'
+  ) THEN
+    ALTER TABLE order_attachments ADD COLUMN edit_comment_id bigint REFERENCES edit_comments(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'attachment_groups' AND constraint_name = 'attachment_groups_final_attachment_id_fkey'
+  ) THEN
+    ALTER TABLE attachment_groups
+      ADD CONSTRAINT attachment_groups_final_attachment_id_fkey
+      FOREIGN KEY (final_attachment_id) REFERENCES order_attachments(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Backfill: every existing attachment becomes version 1 of its own deliverable
+DO $$
+DECLARE
+  attachment record;
+  new_group_id uuid;
+BEGIN
+  FOR attachment IN
+    SELECT id, order_id, original_filename, uploaded_by, uploaded_at
+    FROM order_attachments
+    WHERE group_id IS NULL
+  LOOP
+    INSERT INTO attachment_groups (order_id, name, created_by, created_at, updated_at)
+    VALUES (attachment.order_id, attachment.original_filename, attachment.uploaded_by, attachment.uploaded_at, attachment.uploaded_at)
+    RETURNING id INTO new_group_id;
+
+    UPDATE order_attachments SET group_id = new_group_id, version = 1 WHERE id = attachment.id;
+  END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_attachments_group_version ON order_attachments(group_id, version);
+
+ALTER TABLE attachment_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can manage attachment groups" ON attachment_groups;
+CREATE POLICY "Employees can manage attachment groups"
+  ON attachment_groups FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can view attachment groups of own orders" ON attachment_groups;
+CREATE POLICY "Customers can view attachment groups of own orders"
+  ON attachment_groups FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = attachment_groups.order_id AND orders.customer_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can create attachment groups on own orders" ON attachment_groups;
+CREATE POLICY "Customers can create attachment groups on own orders"
+  ON attachment_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM orders WHERE orders.id = attachment_groups.order_id AND orders.customer_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION add_order_attachment_version(
+  p_order_id uuid,
+  p_group_id uuid,
+  p_original_filename text,
+  p_stored_filename text,
+  p_file_size bigint,
+  p_mime_type text,
+  p_storage_path text,
+  p_edit_comment_id bigint DEFAULT NULL
+)
+RETURNS order_attachments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_role text;
+  v_group_id uuid := p_group_id;
+  v_version integer;
+  v_attachment order_attachments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT role INTO v_role FROM employees WHERE id = auth.uid();
+
+  IF NOT (
+    v_role = 'admin'
+    OR (v_role = 'designer' AND v_order.assigned_designer_id = auth.uid())
+    OR (v_role = 'sales_rep' AND EXISTS (
+      SELECT 1 FROM customers WHERE customers.id = v_order.customer_id AND customers.assigned_sales_rep_id = auth.uid()
+    ))
+    OR (v_role IS NULL AND v_order.customer_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF v_group_id IS NULL THEN
+    -- Uploads of the same filename wait for each other so they share one deliverable
+    PERFORM pg_advisory_xact_lock(hashtext(p_order_id::text || ':' || lower(p_original_filename)));
+
+    SELECT id INTO v_group_id
+    FROM attachment_groups
+    WHERE order_id = p_order_id AND lower(name) = lower(p_original_filename)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_group_id IS NULL THEN
+      INSERT INTO attachment_groups (order_id, name, created_by)
+      VALUES (p_order_id, p_original_filename, auth.uid())
+      RETURNING id INTO v_group_id;
+    END IF;
+  END IF;
+
+  -- Holding the deliverable's row hands out versions one upload at a time
+  PERFORM 1 FROM attachment_groups WHERE id = v_group_id AND order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deliverable not found for this order';
+  END IF;
+
+  SELECT COALESCE(max(version), 0) + 1 INTO v_version
+  FROM order_attachments
+  WHERE group_id = v_group_id;
+
+  INSERT INTO order_attachments (
+    order_id, original_filename, stored_filename, file_size, mime_type,
+    storage_path, uploaded_by, group_id, version, edit_comment_id
+  )
+  VALUES (
+    p_order_id, p_original_filename, p_stored_filename, p_file_size, p_mime_type,
+    p_storage_path, auth.uid(), v_group_id, v_version, p_edit_comment_id
+  )
+  RETURNING * INTO v_attachment;
+
+  UPDATE attachment_groups SET updated_at = now() WHERE id = v_group_id;
+
+  RETURN v_attachment;
+END;
+$$;
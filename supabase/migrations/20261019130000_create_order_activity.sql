@@ -0,0 +1,244 @@
+/*
+  # Order Activity Log
+
+  ## Overview
+  `updateOrder` overwrites the order row, so there was no record of who changed
+  an order's status, price, designer or payment status, or when. This adds an
+  append-only activity log that is written by database triggers, so every code
+  path (dashboards, services, edge functions) is captured the same way.
+
+  ## Changes Made
+
+  ### 1. New Table: order_activity
+  - `id` (uuid, primary key)
+  - `order_id` (uuid) - order the event belongs to
+  - `actor_id` (uuid, nullable) - auth user that caused the change, null for system jobs
+  - `event_type` (text) - order_created, field_changed, comment_added,
+    attachment_uploaded, attachment_deleted, invoice_linked, invoice_unlinked
+  - `field_name` (text, nullable) - changed column for field_changed events
+  - `old_value` / `new_value` (text, nullable) - values before and after the change
+  - `details` (jsonb) - event specific context (filename, invoice title, ...)
+  - `created_at` (timestamptz)
+
+  ### 2. Triggers
+  - orders: logs creation and every change to a tracked field
+  - order_comments: logs new internal comments
+  - order_attachments: logs uploads and deletes
+  - invoices: logs orders being linked to or removed from an invoice
+
+  ## Security
+  - RLS enabled. There are no INSERT, UPDATE or DELETE policies: rows are only
+    written by the SECURITY DEFINER trigger functions and can never be edited
+  - Employees can read all activity
+  - Customers can read activity on their own orders, excluding internal comments
+    and staff assignment changes
+
+  ## Important Notes
+  - Existing orders have no history before this migration
+*/
+
+CREATE TABLE IF NOT EXISTS order_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  actor_id uuid,
+  event_type text NOT NULL CHECK (event_type IN (
+    'order_created',
+    'field_changed',
+    'comment_added',
+    'attachment_uploaded',
+    'attachment_deleted',
+    'invoice_linked',
+    'invoice_unlinked'
+  )),
+  field_name text,
+  old_value text,
+  new_value text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_activity_order_id_created_at ON order_activity(order_id, created_at DESC);
+
+-- Orders: creation and tracked field changes
+CREATE OR REPLACE FUNCTION log_order_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracked_fields text[] := ARRAY[
+    'status',
+    'payment_status',
+    'total_amount',
+    'assigned_designer_id',
+    'assigned_sales_rep_id',
+    'order_name',
+    'category_id',
+    'custom_width',
+    'custom_height',
+    'quantity',
+    'color_count',
+    'stitch_count',
+    'invoice_url'
+  ];
+  field text;
+  old_row jsonb;
+  new_row jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_activity (order_id, actor_id, event_type, details)
+    VALUES (NEW.id, auth.uid(), 'order_created', jsonb_build_object('status', NEW.status, 'total_amount', NEW.total_amount));
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOREACH field IN ARRAY tracked_fields LOOP
+    IF new_row ? field AND (old_row -> field) IS DISTINCT FROM (new_row -> field) THEN
+      INSERT INTO order_activity (order_id, actor_id, event_type, field_name, old_value, new_value)
+      VALUES (NEW.id, auth.uid(), 'field_changed', field, old_row ->> field, new_row ->> field);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_activity_log ON orders;
+CREATE TRIGGER orders_activity_log
+  AFTER INSERT OR UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION log_order_activity();
+
+-- Internal order comments
+CREATE OR REPLACE FUNCTION log_order_comment_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_activity (order_id, actor_id, event_type, details)
+  VALUES (
+    NEW.order_id,
+    COALESCE(auth.uid(), NEW.author_id),
+    'comment_added',
+    jsonb_build_object('comment_id', NEW.id, 'content', left(NEW.content, 500))
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_comments_activity_log ON order_comments;
+CREATE TRIGGER order_comments_activity_log
+  AFTER INSERT ON order_comments
+  FOR EACH ROW EXECUTE FUNCTION log_order_comment_activity();
+
+-- Attachment uploads and deletes
+CREATE OR REPLACE FUNCTION log_order_attachment_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_activity (order_id, actor_id, event_type, details)
+    VALUES (
+      NEW.order_id,
+      COALESCE(auth.uid(), NEW.uploaded_by),
+      'attachment_uploaded',
+      jsonb_build_object('attachment_id', NEW.id, 'filename', NEW.original_filename, 'version', NEW.version)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip deletes cascading from a deleted order
+  IF EXISTS (SELECT 1 FROM orders WHERE orders.id = OLD.order_id) THEN
+    INSERT INTO order_activity (order_id, actor_id, event_type, details)
+    VALUES (
+      OLD.order_id,
+      auth.uid(),
+      'attachment_deleted',
+      jsonb_build_object('attachment_id', OLD.id, 'filename', OLD.original_filename, 'version', OLD.version)
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_attachments_activity_log ON order_attachments;
+CREATE TRIGGER order_attachments_activity_log
+  AFTER INSERT OR DELETE ON order_attachments
+  FOR EACH ROW EXECUTE FUNCTION log_order_attachment_activity();
+
+-- Invoice linkage
+CREATE OR REPLACE FUNCTION log_invoice_order_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_order text;
+  invoice_details jsonb;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    invoice_details := jsonb_build_object('invoice_id', OLD.id, 'invoice_title', OLD.invoice_title);
+  ELSE
+    invoice_details := jsonb_build_object('invoice_id', NEW.id, 'invoice_title', NEW.invoice_title, 'invoice_status', NEW.status);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    FOR linked_order IN
+      SELECT unnest(COALESCE(NEW.order_ids, '{}'))::text
+      EXCEPT
+      SELECT unnest(CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(OLD.order_ids, '{}') ELSE '{}' END)::text
+    LOOP
+      IF EXISTS (SELECT 1 FROM orders WHERE orders.id::text = linked_order) THEN
+        INSERT INTO order_activity (order_id, actor_id, event_type, details)
+        VALUES (linked_order::uuid, auth.uid(), 'invoice_linked', invoice_details);
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    FOR linked_order IN
+      SELECT unnest(COALESCE(OLD.order_ids, '{}'))::text
+      EXCEPT
+      SELECT unnest(CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(NEW.order_ids, '{}') ELSE '{}' END)::text
+    LOOP
+      IF EXISTS (SELECT 1 FROM orders WHERE orders.id::text = linked_order) THEN
+        INSERT INTO order_activity (order_id, actor_id, event_type, details)
+        VALUES (linked_order::uuid, auth.uid(), 'invoice_unlinked', invoice_details);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoices_order_activity_log ON invoices;
+CREATE TRIGGER invoices_order_activity_log
+  AFTER INSERT OR UPDATE OF order_ids OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION log_invoice_order_activity();
+
+ALTER TABLE order_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view order activity" ON order_activity;
+CREATE POLICY "Employees can view order activity"
+  ON order_activity FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can view activity of own orders" ON order_activity;
+CREATE POLICY "Customers can view activity of own orders"
+  ON order_activity FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM orders WHERE orders.id = order_activity.order_id AND orders.customer_id = auth.uid())
+    AND event_type <> 'comment_added'
+    AND (field_name IS NULL OR field_name NOT IN ('assigned_designer_id', 'assigned_sales_rep_id'))
+  );
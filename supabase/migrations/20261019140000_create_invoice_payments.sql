@@ -0,0 +1,177 @@
+/*
+  # Invoice Payments Ledger
+
+  ## Overview
+  Invoices could only be fully paid or unpaid, and the 2Checkout webhook flipped
+  the whole invoice at once. Wholesale customers pay deposits and balances, so
+  payments are now recorded in a ledger per invoice and the invoice status is
+  derived from it, including a real partially paid state.
+
+  ## Changes Made
+
+  ### 1. Invoices
+  - `status` now also allows `partially_paid`
+
+  ### 2. New Table: invoice_payments
+  - `id` (uuid, primary key)
+  - `invoice_id` (uuid) - invoice the payment is applied to
+  - `amount` (numeric, > 0)
+  - `method` (text) - 2checkout, card, bank_transfer, check, cash, other
+  - `reference` (text, nullable) - gateway reference, check number, transfer id
+  - `paid_at` (timestamptz) - when the money was received
+  - `notes` (text, nullable)
+  - `recorded_by` (uuid, nullable) - admin who recorded an offline payment, null for webhooks
+  - `created_at` (timestamptz)
+
+  ### 3. Status Sync
+  - `refresh_invoice_payment_status` recomputes an invoice's status from its
+    payments (paid, partially_paid or unpaid; cancelled invoices are left alone)
+    and mirrors it onto the payment_status of the invoice's orders
+  - Runs after every insert, update or delete on invoice_payments
+
+  ## Security
+  - RLS enabled on invoice_payments
+  - Employees can view all payments, only admins can record payments
+  - Customers can view payments on their own invoices
+
+  ## Important Notes
+  - Invoices already marked paid are backfilled with a single payment for their
+    full amount so their balance is zero
+  - A gateway reference can only be recorded once per invoice, which makes
+    repeated webhook deliveries harmless
+*/
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoices'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%status%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoices DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoices
+    ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('paid', 'unpaid', 'partially_paid', 'cancelled'));
+END $$;
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('2checkout', 'card', 'bank_transfer', 'check', 'cash', 'other')),
+  reference text,
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  notes text,
+  recorded_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_id ON invoice_payments(invoice_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_payments_invoice_reference
+  ON invoice_payments(invoice_id, method, reference)
+  WHERE reference IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_record record;
+  amount_paid numeric;
+  next_status text;
+BEGIN
+  SELECT id, status, total_amount, order_ids INTO invoice_record
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR invoice_record.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO amount_paid
+  FROM invoice_payments
+  WHERE invoice_id = p_invoice_id;
+
+  IF amount_paid >= invoice_record.total_amount - 0.005 AND amount_paid > 0 THEN
+    next_status := 'paid';
+  ELSIF amount_paid > 0 THEN
+    next_status := 'partially_paid';
+  ELSE
+    next_status := 'unpaid';
+  END IF;
+
+  IF next_status IS DISTINCT FROM invoice_record.status THEN
+    UPDATE invoices SET status = next_status, updated_at = now() WHERE id = p_invoice_id;
+  END IF;
+
+  -- Orders keep their pending_payment marker until money actually arrives
+  IF next_status <> 'unpaid' AND COALESCE(array_length(invoice_record.order_ids, 1), 0) > 0 THEN
+    UPDATE orders
+    SET payment_status = next_status
+    WHERE id::text = ANY (invoice_record.order_ids::text[])
+      AND payment_status IS DISTINCT FROM next_status;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_invoice_payment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_invoice_payment_status(COALESCE(NEW.invoice_id, OLD.invoice_id));
+  IF TG_OP = 'UPDATE' AND NEW.invoice_id IS DISTINCT FROM OLD.invoice_id THEN
+    PERFORM refresh_invoice_payment_status(OLD.invoice_id);
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoice_payments_status_sync ON invoice_payments;
+CREATE TRIGGER invoice_payments_status_sync
+  AFTER INSERT OR UPDATE OR DELETE ON invoice_payments
+  FOR EACH ROW EXECUTE FUNCTION handle_invoice_payment_change();
+
+-- Backfill: invoices already paid get one payment covering the full amount
+INSERT INTO invoice_payments (invoice_id, amount, method, reference, paid_at, notes)
+SELECT
+  invoices.id,
+  invoices.total_amount,
+  CASE WHEN invoices.tco_reference_number IS NOT NULL THEN '2checkout' ELSE 'other' END,
+  invoices.tco_reference_number,
+  invoices.updated_at,
+  'Recorded before the payments ledger existed'
+FROM invoices
+WHERE invoices.status = 'paid'
+  AND invoices.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments WHERE invoice_payments.invoice_id = invoices.id);
+
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view invoice payments" ON invoice_payments;
+CREATE POLICY "Employees can view invoice payments"
+  ON invoice_payments FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can record invoice payments" ON invoice_payments;
+CREATE POLICY "Admins can record invoice payments"
+  ON invoice_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Customers can view payments on own invoices" ON invoice_payments;
+CREATE POLICY "Customers can view payments on own invoices"
+  ON invoice_payments FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM invoices WHERE invoices.id = invoice_payments.invoice_id AND invoices.customer_id = auth.uid()));
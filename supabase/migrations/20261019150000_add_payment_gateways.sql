@@ -0,0 +1,70 @@
+/*
+  # Payment Gateways
+
+  ## Overview
+  Payment links and webhooks were hard-wired to 2Checkout. Invoices can now be
+  paid through whichever gateway was active when the link was created, starting
+  with Stripe Checkout, and gateway webhooks record into the same payments
+  ledger.
+
+  ## Changes Made
+
+  ### 1. Invoices
+  - `payment_gateway` (text, nullable) - gateway the payment link was created
+    with (twoCheckout, stripe)
+  - `gateway_session_id` (text, nullable) - gateway-side checkout id, e.g. the
+    Stripe Checkout Session behind the payment link
+
+  ### 2. Invoice Payments
+  - `method` now also allows `stripe`
+
+  ## Important Notes
+  - Invoices that already have a payment link were created through 2Checkout
+    and are backfilled accordingly
+  - The `tco_*` columns are kept for 2Checkout-specific details
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'payment_gateway'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN payment_gateway text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'gateway_session_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN gateway_session_id text;
+  END IF;
+END $$;
+
+UPDATE invoices
+SET payment_gateway = 'twoCheckout'
+WHERE payment_gateway IS NULL
+  AND (payment_link IS NOT NULL OR tco_reference_number IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_gateway_session_id
+  ON invoices(gateway_session_id)
+  WHERE gateway_session_id IS NOT NULL;
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoice_payments'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%method%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoice_payments DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoice_payments
+    ADD CONSTRAINT invoice_payments_method_check
+    CHECK (method IN ('2checkout', 'stripe', 'card', 'bank_transfer', 'check', 'cash', 'other'));
+END $$;
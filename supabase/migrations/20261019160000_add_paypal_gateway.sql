@@ -0,0 +1,65 @@
+/*
+  # PayPal Gateway
+
+  ## Overview
+  Adds PayPal (Orders v2) as a payment gateway. PayPal transaction ids are kept
+  on the invoice alongside the 2Checkout ones, and PayPal captures are recorded
+  in the payments ledger.
+
+  ## Changes Made
+
+  ### 1. Invoices
+  - `paypal_order_id` (text, nullable) - PayPal order the invoice was paid through
+  - `paypal_capture_id` (text, nullable) - capture (transaction) id of the payment
+  - `paypal_payer_id` (text, nullable) - PayPal account that paid
+
+  ### 2. Invoice Payments
+  - `method` now also allows `paypal`
+
+  ## Important Notes
+  - `payment_gateway` may now be `paypal`; `gateway_session_id` holds the
+    PayPal order id from the moment the payment link is created
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'paypal_order_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN paypal_order_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'paypal_capture_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN paypal_capture_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'paypal_payer_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN paypal_payer_id text;
+  END IF;
+END $$;
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoice_payments'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%method%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoice_payments DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoice_payments
+    ADD CONSTRAINT invoice_payments_method_check
+    CHECK (method IN ('2checkout', 'stripe', 'paypal', 'card', 'bank_transfer', 'check', 'cash', 'other'));
+END $$;
@@ -0,0 +1,65 @@
+/*
+  # Invoice PDF Storage
+
+  ## Overview
+  Invoices are rendered to PDF in the browser and stored so that
+  `orders.invoice_url` finally points at a real document.
+
+  ## Changes Made
+
+  ### 1. Storage Bucket: invoice-pdfs
+  - Private bucket holding one PDF per invoice at `<customer_id>/<invoice_id>.pdf`
+  - `orders.invoice_url` stores that path; downloads use short-lived signed URLs
+
+  ## Security
+  - Employees can read and write every invoice PDF
+  - Customers can read the PDFs in their own folder only
+
+  ## Important Notes
+  - Customers never write to the bucket; invoices created from the checkout are
+    stored the next time staff download or regenerate the PDF
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('invoice-pdfs', 'invoice-pdfs', false, 5242880, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Employees can read invoice PDFs" ON storage.objects;
+CREATE POLICY "Employees can read invoice PDFs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'invoice-pdfs'
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Employees can upload invoice PDFs" ON storage.objects;
+CREATE POLICY "Employees can upload invoice PDFs"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'invoice-pdfs'
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Employees can replace invoice PDFs" ON storage.objects;
+CREATE POLICY "Employees can replace invoice PDFs"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'invoice-pdfs'
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'invoice-pdfs'
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Customers can read own invoice PDFs" ON storage.objects;
+CREATE POLICY "Customers can read own invoice PDFs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'invoice-pdfs'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,125 @@
+/*
+  # Monthly Invoice Runs
+
+  ## Overview
+  Wholesale customers are billed once a month. The `generate-monthly-invoices`
+  edge function bundles each customer's un-invoiced orders completed by the
+  end of the previous month into a draft invoice, which an admin reviews and
+  approves before the payment link is created.
+
+  ## Changes Made
+
+  ### 1. Invoices
+  - `status` now also allows `draft` (not yet visible to the customer, no payment link)
+  - `source` (text) - `manual` for invoices created by staff, `monthly` for the scheduled run
+  - Unique index on (customer_id, month_year) for monthly invoices, so rerunning
+    the job for the same month never bills a customer twice
+
+  ### 2. Status Sync
+  - `refresh_invoice_payment_status` leaves drafts alone, like cancelled invoices
+
+  ## Security
+  - Customers cannot see draft invoices
+
+  ## Important Notes
+  - Schedule the job on the first of each month with pg_cron and pg_net, e.g.
+
+      SELECT cron.schedule(
+        'generate-monthly-invoices',
+        '0 6 1 * *',
+        $$SELECT net.http_post(
+            url := '<SUPABASE_URL>/functions/v1/generate-monthly-invoices',
+            headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>', 'Content-Type', 'application/json'),
+            body := '{}'::jsonb
+          )$$
+      );
+*/
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoices'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%status%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoices DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoices
+    ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('draft', 'paid', 'unpaid', 'partially_paid', 'cancelled'));
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE invoices
+      ADD COLUMN source text NOT NULL DEFAULT 'manual'
+      CHECK (source IN ('manual', 'monthly'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_monthly_customer_month
+  ON invoices(customer_id, month_year)
+  WHERE source = 'monthly';
+
+CREATE OR REPLACE FUNCTION refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_record record;
+  amount_paid numeric;
+  next_status text;
+BEGIN
+  SELECT id, status, total_amount, order_ids INTO invoice_record
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR invoice_record.status IN ('cancelled', 'draft') THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO amount_paid
+  FROM invoice_payments
+  WHERE invoice_id = p_invoice_id;
+
+  IF amount_paid >= invoice_record.total_amount - 0.005 AND amount_paid > 0 THEN
+    next_status := 'paid';
+  ELSIF amount_paid > 0 THEN
+    next_status := 'partially_paid';
+  ELSE
+    next_status := 'unpaid';
+  END IF;
+
+  IF next_status IS DISTINCT FROM invoice_record.status THEN
+    UPDATE invoices SET status = next_status, updated_at = now() WHERE id = p_invoice_id;
+  END IF;
+
+  -- Orders keep their pending_payment marker until money actually arrives
+  IF next_status <> 'unpaid' AND COALESCE(array_length(invoice_record.order_ids, 1), 0) > 0 THEN
+    UPDATE orders
+    SET payment_status = next_status
+    WHERE id::text = ANY (invoice_record.order_ids::text[])
+      AND payment_status IS DISTINCT FROM next_status;
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Customers cannot see draft invoices" ON invoices;
+CREATE POLICY "Customers cannot see draft invoices"
+  ON invoices AS RESTRICTIVE FOR SELECT
+  TO authenticated
+  USING (
+    status <> 'draft'
+    OR EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  );
@@ -0,0 +1,169 @@
+/*
+  # Invoice Credit Notes
+
+  ## Overview
+  2Checkout notifies refunds, chargebacks and reversed payments, and admins
+  sometimes refund part of an invoice by hand. Each of these is recorded as a
+  credit note against the invoice, and the invoice status is derived from
+  payments and credit notes together.
+
+  ## Changes Made
+
+  ### 1. Invoices
+  - `status` now also allows `refunded` (fully credited) and `charged_back`
+    (money taken back by a chargeback and not paid again)
+
+  ### 2. New Table: invoice_credit_notes
+  - `id` (uuid, primary key)
+  - `invoice_id` (uuid) - invoice the credit applies to
+  - `kind` (text) - refund, chargeback or reversal
+  - `amount` (numeric, > 0)
+  - `method` (text) - how the money went back: 2checkout, card, bank_transfer, check, cash, other
+  - `reference` (text, nullable) - gateway reference or refund transaction id
+  - `reason` (text, nullable)
+  - `issued_at` (timestamptz)
+  - `issued_by` (uuid, nullable) - admin who issued a manual credit, null for webhooks
+  - `created_at` (timestamptz)
+
+  ### 3. Status Sync
+  - Refunds and reversals reduce both the money kept and the amount owed
+  - Chargebacks only reduce the money kept, so the customer owes it again
+  - `refresh_invoice_payment_status` now yields paid, partially_paid, unpaid,
+    refunded or charged_back and mirrors it onto the invoice's orders
+  - Runs after every change to invoice_credit_notes as well as invoice_payments
+
+  ## Security
+  - RLS enabled on invoice_credit_notes
+  - Employees can view all credit notes, only admins can issue them
+  - Customers can view credit notes on their own invoices
+
+  ## Important Notes
+  - A gateway reference can only be credited once per invoice and kind, which
+    makes repeated webhook deliveries harmless
+*/
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoices'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%status%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoices DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoices
+    ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('draft', 'paid', 'unpaid', 'partially_paid', 'refunded', 'charged_back', 'cancelled'));
+END $$;
+
+CREATE TABLE IF NOT EXISTS invoice_credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('refund', 'chargeback', 'reversal')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('2checkout', 'stripe', 'paypal', 'card', 'bank_transfer', 'check', 'cash', 'other')),
+  reference text,
+  reason text,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  issued_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_credit_notes_invoice_id ON invoice_credit_notes(invoice_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_credit_notes_invoice_reference
+  ON invoice_credit_notes(invoice_id, kind, method, reference)
+  WHERE reference IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_record record;
+  amount_paid numeric;
+  amount_credited numeric;
+  amount_charged_back numeric;
+  net_paid numeric;
+  amount_due numeric;
+  next_status text;
+BEGIN
+  SELECT id, status, total_amount, order_ids INTO invoice_record
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR invoice_record.status IN ('cancelled', 'draft') THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO amount_paid
+  FROM invoice_payments
+  WHERE invoice_id = p_invoice_id;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE kind IN ('refund', 'reversal')), 0),
+    COALESCE(SUM(amount) FILTER (WHERE kind = 'chargeback'), 0)
+  INTO amount_credited, amount_charged_back
+  FROM invoice_credit_notes
+  WHERE invoice_id = p_invoice_id;
+
+  net_paid := amount_paid - amount_credited - amount_charged_back;
+  amount_due := invoice_record.total_amount - amount_credited;
+
+  IF amount_credited > 0 AND amount_due <= 0.005 THEN
+    next_status := 'refunded';
+  ELSIF net_paid >= amount_due - 0.005 AND net_paid > 0 THEN
+    next_status := 'paid';
+  ELSIF amount_charged_back > 0 THEN
+    next_status := 'charged_back';
+  ELSIF net_paid > 0 THEN
+    next_status := 'partially_paid';
+  ELSE
+    next_status := 'unpaid';
+  END IF;
+
+  IF next_status IS DISTINCT FROM invoice_record.status THEN
+    UPDATE invoices SET status = next_status, updated_at = now() WHERE id = p_invoice_id;
+  END IF;
+
+  -- Orders keep their pending_payment marker until money actually arrives
+  IF next_status <> 'unpaid' AND COALESCE(array_length(invoice_record.order_ids, 1), 0) > 0 THEN
+    UPDATE orders
+    SET payment_status = next_status
+    WHERE id::text = ANY (invoice_record.order_ids::text[])
+      AND payment_status IS DISTINCT FROM next_status;
+  END IF;
+END;
+$$;
+
+-- handle_invoice_payment_change only relies on invoice_id, so both ledgers share it
+DROP TRIGGER IF EXISTS invoice_credit_notes_status_sync ON invoice_credit_notes;
+CREATE TRIGGER invoice_credit_notes_status_sync
+  AFTER INSERT OR UPDATE OR DELETE ON invoice_credit_notes
+  FOR EACH ROW EXECUTE FUNCTION handle_invoice_payment_change();
+
+ALTER TABLE invoice_credit_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view invoice credit notes" ON invoice_credit_notes;
+CREATE POLICY "Employees can view invoice credit notes"
+  ON invoice_credit_notes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can issue invoice credit notes" ON invoice_credit_notes;
+CREATE POLICY "Admins can issue invoice credit notes"
+  ON invoice_credit_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Customers can view credit notes on own invoices" ON invoice_credit_notes;
+CREATE POLICY "Customers can view credit notes on own invoices"
+  ON invoice_credit_notes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM invoices WHERE invoices.id = invoice_credit_notes.invoice_id AND invoices.customer_id = auth.uid()));
@@ -0,0 +1,75 @@
+/*
+  # Payment Webhook Event Store
+
+  ## Overview
+  Gateway notifications were processed inline and only logged, so a redelivered
+  or out-of-order notification could be processed twice and a failed one was
+  lost. Every inbound payment notification is now stored before it is processed,
+  deduplicated by its gateway key, and failed events can be replayed by admins.
+
+  ## Changes Made
+
+  ### 1. New Table: payment_webhook_events
+  - `id` (uuid, primary key)
+  - `gateway` (text) - twoCheckout, stripe or paypal
+  - `event_key` (text, nullable) - dedupe key: REFNO plus message type for
+    2Checkout, with the amount added for partial refunds and chargebacks;
+    the event id for Stripe and PayPal; null for rejected deliveries
+  - `event_type` (text, nullable) - ORDERSTATUS / message type / event type
+  - `reference` (text, nullable) - gateway reference of the payment
+  - `invoice_id` (uuid, nullable) - invoice the event was applied to
+  - `raw_payload` (text) - body exactly as received
+  - `content_type` (text, nullable) - needed to parse the payload again on replay
+  - `signature_valid` (boolean)
+  - `status` (text) - received, processing, processed, ignored, failed or rejected
+  - `error` (text, nullable) - why the last attempt failed
+  - `attempts` (integer) - processing attempts, including replays
+  - `deliveries` (integer) - how many times the gateway sent this event
+  - `received_at`, `processed_at`, `last_replayed_at` (timestamptz)
+  - `replayed_by` (uuid, nullable) - admin who last replayed the event
+
+  ## Security
+  - RLS enabled; only admins can read events
+  - Events are written by the webhook functions and replayed through the
+    `replay-webhook-event` function, both with the service role
+
+  ## Important Notes
+  - The unique (gateway, event_key) index only covers deliveries with a valid
+    signature, so a forged notification can never block the real one
+*/
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  gateway text NOT NULL CHECK (gateway IN ('twoCheckout', 'stripe', 'paypal')),
+  event_key text,
+  event_type text,
+  reference text,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  raw_payload text NOT NULL,
+  content_type text,
+  signature_valid boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed', 'rejected')),
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  deliveries integer NOT NULL DEFAULT 1,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  last_replayed_at timestamptz,
+  replayed_by uuid
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_webhook_events_key
+  ON payment_webhook_events(gateway, event_key)
+  WHERE signature_valid AND event_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status ON payment_webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_received_at ON payment_webhook_events(received_at DESC);
+
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment webhook events" ON payment_webhook_events;
+CREATE POLICY "Admins can view payment webhook events"
+  ON payment_webhook_events FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
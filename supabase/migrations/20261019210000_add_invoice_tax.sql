@@ -0,0 +1,117 @@
+/*
+  # Invoice Tax
+
+  ## Overview
+  `VITE_TAX_RATE` was configured but never charged. Tax is now calculated per
+  line from the customer's tax region (falling back to the business-wide rate)
+  unless the customer is tax exempt, and invoices keep the subtotal, tax and
+  total separately.
+
+  ## Changes Made
+
+  ### 1. Customers
+  - `tax_region` (text, nullable) - region code the tax rules are keyed by,
+    e.g. `US-CA` or `GB`
+  - `tax_exempt` (boolean) - no tax is charged when true
+  - `tax_exemption_id` (text, nullable) - certificate or VAT number on file
+
+  ### 2. Invoices
+  - `subtotal` (numeric) - sum of the line items before tax
+  - `tax_amount` (numeric) - tax charged on top of the subtotal
+  - `tax_rate` (numeric) - percentage applied when the invoice was issued
+  - `tax_region` (text, nullable) - region the rate was taken from
+  - `total_amount` keeps meaning the amount due, i.e. subtotal + tax
+
+  ## Security
+  - Only employees can change a customer's tax region or exempt status
+
+  ## Important Notes
+  - Existing invoices are backfilled with their total as the subtotal and no tax
+  - Drafts from the monthly run are created without tax; it is added when an
+    admin approves the draft
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'tax_region'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN tax_region text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'tax_exempt'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN tax_exempt boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'tax_exemption_id'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN tax_exemption_id text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'subtotal'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN subtotal numeric(10,2);
+    UPDATE invoices SET subtotal = total_amount;
+    ALTER TABLE invoices ALTER COLUMN subtotal SET NOT NULL;
+    ALTER TABLE invoices ALTER COLUMN subtotal SET DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_amount'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_rate'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_rate numeric(6,3) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_region'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_region text;
+  END IF;
+END $$;
+
+-- Customers may edit their own profile, but not whether or how they are taxed
+CREATE OR REPLACE FUNCTION protect_customer_tax_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.tax_region IS DISTINCT FROM OLD.tax_region
+      OR NEW.tax_exempt IS DISTINCT FROM OLD.tax_exempt
+      OR NEW.tax_exemption_id IS DISTINCT FROM OLD.tax_exemption_id)
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only staff can change tax settings';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS customers_protect_tax_fields ON customers;
+CREATE TRIGGER customers_protect_tax_fields
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_customer_tax_fields();
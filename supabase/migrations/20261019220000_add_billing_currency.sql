@@ -0,0 +1,92 @@
+/*
+  # Billing Currency
+
+  ## Overview
+  UK and EU customers are billed in their own currency. Order totals and stock
+  design prices stay in the base currency (`VITE_CURRENCY`); invoices are
+  converted with the exchange-rate table in `VITE_EXCHANGE_RATES` when they are
+  issued and keep the currency and rate they were issued with.
+
+  ## Changes Made
+
+  ### 1. Customers
+  - `billing_currency` (text) - ISO 4217 code the customer is invoiced in
+
+  ### 2. Invoices
+  - `currency` (text) - ISO 4217 code of every amount on the invoice, its
+    payments and its credit notes
+  - `exchange_rate` (numeric) - units of `currency` per unit of the base
+    currency at the time the invoice was issued
+
+  ## Security
+  - Only employees can change a customer's billing currency; the tax field
+    guard from the previous migration now covers it too
+
+  ## Important Notes
+  - Existing customers and invoices default to USD at a rate of 1
+  - Monthly drafts are created in the base currency and converted when approved
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'billing_currency'
+  ) THEN
+    ALTER TABLE customers
+      ADD COLUMN billing_currency text NOT NULL DEFAULT 'USD'
+      CHECK (billing_currency ~ '^[A-Z]{3}$');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE invoices
+      ADD COLUMN currency text NOT NULL DEFAULT 'USD'
+      CHECK (currency ~ '^[A-Z]{3}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'exchange_rate'
+  ) THEN
+    ALTER TABLE invoices
+      ADD COLUMN exchange_rate numeric(12,6) NOT NULL DEFAULT 1
+      CHECK (exchange_rate > 0);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS customers_protect_tax_fields ON customers;
+DROP FUNCTION IF EXISTS protect_customer_tax_fields();
+
+-- Customers may edit their own profile, but not how they are taxed or billed
+CREATE OR REPLACE FUNCTION protect_customer_billing_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.tax_region IS DISTINCT FROM OLD.tax_region
+      OR NEW.tax_exempt IS DISTINCT FROM OLD.tax_exempt
+      OR NEW.tax_exemption_id IS DISTINCT FROM OLD.tax_exemption_id
+      OR NEW.billing_currency IS DISTINCT FROM OLD.billing_currency)
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only staff can change tax and billing settings';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS customers_protect_billing_fields ON customers;
+CREATE TRIGGER customers_protect_billing_fields
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_customer_billing_fields();
@@ -0,0 +1,251 @@
+/*
+  # Discount Codes
+
+  ## Overview
+  Admins can create coupon codes that customers apply at checkout. A code takes
+  a percentage or a fixed amount off the stock designs it applies to, and every
+  checkout that uses one is recorded as a redemption for reporting.
+
+  ## Changes Made
+
+  ### 1. New Table: discount_codes
+  - `id` (uuid, primary key)
+  - `code` (text, unique) - what customers type, stored upper case
+  - `description` (text, nullable)
+  - `discount_type` (text) - `percentage` or `fixed`
+  - `discount_value` (numeric, > 0) - percent off, or an amount in the base
+    currency spread across the eligible items
+  - `category_id` (uuid, nullable) - only designs in this category qualify
+  - `stock_design_id` (uuid, nullable) - only this design qualifies
+  - `minimum_spend` (numeric) - cart subtotal required before discount
+  - `expires_at` (timestamptz, nullable)
+  - `max_redemptions` (integer, nullable) - uses across all customers
+  - `max_redemptions_per_customer` (integer, nullable)
+  - `is_active` (boolean)
+  - `created_by` (uuid, nullable), `created_at`, `updated_at`
+
+  ### 2. New Table: discount_redemptions
+  - `id` (uuid, primary key)
+  - `discount_code_id` (uuid) - code that was used
+  - `customer_id` (uuid) - customer who used it
+  - `order_ids` (uuid[]) - orders created by the checkout
+  - `subtotal` (numeric) - eligible and ineligible items before discount
+  - `discount_amount` (numeric) - total taken off
+  - `created_at` (timestamptz)
+
+  ### 3. Orders
+  - `discount_code_id` (uuid, nullable) - code applied to the order
+  - `discount_amount` (numeric) - amount already taken off `total_amount`
+
+  ### 4. Functions
+  - `get_discount_code(p_code)` returns a usable code for the signed-in
+    customer or raises the reason it cannot be used
+  - `redeem_discount_code(p_code, p_order_ids)` checks the code again, with the
+    code row locked so usage limits hold under concurrent checkouts, and
+    records the redemption for the customer's discounted orders
+  - Deleting an order removes the redemptions that include it, so a failed
+    checkout gives the use back
+
+  ## Security
+  - RLS enabled on both tables
+  - Only admins manage codes; customers never read the code list and go
+    through `get_discount_code` instead
+  - Admins can view all redemptions, customers only their own; redemptions are
+    only written by `redeem_discount_code`
+
+  ## Important Notes
+  - Amounts are in the base currency, like order totals
+  - Codes that have been redeemed cannot be deleted, only deactivated, so the
+    redemption history stays complete
+*/
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]+$'),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  stock_design_id uuid REFERENCES stock_designs(id) ON DELETE CASCADE,
+  minimum_spend numeric(10,2) NOT NULL DEFAULT 0 CHECK (minimum_spend >= 0),
+  expires_at timestamptz,
+  max_redemptions integer CHECK (max_redemptions > 0),
+  max_redemptions_per_customer integer CHECK (max_redemptions_per_customer > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  discount_code_id uuid NOT NULL REFERENCES discount_codes(id),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  order_ids uuid[] NOT NULL DEFAULT '{}',
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code ON discount_redemptions(discount_code_id);
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_customer ON discount_redemptions(discount_code_id, customer_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_code_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount_code_id uuid REFERENCES discount_codes(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+  END IF;
+END $$;
+
+-- Raises the reason a code cannot be used by the customer right now
+CREATE OR REPLACE FUNCTION assert_discount_code_usable(p_code discount_codes, p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used_count integer;
+BEGIN
+  IF NOT p_code.is_active THEN
+    RAISE EXCEPTION 'This discount code is no longer active';
+  END IF;
+
+  IF p_code.expires_at IS NOT NULL AND p_code.expires_at <= now() THEN
+    RAISE EXCEPTION 'This discount code has expired';
+  END IF;
+
+  IF p_code.max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO used_count FROM discount_redemptions WHERE discount_code_id = p_code.id;
+    IF used_count >= p_code.max_redemptions THEN
+      RAISE EXCEPTION 'This discount code has reached its usage limit';
+    END IF;
+  END IF;
+
+  IF p_code.max_redemptions_per_customer IS NOT NULL THEN
+    SELECT count(*) INTO used_count
+    FROM discount_redemptions
+    WHERE discount_code_id = p_code.id AND customer_id = p_customer_id;
+    IF used_count >= p_code.max_redemptions_per_customer THEN
+      RAISE EXCEPTION 'You have already used this discount code';
+    END IF;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_discount_code(p_code text)
+RETURNS discount_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code_record discount_codes;
+BEGIN
+  SELECT * INTO code_record FROM discount_codes WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code not found';
+  END IF;
+
+  PERFORM assert_discount_code_usable(code_record, auth.uid());
+  RETURN code_record;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_discount_code(p_code text, p_order_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code_record discount_codes;
+  order_count integer;
+  order_subtotal numeric;
+  order_discount numeric;
+  redemption_id uuid;
+BEGIN
+  SELECT * INTO code_record FROM discount_codes WHERE code = upper(trim(p_code)) FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code not found';
+  END IF;
+
+  PERFORM assert_discount_code_usable(code_record, auth.uid());
+
+  SELECT
+    count(*),
+    COALESCE(SUM(total_amount + discount_amount), 0),
+    COALESCE(SUM(discount_amount) FILTER (WHERE discount_code_id = code_record.id), 0)
+  INTO order_count, order_subtotal, order_discount
+  FROM orders
+  WHERE id = ANY (p_order_ids)
+    AND customer_id = auth.uid()
+    AND payment_status = 'unpaid';
+
+  IF order_count = 0 OR order_count <> COALESCE(array_length(p_order_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Discount codes can only be applied to your own unpaid orders';
+  END IF;
+
+  IF order_subtotal < code_record.minimum_spend THEN
+    RAISE EXCEPTION 'Spend at least % to use this discount code', code_record.minimum_spend;
+  END IF;
+
+  INSERT INTO discount_redemptions (discount_code_id, customer_id, order_ids, subtotal, discount_amount)
+  VALUES (code_record.id, auth.uid(), p_order_ids, order_subtotal, order_discount)
+  RETURNING id INTO redemption_id;
+
+  RETURN redemption_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_order_discount_redemptions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM discount_redemptions WHERE OLD.id = ANY (order_ids);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_release_discount_redemptions ON orders;
+CREATE TRIGGER orders_release_discount_redemptions
+  AFTER DELETE ON orders
+  FOR EACH ROW EXECUTE FUNCTION release_order_discount_redemptions();
+
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage discount codes" ON discount_codes;
+CREATE POLICY "Admins can manage discount codes"
+  ON discount_codes FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view discount redemptions" ON discount_redemptions;
+CREATE POLICY "Admins can view discount redemptions"
+  ON discount_redemptions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Customers can view own discount redemptions" ON discount_redemptions;
+CREATE POLICY "Customers can view own discount redemptions"
+  ON discount_redemptions FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
@@ -0,0 +1,227 @@
+/*
+  # Customer Account Credit
+
+  ## Overview
+  Customers can hold a prepaid balance with us. Admins top it up when money is
+  received in advance and adjust it by hand, and checkout or invoice generation
+  can settle new invoices from it before a payment link is created for any
+  remainder. Every movement is kept in a ledger, so the balance is always the
+  sum of its entries.
+
+  ## Changes Made
+
+  ### 1. New Table: customer_credit_entries
+  - `id` (uuid, primary key)
+  - `customer_id` (uuid) - customer the credit belongs to
+  - `kind` (text) - `top_up`, `consumption` or `adjustment`
+  - `amount` (numeric) - signed; top-ups are positive, consumption negative,
+    adjustments either
+  - `currency` (text) - balances are kept per currency
+  - `invoice_id` (uuid, nullable) - invoice a consumption paid
+  - `reference` (text, nullable) - bank transfer id, receipt number
+  - `notes` (text, nullable)
+  - `created_by` (uuid, nullable) - admin or customer who caused the entry
+  - `created_at` (timestamptz)
+
+  ### 2. Invoice Payments
+  - `method` now also allows `account_credit`
+
+  ### 3. Functions
+  - `get_customer_credit_balance(p_customer_id, p_currency)` sums the ledger
+    for the customer themselves or an employee
+  - `apply_customer_credit(p_invoice_id, p_amount)` pays part or all of an
+    invoice from the customer's balance in the invoice currency; it records a
+    consumption entry and a matching invoice payment in one transaction
+  - A trigger stops any entry that would take a balance below zero
+
+  ## Security
+  - RLS enabled on customer_credit_entries
+  - Employees can view all entries, customers only their own
+  - Only admins can add top-ups and adjustments directly; consumption is only
+    written by `apply_customer_credit`, which the invoice's customer or an
+    admin may call
+
+  ## Important Notes
+  - Deleting an invoice deletes the consumption entries that paid it, which
+    gives the credit back
+*/
+
+CREATE TABLE IF NOT EXISTS customer_credit_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('top_up', 'consumption', 'adjustment')),
+  amount numeric(10,2) NOT NULL CHECK (amount <> 0),
+  currency text NOT NULL DEFAULT 'USD',
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE,
+  reference text,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (kind <> 'top_up' OR amount > 0),
+  CHECK (kind <> 'consumption' OR (amount < 0 AND invoice_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credit_entries_customer
+  ON customer_credit_entries(customer_id, currency);
+CREATE INDEX IF NOT EXISTS idx_customer_credit_entries_invoice
+  ON customer_credit_entries(invoice_id)
+  WHERE invoice_id IS NOT NULL;
+
+DO $$
+DECLARE
+  constraint_record record;
+BEGIN
+  FOR constraint_record IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'invoice_payments'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ILIKE '%method%'
+  LOOP
+    EXECUTE format('ALTER TABLE invoice_payments DROP CONSTRAINT %I', constraint_record.conname);
+  END LOOP;
+
+  ALTER TABLE invoice_payments
+    ADD CONSTRAINT invoice_payments_method_check
+    CHECK (method IN ('2checkout', 'stripe', 'paypal', 'account_credit', 'card', 'bank_transfer', 'check', 'cash', 'other'));
+END $$;
+
+CREATE OR REPLACE FUNCTION get_customer_credit_balance(p_customer_id uuid, p_currency text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM customer_credit_entries
+  WHERE customer_id = p_customer_id
+    AND currency = upper(p_currency)
+    AND (
+      p_customer_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+    );
+$$;
+
+-- Serialises entries per customer so two consumptions cannot both spend the same balance
+CREATE OR REPLACE FUNCTION enforce_customer_credit_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_balance numeric;
+BEGIN
+  NEW.currency := upper(NEW.currency);
+
+  PERFORM 1 FROM customers WHERE id = NEW.customer_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO current_balance
+  FROM customer_credit_entries
+  WHERE customer_id = NEW.customer_id AND currency = NEW.currency;
+
+  IF current_balance + NEW.amount < -0.005 THEN
+    RAISE EXCEPTION 'Account credit cannot go below zero (available: % %)', current_balance, NEW.currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS customer_credit_entries_enforce_balance ON customer_credit_entries;
+CREATE TRIGGER customer_credit_entries_enforce_balance
+  BEFORE INSERT ON customer_credit_entries
+  FOR EACH ROW EXECUTE FUNCTION enforce_customer_credit_balance();
+
+CREATE OR REPLACE FUNCTION apply_customer_credit(p_invoice_id uuid, p_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_record record;
+  amount_paid numeric;
+  amount_charged_back numeric;
+  balance_due numeric;
+  entry_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be greater than 0';
+  END IF;
+
+  SELECT id, customer_id, total_amount, currency, status INTO invoice_record
+  FROM invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice_record.customer_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to pay this invoice from account credit';
+  END IF;
+
+  IF invoice_record.status IN ('cancelled', 'draft', 'refunded') THEN
+    RAISE EXCEPTION 'Account credit cannot be applied to a % invoice', invoice_record.status;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO amount_paid
+  FROM invoice_payments
+  WHERE invoice_id = p_invoice_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO amount_charged_back
+  FROM invoice_credit_notes
+  WHERE invoice_id = p_invoice_id AND kind = 'chargeback';
+
+  -- Refunds lower what is owed and what was kept alike, so only chargebacks reopen the balance
+  balance_due := invoice_record.total_amount - amount_paid + amount_charged_back;
+
+  IF p_amount > balance_due + 0.005 THEN
+    RAISE EXCEPTION 'Credit exceeds the outstanding balance of % %', round(balance_due, 2), COALESCE(invoice_record.currency, 'USD');
+  END IF;
+
+  INSERT INTO customer_credit_entries (customer_id, kind, amount, currency, invoice_id, notes, created_by)
+  VALUES (
+    invoice_record.customer_id,
+    'consumption',
+    -round(p_amount, 2),
+    COALESCE(invoice_record.currency, 'USD'),
+    p_invoice_id,
+    'Applied to invoice',
+    auth.uid()
+  )
+  RETURNING id INTO entry_id;
+
+  INSERT INTO invoice_payments (invoice_id, amount, method, reference, notes, recorded_by)
+  VALUES (p_invoice_id, round(p_amount, 2), 'account_credit', entry_id::text, 'Paid from account credit', auth.uid());
+
+  RETURN entry_id;
+END;
+$$;
+
+ALTER TABLE customer_credit_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view customer credit" ON customer_credit_entries;
+CREATE POLICY "Employees can view customer credit"
+  ON customer_credit_entries FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Customers can view own credit" ON customer_credit_entries;
+CREATE POLICY "Customers can view own credit"
+  ON customer_credit_entries FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can add customer credit" ON customer_credit_entries;
+CREATE POLICY "Admins can add customer credit"
+  ON customer_credit_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    kind IN ('top_up', 'adjustment')
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin')
+  );
@@ -0,0 +1,232 @@
+/*
+  # Invoice Dunning
+
+  ## Overview
+  Unpaid invoices sat in the admin list until someone noticed. The
+  `send-invoice-reminders` edge function now walks a configurable reminder
+  schedule: each step sends the customer an in-app notification and an email
+  with the invoice's payment link, can escalate to the assigned sales rep and
+  can put the customer on hold. Orders from customers on hold wait for admin
+  approval before any work starts.
+
+  ## Changes Made
+
+  ### 1. New Table: dunning_steps
+  - `id` (uuid, primary key)
+  - `days_after` (integer, unique) - days after the invoice was created
+  - `escalate_to_sales_rep` (boolean) - alert the customer's sales rep
+    (admins when none is assigned)
+  - `hold_customer` (boolean) - put the customer on hold
+  - `is_active` (boolean)
+  - `created_at`, `updated_at`
+  - Seeded with reminders at 3, 7 and 14 days, escalating at 14
+
+  ### 2. New Table: invoice_reminders
+  - `id` (uuid, primary key)
+  - `invoice_id` (uuid) - invoice the reminder was for
+  - `days_after` (integer) - schedule step that was sent
+  - `emailed` (boolean), `email_error` (text, nullable)
+  - `escalated_to` (uuid, nullable) - employee who was alerted
+  - `customer_held` (boolean) - the step put the customer on hold
+  - `created_at` (timestamptz)
+  - Unique on (invoice_id, days_after), so a step is only ever sent once
+
+  ### 3. Invoices
+  - `dunning_paused` (boolean) - stop reminders for this invoice
+  - `last_reminder_at` (timestamptz, nullable), `last_reminder_days` (integer, nullable)
+
+  ### 4. Customers
+  - `on_hold` (boolean), `on_hold_reason` (text, nullable), `on_hold_since` (timestamptz, nullable)
+
+  ### 5. Orders
+  - `requires_approval` (boolean) - set on orders created while the customer
+    is on hold; only admins can clear it, and the order cannot move past
+    `new` (other than to `cancelled`) until they do
+  - `approved_by` (uuid, nullable), `approved_at` (timestamptz, nullable)
+
+  ## Security
+  - RLS enabled on both new tables
+  - Admins manage the schedule, employees can view it
+  - Employees can view reminders; they are only written by the edge function
+    with the service role
+
+  ## Important Notes
+  - Schedule the job daily with pg_cron and pg_net, e.g.
+
+      SELECT cron.schedule(
+        'send-invoice-reminders',
+        '0 8 * * *',
+        $$SELECT net.http_post(
+            url := '<SUPABASE_URL>/functions/v1/send-invoice-reminders',
+            headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>', 'Content-Type', 'application/json'),
+            body := '{}'::jsonb
+          )$$
+      );
+
+  - An invoice that is past several steps at once (for example when the job
+    first runs) only gets the latest one
+*/
+
+CREATE TABLE IF NOT EXISTS dunning_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  days_after integer NOT NULL UNIQUE CHECK (days_after > 0),
+  escalate_to_sales_rep boolean NOT NULL DEFAULT false,
+  hold_customer boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO dunning_steps (days_after, escalate_to_sales_rep)
+VALUES (3, false), (7, false), (14, true)
+ON CONFLICT (days_after) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoice_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  days_after integer NOT NULL,
+  emailed boolean NOT NULL DEFAULT false,
+  email_error text,
+  escalated_to uuid,
+  customer_held boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, days_after)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'dunning_paused'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN dunning_paused boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'last_reminder_at'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN last_reminder_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'last_reminder_days'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN last_reminder_days integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'on_hold'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN on_hold boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'on_hold_reason'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN on_hold_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'on_hold_since'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN on_hold_since timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'requires_approval'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN requires_approval boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'approved_by'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN approved_by uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'approved_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN approved_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_requires_approval ON orders(requires_approval) WHERE requires_approval;
+
+-- Orders from customers on hold wait for an admin, whoever places them
+CREATE OR REPLACE FUNCTION enforce_customer_hold_on_orders()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_admin boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF EXISTS (SELECT 1 FROM customers WHERE id = NEW.customer_id AND on_hold) THEN
+      NEW.requires_approval := true;
+      NEW.approved_by := NULL;
+      NEW.approved_at := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- auth.uid() is null for the service role, which is trusted
+  is_admin := auth.uid() IS NULL
+    OR EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin');
+
+  IF OLD.requires_approval AND NOT NEW.requires_approval THEN
+    IF NOT is_admin THEN
+      RAISE EXCEPTION 'Only administrators can approve orders from customers on hold';
+    END IF;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := COALESCE(NEW.approved_at, now());
+  ELSIF NOT OLD.requires_approval AND NEW.requires_approval AND NOT is_admin THEN
+    NEW.requires_approval := false;
+  END IF;
+
+  IF NEW.requires_approval
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status NOT IN ('new', 'cancelled') THEN
+    RAISE EXCEPTION 'This order is awaiting admin approval because the customer is on hold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_enforce_customer_hold ON orders;
+CREATE TRIGGER orders_enforce_customer_hold
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_customer_hold_on_orders();
+
+ALTER TABLE dunning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view dunning steps" ON dunning_steps;
+CREATE POLICY "Employees can view dunning steps"
+  ON dunning_steps FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage dunning steps" ON dunning_steps;
+CREATE POLICY "Admins can manage dunning steps"
+  ON dunning_steps FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Employees can view invoice reminders" ON invoice_reminders;
+CREATE POLICY "Employees can view invoice reminders"
+  ON invoice_reminders FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid()));
@@ -0,0 +1,227 @@
+/*
+  # Quotes Pipeline
+
+  ## Overview
+  Quote requests from the website form used to be emailed and forgotten.
+  `send-contact-email` now stores every quote with its attachment, assigns it
+  to a sales rep and still emails the team. Reps price and send quotes from
+  their dashboard, and an accepted quote becomes a regular custom order.
+
+  ## Changes Made
+
+  ### 1. New Table: quotes
+  - `id` (uuid, primary key)
+  - `quote_number` (text, unique) - `Q-00001` style reference shown to the customer
+  - `full_name`, `email`, `phone` - contact details from the form
+  - `category_id` (uuid, nullable), `custom_width`, `custom_height` (numeric, nullable)
+  - `design_instructions` (text)
+  - `estimated_stitch_count`, `estimated_color_count` (integer, nullable),
+    `complexity_band` (text, nullable) - artwork estimate from the form
+  - `attachment_name`, `attachment_path`, `attachment_mime_type` (text, nullable),
+    `attachment_size` (bigint, nullable) - file in the quote-attachments bucket
+  - `customer_id` (uuid, nullable) - customer account with the same email
+  - `assigned_sales_rep_id` (uuid, nullable)
+  - `stage` (text) - new, priced, sent, accepted, declined or expired
+  - `quoted_price` (numeric, nullable), `valid_until` (date, nullable), `notes` (text, nullable)
+  - `order_id` (uuid, nullable) - order created when the quote was accepted
+  - `stage_changed_at`, `created_at`, `updated_at` (timestamptz)
+
+  ### 2. Storage Bucket: quote-attachments
+  - Private bucket holding the file sent with a quote at `<quote_id>/<filename>`
+
+  ### 3. Stage Guard
+  - `validate_quote_change()` trigger keeps every update on the pipeline: the
+    stage only moves along the allowed transitions, and `order_id` and
+    `customer_id` are only set when a sent quote is accepted with a matching
+    order. Accepted and declined quotes are closed.
+
+  ### 4. Orders
+  - Sales reps and admins can create unpaid custom orders for customers,
+    which is how an accepted quote becomes an order. A sales rep can only
+    create one for a sent quote assigned to them, at the quoted price, on the
+    quote's customer account.
+
+  ## Security
+  - RLS enabled on quotes
+  - Admins manage every quote; sales reps view and update the quotes assigned
+    to them
+  - Quotes are only inserted by the edge function with the service role
+  - Employees can read quote attachments
+
+  ## Important Notes
+  - A quote cannot be priced, sent or accepted without a price
+*/
+
+CREATE SEQUENCE IF NOT EXISTS quote_number_seq;
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_number text NOT NULL UNIQUE DEFAULT 'Q-' || lpad(nextval('quote_number_seq')::text, 5, '0'),
+  full_name text NOT NULL,
+  email text NOT NULL,
+  phone text,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  custom_width numeric(6,2),
+  custom_height numeric(6,2),
+  design_instructions text,
+  estimated_stitch_count integer,
+  estimated_color_count integer,
+  complexity_band text CHECK (complexity_band IN ('simple', 'moderate', 'complex')),
+  attachment_name text,
+  attachment_path text,
+  attachment_mime_type text,
+  attachment_size bigint,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  assigned_sales_rep_id uuid REFERENCES employees(id) ON DELETE SET NULL,
+  stage text NOT NULL DEFAULT 'new' CHECK (stage IN ('new', 'priced', 'sent', 'accepted', 'declined', 'expired')),
+  quoted_price numeric(10,2) CHECK (quoted_price >= 0),
+  valid_until date,
+  notes text,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  stage_changed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT quotes_price_required CHECK (stage IN ('new', 'declined', 'expired') OR quoted_price IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_assigned_sales_rep_id ON quotes(assigned_sales_rep_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_stage ON quotes(stage);
+CREATE INDEX IF NOT EXISTS idx_quotes_email ON quotes(lower(email));
+
+CREATE OR REPLACE FUNCTION touch_quote()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.stage IS DISTINCT FROM OLD.stage THEN
+    NEW.stage_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quotes_touch ON quotes;
+CREATE TRIGGER quotes_touch
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION touch_quote();
+
+-- Mirrors QUOTE_STAGE_TRANSITIONS in quoteService.ts
+CREATE OR REPLACE FUNCTION validate_quote_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  IF OLD.stage IN ('accepted', 'declined')
+    AND (NEW.stage IS DISTINCT FROM OLD.stage
+      OR NEW.order_id IS DISTINCT FROM OLD.order_id
+      OR NEW.customer_id IS DISTINCT FROM OLD.customer_id
+      OR NEW.quoted_price IS DISTINCT FROM OLD.quoted_price) THEN
+    RAISE EXCEPTION 'Quote % is closed', OLD.quote_number;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage AND NOT (
+    (OLD.stage = 'new' AND NEW.stage IN ('priced', 'declined'))
+    OR (OLD.stage = 'priced' AND NEW.stage IN ('sent', 'declined'))
+    OR (OLD.stage = 'sent' AND NEW.stage IN ('accepted', 'declined', 'expired', 'priced'))
+    OR (OLD.stage = 'expired' AND NEW.stage IN ('priced', 'declined'))
+  ) THEN
+    RAISE EXCEPTION 'Quote % cannot move from % to %', OLD.quote_number, OLD.stage, NEW.stage;
+  END IF;
+
+  -- Accepting is the only way to link an order, and it needs one
+  IF (NEW.stage = 'accepted' AND OLD.stage <> 'accepted')
+    OR NEW.order_id IS DISTINCT FROM OLD.order_id THEN
+    IF NEW.stage <> 'accepted' OR NEW.order_id IS NULL THEN
+      RAISE EXCEPTION 'Quote % can only be linked to an order when it is accepted', OLD.quote_number;
+    END IF;
+
+    SELECT * INTO v_order FROM orders WHERE id = NEW.order_id;
+
+    IF NOT FOUND
+      OR v_order.customer_id IS DISTINCT FROM NEW.customer_id
+      OR v_order.total_amount IS DISTINCT FROM NEW.quoted_price THEN
+      RAISE EXCEPTION 'Order does not match quote %', OLD.quote_number;
+    END IF;
+  ELSIF NEW.customer_id IS DISTINCT FROM OLD.customer_id THEN
+    RAISE EXCEPTION 'The customer on quote % is set when it is accepted', OLD.quote_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quotes_validate_change ON quotes;
+CREATE TRIGGER quotes_validate_change
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION validate_quote_change();
+
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage quotes" ON quotes;
+CREATE POLICY "Admins can manage quotes"
+  ON quotes FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Sales reps can view assigned quotes" ON quotes;
+CREATE POLICY "Sales reps can view assigned quotes"
+  ON quotes FOR SELECT
+  TO authenticated
+  USING (assigned_sales_rep_id = auth.uid());
+
+DROP POLICY IF EXISTS "Sales reps can update assigned quotes" ON quotes;
+CREATE POLICY "Sales reps can update assigned quotes"
+  ON quotes FOR UPDATE
+  TO authenticated
+  USING (assigned_sales_rep_id = auth.uid())
+  WITH CHECK (assigned_sales_rep_id = auth.uid());
+
+DROP POLICY IF EXISTS "Sales reps and admins can create customer orders" ON orders;
+CREATE POLICY "Sales reps and admins can create customer orders"
+  ON orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    payment_status = 'unpaid'
+    AND status = 'new'
+    AND order_type = 'custom'
+    AND assigned_designer_id IS NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM employees
+        WHERE employees.id = auth.uid()
+        AND employees.role = 'admin'
+      )
+      OR (
+        assigned_sales_rep_id = auth.uid()
+        AND EXISTS (
+          SELECT 1 FROM quotes
+          JOIN customers ON customers.id = orders.customer_id
+          WHERE quotes.assigned_sales_rep_id = auth.uid()
+            AND quotes.stage = 'sent'
+            AND quotes.order_id IS NULL
+            AND quotes.quoted_price = orders.total_amount
+            AND (quotes.customer_id = customers.id OR lower(quotes.email) = lower(customers.email))
+        )
+      )
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('quote-attachments', 'quote-attachments', false, 20971520)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Employees can read quote attachments" ON storage.objects;
+CREATE POLICY "Employees can read quote attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'quote-attachments'
+    AND EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid())
+  );
@@ -0,0 +1,121 @@
+/*
+  # Order Turnaround Tiers and SLA Tracking
+
+  ## Overview
+  Orders had no due date, so designers worked by `created_at` and rush jobs
+  were missed. Custom orders now carry a turnaround tier (standard, priority
+  or rush) and the due date it sets. Completion is timestamped so late
+  deliveries can be counted, and the admin dashboard stats report SLA breaches.
+
+  ## Changes Made
+
+  ### 1. Orders
+  - `turnaround_tier` (text, default 'standard') - standard, priority or rush
+  - `due_at` (timestamptz, nullable) - when the order is due; stock design
+    orders have no due date
+  - `completed_at` (timestamptz, nullable) - set when the order moves to
+    completed and cleared if it is reopened
+
+  ### 2. Functions
+  - `stamp_order_completion()` trigger keeps `completed_at` in step with status
+  - `calculate_sla_stats()` reports two keys the app merges into the
+    dashboard stats, leaving `calculate_dashboard_stats()` as it is:
+    - `slaBreachedOrders`: open orders past their due date
+    - `lateCompletionsThisMonth`: orders completed this month after their due date
+
+  ## Security
+  - `calculate_sla_stats()` is SECURITY DEFINER so it can count every order,
+    and only answers employees
+
+  ## Important Notes
+  - `calculate_dashboard_stats()` is not defined in these migrations, so
+    redefining it here would drop whatever metrics and access checks the
+    deployed version has; the SLA figures are a separate function instead
+  - Open custom orders get a standard due date counted from when they were
+    placed; completed orders take `updated_at` as their completion time
+  - Tier lengths and surcharges live in the app config
+    (`VITE_TURNAROUND_*`), which sets `due_at` when an order is placed or its
+    tier is changed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'turnaround_tier'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN turnaround_tier text NOT NULL DEFAULT 'standard'
+      CHECK (turnaround_tier IN ('standard', 'priority', 'rush'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'due_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN due_at timestamptz;
+
+    UPDATE orders
+    SET due_at = created_at + interval '72 hours'
+    WHERE order_type = 'custom';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN completed_at timestamptz;
+
+    UPDATE orders
+    SET completed_at = updated_at
+    WHERE status = 'completed';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_due_at ON orders(due_at)
+  WHERE status NOT IN ('completed', 'cancelled');
+
+CREATE OR REPLACE FUNCTION stamp_order_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_stamp_completion ON orders;
+CREATE TRIGGER orders_stamp_completion
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION stamp_order_completion();
+
+CREATE OR REPLACE FUNCTION calculate_sla_stats()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month_start timestamptz := date_trunc('month', now());
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM employees WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only employees can view SLA stats';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'slaBreachedOrders', (
+      SELECT count(*) FROM orders
+      WHERE status NOT IN ('completed', 'cancelled') AND due_at < now()
+    ),
+    'lateCompletionsThisMonth', (
+      SELECT count(*) FROM orders
+      WHERE status = 'completed' AND completed_at >= v_month_start AND completed_at > due_at
+    )
+  );
+END;
+$$;
@@ -0,0 +1,205 @@
+/*
+  # Automatic Designer Assignment
+
+  ## Overview
+  Sales reps assigned designers by hand with no view of who was overloaded.
+  Custom orders are now given a designer when they are placed and again when
+  the customer asks for an edit. Designers are ranked on their open orders,
+  whether the order's category is one of their skills, whether they are out
+  of office, and, for revisions, whether they did the original work. Reps and
+  admins can still change the designer on the order afterwards.
+
+  ## Changes Made
+
+  ### 1. Employees
+  - `skill_category_ids` (uuid[], default '{}') - categories the designer is
+    strongest in; an empty list means no preference
+  - `out_of_office_from` / `out_of_office_until` (date, nullable) - inclusive
+    dates the designer is away; an open-ended absence leaves `until` empty
+  - `auto_assign_enabled` (boolean, default true) - off keeps the designer
+    out of automatic assignment without disabling the account
+
+  ### 2. Orders
+  - `designer_auto_assigned` (boolean, default false) - true while the
+    current designer is the one the engine picked
+
+  ### 3. Functions
+  - `get_designer_assignment_candidates(p_order_id)` ranks every active
+    designer for an order, lowest score first, with the reasons behind it
+  - `auto_assign_designer(p_order_id)` puts the top available candidate on
+    the order and returns their id. The status is left alone; the designer
+    starts the order through the usual status transition.
+
+  ## Security
+  - Both functions are SECURITY DEFINER so a customer placing an order can
+    trigger assignment without reading other orders or employees
+  - Only staff, or the customer who owns the order, can call them
+
+  ## Important Notes
+  - Score = open orders, less 2 for a skill match, less 100 for the designer
+    who did the original work on a revision; ties go to whoever was given
+    an order longest ago
+  - Designers who are out of office today or have auto assignment off are
+    ranked but never picked
+  - Stock design orders, orders awaiting hold approval and orders that
+    already have a designer are left alone; a held order is assigned once
+    an admin approves it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'skill_category_ids'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN skill_category_ids uuid[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'out_of_office_from'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN out_of_office_from date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'out_of_office_until'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN out_of_office_until date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'auto_assign_enabled'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN auto_assign_enabled boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'designer_auto_assigned'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN designer_auto_assigned boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_open_by_designer ON orders(assigned_designer_id)
+  WHERE status NOT IN ('completed', 'cancelled');
+
+CREATE OR REPLACE FUNCTION get_designer_assignment_candidates(p_order_id uuid)
+RETURNS TABLE (
+  designer_id uuid,
+  full_name text,
+  open_orders integer,
+  skill_match boolean,
+  out_of_office boolean,
+  auto_assign_enabled boolean,
+  is_previous_designer boolean,
+  score integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.customer_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM employees WHERE id = auth.uid() AND status = 'active') THEN
+    RAISE EXCEPTION 'Not allowed to assign designers to this order';
+  END IF;
+
+  RETURN QUERY
+  WITH workload AS (
+    SELECT
+      o.assigned_designer_id AS id,
+      count(*) FILTER (WHERE o.status NOT IN ('completed', 'cancelled') AND o.id <> p_order_id)::integer AS open_orders,
+      max(o.created_at) AS last_assigned_at
+    FROM orders o
+    WHERE o.assigned_designer_id IS NOT NULL
+    GROUP BY o.assigned_designer_id
+  ),
+  ranked AS (
+    SELECT
+      e.id,
+      e.full_name,
+      COALESCE(w.open_orders, 0) AS open_orders,
+      (v_order.category_id IS NOT NULL AND v_order.category_id = ANY(e.skill_category_ids)) AS skill_match,
+      (e.out_of_office_from IS NOT NULL
+        AND e.out_of_office_from <= current_date
+        AND (e.out_of_office_until IS NULL OR e.out_of_office_until >= current_date)) AS out_of_office,
+      e.auto_assign_enabled,
+      -- Revisions go back to whoever did the original work when they can take it
+      (v_order.edits > 0 AND e.id = v_order.assigned_designer_id) AS is_previous_designer,
+      w.last_assigned_at
+    FROM employees e
+    LEFT JOIN workload w ON w.id = e.id
+    WHERE e.role = 'designer' AND e.status = 'active'
+  )
+  SELECT
+    r.id,
+    r.full_name,
+    r.open_orders,
+    r.skill_match,
+    r.out_of_office,
+    r.auto_assign_enabled,
+    r.is_previous_designer,
+    (r.open_orders
+      - CASE WHEN r.skill_match THEN 2 ELSE 0 END
+      - CASE WHEN r.is_previous_designer THEN 100 ELSE 0 END)::integer AS score
+  FROM ranked r
+  ORDER BY
+    (r.out_of_office OR NOT r.auto_assign_enabled),
+    score,
+    r.last_assigned_at NULLS FIRST,
+    r.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION auto_assign_designer(p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_designer_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_order.order_type <> 'custom' OR v_order.requires_approval THEN
+    RETURN NULL;
+  END IF;
+
+  -- A designer already on the order keeps it, unless a revision has reopened it
+  IF v_order.assigned_designer_id IS NOT NULL AND NOT (v_order.edits > 0 AND v_order.status = 'new') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT c.designer_id INTO v_designer_id
+  FROM get_designer_assignment_candidates(p_order_id) c
+  WHERE NOT c.out_of_office AND c.auto_assign_enabled
+  LIMIT 1;
+
+  IF v_designer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE orders
+  SET assigned_designer_id = v_designer_id,
+      designer_auto_assigned = true
+  WHERE id = p_order_id;
+
+  RETURN v_designer_id;
+END;
+$$;
@@ -0,0 +1,29 @@
+/*
+  # Realtime Order Changes
+
+  ## Overview
+  The designer and sales rep dashboards have a board view that stays live by
+  listening for order changes. Supabase only broadcasts changes for tables in
+  the `supabase_realtime` publication, so orders are added to it.
+
+  ## Changes Made
+  - `orders` is added to the `supabase_realtime` publication
+
+  ## Security
+  - Realtime applies the existing orders RLS policies, so each user only
+    receives changes to orders they can already read
+
+  ## Important Notes
+  - Safe to run again; the table is only added when it is missing
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+  END IF;
+END $$;
@@ -0,0 +1,126 @@
+/*
+  # Designer Time Tracking
+
+  ## Overview
+  Some customers are billed hourly for complex digitizing, but nothing recorded
+  how long designers spent on an order. Designers now log time against orders,
+  either with a start/stop timer or as manual entries they can correct later.
+  Entries roll up into per-order and per-designer totals and are weighed
+  against the order total on the admin overview.
+
+  ## Changes Made
+
+  ### 1. New Tables
+  - `order_time_entries`
+    - `id` (uuid, primary key)
+    - `order_id` (uuid, references orders, cascade delete)
+    - `designer_id` (uuid, references employees)
+    - `started_at` (timestamptz) - when the work began
+    - `ended_at` (timestamptz, nullable) - empty while the timer is running
+    - `notes` (text, nullable)
+    - `created_at` / `updated_at` (timestamptz)
+
+  ### 2. Constraints
+  - An entry cannot end before it starts
+  - A designer has at most one running timer
+  - An entry stays on the order and designer it was logged for
+
+  ## Security
+  - RLS enabled on `order_time_entries`
+  - Designers see and manage only their own entries, and only log new time
+    on orders assigned to them. They can still stop and correct their own
+    entries after the order is reassigned.
+  - Sales reps can view entries on their orders
+  - Admins can view and manage all entries
+
+  ## Important Notes
+  - Durations are worked out from the timestamps; nothing is stored
+  - The hourly cost used for cost-vs-revenue lives in the app config
+    (`VITE_DESIGNER_HOURLY_COST`)
+*/
+
+CREATE TABLE IF NOT EXISTS order_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  designer_id uuid NOT NULL REFERENCES employees(id),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT order_time_entries_valid_range CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_time_entries_order ON order_time_entries(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_time_entries_designer_started ON order_time_entries(designer_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_time_entries_one_running
+  ON order_time_entries(designer_id) WHERE ended_at IS NULL;
+
+CREATE OR REPLACE FUNCTION touch_order_time_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- The insert policy checks the assignment, so an entry cannot be moved
+  -- onto another order or designer afterwards
+  IF NEW.order_id IS DISTINCT FROM OLD.order_id OR NEW.designer_id IS DISTINCT FROM OLD.designer_id THEN
+    RAISE EXCEPTION 'A time entry cannot be moved to another order or designer';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS order_time_entries_touch ON order_time_entries;
+CREATE TRIGGER order_time_entries_touch
+  BEFORE UPDATE ON order_time_entries
+  FOR EACH ROW EXECUTE FUNCTION touch_order_time_entry();
+
+ALTER TABLE order_time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage time entries" ON order_time_entries;
+CREATE POLICY "Admins can manage time entries"
+  ON order_time_entries FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM employees WHERE employees.id = auth.uid() AND employees.role = 'admin'));
+
+DROP POLICY IF EXISTS "Designers can view own time entries" ON order_time_entries;
+CREATE POLICY "Designers can view own time entries"
+  ON order_time_entries FOR SELECT
+  TO authenticated
+  USING (designer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Designers can log time on assigned orders" ON order_time_entries;
+CREATE POLICY "Designers can log time on assigned orders"
+  ON order_time_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    designer_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM orders WHERE orders.id = order_id AND orders.assigned_designer_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Designers can update own time entries" ON order_time_entries;
+CREATE POLICY "Designers can update own time entries"
+  ON order_time_entries FOR UPDATE
+  TO authenticated
+  USING (designer_id = auth.uid())
+  WITH CHECK (designer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Designers can delete own time entries" ON order_time_entries;
+CREATE POLICY "Designers can delete own time entries"
+  ON order_time_entries FOR DELETE
+  TO authenticated
+  USING (designer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Sales reps can view time on their orders" ON order_time_entries;
+CREATE POLICY "Sales reps can view time on their orders"
+  ON order_time_entries FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = order_time_entries.order_id
+      AND orders.assigned_sales_rep_id = auth.uid()
+  ));
@@ -0,0 +1,90 @@
+/*
+  # Order Status Transitions in the Database
+
+  ## Overview
+  The order status state machine was only checked in the app, so any signed-in
+  client could still write any `orders.status` straight through the API. The
+  same transition table is now enforced by a trigger on `orders`.
+
+  ## Changes Made
+
+  ### 1. Functions
+  - `order_status_transition_allowed(p_from, p_to, p_role)` answers whether a
+    role may move an order between two statuses. It mirrors
+    `orderStatusTransitions` in `src/config/orderStatus.config.ts`; change
+    both together.
+  - `validate_order_status_change()` trigger rejects status changes the
+    signed-in user's role may not make
+
+  ## Security
+  - The actor is the employee role of `auth.uid()`, or `customer` for a
+    customer account; anyone else cannot change an order's status
+  - Changes made by the service role or inside SECURITY DEFINER functions
+    (webhooks, scheduled jobs, RPCs that check access themselves) are trusted
+
+  ## Important Notes
+  - Moving to the current status is always allowed, so updates that send the
+    status unchanged keep working
+*/
+
+CREATE OR REPLACE FUNCTION order_status_transition_allowed(p_from text, p_to text, p_role text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'new' THEN
+      (p_to = 'in_progress' AND p_role IN ('admin', 'sales_rep', 'designer'))
+      OR (p_to IN ('completed', 'cancelled') AND p_role IN ('admin', 'sales_rep'))
+    WHEN 'in_progress' THEN
+      (p_to = 'under_review' AND p_role IN ('admin', 'sales_rep', 'designer'))
+      OR (p_to IN ('new', 'completed', 'cancelled') AND p_role IN ('admin', 'sales_rep'))
+    WHEN 'under_review' THEN
+      (p_to = 'in_progress' AND p_role IN ('admin', 'sales_rep', 'designer', 'customer'))
+      OR (p_to = 'completed' AND p_role IN ('admin', 'sales_rep', 'customer'))
+      OR (p_to = 'cancelled' AND p_role IN ('admin', 'sales_rep'))
+    WHEN 'completed' THEN
+      (p_to = 'new' AND p_role IN ('admin', 'sales_rep', 'customer'))
+      OR (p_to = 'in_progress' AND p_role IN ('admin', 'sales_rep'))
+    WHEN 'cancelled' THEN
+      p_to = 'new' AND p_role IN ('admin', 'sales_rep')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- The service role and SECURITY DEFINER functions run as other database roles
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role INTO v_role FROM employees WHERE id = auth.uid();
+
+  IF v_role IS NULL AND EXISTS (SELECT 1 FROM customers WHERE id = auth.uid()) THEN
+    v_role := 'customer';
+  END IF;
+
+  IF v_role IS NULL OR NOT order_status_transition_allowed(OLD.status, NEW.status, v_role) THEN
+    RAISE EXCEPTION 'Orders cannot move from % to % as %', OLD.status, NEW.status, COALESCE(v_role, 'this user');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_validate_status_change ON orders;
+CREATE TRIGGER orders_validate_status_change
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION validate_order_status_change();